@@ -0,0 +1,525 @@
+#!/usr/bin/env tsx
+
+/**
+ * Unit Tests for Tensor Logic Inference
+ *
+ * Tests for:
+ * 1. Forward chaining to a fixpoint (semi-naive, mutual recursion, semirings)
+ * 2. Backward chaining queries (tabling, partial bindings, proof trees)
+ * 3. Loading facts from Datalog and CSV/TSV text, and decoding results
+ */
+
+import { Tensor, fromMatrix, getElement } from '../src/tensor-logic/core.js';
+
+import {
+  BooleanSemiring,
+  CountingSemiring,
+  MinPlusSemiring,
+} from '../src/tensor-logic/raptl.js';
+
+import { forwardChain, rulesFromProgram } from '../src/tensor-logic/fixpoint.js';
+
+import { backwardChain, parseQuery, proofToString } from '../src/tensor-logic/query.js';
+
+import { createDomain, domainConstants } from '../src/tensor-logic/domains.js';
+
+import {
+  parseDatalogFacts,
+  parseDelimited,
+  loadDatalogFacts,
+  loadDelimitedFacts,
+  decodeTuples,
+  formatDatalogFacts,
+} from '../src/tensor-logic/facts.js';
+
+// ============================================================================
+// TEST UTILITIES
+// ============================================================================
+
+const colors = {
+  reset: '\x1b[0m',
+  green: '\x1b[32m',
+  red: '\x1b[31m',
+  yellow: '\x1b[33m',
+  blue: '\x1b[34m',
+  cyan: '\x1b[36m',
+  magenta: '\x1b[35m',
+};
+
+function log(message: string, color = colors.reset) {
+  console.log(`${color}${message}${colors.reset}`);
+}
+
+function logModule(name: string) {
+  log(`\n${'═'.repeat(70)}`, colors.magenta);
+  log(`  ${name}`, colors.magenta);
+  log(`${'═'.repeat(70)}`, colors.magenta);
+}
+
+function logTest(name: string) {
+  log(`\n▶ ${name}`, colors.blue);
+}
+
+function logSuccess(message: string) {
+  log(`  ✓ ${message}`, colors.green);
+}
+
+function logError(message: string) {
+  log(`  ✗ ${message}`, colors.red);
+}
+
+const EPSILON = 1e-6;
+
+function assertClose(actual: number, expected: number, message: string): boolean {
+  const diff = Math.abs(actual - expected);
+  if (diff <= EPSILON || (expected === Infinity && actual === Infinity) || (expected === -Infinity && actual === -Infinity)) {
+    logSuccess(`${message}: ${actual} ≈ ${expected}`);
+    return true;
+  } else {
+    logError(`${message}: got ${actual}, expected ${expected}`);
+    return false;
+  }
+}
+
+function assert(condition: boolean, message: string): boolean {
+  if (condition) {
+    logSuccess(message);
+    return true;
+  } else {
+    logError(message);
+    return false;
+  }
+}
+
+function assertThrows(fn: () => void, message: string): boolean {
+  try {
+    fn();
+    logError(`${message}: Expected error but none thrown`);
+    return false;
+  } catch {
+    logSuccess(`${message}: Error thrown as expected`);
+    return true;
+  }
+}
+
+// ============================================================================
+// FORWARD CHAINING TESTS
+// ============================================================================
+
+// A chain 0 → 1 → 2 → 3 → 4
+function chainEdges(): Tensor {
+  const n = 5;
+  const rows = Array.from({ length: n }, (_, i) =>
+    Array.from({ length: n }, (_, j) => (j === i + 1 ? 1 : 0))
+  );
+  return fromMatrix('Edge', ['x', 'y'], rows);
+}
+
+const CLOSURE = `
+  Path[x, y] = Edge[x, y]
+  Path[x, z] = Path[x, y] Edge[y, z]
+`;
+
+function testTransitiveClosure(): boolean {
+  logTest('Boolean transitive closure reaches a fixpoint');
+  let passed = true;
+
+  const result = forwardChain(CLOSURE, new Map([['Edge', chainEdges()]]), BooleanSemiring);
+  const path = result.relations.get('Path')!;
+
+  passed = assert(result.converged, 'Converged') && passed;
+  passed = assertClose(getElement(path, 0, 4), 1, 'Path(0, 4) derived') && passed;
+  passed = assertClose(getElement(path, 4, 0), 0, 'No Path(4, 0)') && passed;
+  passed = assertClose(path.data.reduce((a, b) => a + b, 0), 10, 'All 10 forward pairs derived') && passed;
+  // Paths of length 1..4 appear in iterations 1..4; iteration 5 finds nothing new
+  passed = assert(result.iterations === 5, `Five iterations (got ${result.iterations})`) && passed;
+  passed = assert(result.deltaSizes.join(',') === '4,3,2,1,0', `Delta sizes shrink: ${result.deltaSizes.join(',')}`) && passed;
+
+  return passed;
+}
+
+function testSemiNaiveMatchesNaive(): boolean {
+  logTest('Semi-naive evaluation matches naive with fewer joins');
+  let passed = true;
+
+  const facts = new Map([['Edge', chainEdges()]]);
+  const semi = forwardChain(CLOSURE, facts, BooleanSemiring);
+  const naive = forwardChain(CLOSURE, facts, BooleanSemiring, { semiNaive: false });
+
+  const same = semi.relations.get('Path')!.data.every((v, i) => v === naive.relations.get('Path')!.data[i]);
+  passed = assert(same, 'Same closure') && passed;
+  passed = assert(semi.joins < naive.joins, `Fewer joins (${semi.joins} < ${naive.joins})`) && passed;
+
+  return passed;
+}
+
+function testMutualRecursion(): boolean {
+  logTest('Mutual recursion across relations');
+  let passed = true;
+
+  const result = forwardChain(`
+    Odd[x, y] = Edge[x, y]
+    Odd[x, z] = Even[x, y] Edge[y, z]
+    Even[x, z] = Odd[x, y] Edge[y, z]
+  `, new Map([['Edge', chainEdges()]]), BooleanSemiring);
+
+  const odd = result.relations.get('Odd')!;
+  const even = result.relations.get('Even')!;
+  passed = assert(result.converged, 'Converged') && passed;
+  passed = assertClose(getElement(odd, 0, 3), 1, 'Odd-length path 0 → 3') && passed;
+  passed = assertClose(getElement(odd, 0, 2), 0, 'No odd-length path 0 → 2') && passed;
+  passed = assertClose(getElement(even, 0, 4), 1, 'Even-length path 0 → 4') && passed;
+  passed = assertClose(getElement(even, 1, 4), 0, 'No even-length path 1 → 4') && passed;
+
+  return passed;
+}
+
+function testPathCounting(): boolean {
+  logTest('Counting semiring counts paths');
+  let passed = true;
+
+  // Two diamonds in a row: 0 → {1,2} → 3 → {4,5} → 6
+  const edges = fromMatrix('Edge', ['x', 'y'], [
+    [0, 1, 1, 0, 0, 0, 0],
+    [0, 0, 0, 1, 0, 0, 0],
+    [0, 0, 0, 1, 0, 0, 0],
+    [0, 0, 0, 0, 1, 1, 0],
+    [0, 0, 0, 0, 0, 0, 1],
+    [0, 0, 0, 0, 0, 0, 1],
+    [0, 0, 0, 0, 0, 0, 0],
+  ]);
+
+  const semi = forwardChain(CLOSURE, new Map([['Edge', edges]]), CountingSemiring);
+  const naive = forwardChain(CLOSURE, new Map([['Edge', edges]]), CountingSemiring, { semiNaive: false });
+
+  passed = assert(semi.converged, 'Converged on a DAG') && passed;
+  passed = assertClose(getElement(semi.relations.get('Path')!, 0, 3), 2, 'Two paths 0 → 3') && passed;
+  passed = assertClose(getElement(semi.relations.get('Path')!, 0, 6), 4, 'Four paths 0 → 6') && passed;
+  passed = assertClose(getElement(naive.relations.get('Path')!, 0, 6), 4, 'Naive evaluation agrees') && passed;
+
+  return passed;
+}
+
+function testShortestPaths(): boolean {
+  logTest('MinPlus semiring computes shortest paths');
+  let passed = true;
+
+  const I = Infinity;
+  const weights = fromMatrix('Edge', ['x', 'y'], [
+    [I, 4, 1, I],
+    [I, I, I, 1],
+    [I, 2, I, 5],
+    [I, I, I, I],
+  ]);
+
+  const result = forwardChain(CLOSURE, new Map([['Edge', weights]]), MinPlusSemiring);
+  const dist = result.relations.get('Path')!;
+
+  passed = assert(result.converged, 'Converged') && passed;
+  passed = assertClose(getElement(dist, 0, 1), 3, 'dist(0, 1) = 1 + 2') && passed;
+  passed = assertClose(getElement(dist, 0, 3), 4, 'dist(0, 3) = 1 + 2 + 1') && passed;
+  passed = assertClose(getElement(dist, 3, 0), Infinity, 'dist(3, 0) unreachable') && passed;
+
+  return passed;
+}
+
+function testNonConvergence(): boolean {
+  logTest('Divergent programs stop at maxIterations');
+  let passed = true;
+
+  // A cycle has infinitely many paths
+  const cycle = fromMatrix('Edge', ['x', 'y'], [
+    [0, 1],
+    [1, 0],
+  ]);
+  const result = forwardChain(CLOSURE, new Map([['Edge', cycle]]), CountingSemiring, { maxIterations: 6 });
+
+  passed = assert(!result.converged, 'Reports converged: false') && passed;
+  passed = assert(result.iterations === 6, 'Stopped at the cap') && passed;
+
+  return passed;
+}
+
+function testRulesFromProgram(): boolean {
+  logTest('rulesFromProgram');
+  let passed = true;
+
+  const rules = rulesFromProgram('Ancestor(x, z) <- Ancestor(x, y), Parent(y, z)');
+  passed = assert(rules[0].notation === 'ab,bc->ac', `Notation ${rules[0].notation}`) && passed;
+  passed = assert(rules[0].body.join(',') === 'Ancestor,Parent', 'Body relations in order') && passed;
+
+  const stepped = rulesFromProgram('A[x, z] = step(A[x, y] B[y, z])');
+  passed = assert(stepped[0].notation === 'ab,bc->ac', 'Top-level step is unwrapped') && passed;
+
+  passed = assertThrows(() => rulesFromProgram('A[x] = sig(B[x])'), 'Nonlinearities rejected') && passed;
+  passed = assertThrows(() => rulesFromProgram('A[x] = B[x] + C[x]'), 'Sums rejected') && passed;
+  passed = assertThrows(() => forwardChain('A[x] = Missing[x]', new Map()), 'Unknown relation shape rejected') && passed;
+
+  return passed;
+}
+
+// ============================================================================
+// BACKWARD CHAINING TESTS
+// ============================================================================
+
+const PEOPLE = ['Alice', 'Bob', 'Charlie', 'Diana'];
+const PEOPLE_POSITIONS = { Alice: 0, Bob: 1, Charlie: 2, Diana: 3 };
+
+const ANCESTOR = `
+  Ancestor(x, y) <- Parent(x, y)
+  Ancestor(x, z) <- Ancestor(x, y), Parent(y, z)
+`;
+
+function familyFacts(): Map<string, Tensor> {
+  return new Map([
+    ['Parent', fromMatrix('Parent', ['x', 'y'], [
+      [0, 1, 0, 0],
+      [0, 0, 1, 1],
+      [0, 0, 0, 0],
+      [0, 0, 0, 0],
+    ])],
+  ]);
+}
+
+function testGroundQuery(): boolean {
+  logTest('Ground query with proof tree');
+  let passed = true;
+
+  const result = backwardChain(ANCESTOR, familyFacts(), 'Ancestor(Alice, Charlie)?', { constants: PEOPLE_POSITIONS });
+  passed = assert(result.answer.shape.length === 0, 'Yes/no query gives a 0-D answer') && passed;
+  passed = assertClose(result.answer.data[0], 1, 'Alice is an ancestor of Charlie') && passed;
+
+  const proof = result.proofs[0];
+  passed = assert(proof.rule === 'Ancestor(x, z) <- Ancestor(x, y), Parent(y, z)', 'Root uses the transitive rule') && passed;
+  passed = assert(proof.children.length === 2, 'Two premises') && passed;
+  passed = assert(proof.children[0].rule === 'Ancestor(x, y) <- Parent(x, y)', 'Ancestor(Alice, Bob) by the base rule') && passed;
+  passed = assert(proof.children[1].rule === undefined && proof.children[1].relation === 'Parent', 'Parent(Bob, Charlie) is a fact') && passed;
+
+  const text = proofToString(proof, PEOPLE);
+  passed = assert(text.includes('    Parent(Alice, Bob)  [fact]'), 'Proof renders with entity names') && passed;
+
+  const no = backwardChain(ANCESTOR, familyFacts(), 'Ancestor(Charlie, Alice)?', { constants: PEOPLE_POSITIONS });
+  passed = assertClose(no.answer.data[0], 0, 'Charlie is not an ancestor of Alice') && passed;
+  passed = assert(no.proofs.length === 0, 'No proofs for a false query') && passed;
+
+  return passed;
+}
+
+function testOpenQuery(): boolean {
+  logTest('Partially bound query');
+  let passed = true;
+
+  const result = backwardChain(ANCESTOR, familyFacts(), 'Ancestor(Alice, z)', { constants: PEOPLE_POSITIONS });
+  passed = assert(result.answer.indices.join(',') === 'z', 'Answer is indexed by z') && passed;
+  passed = assert(Array.from(result.answer.data).join(',') === '0,1,1,1', 'Alice is ancestor of Bob, Charlie, Diana') && passed;
+  passed = assert(result.tuples.length === 3 && result.proofs.length === 3, 'One proof per answer') && passed;
+
+  return passed;
+}
+
+function testGoalDirected(): boolean {
+  logTest('Only the needed slices are derived');
+  let passed = true;
+
+  // Chain of 8 nodes: the full closure has 28 facts
+  const n = 8;
+  const edges = fromMatrix('Parent', ['x', 'y'], Array.from({ length: n }, (_, i) =>
+    Array.from({ length: n }, (_, j) => (j === i + 1 ? 1 : 0))
+  ));
+  const facts = new Map([['Parent', edges]]);
+
+  const closure = forwardChain(ANCESTOR, facts, BooleanSemiring);
+  const total = closure.relations.get('Ancestor')!.data.reduce((a, b) => a + b, 0);
+  const query = backwardChain(ANCESTOR, facts, parseQuery('Ancestor(5, z)'));
+
+  passed = assert(Array.from(query.answer.data).join(',') === '0,0,0,0,0,0,1,1', 'Descendants of node 5') && passed;
+  passed = assert(query.derivedFacts < total, `Derived ${query.derivedFacts} facts instead of ${total}`) && passed;
+  passed = assert(query.subgoals === 1, 'A single tabled subgoal') && passed;
+
+  return passed;
+}
+
+function testRightRecursionAndRepeatedVariables(): boolean {
+  logTest('Right recursion and repeated query variables');
+  let passed = true;
+
+  // Cycle 0 → 1 → 2 → 0 plus a tail 2 → 3
+  const edges = fromMatrix('Edge', ['x', 'y'], [
+    [0, 1, 0, 0],
+    [0, 0, 1, 0],
+    [1, 0, 0, 1],
+    [0, 0, 0, 0],
+  ]);
+  const rules = `
+    Reach(x, y) <- Edge(x, y)
+    Reach(x, z) <- Edge(x, y), Reach(y, z)
+  `;
+  const facts = new Map([['Edge', edges]]);
+
+  const fromZero = backwardChain(rules, facts, 'Reach(0, z)');
+  passed = assert(Array.from(fromZero.answer.data).join(',') === '1,1,1,1', 'Terminates on cycles') && passed;
+
+  const loops = backwardChain(rules, facts, 'Reach(x, x)');
+  passed = assert(Array.from(loops.answer.data).join(',') === '1,1,1,0', 'Nodes on a cycle reach themselves') && passed;
+
+  passed = assertThrows(() => backwardChain(rules, facts, 'Reach(Alice, z)'), 'Unknown constant rejected') && passed;
+  passed = assertThrows(() => backwardChain(rules, facts, 'Reach(0)'), 'Arity mismatch rejected') && passed;
+
+  return passed;
+}
+
+// ============================================================================
+// LOADING FACTS TESTS
+// ============================================================================
+
+function testDatalogFacts(): boolean {
+  logTest('Datalog facts to tensors and back');
+  let passed = true;
+
+  const facts = parseDatalogFacts(`
+    % family
+    Parent(Alice, Bob).   Parent(Bob, Charlie).
+    Parent(Bob, "Diana").  // quoted constant
+    0.7::Likes(Alice, 'Bob').
+  `);
+  passed = assert(facts.length === 4 && facts[2].args[1] === 'Diana' && facts[2].line === 4, 'Parsed facts with lines') && passed;
+  passed = assert(facts[3].relation === 'Likes' && facts[3].weight === 0.7, 'ProbLog-style weight') && passed;
+
+  const base = loadDatalogFacts('Parent(Alice, Bob). Parent(Bob, Charlie). Parent(Bob, Diana).', { indices: { Parent: ['x', 'y'] } });
+  const people = base.domains.get('entity')!;
+  passed = assert(people.symbols.join() === PEOPLE.join(), 'Constants numbered in order of appearance') && passed;
+  const Parent = base.relations.get('Parent')!;
+  passed = assert(Parent.indices.join() === 'x,y' && Parent.data.join() === familyFacts().get('Parent')!.data.join(), 'Same tensor as the hand-written one') && passed;
+
+  // Forward chaining result decoded into named tuples
+  const closure = forwardChain(ANCESTOR, base.relations, BooleanSemiring);
+  const ancestors = decodeTuples(closure.relations.get('Ancestor')!, people).map((t) => t.args.join('>'));
+  passed = assert(ancestors.join(' ') === 'Alice>Bob Alice>Charlie Alice>Diana Bob>Charlie Bob>Diana', `Decoded ancestors: ${ancestors.join(' ')}`) && passed;
+  const query = backwardChain(ANCESTOR, base.relations, 'Ancestor(Alice, Diana)?', { constants: domainConstants(people) });
+  passed = assertClose(query.answer.data[0], 1, 'Domain positions serve as query constants') && passed;
+
+  // Typed domains and weights
+  const typed = loadDatalogFacts('0.9::livesIn(alice, paris). livesIn(bob, rome). 0.5::near(paris, rome).', {
+    signatures: { livesIn: ['person', 'city'], near: ['city', 'city'] },
+  });
+  const livesIn = typed.relations.get('livesIn')!;
+  passed = assert(livesIn.shape.join() === '2,2' && livesIn.data.join() === '0.9,0,0,1', 'Weighted relation over person × city') && passed;
+  passed = assert(typed.domains.get('city')!.symbols.join() === 'paris,rome', 'City domain holds only cities') && passed;
+  passed = assert(livesIn.domains?.join() === 'person,city', 'Tensors are typed by their domains') && passed;
+  const text = formatDatalogFacts('livesIn', decodeTuples(livesIn, typed.signatures.get('livesIn')!));
+  passed = assert(text === '0.9::livesIn(alice, paris).\nlivesIn(bob, rome).', 'Tuples format back to Datalog') && passed;
+  passed = assert(loadDatalogFacts(text, { signatures: { livesIn: ['person', 'city'] } }).relations.get('livesIn')!.data.join() === livesIn.data.join(), 'Formatted facts reload') && passed;
+
+  // Boolean dtype and fixed domains
+  const flags = loadDatalogFacts('Edge(a, b).', { dtype: 'bool', domains: new Map([['entity', createDomain('entity', ['a', 'b', 'c'])]]) });
+  passed = assert(flags.relations.get('Edge')!.shape.join() === '3,3' && flags.relations.get('Edge')!.dtype === 'bool', 'Pre-filled domain sets the shape') && passed;
+  passed = assertThrows(() => loadDatalogFacts('Edge(a, d).', { domains: flags.domains, extendDomains: false }), 'Unknown constant in a fixed domain') && passed;
+  passed = assertThrows(() => loadDatalogFacts('Edge(a, b). Edge(a).'), 'Arity mismatch') && passed;
+  passed = assertThrows(() => loadDatalogFacts('0.2::Edge(a, b). 0.3::Edge(a, b).'), 'Conflicting weights') && passed;
+  passed = assertThrows(() => parseDatalogFacts('Edge(a, b)'), 'Missing full stop') && passed;
+
+  return passed;
+}
+
+function testDelimitedFacts(): boolean {
+  logTest('CSV and TSV facts');
+  let passed = true;
+
+  const rows = parseDelimited('a,"b, c",d\r\n\r\n"say ""hi""",e,f\n');
+  passed = assert(rows.length === 2 && rows[0][1] === 'b, c' && rows[1][0] === 'say "hi"', 'Quoted fields and blank lines') && passed;
+
+  const csv = loadDelimitedFacts('parent,child\nalice,bob\nbob,carol\n', { relation: 'Parent', header: true });
+  passed = assert(csv.relations.get('Parent')!.data.join() === '0,1,0,0,0,1,0,0,0', 'CSV with header') && passed;
+
+  const tsv = loadDelimitedFacts('src\tdst\tcost\nA\tB\t2.5\nB\tC\t1\n', {
+    relation: 'Road',
+    header: true,
+    weightColumn: 'cost',
+    signatures: { Road: ['city', 'city'] },
+  });
+  const road = tsv.relations.get('Road')!;
+  const decoded = decodeTuples(road, tsv.signatures.get('Road')!);
+  passed = assert(decoded.map((t) => `${t.args.join('-')}:${t.value}`).join(' ') === 'A-B:2.5 B-C:1', 'TSV weight column detected and decoded') && passed;
+  passed = assertThrows(() => loadDelimitedFacts('a,b,x\n', { relation: 'R', weightColumn: 2 }), 'Non-numeric weight') && passed;
+
+  return passed;
+}
+
+// ============================================================================
+// MAIN TEST RUNNER
+// ============================================================================
+
+async function runAllInferenceTests() {
+  log('\n' + '═'.repeat(70), colors.cyan);
+  log('  Tensor Logic Inference', colors.cyan);
+  log('  Unit Test Suite', colors.cyan);
+  log('═'.repeat(70), colors.cyan);
+
+  const modules: { name: string; tests: Array<{ name: string; fn: () => boolean }> }[] = [
+    {
+      name: 'FORWARD CHAINING',
+      tests: [
+        { name: 'Transitive closure', fn: testTransitiveClosure },
+        { name: 'Semi-naive vs naive', fn: testSemiNaiveMatchesNaive },
+        { name: 'Mutual recursion', fn: testMutualRecursion },
+        { name: 'Path counting', fn: testPathCounting },
+        { name: 'Shortest paths', fn: testShortestPaths },
+        { name: 'Non-convergence', fn: testNonConvergence },
+        { name: 'Rules from program', fn: testRulesFromProgram },
+      ],
+    },
+    {
+      name: 'BACKWARD CHAINING',
+      tests: [
+        { name: 'Ground query', fn: testGroundQuery },
+        { name: 'Open query', fn: testOpenQuery },
+        { name: 'Goal-directed', fn: testGoalDirected },
+        { name: 'Right recursion', fn: testRightRecursionAndRepeatedVariables },
+      ],
+    },
+    {
+      name: 'LOADING FACTS',
+      tests: [
+        { name: 'Datalog facts', fn: testDatalogFacts },
+        { name: 'CSV and TSV facts', fn: testDelimitedFacts },
+      ],
+    },
+  ];
+
+  let totalPassed = 0;
+  let totalFailed = 0;
+
+  for (const module of modules) {
+    logModule(module.name);
+
+    for (const test of module.tests) {
+      try {
+        if (test.fn()) {
+          totalPassed++;
+        } else {
+          totalFailed++;
+        }
+      } catch (error) {
+        totalFailed++;
+        logTest(test.name);
+        logError(`Test threw error: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  }
+
+  log('\n' + '═'.repeat(70), colors.cyan);
+  log(`  FINAL RESULTS: ${totalPassed} passed, ${totalFailed} failed`, colors.cyan);
+  if (totalFailed === 0) {
+    log('  ALL INFERENCE TESTS PASSED!', colors.green);
+  } else {
+    log('  SOME TESTS FAILED - Review above for details', colors.red);
+  }
+  log('═'.repeat(70) + '\n', colors.cyan);
+
+  if (totalFailed > 0) {
+    process.exit(1);
+  }
+}
+
+runAllInferenceTests();
+
@@ -0,0 +1,514 @@
+#!/usr/bin/env tsx
+
+/**
+ * Unit Tests for Tensor Logic Learning
+ *
+ * Tests for:
+ * 1. Reverse-mode autodiff (einsum and activation gradients vs finite differences)
+ * 2. Training (losses, optimizers, schedules, mini-batches, trained examples)
+ */
+
+import { Tensor, createTensor, fromMatrix, fromVector, getElement } from '../src/tensor-logic/core.js';
+
+import { Tape, Variable } from '../src/tensor-logic/autodiff.js';
+
+import { astype, dtypeOf } from '../src/tensor-logic/dtype.js';
+
+import { NestorType, createNestor, computeNestorGradient } from '../src/tensor-logic/nestor.js';
+
+import {
+  fit,
+  mseLoss,
+  crossEntropyLoss,
+  createSGD,
+  createMomentum,
+  createAdam,
+  stepDecay,
+  exponentialDecay,
+  cosineAnnealing,
+} from '../src/tensor-logic/training.js';
+
+import {
+  runTrainedXORExample,
+  runTrainedGNNExample,
+  runTrainedKernelExample,
+} from '../src/tensor-logic/examples/index.js';
+
+// ============================================================================
+// TEST UTILITIES
+// ============================================================================
+
+const colors = {
+  reset: '\x1b[0m',
+  green: '\x1b[32m',
+  red: '\x1b[31m',
+  yellow: '\x1b[33m',
+  blue: '\x1b[34m',
+  cyan: '\x1b[36m',
+  magenta: '\x1b[35m',
+};
+
+function log(message: string, color = colors.reset) {
+  console.log(`${color}${message}${colors.reset}`);
+}
+
+function logModule(name: string) {
+  log(`\n${'═'.repeat(70)}`, colors.magenta);
+  log(`  ${name}`, colors.magenta);
+  log(`${'═'.repeat(70)}`, colors.magenta);
+}
+
+function logTest(name: string) {
+  log(`\n▶ ${name}`, colors.blue);
+}
+
+function logSuccess(message: string) {
+  log(`  ✓ ${message}`, colors.green);
+}
+
+function logError(message: string) {
+  log(`  ✗ ${message}`, colors.red);
+}
+
+const EPSILON = 1e-6;
+
+function assertClose(actual: number, expected: number, message: string): boolean {
+  const diff = Math.abs(actual - expected);
+  if (diff <= EPSILON || (expected === Infinity && actual === Infinity) || (expected === -Infinity && actual === -Infinity)) {
+    logSuccess(`${message}: ${actual} ≈ ${expected}`);
+    return true;
+  } else {
+    logError(`${message}: got ${actual}, expected ${expected}`);
+    return false;
+  }
+}
+
+function assert(condition: boolean, message: string): boolean {
+  if (condition) {
+    logSuccess(message);
+    return true;
+  } else {
+    logError(message);
+    return false;
+  }
+}
+
+function assertThrows(fn: () => void, message: string): boolean {
+  try {
+    fn();
+    logError(`${message}: Expected error but none thrown`);
+    return false;
+  } catch {
+    logSuccess(`${message}: Error thrown as expected`);
+    return true;
+  }
+}
+// ============================================================================
+// AUTODIFF TESTS
+// ============================================================================
+
+/** Central-difference gradient of f at t, one element at a time */
+function finiteDifference(t: Tensor, f: (t: Tensor) => number, h = 1e-6): Float64Array {
+  const grad = new Float64Array(t.data.length);
+  for (let i = 0; i < t.data.length; i++) {
+    const original = t.data[i];
+    t.data[i] = original + h;
+    const plus = f(t);
+    t.data[i] = original - h;
+    const minus = f(t);
+    t.data[i] = original;
+    grad[i] = (plus - minus) / (2 * h);
+  }
+  return grad;
+}
+
+function assertGradientsClose(actual: Float64Array, expected: Float64Array, message: string): boolean {
+  const worst = actual.reduce((max, v, i) => Math.max(max, Math.abs(v - expected[i])), 0);
+  return assert(worst < 1e-5, `${message} (max error ${worst.toExponential(1)})`);
+}
+
+/**
+ * Check the taped gradient of a scalar function of one tensor against
+ * finite differences
+ */
+function checkGradient(
+  value: Tensor,
+  build: (tape: Tape, x: Variable) => Variable,
+  message: string
+): boolean {
+  const tape = new Tape();
+  const x = tape.variable(value);
+  tape.backward(build(tape, x));
+
+  const numeric = finiteDifference(value, (t) => {
+    const probe = new Tape();
+    return build(probe, probe.variable(t)).value.data[0];
+  });
+  return assertGradientsClose(tape.gradient(x).data, numeric, message);
+}
+
+const W = () => fromMatrix('W', ['i', 'j'], [[0.5, -1.2, 0.3], [0.8, 0.1, -0.7]]);
+const V = () => fromMatrix('V', ['j', 'k'], [[1.0, -0.5], [0.2, 0.4], [-0.3, 0.9]]);
+
+function testEinsumGradient(): boolean {
+  logTest('Einsum gradients are einsums');
+  let passed = true;
+
+  // L = Σ_ik (W·V)[i,k]; ∂L/∂W[i,j] = Σ_k V[j,k]
+  const tape = new Tape();
+  const w = tape.variable(W());
+  const v = tape.constant(V());
+  const loss = tape.einsum('ik->', tape.einsum('ij,jk->ik', w, v));
+  tape.backward(loss);
+
+  const grad = tape.gradient(w);
+  passed = assert(grad.shape.join(',') === '2,3', 'Gradient has the shape of W') && passed;
+  passed = assertClose(getElement(grad, 1, 2), 0.6, '∂L/∂W[1,2] = V[2,0] + V[2,1]') && passed;
+  passed = assertClose(tape.gradient(v).data[0], 0, 'Constants get no gradient') && passed;
+
+  passed = checkGradient(V(), (t, x) =>
+    t.einsum('ik,ik->', t.einsum('ij,jk->ik', t.constant(W()), x), t.einsum('ij,jk->ik', t.constant(W()), x)),
+    'Squared matmul'
+  ) && passed;
+  passed = checkGradient(W(), (t, x) =>
+    t.einsum('i->', t.einsum('ij,j->i', x, t.constant(fromVector('u', 'j', [1, 2, 3])))),
+    'Matrix-vector product'
+  ) && passed;
+
+  // j appears only in x: its gradient is broadcast along j
+  passed = checkGradient(W(), (t, x) =>
+    t.einsum('i,i->', t.einsum('ij->i', x), t.constant(fromVector('c', 'i', [2, -1]))),
+    'Index summed within one operand'
+  ) && passed;
+
+  // Repeated indices: the gradient of a trace or diagonal lives on the diagonal
+  const square = () => fromMatrix('A', ['i', 'j'], [[1.5, -0.2, 0.7], [0.4, 2.0, -1.1], [0.9, 0.3, -0.6]]);
+  const traced = new Tape();
+  const a = traced.variable(square());
+  traced.backward(traced.einsum('ii->', a));
+  passed = assert(traced.gradient(a).data.join() === '1,0,0,0,1,0,0,0,1', '∂tr(A)/∂A is the identity') && passed;
+  passed = checkGradient(square(), (t, x) => t.einsum('ii->', x), 'Trace') && passed;
+  passed = checkGradient(square(), (t, x) =>
+    t.einsum('i,i->', t.einsum('ii->i', x), t.constant(fromVector('c', 'i', [2, -1, 0.5]))),
+    'Diagonal'
+  ) && passed;
+
+  return passed;
+}
+
+function testElementwiseGradients(): boolean {
+  logTest('Element-wise operations');
+  let passed = true;
+
+  const weights = fromVector('c', 'i', [0.3, -1.1, 2.0, 0.7]);
+  const total = (t: Tape, y: Variable) => t.einsum('i,i->', y, t.constant(weights));
+  const x = () => fromVector('x', 'i', [0.4, -0.9, 1.3, -0.2]);
+
+  passed = checkGradient(x(), (t, v) => total(t, t.add(v, v, t.constant(x()))), 'add') && passed;
+  passed = checkGradient(x(), (t, v) => total(t, t.multiply(v, v, t.constant(weights))), 'multiply') && passed;
+  passed = checkGradient(x(), (t, v) => total(t, t.scale(v, -2.5)), 'scale') && passed;
+  const counts = new Tape().log(new Tape().constant(astype(fromVector('N', 'i', [1, 2, 3]), 'int32'))).value;
+  passed = assertClose(counts.data[1], Math.log(2), 'log of int32 keeps fractions') && passed;
+  passed = assert(dtypeOf(counts) === 'float64', 'log of int32 is float64') && passed;
+  passed = checkGradient(x(), (t, v) => total(t, t.sigmoid(v)), 'sigmoid') && passed;
+  passed = checkGradient(x(), (t, v) => total(t, t.sigmoid(v, 0.5)), 'sigmoid with temperature') && passed;
+  passed = checkGradient(x(), (t, v) => total(t, t.relu(v)), 'relu') && passed;
+  passed = checkGradient(x(), (t, v) => total(t, t.softmax(v)), 'softmax (1D)') && passed;
+  passed = checkGradient(W(), (t, v) => t.einsum('ji,ji->', t.transpose(v), t.constant(V())), 'transpose') && passed;
+
+  const logits = fromMatrix('Z', ['i', 'j'], [[0.1, 2.0, -1.0], [0.5, 0.5, 1.5]]);
+  const mix = fromMatrix('M', ['i', 'j'], [[1, -2, 0.5], [0.3, 0.8, -1]]);
+  passed = checkGradient(logits, (t, v) => t.einsum('ij,ij->', t.softmax(v), t.constant(mix)), 'softmax over rows') && passed;
+  passed = checkGradient(logits, (t, v) => t.einsum('ij,ij->', t.softmax(v, 0), t.constant(mix)), 'softmax over columns') && passed;
+
+  // Broadcast by index name: the vector's gradient sums over the rows
+  const bias = fromVector('b', 'j', [0.2, -0.4, 0.9]);
+  passed = checkGradient(bias, (t, v) => t.einsum('ij,ij->', t.add(t.constant(logits), v), t.constant(mix)), 'broadcast add') && passed;
+  passed = checkGradient(bias, (t, v) => t.einsum('ij,ij->', t.multiply(t.constant(logits), v), t.constant(mix)), 'broadcast multiply') && passed;
+
+  return passed;
+}
+
+function testThresholdGradients(): boolean {
+  logTest('Threshold and straight-through estimator');
+  let passed = true;
+
+  const tape = new Tape();
+  const x = tape.variable(fromVector('x', 'i', [0.4, -0.9, 1.3]));
+  const hard = tape.einsum('i->', tape.threshold(x));
+  tape.backward(hard);
+  passed = assert(Array.from(tape.gradient(x).data).every((g) => g === 0), 'Hard threshold has zero gradient') && passed;
+
+  const ste = tape.einsum('i->', tape.threshold(x, 0, { straightThrough: true }));
+  passed = assertClose(ste.value.data[0], 2, 'Forward pass is still Boolean') && passed;
+  tape.backward(ste);
+  passed = assert(Array.from(tape.gradient(x).data).every((g) => g === 1), 'Straight-through passes the gradient') && passed;
+
+  return passed;
+}
+
+function testSharedVariables(): boolean {
+  logTest('Gradients accumulate over every use');
+  let passed = true;
+
+  // L = Σ_i x_i² via einsum('i,i->', x, x) → 2x
+  const tape = new Tape();
+  const x = tape.variable(fromVector('x', 'i', [1, 2, 3]));
+  tape.backward(tape.einsum('i,i->', x, x));
+  passed = assert(Array.from(tape.gradient(x).data).join(',') === '2,4,6', 'd(x·x)/dx = 2x') && passed;
+
+  passed = assertThrows(() => tape.backward(x), 'Non-scalar output needs a seed') && passed;
+
+  // Seeding a vector output computes a vector-Jacobian product
+  const y = tape.scale(x, 3);
+  tape.backward(y, fromVector('g', 'i', [1, 0, -1]));
+  passed = assert(Array.from(tape.gradient(x).data).join(',') === '3,0,-3', 'Seeded backward') && passed;
+
+  return passed;
+}
+
+function testNestorGradient(): boolean {
+  logTest('computeNestorGradient in reverse mode');
+  let passed = true;
+
+  const typeInfo: NestorType = {
+    nodeType: 'test',
+    edgeTypes: ['edge1'],
+    signature: { inputShape: [3], outputShape: [3], indices: ['i'] },
+  };
+  const leaf = createNestor('leaf', fromVector('l', 'i', [-1, 0.5, 4]), typeInfo);
+  const root = createNestor('root', fromVector('r', 'i', [1, 2, 3]), typeInfo, [leaf]);
+
+  const exact = computeNestorGradient(root, { differentiable: (x, tape) => tape.einsum('i,i->', x, x) });
+  const numeric = computeNestorGradient(root, (t) => t.data.reduce((sum, v) => sum + v * v, 0));
+
+  passed = assert(Array.from(exact.get('root')!.data).join(',') === '2,4,6', 'Exact gradient for the root') && passed;
+  passed = assert(Array.from(exact.get('leaf')!.data).join(',') === '-2,1,8', 'Exact gradient for the child') && passed;
+  const worst = exact.get('leaf')!.data.reduce((max, g, i) => Math.max(max, Math.abs(g - numeric.get('leaf')!.data[i])), 0);
+  passed = assert(worst < 1e-3, 'Agrees with finite differences') && passed;
+
+  return passed;
+}
+
+// ============================================================================
+// TRAINING TESTS
+// ============================================================================
+
+function testLosses(): boolean {
+  logTest('MSE and cross-entropy');
+  let passed = true;
+
+  const tape = new Tape();
+  const y = tape.variable(fromVector('Y', 'n', [0.5, 2, -1]));
+  const target = tape.constant(fromVector('T', 'n', [1, 2, 1]));
+  const mse = mseLoss(tape, y, target);
+  passed = assertClose(mse.value.data[0], (0.25 + 0 + 4) / 3, 'MSE = (1/N) Σ (Y - T)²') && passed;
+  tape.backward(mse);
+  passed = assertClose(tape.gradient(y).data[2], (2 * -2) / 3, '∂MSE/∂Y = (2/N)(Y - T)') && passed;
+
+  const probs = tape.variable(fromMatrix('P', ['n', 't'], [[0.7, 0.2, 0.1], [0.1, 0.1, 0.8]]));
+  const oneHot = tape.constant(fromMatrix('T', ['n', 't'], [[1, 0, 0], [0, 0, 1]]));
+  const ce = crossEntropyLoss(tape, probs, oneHot);
+  passed = assertClose(ce.value.data[0], -(Math.log(0.7) + Math.log(0.8)) / 2, 'Cross-entropy averaged over examples') && passed;
+  tape.backward(ce);
+  passed = assertClose(getElement(tape.gradient(probs), 0, 0), -1 / (2 * 0.7), '∂CE/∂Y = -T / (N Y)') && passed;
+
+  passed = assertThrows(() => mseLoss(tape, y, probs), 'Size mismatch rejected') && passed;
+  // Same shape, different index names: not an outer product
+  const p = tape.variable(fromVector('P', 'j', [1, 2, 3]));
+  const t = tape.constant(fromVector('T', 'n', [1, 2, 3]));
+  passed = assertThrows(() => mseLoss(tape, p, t), 'Index name mismatch rejected') && passed;
+  const transposed = tape.constant(fromMatrix('T', ['t', 'n'], [[1, 0], [0, 0], [0, 1]]));
+  passed = assertThrows(() => crossEntropyLoss(tape, probs, transposed), 'Transposed cross-entropy target rejected') && passed;
+
+  return passed;
+}
+
+function testOptimizers(): boolean {
+  logTest('Optimizers minimise a quadratic');
+  let passed = true;
+
+  // Loss = Σ_i (W[i] - Goal[i])², minimum at Goal
+  const goal = fromVector('Goal', 'i', [3, -2]);
+  const optimizers = [
+    { optimizer: createSGD(0.1), epochs: 100 },
+    { optimizer: createMomentum(0.05, 0.9), epochs: 200 },
+    { optimizer: createAdam(0.1), epochs: 300 },
+  ];
+
+  for (const { optimizer, epochs } of optimizers) {
+    const result = fit(
+      new Map([['W', fromVector('W', 'i', [0, 0])], ['Goal', goal]]),
+      (tape, v) => mseLoss(tape, v.W, v.Goal),
+      { parameters: ['W'], optimizer, epochs }
+    );
+    const w = result.tensors.get('W')!;
+    passed = assert(
+      Math.abs(w.data[0] - 3) < 1e-3 && Math.abs(w.data[1] + 2) < 1e-3,
+      `${optimizer.name} converges to [3, -2] (got [${Array.from(w.data).map((x) => x.toFixed(4)).join(', ')}])`
+    ) && passed;
+    passed = assert(result.losses[epochs - 1] < result.losses[0], `${optimizer.name} reduces the loss`) && passed;
+  }
+
+  return passed;
+}
+
+function testSchedules(): boolean {
+  logTest('Learning-rate schedules');
+  let passed = true;
+
+  passed = assertClose(stepDecay(10, 0.5)(25, 0.4), 0.1, 'Step decay halves every 10 epochs') && passed;
+  passed = assertClose(exponentialDecay(0.9)(2, 1), 0.81, 'Exponential decay') && passed;
+  passed = assertClose(cosineAnnealing(100, 0.01)(0, 0.1), 0.1, 'Cosine annealing starts at the base rate') && passed;
+  passed = assertClose(cosineAnnealing(100, 0.01)(100, 0.1), 0.01, 'Cosine annealing ends at the minimum') && passed;
+
+  const rates: number[] = [];
+  fit(
+    new Map([['W', fromVector('W', 'i', [0])], ['Goal', fromVector('Goal', 'i', [1])]]),
+    (tape, v) => mseLoss(tape, v.W, v.Goal),
+    {
+      parameters: ['W'],
+      epochs: 3,
+      optimizer: { name: 'Spy', learningRate: 1, step: (_p, _g, lr) => { rates.push(lr); } },
+      schedule: exponentialDecay(0.5),
+    }
+  );
+  passed = assert(rates.join(',') === '1,0.5,0.25', 'fit applies the schedule per epoch') && passed;
+
+  return passed;
+}
+
+function testMiniBatches(): boolean {
+  logTest('Mini-batching over a named index');
+  let passed = true;
+
+  // Linear regression Y[n] = X[n,d] W[d] with true W = [2, -1]
+  const X = fromMatrix('X', ['n', 'd'], [[1, 0], [0, 1], [1, 1], [2, 1], [1, 3]]);
+  const Y = fromVector('Y', 'n', [2, -1, 1, 3, -1]);
+  const W = fromVector('W', 'd', [0, 0]);
+  const tensors = new Map([['X', X], ['Y', Y], ['W', W]]);
+
+  const batchSizes: number[] = [];
+  const result = fit(
+    tensors,
+    (tape, v) => {
+      batchSizes.push(v.X.value.shape[0]);
+      return mseLoss(tape, tape.einsum('nd,d->n', v.X, v.W), v.Y);
+    },
+    { parameters: ['W'], optimizer: createSGD(0.05), epochs: 300, batch: { index: 'n', size: 2, shuffle: true } }
+  );
+
+  passed = assert(batchSizes.slice(0, 3).join(',') === '2,2,1', 'Five examples in batches of 2, 2, 1') && passed;
+  passed = assert(batchSizes.length === 900, 'Three updates per epoch') && passed;
+  const w = result.tensors.get('W')!;
+  passed = assert(Math.abs(w.data[0] - 2) < 1e-2 && Math.abs(w.data[1] + 1) < 1e-2, 'Recovers W = [2, -1]') && passed;
+  passed = assert(W.data[0] === 0 && result.tensors.get('X') === X, 'Inputs are not modified') && passed;
+
+  passed = assertThrows(() => fit(tensors, (tape, v) => v.W, { parameters: ['Q'] }), 'Unknown parameter rejected') && passed;
+  passed = assertThrows(
+    () => fit(tensors, (tape, v) => v.W, { parameters: ['W'], batch: { index: 'n', size: 0 } }),
+    'Batch size 0 rejected'
+  ) && passed;
+  passed = assertThrows(() => fit(tensors, (tape, v) => v.W, { parameters: ['W'], epochs: 2.5 }), 'Fractional epochs rejected') && passed;
+  const empty = new Map([['X', createTensor('X', ['n', 'd'], [0, 2])], ['Y', createTensor('Y', ['n'], [0])], ['W', W]]);
+  passed = assertThrows(
+    () => fit(empty, (tape, v) => mseLoss(tape, tape.einsum('nd,d->n', v.X, v.W), v.Y), { parameters: ['W'], batch: { index: 'n', size: 2 } }),
+    'Empty batch index rejected'
+  ) && passed;
+  passed = assertThrows(
+    () => fit(tensors, (tape, v) => v.W, { parameters: ['W'], batch: { index: 'z', size: 2 } }),
+    'Missing batch index rejected'
+  ) && passed;
+
+  return passed;
+}
+
+function testTrainedExamples(): boolean {
+  logTest('Examples train from random initialisation');
+  let passed = true;
+
+  const xor = runTrainedXORExample();
+  const probs = xor.steps[xor.steps.length - 1].tensor.data;
+  passed = assert([0, 1, 1, 0].every((y, b) => (probs[2 * b + 1] > 0.5 ? 1 : 0) === y), 'MLP learns XOR') && passed;
+
+  const gnn = runTrainedGNNExample();
+  const hub = gnn.steps[gnn.steps.length - 1].tensor.data;
+  passed = assert([0, 1, 0, 0].every((y, n) => (hub[n] > 0.5 ? 1 : 0) === y), 'GNN finds the hub') && passed;
+
+  const kernel = runTrainedKernelExample();
+  const preds = kernel.steps[kernel.steps.length - 1].tensor.data;
+  passed = assert([-1, 1, 1, -1].every((y, j) => Math.sign(preds[j]) === y), 'Kernel machine separates XOR') && passed;
+
+  return passed;
+}
+
+// ============================================================================
+// MAIN TEST RUNNER
+// ============================================================================
+
+async function runAllLearningTests() {
+  log('\n' + '═'.repeat(70), colors.cyan);
+  log('  Tensor Logic Learning', colors.cyan);
+  log('  Unit Test Suite', colors.cyan);
+  log('═'.repeat(70), colors.cyan);
+
+  const modules: { name: string; tests: Array<{ name: string; fn: () => boolean }> }[] = [
+    {
+      name: 'AUTODIFF',
+      tests: [
+        { name: 'Einsum gradients', fn: testEinsumGradient },
+        { name: 'Element-wise gradients', fn: testElementwiseGradients },
+        { name: 'Threshold gradients', fn: testThresholdGradients },
+        { name: 'Shared variables', fn: testSharedVariables },
+        { name: 'Nestor gradient', fn: testNestorGradient },
+      ],
+    },
+    {
+      name: 'TRAINING',
+      tests: [
+        { name: 'Losses', fn: testLosses },
+        { name: 'Optimizers', fn: testOptimizers },
+        { name: 'Schedules', fn: testSchedules },
+        { name: 'Mini-batches', fn: testMiniBatches },
+        { name: 'Trained examples', fn: testTrainedExamples },
+      ],
+    },
+  ];
+
+  let totalPassed = 0;
+  let totalFailed = 0;
+
+  for (const module of modules) {
+    logModule(module.name);
+
+    for (const test of module.tests) {
+      try {
+        if (test.fn()) {
+          totalPassed++;
+        } else {
+          totalFailed++;
+        }
+      } catch (error) {
+        totalFailed++;
+        logTest(test.name);
+        logError(`Test threw error: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  }
+
+  log('\n' + '═'.repeat(70), colors.cyan);
+  log(`  FINAL RESULTS: ${totalPassed} passed, ${totalFailed} failed`, colors.cyan);
+  if (totalFailed === 0) {
+    log('  ALL LEARNING TESTS PASSED!', colors.green);
+  } else {
+    log('  SOME TESTS FAILED - Review above for details', colors.red);
+  }
+  log('═'.repeat(70) + '\n', colors.cyan);
+
+  if (totalFailed > 0) {
+    process.exit(1);
+  }
+}
+
+runAllLearningTests();
+
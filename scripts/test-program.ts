@@ -0,0 +1,534 @@
+#!/usr/bin/env tsx
+
+/**
+ * Unit Tests for Tensor Logic Programs
+ *
+ * Tests for:
+ * 1. Program parser (equations, nonlinearities, slices, implicit summation)
+ * 2. Program interpreter (compilation to einsum, shared LHS, traces)
+ * 3. Index domains checked before a program runs
+ */
+
+import {
+  Tensor,
+  createTensor,
+  fromMatrix,
+  fromVector,
+  getElement,
+  sigmoid,
+} from '../src/tensor-logic/core.js';
+
+import {
+  parseProgram,
+  parseEquation,
+  equationToString,
+  TensorProgramSyntaxError,
+  TensorRef,
+} from '../src/tensor-logic/parser.js';
+
+import { runProgram, checkProgramDomains, TensorProgramTypeError } from '../src/tensor-logic/interpreter.js';
+
+import { createDomain, withDomains } from '../src/tensor-logic/domains.js';
+
+import { loadDatalogFacts } from '../src/tensor-logic/facts.js';
+
+import { astype, dtypeOf } from '../src/tensor-logic/dtype.js';
+
+// ============================================================================
+// TEST UTILITIES
+// ============================================================================
+
+const colors = {
+  reset: '\x1b[0m',
+  green: '\x1b[32m',
+  red: '\x1b[31m',
+  yellow: '\x1b[33m',
+  blue: '\x1b[34m',
+  cyan: '\x1b[36m',
+  magenta: '\x1b[35m',
+};
+
+function log(message: string, color = colors.reset) {
+  console.log(`${color}${message}${colors.reset}`);
+}
+
+function logModule(name: string) {
+  log(`\n${'═'.repeat(70)}`, colors.magenta);
+  log(`  ${name}`, colors.magenta);
+  log(`${'═'.repeat(70)}`, colors.magenta);
+}
+
+function logTest(name: string) {
+  log(`\n▶ ${name}`, colors.blue);
+}
+
+function logSuccess(message: string) {
+  log(`  ✓ ${message}`, colors.green);
+}
+
+function logError(message: string) {
+  log(`  ✗ ${message}`, colors.red);
+}
+
+function assert(condition: boolean, message: string): boolean {
+  if (condition) {
+    logSuccess(message);
+    return true;
+  } else {
+    logError(message);
+    return false;
+  }
+}
+
+const EPSILON = 1e-6;
+
+function assertClose(actual: number, expected: number, message: string): boolean {
+  const diff = Math.abs(actual - expected);
+  if (diff <= EPSILON) {
+    logSuccess(`${message}: ${actual} ≈ ${expected}`);
+    return true;
+  } else {
+    logError(`${message}: got ${actual}, expected ${expected}`);
+    return false;
+  }
+}
+
+function assertThrows(fn: () => void, pattern: RegExp, message: string): boolean {
+  try {
+    fn();
+    logError(`${message}: Expected error but none thrown`);
+    return false;
+  } catch (error) {
+    const text = error instanceof Error ? error.message : String(error);
+    if (pattern.test(text)) {
+      logSuccess(`${message}: ${text}`);
+      return true;
+    }
+    logError(`${message}: error "${text}" does not match ${pattern}`);
+    return false;
+  }
+}
+
+function assertSyntaxError(source: string, line: number, column: number, message: string): boolean {
+  try {
+    parseProgram(source);
+    logError(`${message}: Expected error but none thrown`);
+    return false;
+  } catch (error) {
+    if (error instanceof TensorProgramSyntaxError && error.line === line && error.column === column) {
+      logSuccess(`${message}: ${error.message}`);
+      return true;
+    }
+    logError(`${message}: got ${error instanceof Error ? error.message : String(error)}, expected line ${line}, column ${column}`);
+    return false;
+  }
+}
+
+// ============================================================================
+// PARSER TESTS
+// ============================================================================
+
+function testParseDatalogStyleEquation(): boolean {
+  logTest('Parse join-project equation');
+  let passed = true;
+
+  const eq = parseEquation('Ancestor[x, z] = Ancestor[x, y] Parent[y, z]');
+  passed = assert(eq.lhs.name === 'Ancestor', 'LHS tensor is Ancestor') && passed;
+  passed = assert(eq.operator === '=', 'Operator is =') && passed;
+  passed = assert(eq.rhs.terms.length === 1, 'RHS has one product term') && passed;
+
+  const term = eq.rhs.terms[0];
+  passed = assert(term.factors.length === 2, 'Product has two factors') && passed;
+  passed = assert(term.summedIndices.join(',') === 'y', 'y is summed out implicitly') && passed;
+
+  return passed;
+}
+
+function testParseNonlinearityAndSlice(): boolean {
+  logTest('Parse nonlinearity with constant slice');
+  let passed = true;
+
+  const eq = parseEquation('Y[n] = sig(WOut[d] Emb[n, L, d])');
+  const outer = eq.rhs.terms[0];
+  passed = assert(outer.factors.length === 1 && outer.factors[0].kind === 'apply', 'RHS is a sig application') && passed;
+
+  const apply = outer.factors[0];
+  if (apply.kind !== 'apply') return false;
+  passed = assert(apply.fn === 'sig', 'Function is sig') && passed;
+
+  const inner = apply.argument.terms[0];
+  passed = assert(inner.summedIndices.join(',') === 'd', 'd is summed inside sig') && passed;
+
+  const emb = inner.factors[1] as TensorRef;
+  passed = assert(emb.indices[1].kind === 'constant' && emb.indices[1].value === 'L', 'L is a constant slice') && passed;
+  passed = assert(emb.indices[0].kind === 'variable', 'n is a variable') && passed;
+
+  return passed;
+}
+
+function testParseRelationsAndPrimes(): boolean {
+  logTest('Parse relations and primed indices');
+  let passed = true;
+
+  const eq = parseEquation('Agg[n, l, d] = Neig(n, n′) Z[n\', l, d]');
+  const neig = eq.rhs.terms[0].factors[0] as TensorRef;
+  passed = assert(neig.relation, 'Neig(...) is a relation') && passed;
+  passed = assert(eq.rhs.terms[0].summedIndices.join(',') === "n'", "n′ normalised to n' and summed") && passed;
+
+  const quoted = parseEquation(`Kids[y] = Parent('alice', y) + Parent("bob", y)`).rhs.terms.map((t) => (t.factors[0] as TensorRef).indices[0]);
+  passed = assert(quoted.every((idx) => idx.kind === 'constant'), 'Quoted names are constants') && passed;
+  passed = assert(quoted.map((idx) => idx.kind === 'constant' && idx.value).join() === 'alice,bob', 'Quotes are stripped') && passed;
+
+  return passed;
+}
+
+function testParseSumsAndCoefficients(): boolean {
+  logTest('Parse sums, subtraction and scalar coefficients');
+  let passed = true;
+
+  const eq = parseEquation('H[i] = relu(WA Agg[i] + 0.5 WS Emb[i]) - X[i] / 2');
+  passed = assert(eq.rhs.terms.length === 2, 'Two top-level terms') && passed;
+  passed = assert(eq.rhs.terms[1].coefficient === -0.5, 'Second term has coefficient -1/2') && passed;
+
+  const apply = eq.rhs.terms[0].factors[0];
+  passed = assert(apply.kind === 'apply' && apply.argument.terms[1].coefficient === 0.5, 'Inner coefficient parsed') && passed;
+
+  passed = assert(
+    equationToString(eq) === 'H[i] = relu(WA Agg[i] + 0.5 WS Emb[i]) - 0.5 X[i]',
+    'Round-trips to canonical form'
+  ) && passed;
+
+  return passed;
+}
+
+function testParseDatalogRule(): boolean {
+  logTest('Parse Datalog rule syntax');
+  let passed = true;
+
+  const eq = parseEquation('Ancestor(x, z) <- Ancestor(x, y), Parent(y, z)');
+  passed = assert(eq.operator === '←', 'Rule operator normalised to ←') && passed;
+  passed = assert(eq.rhs.terms[0].factors.length === 2, 'Body atoms form one product') && passed;
+  passed = assert(eq.rhs.terms[0].summedIndices.join(',') === 'y', 'Body-only variable summed') && passed;
+
+  return passed;
+}
+
+function testParseMultiEquationProgram(): boolean {
+  logTest('Parse multi-equation program with comments');
+  let passed = true;
+
+  const program = parseProgram(`
+    // Transitive closure
+    Ancestor[x, y] = Parent[x, y]            # base case
+    Ancestor[x, z] = Ancestor[x, y] Parent[y, z]
+
+    Z = Ancestor[x, y]
+  `);
+
+  passed = assert(program.equations.length === 3, 'Three equations parsed') && passed;
+  passed = assert(program.equations[1].line === 4, 'Line numbers tracked') && passed;
+  passed = assert(program.equations[2].lhs.indices.length === 0, 'Scalar LHS allowed') && passed;
+  passed = assert(program.equations[2].rhs.terms[0].summedIndices.length === 2, 'Scalar LHS sums all indices') && passed;
+
+  return passed;
+}
+
+function testParseErrors(): boolean {
+  logTest('Syntax errors report line and column');
+  let passed = true;
+
+  passed = assertSyntaxError('A[x] = B[x, y', 1, 14, 'Unclosed bracket') && passed;
+  passed = assertSyntaxError('A[x] = B[x]\nC[x] B[x]', 2, 6, 'Missing = on line 2') && passed;
+  passed = assertSyntaxError('A[x, x] = B[x]', 1, 6, 'Duplicate LHS index') && passed;
+  passed = assertSyntaxError('A[x] = B[x] $ C[x]', 1, 13, 'Unexpected character') && passed;
+  passed = assertSyntaxError('A[x] = B[x + 1]', 1, 12, 'Index arithmetic rejected') && passed;
+  passed = assertSyntaxError('A[x] = B[x] / C', 1, 15, 'Division by a tensor rejected') && passed;
+  passed = assertSyntaxError('A[x] =', 1, 7, 'Empty right-hand side') && passed;
+  passed = assertSyntaxError("A[y] = B['alice, y]", 1, 10, 'Unclosed quote') && passed;
+
+  return passed;
+}
+
+// ============================================================================
+// INTERPRETER TESTS
+// ============================================================================
+
+// Alice(0) → Bob(1) → Charlie(2), Bob(1) → Diana(3)
+function familyBindings(): Map<string, Tensor> {
+  return new Map([
+    ['Parent', fromMatrix('Parent', ['x', 'y'], [
+      [0, 1, 0, 0],
+      [0, 0, 1, 1],
+      [0, 0, 0, 0],
+      [0, 0, 0, 0],
+    ])],
+  ]);
+}
+
+function testRunJoinProject(): boolean {
+  logTest('Run join-project equation');
+  let passed = true;
+
+  const { tensors, trace } = runProgram('Grandparent[x, z] = Parent[x, y] Parent[y, z]', familyBindings());
+  const gp = tensors.get('Grandparent')!;
+
+  passed = assertClose(getElement(gp, 0, 2), 1, 'Alice is grandparent of Charlie') && passed;
+  passed = assertClose(getElement(gp, 0, 3), 1, 'Alice is grandparent of Diana') && passed;
+  passed = assertClose(getElement(gp, 1, 2), 0, 'Bob is not grandparent of Charlie') && passed;
+  passed = assert(gp.indices.join(',') === 'x,z', 'Result carries LHS index names') && passed;
+  passed = assert(trace.length === 1 && trace[0].explanation.includes("einsum('ab,bc->ac'"), 'Trace shows compiled einsum') && passed;
+
+  return passed;
+}
+
+function testRunSharedLHSSums(): boolean {
+  logTest('Equations sharing an LHS are summed');
+  let passed = true;
+
+  const program = `
+    Ancestor[x, y] = Parent[x, y]
+    Ancestor[x, z] = Ancestor[x, y] Parent[y, z]
+  `;
+  const { tensors, trace } = runProgram(program, familyBindings());
+  const anc = tensors.get('Ancestor')!;
+
+  passed = assertClose(getElement(anc, 0, 1), 1, 'Parent fact kept') && passed;
+  passed = assertClose(getElement(anc, 0, 2), 1, 'Derived fact added') && passed;
+  passed = assert(trace.length === 2, 'One trace step per equation') && passed;
+  passed = assert(trace[1].explanation.includes('Summed with the earlier value'), 'Trace notes the summation') && passed;
+
+  return passed;
+}
+
+function testRunDatalogRuleThresholds(): boolean {
+  logTest('Datalog rules combine by OR');
+  let passed = true;
+
+  const bindings = familyBindings();
+  bindings.set('Friend', fromMatrix('Friend', ['x', 'y'], [
+    [0, 1, 0, 0],
+    [0, 0, 0, 0],
+    [0, 0, 0, 0],
+    [0, 0, 0, 0],
+  ]));
+
+  const { tensors } = runProgram(`
+    Knows(x, y) <- Parent(x, y)
+    Knows(x, y) <- Friend(x, y)
+  `, bindings);
+  const knows = tensors.get('Knows')!;
+
+  passed = assertClose(getElement(knows, 0, 1), 1, 'Fact derived twice stays 1') && passed;
+  passed = assertClose(getElement(knows, 1, 2), 1, 'Parent-only fact is 1') && passed;
+
+  return passed;
+}
+
+function testRunNonlinearityAndSlice(): boolean {
+  logTest('Nonlinearity with constant slice');
+  let passed = true;
+
+  // Emb[n, l, d] with 2 nodes, 2 layers, 2 dims
+  const emb = createTensor('Emb', ['n', 'l', 'd'], [2, 2, 2], new Float64Array([
+    0, 0, 1, 2, // node 0: layer 0, layer 1
+    0, 0, 3, -1, // node 1: layer 0, layer 1
+  ]));
+  const wOut = fromVector('WOut', 'd', [0.5, -0.25]);
+
+  const { tensors } = runProgram('Y[n] = sig(WOut[d] Emb[n, L, d])', new Map([
+    ['Emb', emb],
+    ['WOut', wOut],
+  ]), { constants: { L: 1 } });
+  const y = tensors.get('Y')!;
+
+  const expected = sigmoid(fromVector('z', 'n', [0.5 * 1 - 0.25 * 2, 0.5 * 3 + 0.25 * 1]));
+  passed = assertClose(y.data[0], expected.data[0], 'Y[0] = sig(WOut · Emb[0, L])') && passed;
+  passed = assertClose(y.data[1], expected.data[1], 'Y[1] = sig(WOut · Emb[1, L])') && passed;
+
+  return passed;
+}
+
+function testRunBroadcastAndScalars(): boolean {
+  logTest('Sums broadcast over missing LHS indices');
+  let passed = true;
+
+  const { tensors } = runProgram(`
+    Out[i, j] = A[i] + 2 B[j] - 1
+    Total = Out[i, j]
+  `, new Map([
+    ['A', fromVector('A', 'i', [1, 2])],
+    ['B', fromVector('B', 'j', [10, 20, 30])],
+  ]));
+
+  const out = tensors.get('Out')!;
+  passed = assert(out.shape.join(',') === '2,3', 'Out has shape [2, 3]') && passed;
+  passed = assertClose(getElement(out, 1, 2), 2 + 60 - 1, 'Out[1, 2] = A[1] + 2 B[2] - 1') && passed;
+  passed = assertClose(tensors.get('Total')!.data[0], 3 * 3 + 2 * 60 * 2 - 6, 'Scalar LHS sums every element') && passed;
+
+  // Bool and int tensors are promoted, not wrapped or truncated
+  const B = astype(fromVector('B', 'x', [1, 0, 1]), 'bool');
+  const I = astype(fromVector('I', 'x', [1, 2, 3]), 'int32');
+  const F = fromVector('F', 'x', [0.5, 0.25, 300]);
+  const typed = runProgram(`
+    Y[x] = B[x] + B[x]
+    B[x] = F[x]
+    I[x] = F[x]
+  `, new Map([['B', B], ['I', I], ['F', F]])).tensors;
+  passed = assert(typed.get('Y')!.data.join() === '2,0,2' && dtypeOf(typed.get('Y')!) === 'float64', 'Sum of bools is float64') && passed;
+  passed = assert(typed.get('B')!.data.join() === '1.5,0.25,301' && dtypeOf(typed.get('B')!) === 'float64', 'Bool LHS promoted') && passed;
+  passed = assert(typed.get('I')!.data.join() === '1.5,2.25,303', 'Int LHS promoted') && passed;
+  const R = runProgram('R(x) = F[x]', new Map([['R', astype(fromVector('R', 'x', [0, 0, 1]), 'bool')], ['F', F]])).tensors.get('R')!;
+  passed = assert(R.data.join() === '1,1,1' && dtypeOf(R) === 'bool', 'Bool relation thresholded back to bool') && passed;
+
+  return passed;
+}
+
+function testRunErrors(): boolean {
+  logTest('Runtime errors point at the equation');
+  let passed = true;
+
+  passed = assertThrows(() => runProgram('A[x] = Missing[x]', new Map()), /line 1, column 8: unknown tensor 'Missing'/, 'Unknown tensor') && passed;
+  passed = assertThrows(() => runProgram('A[x] = Parent[x]', familyBindings()), /rank 2 but is used with 1 indices/, 'Rank mismatch') && passed;
+  passed = assertThrows(() => runProgram('A[x, w] = Parent[x, y]', familyBindings()), /'w' on the left-hand side/, 'LHS index missing from RHS') && passed;
+  passed = assertThrows(() => runProgram('A[x] = Parent[x, L]', familyBindings()), /constant 'L' has no value/, 'Unbound constant') && passed;
+
+  return passed;
+}
+
+function testRunDomainChecks(): boolean {
+  logTest('Index domains are checked before running');
+  let passed = true;
+
+  const person = createDomain('person', ['Alice', 'Bob', 'Charlie']);
+  const city = createDomain('city', ['Paris', 'Rome', 'Oslo']);
+  const parent = withDomains(fromMatrix('Parent', ['x', 'y'], [[0, 1, 0], [0, 0, 1], [0, 0, 0]]), [person, person]);
+  const livesIn = withDomains(fromMatrix('LivesIn', ['x', 'c'], [[1, 0, 0], [0, 1, 0], [0, 0, 1]]), [person, city]);
+  const near = withDomains(fromMatrix('Near', ['c', 'd'], [[0, 1, 0], [1, 0, 0], [0, 0, 0]]), [city, city]);
+  const bindings = new Map([['Parent', parent], ['LivesIn', livesIn], ['Near', near]]);
+  const options = { domains: [person, city] };
+
+  // Joining person with city fails before anything runs, pointing at the index
+  const program = `
+    ParentCity[x, c] = Parent[x, y] LivesIn[y, c]
+    Bad[x, d] = Parent[x, c] Near[c, d]
+  `;
+  let message = '';
+  try {
+    runProgram(program, bindings, options);
+  } catch (error) {
+    message = error instanceof TensorProgramTypeError ? error.message : '';
+  }
+  passed = assert(message.startsWith("line 3, column 35: index 'c' ranges over city in Near but over person in Parent"), 'Type error names both domains') && passed;
+  passed = assert(message.endsWith(`Bad[x, d] = Parent[x, c] Near[c, d]\n  ${' '.repeat(30)}^`), 'Caret under the offending index') && passed;
+
+  // Well-typed programs run, and their results carry domains
+  const { tensors } = runProgram(`
+    ParentCity[x, c] = Parent[x, y] LivesIn[y, c]
+    NearParent[x, d] = ParentCity[x, c] Near[c, d]
+    FromAlice[c] = ParentCity[Alice, c]
+  `, bindings, options);
+  passed = assert(tensors.get('NearParent')!.domains?.join() === 'person,city', 'Domains flow through equations') && passed;
+  passed = assert(tensors.get('FromAlice')!.data.join() === '0,1,0', 'Domain symbols serve as constants') && passed;
+  passed = assertThrows(() => runProgram('A[c] = ParentCity[Paris, c]', tensors, options), /'Paris' is not a constant of domain person/, 'Constant from the wrong domain') && passed;
+
+  // Declared index domains and sizes
+  passed = assertThrows(
+    () => runProgram('A[x] = LivesIn[x, c]', bindings, { ...options, indexDomains: { x: 'city' } }),
+    /index 'x' ranges over person in LivesIn but over city in options.indexDomains/,
+    'Declared index domain'
+  ) && passed;
+  const untyped = new Map([['W', fromMatrix('W', ['i', 'j'], [[1, 2], [3, 4]])]]);
+  passed = assertThrows(
+    () => runProgram('A[x] = W[x, j]', untyped, { domains: [person], indexDomains: { x: 'person' } }),
+    /index 'x' ranges over person of size 3 but W has size 2 there/,
+    'Size of a declared domain'
+  ) && passed;
+  passed = assert(checkProgramDomains('A[i] = W[i, j]', untyped).size === 0, 'Untyped programs are unaffected') && passed;
+
+  // Loaded facts keep lowercase symbols; quoted, they are constants
+  const facts = loadDatalogFacts('parent(alice, bob). parent(bob, carol).');
+  const factOptions = { domains: [...facts.domains.values()] };
+  const kids = runProgram("Kids[y] = parent('alice', y)", facts.relations, factOptions).tensors.get('Kids')!;
+  passed = assert(kids.data.join() === '0,1,0', 'Quoted lowercase symbol selects a slice') && passed;
+  passed = assertThrows(
+    () => runProgram('Kids[y] = parent(alice, y)', facts.relations, factOptions),
+    /'alice' is a variable summed out of parent, but also a symbol of domain entity; quote it/,
+    'Unquoted symbol is not silently summed'
+  ) && passed;
+
+  return passed;
+}
+
+// ============================================================================
+// MAIN TEST RUNNER
+// ============================================================================
+
+async function runAllProgramTests() {
+  log('\n' + '═'.repeat(70), colors.cyan);
+  log('  Tensor Logic Programs', colors.cyan);
+  log('  Unit Test Suite', colors.cyan);
+  log('═'.repeat(70), colors.cyan);
+
+  const modules: { name: string; tests: Array<{ name: string; fn: () => boolean }> }[] = [
+    {
+      name: 'PROGRAM PARSER',
+      tests: [
+        { name: 'Join-project equation', fn: testParseDatalogStyleEquation },
+        { name: 'Nonlinearity and slice', fn: testParseNonlinearityAndSlice },
+        { name: 'Relations and primes', fn: testParseRelationsAndPrimes },
+        { name: 'Sums and coefficients', fn: testParseSumsAndCoefficients },
+        { name: 'Datalog rule', fn: testParseDatalogRule },
+        { name: 'Multi-equation program', fn: testParseMultiEquationProgram },
+        { name: 'Syntax errors', fn: testParseErrors },
+      ],
+    },
+    {
+      name: 'PROGRAM INTERPRETER',
+      tests: [
+        { name: 'Join-project', fn: testRunJoinProject },
+        { name: 'Shared LHS', fn: testRunSharedLHSSums },
+        { name: 'Datalog rules', fn: testRunDatalogRuleThresholds },
+        { name: 'Nonlinearity and slice', fn: testRunNonlinearityAndSlice },
+        { name: 'Broadcast and scalars', fn: testRunBroadcastAndScalars },
+        { name: 'Runtime errors', fn: testRunErrors },
+        { name: 'Index domains', fn: testRunDomainChecks },
+      ],
+    },
+  ];
+
+  let totalPassed = 0;
+  let totalFailed = 0;
+
+  for (const module of modules) {
+    logModule(module.name);
+
+    for (const test of module.tests) {
+      try {
+        if (test.fn()) {
+          totalPassed++;
+        } else {
+          totalFailed++;
+        }
+      } catch (error) {
+        totalFailed++;
+        logTest(test.name);
+        logError(`Test threw error: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  }
+
+  log('\n' + '═'.repeat(70), colors.cyan);
+  log(`  FINAL RESULTS: ${totalPassed} passed, ${totalFailed} failed`, colors.cyan);
+  if (totalFailed === 0) {
+    log('  ALL PROGRAM TESTS PASSED!', colors.green);
+  } else {
+    log('  SOME TESTS FAILED - Review above for details', colors.red);
+  }
+  log('═'.repeat(70) + '\n', colors.cyan);
+
+  if (totalFailed > 0) {
+    process.exit(1);
+  }
+}
+
+runAllProgramTests();
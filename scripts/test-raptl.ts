@@ -12,6 +12,51 @@
  */
 
 import { fromMatrix, fromVector, getElement } from '../src/tensor-logic/core.js';
+import { astype } from '../src/tensor-logic/dtype.js';
+import { Random, createRandom } from '../src/tensor-logic/random.js';
+import { forwardChain } from '../src/tensor-logic/fixpoint.js';
+import { createDomain } from '../src/tensor-logic/domains.js';
+import {
+  WhyProvenanceSemiring,
+  PolynomialSemiring,
+  ExpectationSemiring,
+  GodelSemiring,
+  ProductSemiring,
+  LukasiewiczSemiring,
+  topKSemiring,
+  boundedCountingSemiring,
+  annotateFacts,
+  formatWhyProvenance,
+  formatPolynomial,
+  expectationFacts,
+  expectedValues,
+} from '../src/tensor-logic/semirings.js';
+import {
+  IndefiniteTruthValue,
+  plnInversion,
+  plnInduction,
+  plnAbduction,
+  plnModusPonens,
+  plnSimilarityToInheritance,
+  plnInheritanceToSimilarity,
+  plnMemberToInheritance,
+  plnInheritanceToMember,
+  createIndefiniteTruthValue,
+  toIndefinite,
+  fromIndefinite,
+  indefiniteDeduction,
+  indefiniteRevision,
+  plnTensorRevision,
+  plnTensorInversion,
+  plnTensorDeduction,
+  plnTensorInduction,
+  plnTensorAbduction,
+  plnTensorModusPonens,
+  plnTensorSimilarityToInheritance,
+  plnStrengths,
+  plnEinsum,
+  plnForwardChain,
+} from '../src/tensor-logic/pln.js';
 
 import {
   // Semirings
@@ -20,7 +65,16 @@ import {
   ViterbiSemiring,
   ProbabilisticSemiring,
   MinPlusSemiring,
+  LogSemiring,
+  Semiring,
   semiringEinsum,
+  createSemiringTensor,
+  liftTensor,
+  lowerTensor,
+  semiringContract,
+  SemiringLawOptions,
+  checkSemiringLaws,
+  assertSemiringLaws,
 
   // PLN
   createTruthValue,
@@ -29,6 +83,12 @@ import {
   plnNegation,
   plnDeduction,
   plnRevision,
+  deductionStrength,
+  confidenceToCount,
+  countToConfidence,
+  truthValueFromCounts,
+  PLN_DEFAULT_K,
+  PLNTensor,
   createPLNTensor,
   plnTensorConjunction,
 
@@ -194,6 +254,33 @@ function testMinPlusSemiring(): boolean {
   return passed;
 }
 
+function testLogSemiring(): boolean {
+  logTest('LogSemiring (logsumexp, +)');
+  let passed = true;
+
+  passed = assertClose(LogSemiring.zero, -Infinity, 'Zero is -Infinity') && passed;
+  passed = assertClose(LogSemiring.one, 0, 'One is 0') && passed;
+
+  passed = assertClose(LogSemiring.add(Math.log(0.2), Math.log(0.3)), Math.log(0.5), 'log 0.2 ⊕ log 0.3 = log 0.5') && passed;
+  passed = assertClose(LogSemiring.add(-1000, -1000), -1000 + Math.log(2), 'Adding tiny probabilities does not underflow') && passed;
+  passed = assertClose(LogSemiring.add(LogSemiring.zero, -3), -3, 'Zero is the additive identity') && passed;
+  passed = assertClose(LogSemiring.mul(Math.log(0.2), Math.log(0.3)), Math.log(0.06), 'log 0.2 ⊗ log 0.3 = log 0.06') && passed;
+  passed = assertClose(LogSemiring.fromNumber(0), -Infinity, 'fromNumber(0) = -Infinity') && passed;
+
+  // 0.5^2000 underflows as a number but not as a log
+  let product = LogSemiring.one;
+  for (let i = 0; i < 2000; i++) product = LogSemiring.mul(product, LogSemiring.fromNumber(0.5));
+  passed = assertClose(product, 2000 * Math.log(0.5), 'Long product stays finite') && passed;
+
+  // Semiring einsum with LogSemiring agrees with ordinary einsum
+  const A = fromMatrix('A', ['i', 'j'], [[0.1, 0.2], [0.3, 0.4]]);
+  const B = fromMatrix('B', ['j', 'k'], [[0.5, 0.6], [0.7, 0.8]]);
+  const C = semiringEinsum(LogSemiring, 'ij,jk->ik', A, B);
+  passed = assertClose(getElement(C, 0, 1), 0.1 * 0.6 + 0.2 * 0.8, 'Matrix product through log space') && passed;
+
+  return passed;
+}
+
 function testSemiringEinsum(): boolean {
   logTest('semiringEinsum');
   let passed = true;
@@ -219,6 +306,364 @@ function testSemiringEinsum(): boolean {
   return passed;
 }
 
+function testSemiringTensors(): boolean {
+  logTest('Semiring tensors hold native values');
+  let passed = true;
+
+  const P = fromMatrix('P', ['i', 'j'], [[0, 0.5], [0.25, 1]]);
+  const lifted = liftTensor(ViterbiSemiring, P);
+  passed = assert(lifted.data instanceof Float64Array && lifted.data[0] === -Infinity, 'Numeric semiring stores log-scores in a Float64Array') && passed;
+  passed = assert(lowerTensor(lifted).data.join() === P.data.join(), 'lift then lower is the identity') && passed;
+  const reach = liftTensor(BooleanSemiring, P);
+  passed = assert(Array.isArray(reach.data) && reach.data.join() === 'false,true,true,true', 'Boolean semiring stores booleans') && passed;
+
+  // Chained contractions never pass through numbers
+  const squared = semiringContract('ij,jk->ik', lifted, lifted);
+  passed = assertClose(semiringContract('ij,jk->ik', squared, lifted).data[1], Math.log(0.5), 'Viterbi chain stays in log space') && passed;
+  passed = assertThrows(() => semiringContract('ij,jk->ik', lifted, liftTensor(MinPlusSemiring, P)), 'Mixing semirings is rejected') && passed;
+
+  // A semiring of objects: cheapest path with its route, which numbers cannot hold
+  type Route = { cost: number; via: string };
+  const Routes: Semiring<Route> = {
+    name: 'Routes',
+    zero: { cost: Infinity, via: '' },
+    one: { cost: 0, via: '' },
+    add: (a, b) => (b.cost < a.cost ? b : a),
+    mul: (a, b) => ({ cost: a.cost + b.cost, via: a.via + b.via }),
+    fromNumber: (n) => ({ cost: n, via: '' }),
+    toNumber: (v) => v.cost,
+    equals: (a, b) => a.cost === b.cost && a.via === b.via,
+  };
+  const names = 'abcd';
+  const edges: Route[] = [];
+  const costs = [[Infinity, 1, 4, Infinity], [Infinity, Infinity, 2, 6], [Infinity, Infinity, Infinity, 3], [Infinity, Infinity, Infinity, Infinity]];
+  costs.forEach((row, i) => row.forEach((c, j) => edges.push(c === Infinity ? Routes.zero : { cost: c, via: `${names[i]}${names[j]} ` })));
+  const Edge = createSemiringTensor(Routes, 'Edge', ['x', 'y'], [4, 4], edges);
+  const result = forwardChain('Path[x, y] = Edge[x, y]\nPath[x, z] = Path[x, y] Edge[y, z]', new Map([['Edge', Edge]]), Routes);
+  const best = result.values.get('Path')!.data[3];
+  passed = assert(best.cost === 6 && best.via === 'ab bc cd ', `Cheapest route a→d is ${best.via.trim()} (${best.cost})`) && passed;
+  passed = assertClose(getElement(result.relations.get('Path')!, 0, 3), 6, 'Lowered result holds the costs') && passed;
+
+  return passed;
+}
+
+/** Random directed graph on n nodes; weights in 1..9, 0 for no edge */
+function randomGraph(n: number, density: number, seed: number): number[][] {
+  const rng = createRandom(seed);
+  return Array.from({ length: n }, (_, i) =>
+    Array.from({ length: n }, (_, j) => (i !== j && rng.uniform() < density ? 1 + rng.int(9) : 0))
+  );
+}
+
+function testTextbookAlgorithms(): boolean {
+  logTest('Semiring fixpoints match textbook algorithms');
+  let passed = true;
+  const n = 8;
+  const graph = randomGraph(n, 0.3, 7);
+  const closure = 'Path[x, y] = Edge[x, y]\nPath[x, z] = Path[x, y] Edge[y, z]';
+
+  // Boolean: Warshall's transitive closure
+  const reach = graph.map((row) => row.map((w) => w > 0));
+  for (let k = 0; k < n; k++) {
+    for (let i = 0; i < n; i++) {
+      for (let j = 0; j < n; j++) reach[i][j] = reach[i][j] || (reach[i][k] && reach[k][j]);
+    }
+  }
+  const bool = forwardChain(closure, new Map([['Edge', fromMatrix('Edge', ['x', 'y'], graph)]]), BooleanSemiring);
+  passed = assert(bool.relations.get('Path')!.data.join() === reach.flat().map(Number).join(), 'Boolean closure = Warshall') && passed;
+
+  // MinPlus: Floyd–Warshall shortest paths
+  const dist = graph.map((row) => row.map((w) => (w > 0 ? w : Infinity)));
+  for (let k = 0; k < n; k++) {
+    for (let i = 0; i < n; i++) {
+      for (let j = 0; j < n; j++) dist[i][j] = Math.min(dist[i][j], dist[i][k] + dist[k][j]);
+    }
+  }
+  const weights = fromMatrix('Edge', ['x', 'y'], graph.map((row) => row.map((w) => (w > 0 ? w : Infinity))));
+  const minPlus = forwardChain(closure, new Map([['Edge', weights]]), MinPlusSemiring);
+  passed = assert(minPlus.relations.get('Path')!.data.join() === dist.flat().join(), 'MinPlus closure = Floyd–Warshall') && passed;
+
+  // Viterbi on native scores: longest path in a DAG (edges i → j > i only).
+  // Scores are not probabilities, so they are given as semiring values rather than lifted.
+  const dag = graph.map((row, i) => row.map((w, j) => (j > i && w > 0 ? w : -Infinity)));
+  const longest = dag.map((row) => [...row]);
+  for (let span = 2; span < n; span++) {
+    for (let i = 0; i + span < n; i++) {
+      for (let k = i + 1; k < i + span; k++) longest[i][i + span] = Math.max(longest[i][i + span], longest[i][k] + dag[k][i + span]);
+    }
+  }
+  const scores = createSemiringTensor(ViterbiSemiring, 'Edge', ['x', 'y'], [n, n], dag.flat());
+  const viterbi = forwardChain(closure, new Map([['Edge', scores]]), ViterbiSemiring);
+  passed = assert(Array.from(viterbi.values.get('Path')!.data).join() === longest.flat().join(), 'Viterbi closure on scores = DAG longest-path DP') && passed;
+
+  // Viterbi decoding of an HMM: contractions vs the textbook recursion and brute force
+  const initial = [0.6, 0.3, 0.1];
+  const transition = [[0.7, 0.2, 0.1], [0.3, 0.5, 0.2], [0.2, 0.3, 0.5]];
+  const emission = [[0.5, 0.4, 0.1], [0.1, 0.3, 0.6], [0.3, 0.3, 0.4]];
+  const observations = [0, 2, 1, 2, 2, 0];
+  const A = liftTensor(ViterbiSemiring, fromMatrix('A', ['i', 'j'], transition));
+  const column = (o: number) => liftTensor(ViterbiSemiring, fromVector('B', 'j', emission.map((row) => row[o])));
+  let delta = semiringContract('i,i->i', liftTensor(ViterbiSemiring, fromVector('pi', 'i', initial)), column(observations[0]));
+  for (const o of observations.slice(1)) delta = semiringContract('i,ij,j->j', delta, A, column(o));
+  const best = lowerTensor(semiringContract('i->', delta)).data[0];
+
+  let textbook = initial.map((p, s) => p * emission[s][observations[0]]);
+  for (const o of observations.slice(1)) {
+    textbook = textbook.map((_, j) => Math.max(...textbook.map((d, i) => d * transition[i][j])) * emission[j][o]);
+  }
+  let brute = 0;
+  for (let path = 0; path < 3 ** observations.length; path++) {
+    const states = observations.map((_, t) => Math.floor(path / 3 ** t) % 3);
+    let p = initial[states[0]] * emission[states[0]][observations[0]];
+    for (let t = 1; t < states.length; t++) p *= transition[states[t - 1]][states[t]] * emission[states[t]][observations[t]];
+    brute = Math.max(brute, p);
+  }
+  passed = assertClose(best, Math.max(...textbook), 'HMM best path = Viterbi recursion') && passed;
+  passed = assertClose(best / brute, 1, 'HMM best path = brute force over 729 paths') && passed;
+
+  return passed;
+}
+
+/** All paths from `from` to `to` in a DAG given as a weight matrix (0 = no edge), as lists of edges */
+function enumeratePaths(graph: number[][], from: number, to: number): [number, number][][] {
+  if (from === to) return [[]];
+  const paths: [number, number][][] = [];
+  graph[from].forEach((w, next) => {
+    if (w === 0) return;
+    for (const rest of enumeratePaths(graph, next, to)) paths.push([[from, next], ...rest]);
+  });
+  return paths;
+}
+
+const PATH_RULES = 'Path[x, y] = Edge[x, y]\nPath[x, z] = Path[x, y] Edge[y, z]';
+
+function testProvenanceSemirings(): boolean {
+  logTest('Provenance semirings');
+  let passed = true;
+
+  // a → b → c, a → c, c → a
+  const Edge = fromMatrix('Edge', ['x', 'y'], [[0, 1, 1], [0, 0, 1], [1, 0, 0]]);
+  const nodes = createDomain('node', ['a', 'b', 'c']);
+  const why = forwardChain(PATH_RULES, new Map([['Edge', annotateFacts(WhyProvenanceSemiring, Edge, (fact) => [[fact]], nodes)]]), WhyProvenanceSemiring);
+  const paths = why.values.get('Path')!;
+  passed = assert(formatWhyProvenance(paths.data[2]) === '{Edge(a, b), Edge(b, c)} | {Edge(a, c)}', `Path(a, c) ← ${formatWhyProvenance(paths.data[2])}`) && passed;
+  passed = assert(why.converged && formatWhyProvenance(paths.data[0]) === '{Edge(a, b), Edge(b, c), Edge(c, a)} | {Edge(a, c), Edge(c, a)}', 'Cyclic rules converge with finite witness sets') && passed;
+  passed = assert(formatWhyProvenance(paths.data[3]) === '{Edge(b, c), Edge(c, a)}', 'Witnesses that go round the cycle are not minimal') && passed;
+  passed = assert(formatWhyProvenance(annotateFacts(WhyProvenanceSemiring, Edge, (fact) => [[fact]]).data[3]) === '∅', 'Absent facts have no witness') && passed;
+
+  // Polynomials count uses of each fact: a self-loop used twice is squared
+  const Loop = annotateFacts(PolynomialSemiring, fromMatrix('E', ['x', 'y'], [[1, 1], [0, 1]]), (fact) => [{ coefficient: 1, factors: [fact] }]);
+  const twoSteps = semiringContract('xy,yz->xz', Loop, Loop);
+  passed = assert(formatPolynomial(twoSteps.data[1]) === 'E(0, 0)·E(0, 1) + E(0, 1)·E(1, 1)', `Two steps 0 → 1: ${formatPolynomial(twoSteps.data[1])}`) && passed;
+  passed = assert(formatPolynomial(twoSteps.data[0]) === 'E(0, 0)^2', 'Self-loop twice is squared') && passed;
+  passed = assert(
+    PolynomialSemiring.equals!(PolynomialSemiring.add(twoSteps.data[0], twoSteps.data[0]), [{ coefficient: 2, factors: ['E(0, 0)', 'E(0, 0)'] }]),
+    'Like terms combine'
+  ) && passed;
+
+  // Evaluating every fact to 1 gives the counting semiring
+  const dag = randomGraph(6, 0.5, 3).map((row, i) => row.map((w, j) => (j > i && w > 0 ? 1 : 0)));
+  const Dag = fromMatrix('Edge', ['x', 'y'], dag);
+  const polynomial = forwardChain(PATH_RULES, new Map([['Edge', annotateFacts(PolynomialSemiring, Dag, (fact) => [{ coefficient: 1, factors: [fact] }])]]), PolynomialSemiring);
+  const counting = forwardChain(PATH_RULES, new Map([['Edge', Dag]]), CountingSemiring);
+  passed = assert(polynomial.relations.get('Path')!.data.join() === counting.relations.get('Path')!.data.join(), 'Polynomial evaluated at 1 = Counting') && passed;
+
+  // Unannotated values go through semiringEinsum like any semiring
+  const A = fromMatrix('A', ['i', 'j'], [[1, 0], [1, 1]]);
+  passed = assert(
+    semiringEinsum(WhyProvenanceSemiring, 'ij,jk->ik', A, A).data.join() === semiringEinsum(BooleanSemiring, 'ij,jk->ik', A, A).data.join(),
+    'Why-provenance of unlabelled facts = Boolean'
+  ) && passed;
+
+  return passed;
+}
+
+function testTopKSemiring(): boolean {
+  logTest('Top-k derivations');
+  let passed = true;
+  const n = 6;
+  const graph = randomGraph(n, 0.6, 11).map((row, i) => row.map((w, j) => (j > i && w > 0 ? w / 10 : 0)));
+  const Edge = fromMatrix('Edge', ['x', 'y'], graph);
+
+  const top3 = topKSemiring(3);
+  const edges = annotateFacts(top3, Edge, (fact, p) => [{ score: Math.log(p), facts: [fact] }]);
+  const result = forwardChain(PATH_RULES, new Map([['Edge', edges]]), top3);
+  const best = result.values.get('Path')!.data[n - 1];
+
+  const brute = enumeratePaths(graph, 0, n - 1)
+    .map((path) => path.reduce((s, [i, j]) => s + Math.log(graph[i][j]), 0))
+    .sort((a, b) => b - a);
+  passed = assert(brute.length >= 3 && best.length === 3, `Three best of ${brute.length} paths 0 → ${n - 1}`) && passed;
+  passed = best.every((d, i) => assertClose(d.score, brute[i], `Derivation ${i + 1} score`)) && passed;
+  passed = assert(best[0].facts.every((f) => f.startsWith('Edge(')) && best[0].facts.length > 0, `Best derivation uses ${best[0].facts.join(', ')}`) && passed;
+
+  // k = 1 is Viterbi
+  const viterbi = semiringEinsum(ViterbiSemiring, 'xy,yz->xz', Edge, Edge);
+  const top1 = semiringEinsum(topKSemiring(1), 'xy,yz->xz', Edge, Edge);
+  passed = assert(top1.data.every((v, i) => Math.abs(v - viterbi.data[i]) < EPSILON), 'Top-1 = Viterbi') && passed;
+  passed = assertThrows(() => topKSemiring(0), 'k must be positive') && passed;
+
+  return passed;
+}
+
+function testExpectationSemiring(): boolean {
+  logTest('Expectation semiring');
+  let passed = true;
+  const n = 6;
+  const features = randomGraph(n, 0.6, 5).map((row, i) => row.map((w, j) => (j > i && w > 0 ? w / 9 : 0)));
+  const edgeExists = features.map((row) => row.map((f) => (f > 0 ? 1 : 0)));
+  const paths = enumeratePaths(edgeExists, 0, n - 1);
+
+  // Edge probabilities p = exp(θ f) / 2, so ∂log p/∂θ = f
+  const theta = 0.7;
+  const probabilities = (t: number) =>
+    fromMatrix('Edge', ['x', 'y'], features.map((row) => row.map((f) => (f > 0 ? Math.exp(t * f) / 2 : 0))));
+  const Edge = probabilities(theta);
+  const Zof = (t: number) => forwardChain(PATH_RULES, new Map([['Edge', probabilities(t)]]), CountingSemiring).relations.get('Path')!.data[n - 1];
+
+  // Expected number of edges on a path, against enumeration
+  const lengths = expectationFacts(Edge, fromMatrix('One', ['x', 'y'], edgeExists));
+  const { total, expectation } = expectedValues(forwardChain(PATH_RULES, new Map([['Edge', lengths]]), ExpectationSemiring).values.get('Path')!);
+  const weight = (path: [number, number][]) => path.reduce((p, [i, j]) => p * Edge.data[i * n + j], 1);
+  const Z = paths.reduce((s, path) => s + weight(path), 0);
+  passed = assertClose(total.data[n - 1], Z, `Z over ${paths.length} paths`) && passed;
+  passed = assertClose(expectation.data[n - 1], paths.reduce((s, path) => s + weight(path) * path.length, 0) / Z, 'Expected path length') && passed;
+
+  // r = ∂Z/∂θ, against a central difference
+  const gradient = forwardChain(PATH_RULES, new Map([['Edge', expectationFacts(Edge, fromMatrix('F', ['x', 'y'], features))]]), ExpectationSemiring);
+  const h = 1e-5;
+  const numeric = (Zof(theta + h) - Zof(theta - h)) / (2 * h);
+  passed = assert(Math.abs(gradient.values.get('Path')!.data[n - 1].r - numeric) < 1e-6, `∂Z/∂θ = ${numeric.toFixed(6)}`) && passed;
+  passed = assertThrows(() => expectationFacts(Edge, fromVector('v', 'x', [1])), 'Shapes must match') && passed;
+
+  return passed;
+}
+
+function testFuzzyAndBoundedSemirings(): boolean {
+  logTest('Fuzzy and bounded-counting semirings');
+  let passed = true;
+
+  // Gödel closure is the widest (bottleneck) path
+  const n = 6;
+  const graph = randomGraph(n, 0.6, 9).map((row, i) => row.map((w, j) => (j > i && w > 0 ? w / 10 : 0)));
+  const godel = forwardChain(PATH_RULES, new Map([['Edge', fromMatrix('Edge', ['x', 'y'], graph)]]), GodelSemiring);
+  const widest = Math.max(0, ...enumeratePaths(graph, 0, n - 1).map((path) => Math.min(...path.map(([i, j]) => graph[i][j]))));
+  passed = assertClose(godel.relations.get('Path')!.data[n - 1], widest, 'Gödel closure = widest path') && passed;
+
+  const chain = [fromMatrix('A', ['i', 'j'], [[0.8]]), fromMatrix('B', ['j', 'k'], [[0.7]])];
+  passed = assertClose(semiringEinsum(LukasiewiczSemiring, 'ij,jk->ik', ...chain).data[0], 0.5, 'Łukasiewicz: 0.8 ⊗ 0.7 = 0.5') && passed;
+  passed = assertClose(semiringEinsum(GodelSemiring, 'ij,jk->ik', ...chain).data[0], 0.7, 'Gödel: 0.8 ⊗ 0.7 = 0.7') && passed;
+  passed = assertClose(
+    semiringEinsum(ProductSemiring, 'ij,jk->ik', ...chain).data[0],
+    semiringEinsum(ViterbiSemiring, 'ij,jk->ik', ...chain).data[0],
+    'Product t-norm = Viterbi in probability space'
+  ) && passed;
+  passed = assertClose(LukasiewiczSemiring.fromNumber(1.5), 1, 'Truth degrees are clamped to [0, 1]') && passed;
+
+  // Exact counting never converges on a cycle; bounded counting does
+  const cycle = fromMatrix('Edge', ['x', 'y'], [[0, 1], [1, 0]]);
+  const exact = forwardChain(PATH_RULES, new Map([['Edge', cycle]]), CountingSemiring, { maxIterations: 20 });
+  const atLeast5 = boundedCountingSemiring(5);
+  const bounded = forwardChain(PATH_RULES, new Map([['Edge', cycle]]), atLeast5, { maxIterations: 20 });
+  passed = assert(!exact.converged && bounded.converged, `Bounded counting converges in ${bounded.iterations} iterations`) && passed;
+  passed = assert(bounded.relations.get('Path')!.data.join() === '5,5,5,5', 'Counts saturate at the bound') && passed;
+  passed = assert(
+    semiringEinsum(boundedCountingSemiring(1), 'ij,jk->ik', cycle, cycle).data.join() === semiringEinsum(BooleanSemiring, 'ij,jk->ik', cycle, cycle).data.join(),
+    'Bound 1 = Boolean'
+  ) && passed;
+  passed = assertThrows(() => boundedCountingSemiring(0), 'Bound must be positive') && passed;
+
+  return passed;
+}
+
+// ============================================================================
+// SEMIRING LAW TESTS
+// ============================================================================
+
+function testBuiltinSemiringLaws(): boolean {
+  logTest('Built-in semirings satisfy the semiring laws');
+  let passed = true;
+
+  // Values fromNumber cannot produce are built from labelled facts with the
+  // semiring's own operations, so they are in normal form: a sum of up to
+  // two products of up to two atoms
+  const generated = <T>(semiring: Semiring<T>, atoms: T[]) => (rng: Random): T =>
+    Array.from({ length: rng.int(3) }, () =>
+      Array.from({ length: rng.int(3) }, () => atoms[rng.int(atoms.length)]).reduce(semiring.mul, semiring.one)
+    ).reduce(semiring.add, semiring.zero);
+  const top3 = topKSemiring(3);
+
+  // Scores and probabilities are small integers so the arithmetic is exact
+  const checkLaws = <T>(semiring: Semiring<T>, options: SemiringLawOptions<T> = {}): void => {
+    const report = checkSemiringLaws(semiring, options);
+    passed = assert(report.violations.length === 0, `${semiring.name}: ${report.holds.length} laws hold on ${report.samples} samples`) && passed;
+    report.violations.forEach((v) => logError(v.message));
+  };
+
+  checkLaws(BooleanSemiring);
+  checkLaws(CountingSemiring);
+  checkLaws(ViterbiSemiring);
+  checkLaws(ProbabilisticSemiring);
+  checkLaws(MinPlusSemiring);
+  checkLaws(LogSemiring);
+  checkLaws(GodelSemiring);
+  checkLaws(ProductSemiring);
+  checkLaws(LukasiewiczSemiring);
+  checkLaws(boundedCountingSemiring(5));
+  checkLaws(WhyProvenanceSemiring, { sample: generated(WhyProvenanceSemiring, [[['p']], [['q']], [['r']]]) });
+  checkLaws(PolynomialSemiring, { sample: generated(PolynomialSemiring, ['x', 'y', 'z'].map((f) => [{ coefficient: 1, factors: [f] }])) });
+  checkLaws(top3, { sample: generated(top3, [-1, -2, -3].map((score, i) => [{ score, facts: ['efg'[i]] }])) });
+  checkLaws(ExpectationSemiring, { sample: (rng: Random) => ({ p: rng.int(4), r: rng.int(4) }) });
+
+  return passed;
+}
+
+function testBrokenSemirings(): boolean {
+  logTest('Law violations are reported with counterexamples');
+  let passed = true;
+
+  // A (max, +) semiring whose zero is 0 instead of -∞: 0 no longer annihilates
+  const wrongZero: Semiring<number> = { ...ViterbiSemiring, name: 'WrongZero', zero: 0 };
+  const report = checkSemiringLaws(wrongZero);
+  const laws = report.violations.map((v) => v.law);
+  passed = assert(laws.includes('zero-annihilates') && laws.includes('add-identity'), `Failing laws: ${laws.join(', ')}`) && passed;
+  passed = assert(report.holds.includes('add-associative') && report.holds.includes('left-distributive'), 'The other laws still hold') && passed;
+
+  const annihilation = report.violations.find((v) => v.law === 'zero-annihilates')!;
+  const [a] = annihilation.values;
+  passed = assert(annihilation.values.length === 1 && wrongZero.mul(0, a) !== 0, `Counterexample: ${annihilation.message}`) && passed;
+
+  // (+, max) does not distribute
+  const swapped: Semiring<number> = { ...CountingSemiring, name: 'PlusMax', one: 0, mul: Math.max };
+  const distributive = checkSemiringLaws(swapped).violations.find((v) => v.law === 'left-distributive');
+  passed = assert(distributive !== undefined, 'max does not distribute over +') && passed;
+  if (distributive) {
+    const [x, y, z] = distributive.values;
+    passed = assert(Math.max(x, y + z) !== Math.max(x, y) + Math.max(x, z), `Counterexample a = ${x}, b = ${y}, c = ${z} is genuine`) && passed;
+  }
+
+  // Non-numeric values are compared with semiring.equals and printed as JSON
+  const forgetful: Semiring<number[]> = {
+    name: 'Forgetful',
+    zero: [],
+    one: [1],
+    add: (x, y) => (x.length >= y.length ? x : y),
+    mul: (x, y) => [...x, ...y],
+    fromNumber: (n) => Array.from({ length: Math.round(n) }, () => n),
+    toNumber: (v) => v.length,
+    equals: (x, y) => x.join() === y.join(),
+  };
+  const forgetfulLaws = checkSemiringLaws(forgetful).violations.map((v) => v.law);
+  passed = assert(forgetfulLaws.includes('mul-identity') && forgetfulLaws.includes('add-commutative'), `Forgetful fails ${forgetfulLaws.join(', ')}`) && passed;
+
+  passed = assertThrows(() => assertSemiringLaws(wrongZero), 'assertSemiringLaws rejects a broken semiring') && passed;
+  assertSemiringLaws(MinPlusSemiring);
+  passed = assert(true, 'assertSemiringLaws accepts MinPlus') && passed;
+  passed = assert(checkSemiringLaws(BooleanSemiring, { samples: 10 }).samples === 12, 'Samples include the identities') && passed;
+
+  return passed;
+}
+
 // ============================================================================
 // PLN TESTS
 // ============================================================================
@@ -293,12 +738,12 @@ function testPLNRevision(): boolean {
   const b = createTruthValue(0.4, 0.4);
   const result = plnRevision(a, b);
 
-  // Weighted average: (0.8*0.6 + 0.4*0.4) / (0.6 + 0.4) = 0.64
-  const expectedStrength = (0.8 * 0.6 + 0.4 * 0.4) / (0.6 + 0.4);
+  // Evidence counts n = k·c/(1-c): 1.5k and (2/3)k; strengths average by count
+  const n1 = 0.6 / 0.4, n2 = 0.4 / 0.6;
+  const expectedStrength = (0.8 * n1 + 0.4 * n2) / (n1 + n2);
   passed = assertClose(result.strength, expectedStrength, 'Revision strength') && passed;
-  // Revision combines evidence using formula: (w1+w2) / (w1+w2+1)
-  // With w1=0.6, w2=0.4: confidence = 1.0 / 2.0 = 0.5
-  const expectedConfidence = (a.confidence + b.confidence) / (a.confidence + b.confidence + 1);
+  // Counts add: c = n/(n+k) with n = n1 + n2
+  const expectedConfidence = (n1 + n2) / (n1 + n2 + 1);
   passed = assertClose(result.confidence, expectedConfidence,
     'Revision confidence follows evidence combination formula') && passed;
 
@@ -323,6 +768,219 @@ function testPLNTensor(): boolean {
   const conj = plnTensorConjunction(pln1, pln2);
   passed = assertClose(conj.tensor.data[0], 0.5 * 0.6, 'Tensor conjunction value') && passed;
   passed = assertClose(conj.truthValues[0].confidence, 0.9 * 0.8, 'Tensor conjunction confidence') && passed;
+  passed = assertThrows(
+    () => plnTensorConjunction(pln1, createPLNTensor(fromVector('t3', 'j', [0.6, 0.4, 0.8]))),
+    'Tensor conjunction rejects mismatched indices'
+  ) && passed;
+
+  return passed;
+}
+
+function testPLNEvidenceCounts(): boolean {
+  logTest('PLN Evidence Counts');
+  let passed = true;
+
+  const tv = truthValueFromCounts(8, 10, 10);
+  passed = assertClose(tv.strength, 0.8, '8 of 10 observations: strength') && passed;
+  passed = assertClose(tv.confidence, 0.5, 'n = k gives confidence 1/2') && passed;
+  passed = assertClose(confidenceToCount(tv.confidence, 10), 10, 'Confidence converts back to the count') && passed;
+  passed = assertClose(countToConfidence(PLN_DEFAULT_K), 0.5, `Default lookahead k = ${PLN_DEFAULT_K}`) && passed;
+
+  // Revising two halves of the evidence gives the truth value of the whole
+  const whole = plnRevision(truthValueFromCounts(6, 7, 10), truthValueFromCounts(2, 3, 10), 10);
+  passed = assertClose(whole.strength, tv.strength, 'Revision of 6/7 and 2/3 has strength 8/10') && passed;
+  passed = assertClose(whole.confidence, tv.confidence, 'and the confidence of 10 observations') && passed;
+
+  const certain = plnRevision(createTruthValue(0.9, 1), createTruthValue(0.1, 0.99));
+  passed = assert(certain.strength === 0.9 && certain.confidence === 1, 'A certain estimate outweighs finite evidence') && passed;
+  passed = assertThrows(() => truthValueFromCounts(3, 2), 'More positives than observations') && passed;
+
+  return passed;
+}
+
+function testPLNRules(): boolean {
+  logTest('PLN Inference Rules');
+  let passed = true;
+  const tv = (s: number, c = 0.9) => createTruthValue(s, c);
+
+  // A Markov chain A → B → C, where deduction's independence assumption holds exactly
+  const pA = 0.3, pBgA = 0.8, pBgNotA = 0.2, pCgB = 0.7, pCgNotB = 0.1;
+  const pB = pA * pBgA + (1 - pA) * pBgNotA;
+  const pC = pB * pCgB + (1 - pB) * pCgNotB;
+  const pCgA = pBgA * pCgB + (1 - pBgA) * pCgNotB;
+  const A = tv(pA), B = tv(pB), C = tv(pC);
+
+  const ac = plnDeduction(tv(pBgA), tv(pCgB, 0.6), A, B, C);
+  passed = assertClose(ac.strength, pCgA, 'Deduction recovers P(C|A) of a Markov chain') && passed;
+  passed = assertClose(ac.confidence, 0.6, 'Deduction is as confident as the weaker premise') && passed;
+  passed = assertClose(plnDeduction(tv(0.9), tv(0.5), tv(0.9), tv(0.1), tv(0.5)).confidence, 0, 'Inconsistent premises (P(B|A) > P(B)/P(A)) give confidence 0') && passed;
+
+  const ba = plnInversion(tv(pBgA), A, B);
+  passed = assertClose(ba.strength, (pBgA * pA) / pB, 'Inversion is Bayes\' rule') && passed;
+  passed = assertClose(plnInversion(ba, B, A).strength, pBgA, 'Inverting twice gives the link back') && passed;
+
+  const induced = plnInduction(tv(pBgA), tv(pCgA), A, B, C);
+  passed = assertClose(induced.strength, plnDeduction(ba, tv(pCgA), B, A, C).strength, 'Induction = deduction through the inverted link') && passed;
+  const abduced = plnAbduction(tv(pBgA), tv(pB * pCgB / pC), A, B, C);
+  passed = assertClose(abduced.strength, pCgA, 'Abduction from A→B and C→B recovers P(C|A)') && passed;
+
+  passed = assertClose(plnModusPonens(tv(1), tv(0.7)).strength, 0.7, 'Modus ponens with A certain gives P(B|A)') && passed;
+  passed = assertClose(plnModusPonens(A, tv(pBgA), { notAB: pBgNotA }).strength, pB, 'Modus ponens with P(B|¬A) is the total probability') && passed;
+
+  // Sets in a universe of 10: |A| = 4, |B| = 6, |A ∩ B| = 3
+  const sim = plnInheritanceToSimilarity(tv(3 / 4), tv(3 / 6));
+  passed = assertClose(sim.strength, 3 / 7, 'Inheritance to similarity: |A∩B| / |A∪B|') && passed;
+  passed = assertClose(plnSimilarityToInheritance(sim, tv(0.4), tv(0.6)).strength, 3 / 4, 'Similarity to inheritance: |A∩B| / |A|') && passed;
+
+  const member = plnMemberToInheritance(tv(0.8, 0.8));
+  passed = assert(member.strength === 0.8 && member.confidence === 0.4, 'Member to inheritance keeps the strength, discounts confidence') && passed;
+  passed = assertClose(plnInheritanceToMember(member, 1).confidence, 0.4, 'Inheritance to member with no discount') && passed;
+
+  return passed;
+}
+
+function testIndefiniteTruthValues(): boolean {
+  logTest('Indefinite Truth Values');
+  let passed = true;
+
+  const itv = toIndefinite(createTruthValue(0.8, 0.5));
+  passed = assertClose(itv.lower, 0.4, 'Lower bound s·c') && passed;
+  passed = assertClose(itv.upper, 0.9, 'Upper bound s·c + 1 − c') && passed;
+  const back = fromIndefinite(itv);
+  passed = assertClose(back.strength, 0.8, 'Round trip strength') && passed;
+  passed = assertClose(back.confidence, 0.5, 'Round trip confidence') && passed;
+
+  // The interval deduction contains the point deduction of every premise inside it
+  const ab = createIndefiniteTruthValue(0.6, 0.9);
+  const bc = createIndefiniteTruthValue(0.5, 0.7);
+  const b = createIndefiniteTruthValue(0.3, 0.4);
+  const c = createIndefiniteTruthValue(0.3, 0.5, 0.8);
+  const ac = indefiniteDeduction(ab, bc, b, c);
+  const rng = createRandom(1);
+  const at = (i: IndefiniteTruthValue) => rng.range(i.lower, i.upper);
+  let contained = true;
+  for (let i = 0; i < 200; i++) {
+    const s = deductionStrength(at(ab), at(bc), at(b), at(c));
+    contained = contained && s >= ac.lower - 1e-12 && s <= ac.upper + 1e-12;
+  }
+  passed = assert(contained, `[${ac.lower.toFixed(3)}, ${ac.upper.toFixed(3)}] contains 200 sampled deductions`) && passed;
+  passed = assertClose(ac.credibility, 0.8, 'Credibility of the least credible premise') && passed;
+
+  const point = (s: number) => createIndefiniteTruthValue(s, s);
+  const exact = indefiniteDeduction(point(0.8), point(0.6), point(0.35), point(0.4));
+  passed = assertClose(exact.upper - exact.lower, 0, 'Point intervals give a point') && passed;
+  passed = assertClose(exact.lower, deductionStrength(0.8, 0.6, 0.35, 0.4), 'equal to simple deduction') && passed;
+
+  const revised = indefiniteRevision(toIndefinite(createTruthValue(0.8, 0.5)), toIndefinite(createTruthValue(0.8, 0.5)));
+  passed = assert(revised.upper - revised.lower < 0.5, 'Revision narrows the interval') && passed;
+  passed = assertThrows(() => createIndefiniteTruthValue(0.7, 0.2), 'lower > upper is rejected') && passed;
+
+  return passed;
+}
+
+function testPLNTensorRules(): boolean {
+  logTest('PLN Tensor Rules');
+  let passed = true;
+
+  // cat(0) → mammal(1) → animal(2), dog(3) → mammal(1)
+  const terms = createPLNTensor(fromVector('Term', 'x', [0.1, 0.3, 0.6, 0.1]), 0.9);
+  const links = fromMatrix('Inh', ['x', 'y'], [[0, 0.95, 0, 0], [0, 0, 0.9, 0], [0, 0, 0, 0], [0, 0.95, 0, 0]]);
+  const Inh: PLNTensor = {
+    tensor: links,
+    truthValues: Array.from(links.data, (s) => createTruthValue(s, s > 0 ? 0.8 : 0)),
+  };
+  const [cat, mammal, animal, dog] = [0, 1, 2, 3];
+  const at = (t: PLNTensor, x: number, y: number) => t.truthValues[x * 4 + y];
+
+  const deduced = plnTensorDeduction(Inh, Inh, terms);
+  const expected = plnDeduction(at(Inh, cat, mammal), at(Inh, mammal, animal), terms.truthValues[cat], terms.truthValues[mammal], terms.truthValues[animal]);
+  passed = assertClose(at(deduced, cat, animal).strength, expected.strength, 'Inh[cat, animal] = deduction through mammal') && passed;
+  passed = assertClose(at(deduced, cat, animal).confidence, expected.confidence, 'with its confidence') && passed;
+  passed = assert(at(deduced, cat, dog).confidence === 0 && at(deduced, animal, cat).confidence === 0, 'No chain, no evidence') && passed;
+  passed = assertClose(deduced.tensor.data[cat * 4 + animal], expected.strength, 'The tensor holds the strengths') && passed;
+
+  const inverted = plnTensorInversion(Inh, terms);
+  passed = assertClose(at(inverted, mammal, cat).strength, (0.95 * 0.1) / 0.3, 'Inversion: Inh[mammal, cat] by Bayes') && passed;
+  passed = assert(inverted.tensor.indices.join() === 'y,x', 'Inversion swaps the indices') && passed;
+
+  // Induction: cat → mammal, dog → mammal share no subject; abduction relates them
+  const abduced = plnTensorAbduction(Inh, Inh, terms);
+  passed = assert(at(abduced, cat, dog).confidence > 0 && at(abduced, cat, dog).strength > 0.1, 'Abduction: cat and dog share mammal') && passed;
+  const induced = plnTensorInduction(Inh, Inh, terms);
+  passed = assert(at(induced, mammal, animal).confidence === 0, 'Induction needs a shared subject') && passed;
+
+  // Two independent estimates of the same links add their evidence
+  const revised = plnTensorRevision(Inh, Inh);
+  passed = assert(at(revised, cat, mammal).confidence > 0.8, 'Tensor revision adds evidence') && passed;
+  passed = assertClose(at(revised, cat, mammal).strength, 0.95, 'and keeps agreeing strengths') && passed;
+  passed = assert(at(revised, cat, dog).confidence === 0 && revised.tensor.data[cat * terms.truthValues.length + dog] === 0, 'Absent links stay absent') && passed;
+
+  // Modus ponens: Tom is a cat, so Tom is a mammal
+  const tom = createPLNTensor(fromVector('Tom', 'x', [1, 0, 0, 0]), 0.9);
+  tom.truthValues = tom.truthValues.map((tv, i) => (i === cat ? tv : createTruthValue(0, 0)));
+  const tomIs = plnTensorModusPonens(tom, Inh);
+  passed = assertClose(tomIs.truthValues[mammal].strength, 0.95, 'Modus ponens: Tom is a mammal') && passed;
+  passed = assert(tomIs.truthValues[animal].confidence === 0, 'One step only') && passed;
+
+  const similar = plnTensorSimilarityToInheritance(plnTensorRevision(Inh, Inh), terms);
+  passed = assert(at(similar, cat, dog).confidence === 0 && at(similar, cat, mammal).confidence > 0, 'Similarity to inheritance element-wise') && passed;
+  passed = assert(plnStrengths(deduced, 0.9).data[cat * 4 + animal] === 0 && plnStrengths(deduced).data[cat * 4 + animal] > 0, 'plnStrengths drops entries below the confidence floor') && passed;
+  passed = assertThrows(() => plnTensorDeduction(Inh, Inh, createPLNTensor(fromVector('T', 'x', [0.5]))), 'Terms must match the relation') && passed;
+
+  return passed;
+}
+
+/** A relation whose zero entries are absent (confidence 0) and the others have `confidence` */
+function sparsePLN(name: string, indices: string[], rows: number[][], confidence: number): PLNTensor {
+  const tensor = fromMatrix(name, indices, rows);
+  return { tensor, truthValues: Array.from(tensor.data, (s) => createTruthValue(s, s > 0 ? confidence : 0)) };
+}
+
+const ANCESTOR_RULES = 'Ancestor[x, y] = Parent[x, y]\nAncestor[x, z] = Ancestor[x, y] Parent[y, z]';
+
+function testPLNForwardChain(): boolean {
+  logTest('PLN Forward Chaining');
+  let passed = true;
+
+  // a → b → c → d
+  const chain = sparsePLN('Parent', ['x', 'y'], [[0, 0.9, 0, 0], [0, 0, 0.9, 0], [0, 0, 0, 0.9], [0, 0, 0, 0]], 0.9);
+  const result = plnForwardChain(ANCESTOR_RULES, new Map([['Parent', chain]]));
+  const ancestor = result.relations.get('Ancestor')!;
+  passed = assert(result.converged && result.iterations <= 4, `Converged in ${result.iterations} iterations`) && passed;
+  passed = assertClose(ancestor.truthValues[3].strength, 0.9 ** 3, 'Ancestor(a, d): conjunction along the chain') && passed;
+  passed = assertClose(ancestor.truthValues[3].confidence, 0.9 ** 3, 'with the conjoined confidence') && passed;
+  passed = assert(ancestor.truthValues[12].confidence === 0, 'Ancestor(d, a) is absent') && passed;
+  passed = assert(ancestor.tensor.data[3] === ancestor.truthValues[3].strength, 'The tensor holds the strengths') && passed;
+
+  // a → b → d and a → c → d: two derivations merged over the summed index
+  const diamond = sparsePLN('Parent', ['x', 'y'], [[0, 0.9, 0.9, 0], [0, 0, 0, 0.9], [0, 0, 0, 0.9], [0, 0, 0, 0]], 0.9);
+  const noisyOr = plnForwardChain(ANCESTOR_RULES, new Map([['Parent', diamond]])).relations.get('Ancestor')!.truthValues[3];
+  passed = assertClose(noisyOr.strength, 1 - (1 - 0.81) ** 2, 'Disjunction: noisy-or of both paths') && passed;
+  const revised = plnForwardChain(ANCESTOR_RULES, new Map([['Parent', diamond]]), { combine: 'revision' }).relations.get('Ancestor')!.truthValues[3];
+  passed = assertClose(revised.strength, 0.81, 'Revision: agreeing paths keep their strength') && passed;
+  passed = assertClose(revised.confidence, plnRevision(createTruthValue(0.81, 0.81), createTruthValue(0.81, 0.81)).confidence, 'and add their evidence') && passed;
+
+  // The floor prunes weak derivations and everything built on them
+  const pruned = plnForwardChain(ANCESTOR_RULES, new Map([['Parent', chain]]), { confidenceFloor: 0.75 }).relations.get('Ancestor')!;
+  passed = assert(pruned.truthValues[2].confidence > 0.75 && pruned.truthValues[3].confidence === 0, 'Floor 0.75 keeps Ancestor(a, c), drops Ancestor(a, d)') && passed;
+
+  // A single join
+  const grandparent = plnEinsum('xy,yz->xz', [chain, chain]);
+  passed = assertClose(grandparent.truthValues[2].strength, plnConjunction(chain.truthValues[1], chain.truthValues[6]).strength, 'plnEinsum: Grandparent(a, c)') && passed;
+
+  // Cycles settle within the tolerance
+  const cycle = sparsePLN('Parent', ['x', 'y'], [[0, 0.8], [0.7, 0]], 0.9);
+  const cyclic = plnForwardChain(ANCESTOR_RULES, new Map([['Parent', cycle]]), { tolerance: 1e-6 });
+  const self = cyclic.relations.get('Ancestor')!.truthValues[0];
+  passed = assert(cyclic.converged && cyclic.changes[cyclic.changes.length - 1] <= 1e-6, `Cyclic rules converge in ${cyclic.iterations} iterations`) && passed;
+  passed = assert(self.strength > 0.5 && self.strength < 1, `Ancestor(a, a) = ${self.strength.toFixed(4)}`) && passed;
+
+  // Certain facts reproduce the Boolean closure
+  const graph = randomGraph(7, 0.3, 13).map((row) => row.map((w) => (w > 0 ? 1 : 0)));
+  const certain = plnForwardChain(ANCESTOR_RULES, new Map([['Parent', sparsePLN('Parent', ['x', 'y'], graph, 1)]]));
+  const boolean = forwardChain(ANCESTOR_RULES, new Map([['Parent', fromMatrix('Parent', ['x', 'y'], graph)]]), BooleanSemiring);
+  passed = assert(plnStrengths(certain.relations.get('Ancestor')!).data.join() === boolean.relations.get('Ancestor')!.data.join(), 'Certain facts give the Boolean closure') && passed;
+  passed = assertThrows(() => plnForwardChain('Ancestor[x, z] = Ancestor[x, y] Parent[y, z]', new Map()), 'Relations without facts are rejected') && passed;
 
   return passed;
 }
@@ -361,6 +1019,10 @@ function testEstimateTensorResources(): boolean {
   passed = assert(sparseResources.nnz === 2, 'Sparse NNZ = 2') && passed;
   passed = assertClose(sparseResources.density, 2 / 6, 'Sparse density') && passed;
 
+  // Bytes follow the dtype
+  passed = assertClose(estimateTensorResources(astype(tensor, 'float32')).hbmBytes, 6 * 4, 'float32: 4 bytes per element') && passed;
+  passed = assertClose(estimateTensorResources(astype(sparse, 'bool')).hbmBytes, 6, 'bool: 1 byte per fact') && passed;
+
   return passed;
 }
 
@@ -538,6 +1200,11 @@ function testRAPTLConjunction(): boolean {
   // ID reflects operation
   passed = assert(conj.id.includes('∧'), 'ID shows conjunction') && passed;
 
+  // Element-wise logic pairs elements by position, never by outer product
+  const renamed = createRAPTLFact('f3', fromVector('t3', 'j', [0.5, 0.7, 0.9]), 0.7, 0.9);
+  passed = assertThrows(() => raptlConjunction(f1, renamed), 'Mismatched indices rejected') && passed;
+  passed = assertThrows(() => raptlDisjunction(f1, renamed), 'Mismatched indices rejected by disjunction') && passed;
+
   return passed;
 }
 
@@ -664,7 +1331,21 @@ async function runAllRAPTLTests() {
         { name: 'Counting Semiring', fn: testCountingSemiring },
         { name: 'Viterbi Semiring', fn: testViterbiSemiring },
         { name: 'MinPlus Semiring', fn: testMinPlusSemiring },
+        { name: 'Log Semiring', fn: testLogSemiring },
         { name: 'Semiring Einsum', fn: testSemiringEinsum },
+        { name: 'Semiring Tensors', fn: testSemiringTensors },
+        { name: 'Textbook Algorithms', fn: testTextbookAlgorithms },
+        { name: 'Provenance Semirings', fn: testProvenanceSemirings },
+        { name: 'Top-k Semiring', fn: testTopKSemiring },
+        { name: 'Expectation Semiring', fn: testExpectationSemiring },
+        { name: 'Fuzzy and Bounded Semirings', fn: testFuzzyAndBoundedSemirings },
+      ],
+    },
+    {
+      name: 'SEMIRING LAWS',
+      tests: [
+        { name: 'Built-in Semiring Laws', fn: testBuiltinSemiringLaws },
+        { name: 'Broken Semirings', fn: testBrokenSemirings },
       ],
     },
     {
@@ -676,6 +1357,11 @@ async function runAllRAPTLTests() {
         { name: 'PLN Negation', fn: testPLNNegation },
         { name: 'PLN Revision', fn: testPLNRevision },
         { name: 'PLN Tensor', fn: testPLNTensor },
+        { name: 'PLN Evidence Counts', fn: testPLNEvidenceCounts },
+        { name: 'PLN Rules', fn: testPLNRules },
+        { name: 'Indefinite Truth Values', fn: testIndefiniteTruthValues },
+        { name: 'PLN Tensor Rules', fn: testPLNTensorRules },
+        { name: 'PLN Forward Chaining', fn: testPLNForwardChain },
       ],
     },
     {
@@ -8,6 +8,8 @@
  * - nestor.ts: Nestor structures, morphisms, gauge connections
  * - neural-nestor-morph.ts: Neural networks, fiber forests, functors
  * - utils.ts: Broadcast operations, slicing
+ * - contraction.ts: Contraction order planning
+ * - kernels.ts: Compiled einsum kernels
  */
 
 // ============================================================================
@@ -22,12 +24,25 @@ import {
   getElement,
   setElement,
   einsum,
+  contract,
+  namedNotation,
   threshold,
   sigmoid,
   relu,
   softmax,
   add,
+  subtract,
   multiply,
+  divide,
+  power,
+  minimum,
+  maximum,
+  equal,
+  notEqual,
+  greater,
+  greaterEqual,
+  less,
+  lessEqual,
   scale,
   transpose,
   tensorToString,
@@ -88,6 +103,93 @@ import {
   extractSlice,
 } from '../src/tensor-logic/utils.js';
 
+import {
+  planContraction,
+  einsumPath,
+  planToString,
+} from '../src/tensor-logic/contraction.js';
+
+import { compileEinsum, runEinsum, parseEinsum, normalizeEinsum } from '../src/tensor-logic/kernels.js';
+
+import {
+  fromTuples,
+  fromDense,
+  toDense,
+  toCSR,
+  fromCSR,
+  nnz,
+  sparseEinsum,
+  sparseBooleanEinsum,
+} from '../src/tensor-logic/sparse.js';
+
+import {
+  permute,
+  reshape,
+  squeeze,
+  unsqueeze,
+  slice,
+  gather,
+  concat,
+  stack,
+  split,
+} from '../src/tensor-logic/shape.js';
+
+import {
+  sum,
+  mean,
+  prod,
+  max,
+  min,
+  argmax,
+  argmin,
+  logsumexp,
+  any,
+  all,
+  norm,
+} from '../src/tensor-logic/reduce.js';
+
+import {
+  toLogSpace,
+  fromLogSpace,
+  logEinsum,
+  hmmForward,
+  hmmBackward,
+  hmmPosterior,
+  viterbi,
+  bayesMarginal,
+  HiddenMarkovModel,
+} from '../src/tensor-logic/logspace.js';
+
+import {
+  createRandom,
+  seedRandom,
+  xavierUniform,
+  heNormal,
+  orthogonal,
+  fans,
+} from '../src/tensor-logic/random.js';
+
+import { astype, dtypeOf, promoteTypes } from '../src/tensor-logic/dtype.js';
+
+import { createDomain, domainSize, internSymbol, withDomains } from '../src/tensor-logic/domains.js';
+
+import { createRAPTLFact } from '../src/tensor-logic/raptl.js';
+
+import {
+  serializeTensors,
+  deserializeTensors,
+  serializeTensor,
+  deserializeTensor,
+  serializeNestor,
+  deserializeNestor,
+  serializeRAPTLFacts,
+  deserializeRAPTLFacts,
+  toNpy,
+  fromNpy,
+  toNpz,
+  fromNpz,
+} from '../src/tensor-logic/serialize.js';
+
 // ============================================================================
 // TEST UTILITIES
 // ============================================================================
@@ -358,9 +460,9 @@ function testSoftmax(): boolean {
   passed = assertClose(row0Sum, 1, 'Softmax 2D row 0 sums to 1') && passed;
   passed = assertClose(row1Sum, 1, 'Softmax 2D row 1 sums to 1') && passed;
 
-  // Test error for unsupported dimensions
+  // Higher ranks normalise along the last index
   const tensor3D = createTensor('3D', ['i', 'j', 'k'], [2, 2, 2], 'ones');
-  passed = assertThrows(() => softmax(tensor3D), 'Softmax 3D throws error') && passed;
+  passed = assert(softmax(tensor3D).data.every((x) => x === 0.5), 'Softmax 3D along the last index') && passed;
 
   return passed;
 }
@@ -471,6 +573,83 @@ function testIdentity(): boolean {
   return passed;
 }
 
+function testBroadcasting(): boolean {
+  logTest('Named broadcasting arithmetic');
+  let passed = true;
+
+  const X = fromMatrix('X', ['batch', 'hidden'], [[1, 2, 3], [4, 5, 6]]);
+  const bias = fromVector('bias', 'hidden', [10, 20, 30]);
+  const rowScale = fromVector('s', 'batch', [2, 3]);
+
+  const shifted = add(X, bias);
+  passed = assert(shifted.indices.join(',') === 'batch,hidden', 'Bias broadcast along batch') && passed;
+  passed = assert(Array.from(shifted.data).join(',') === '11,22,33,14,25,36', 'X + bias') && passed;
+
+  // Aligned by name, not position: s[batch] scales each row
+  const scaled = multiply(bias, rowScale);
+  passed = assert(scaled.indices.join(',') === 'hidden,batch' && scaled.shape.join(',') === '3,2', 'Outer product over new indices') && passed;
+  passed = assertClose(getElement(divide(X, rowScale), 1, 0), 4 / 3, 'divide X[batch,hidden] / s[batch]') && passed;
+  passed = assertClose(getElement(subtract(X, bias), 0, 2), -27, 'subtract') && passed;
+  passed = assertClose(getElement(power(X, fromVector('p', 'hidden', [1, 2, 0])), 1, 1), 25, 'power') && passed;
+  passed = assert(Array.from(minimum(X, fromVector('c', 'hidden', [2, 2, 2])).data).join(',') === '1,2,2,2,2,2', 'minimum') && passed;
+  passed = assert(Array.from(maximum(X, fromVector('c', 'hidden', [2, 2, 2])).data).join(',') === '2,2,3,4,5,6', 'maximum') && passed;
+
+  // Comparisons give Boolean tensors; index order follows first appearance
+  const threshold3 = fromVector('t', 'batch', [2, 5]);
+  passed = assert(Array.from(greater(X, threshold3).data).join(',') === '0,0,1,0,0,1', 'greater') && passed;
+  passed = assert(Array.from(lessEqual(X, threshold3).data).join(',') === '1,1,0,1,1,0', 'lessEqual') && passed;
+  passed = assert(Array.from(equal(X, threshold3).data).join(',') === '0,1,0,0,1,0', 'equal') && passed;
+  passed = assert(Array.from(notEqual(X, X).data).every((x) => x === 0), 'notEqual') && passed;
+  passed = assert(Array.from(less(X, threshold3).data).join(',') === '1,0,0,1,0,0', 'less') && passed;
+  passed = assert(Array.from(greaterEqual(X, threshold3).data).join(',') === '0,1,1,0,1,1', 'greaterEqual') && passed;
+
+  // Rank 3 against rank 2 with indices in a different order
+  const T = createTensor('T', ['i', 'j', 'k'], [2, 3, 4], 'ones');
+  const M = createTensor('M', ['k', 'i'], [4, 2], 'ones');
+  const sum3 = add(T, M);
+  passed = assert(sum3.shape.join(',') === '2,3,4' && sum3.data.every((x) => x === 2), 'Rank-3 + rank-2, permuted') && passed;
+
+  passed = assertThrows(() => add(X, fromVector('b', 'hidden', [1, 2])), 'Size mismatch on a shared index throws') && passed;
+
+  return passed;
+}
+
+function testContract(): boolean {
+  logTest('contract (named indices)');
+  let passed = true;
+
+  const Lives = fromMatrix('Lives', ['person', 'city'], [[1, 0], [0, 1], [1, 0]]);
+  const In = fromMatrix('In', ['city', 'country'], [[0, 1], [1, 0]]);
+
+  // Aligned by the names stored on the tensors
+  const citizen = contract([Lives, In], ['person', 'country']);
+  passed = assert(citizen.indices.join(',') === 'person,country', 'Result keeps the index names') && passed;
+  passed = assert(
+    Array.from(citizen.data).join(',') === Array.from(einsum('pc,cn->pn', Lives, In).data).join(','),
+    'Same as the equivalent einsum'
+  ) && passed;
+
+  // Names given per tensor: A and B renamed for this contraction only
+  const A = fromMatrix('A', ['i', 'j'], [[1, 2], [3, 4]]);
+  const B = fromMatrix('B', ['i', 'j'], [[5, 6], [7, 8]]);
+  const product = contract({ A: ['x', 'y'], B: ['y', 'z'] }, ['x', 'z'], { A, B });
+  passed = assertClose(getElement(product, 0, 0), 19, 'A·B with index y shared') && passed;
+  const byName = contract({ A: ['x', 'y'], B: ['y', 'z'] }, ['z', 'x'], [B, A]);
+  passed = assertClose(getElement(byName, 1, 0), 22, 'Tensors found by name in an array') && passed;
+
+  // Primed and multi-character names, as in Neig(n, n')
+  const Neig = fromMatrix('Neig', ["n", "n'"], [[0, 1], [1, 0]]);
+  const degree = contract([Neig], ['n']);
+  passed = assert(Array.from(degree.data).join(',') === '1,1', "Sum over n'") && passed;
+
+  passed = assertThrows(() => contract([Lives, In], ['planet']), 'Unknown output name throws') && passed;
+  passed = assertThrows(() => contract({ A: ['x'] }, ['x'], { A }), 'Rank mismatch throws') && passed;
+  passed = assertThrows(() => contract({ C: ['x', 'y'] }, ['x'], { A }), 'Missing tensor throws') && passed;
+  passed = assert(namedNotation([['person', 'city'], ['city', 'country']], ['person', 'country']) === 'ab,bc->ac', 'namedNotation') && passed;
+
+  return passed;
+}
+
 // ============================================================================
 // NESTOR.TS TESTS
 // ============================================================================
@@ -776,6 +955,10 @@ function testNeuralNestorForward(): boolean {
   // With identity weight and bias [1,2,3], input [1,1,1] -> [2,3,4] after relu
   passed = assert(output.data.length > 0, 'Forward produces output') && passed;
 
+  // A bias under another index name is added by position, not as an outer product
+  nn.biases!.set('b', fromVector('b', 'k', [1, 2, 3]));
+  passed = assert(neuralNestorForward(nn, input).data.join() === '2,3,4', 'Bias aligned by position') && passed;
+
   return passed;
 }
 
@@ -802,15 +985,16 @@ function testGaugeTransformer(): boolean {
   logTest('createGaugeTransformer / gaugeTransformerAttention');
   let passed = true;
 
-  const transformer = createGaugeTransformer(4, 8, 32);
+  const rng = createRandom(9);
+  const transformer = createGaugeTransformer(4, 8, 32, rng.split());
   passed = assert(transformer.numHeads === 4, 'Transformer has 4 heads') && passed;
   passed = assert(transformer.headDim === 8, 'Head dim = 8') && passed;
   passed = assert(transformer.projections.query.shape[1] === 32, 'Query projection size') && passed;
 
   const typeInfo = createTestNestorType();
   const nestors = [
-    createNestor('n1', fromVector('t1', 'm', Array(32).fill(0).map(() => Math.random())), typeInfo),
-    createNestor('n2', fromVector('t2', 'm', Array(32).fill(0).map(() => Math.random())), typeInfo),
+    createNestor('n1', fromVector('t1', 'm', Array.from({ length: 32 }, () => rng.uniform())), typeInfo),
+    createNestor('n2', fromVector('t2', 'm', Array.from({ length: 32 }, () => rng.uniform())), typeInfo),
   ];
 
   const attended = gaugeTransformerAttention(transformer, nestors);
@@ -972,6 +1156,881 @@ function testExtractSlice(): boolean {
   return passed;
 }
 
+// ============================================================================
+// CONTRACTION.TS TESTS
+// ============================================================================
+
+function testPlanContraction(): boolean {
+  logTest('planContraction');
+  let passed = true;
+
+  // A[i,j] B[j,k] C[k,l] with a tiny k: contracting A·B first keeps
+  // the intermediate small, B·C first would be I·J·K + J·K·L too
+  const shapes = [[10, 20], [20, 2], [2, 30]];
+  const optimal = planContraction('ij,jk,kl->il', shapes, { strategy: 'optimal' });
+  passed = assert(optimal.steps.length === 2, 'Two pairwise contractions') && passed;
+  passed = assert(optimal.steps[0].notation === 'ij,jk->ik', 'Contracts A·B first') && passed;
+  passed = assert(optimal.steps[1].notation === 'ik,kl->il', 'Then the intermediate with C') && passed;
+  passed = assertClose(optimal.flops, 10 * 20 * 2 + 10 * 2 * 30, 'Cost is I·J·K + I·K·L') && passed;
+  passed = assertClose(optimal.naiveFlops, 10 * 20 * 2 * 30 * 2, 'Single pass costs I·J·K·L per product') && passed;
+  passed = assertClose(optimal.largestIntermediate, 20, 'Intermediate T[i,k] has 20 elements') && passed;
+
+  const greedy = planContraction('ij,jk,kl->il', shapes, { strategy: 'greedy' });
+  passed = assertClose(greedy.flops, optimal.flops, 'Greedy finds the same plan on a chain') && passed;
+
+  // A chain where greedy's cheapest-first choice is not optimal overall
+  const trap = [[2, 10], [10, 10], [10, 100], [100, 1]];
+  const best = planContraction('ab,bc,cd,de->ae', trap, { strategy: 'optimal' });
+  const quick = planContraction('ab,bc,cd,de->ae', trap, { strategy: 'greedy' });
+  passed = assertClose(best.flops, 1120, 'Optimal contracts from the cheap end: D·E, then C, then A') && passed;
+  passed = assert(quick.flops > best.flops, `Greedy (${quick.flops}) is worse than optimal (${best.flops}) here`) && passed;
+
+  passed = assertThrows(() => planContraction('ij,jk->ik', [[2, 3], [4, 5]]), 'Inconsistent sizes throw') && passed;
+  passed = assertThrows(() => planContraction('ij,jk->iz', [[2, 3], [3, 5]]), 'Unknown output index throws') && passed;
+
+  return passed;
+}
+
+function testPlannedEinsum(): boolean {
+  logTest('einsum with three or more operands');
+  let passed = true;
+
+  const A = fromMatrix('A', ['i', 'j'], [[1, 2], [3, 4]]);
+  const B = fromMatrix('B', ['j', 'k'], [[0, 1], [1, 0]]);
+  const C = fromMatrix('C', ['k', 'l'], [[2, 0], [0, 3]]);
+
+  const chained = einsum('ij,jk,kl->il', A, B, C);
+  const stepwise = einsum('ik,kl->il', einsum('ij,jk->ik', A, B), C);
+  passed = assert(Array.from(chained.data).join(',') === Array.from(stepwise.data).join(','), 'Matches two matmuls') && passed;
+  passed = assert(chained.indices.join('') === 'il', 'Output indices preserved') && passed;
+
+  // Star-shaped join with a scalar result: Σ_ijk A[i,j] B[j,k] C[k,i] = trace(ABC)
+  const trace = einsum('ij,jk,ki->', A, B, C);
+  passed = assertClose(trace.data[0], getElement(chained, 0, 0) + getElement(chained, 1, 1), 'Cyclic contraction is the trace') && passed;
+
+  // Output order differs from the natural order of the operands
+  const swapped = einsum('ij,jk,kl->li', A, B, C);
+  passed = assertClose(getElement(swapped, 1, 0), getElement(chained, 0, 1), 'Transposed output') && passed;
+
+  const plan = einsumPath('ij,jk,kl->il', A, B, C);
+  const text = planToString(plan);
+  passed = assert(text.includes('result = ') && text.includes('estimated cost'), 'Plan renders as text') && passed;
+
+  return passed;
+}
+
+// ============================================================================
+// KERNELS.TS TESTS
+// ============================================================================
+
+/** Reference einsum: enumerate every index assignment directly */
+function referenceEinsum(notation: string, ...tensors: Tensor[]): Float64Array {
+  const [inputPart, output] = notation.split('->');
+  const inputs = inputPart.split(',');
+  const sizes = new Map<string, number>();
+  inputs.forEach((idx, t) => [...idx].forEach((c, i) => sizes.set(c, tensors[t].shape[i])));
+  const all = [...sizes.keys()];
+  const flat = (indices: string, shape: number[], values: Map<string, number>): number =>
+    [...indices].reduce((acc, c, i) => acc * shape[i] + values.get(c)!, 0);
+
+  const outShape = [...output].map((c) => sizes.get(c)!);
+  const result = new Float64Array(outShape.reduce((a, b) => a * b, 1));
+  const values = new Map<string, number>();
+  const visit = (d: number): void => {
+    if (d === all.length) {
+      let product = 1;
+      inputs.forEach((idx, t) => { product *= tensors[t].data[flat(idx, tensors[t].shape, values)]; });
+      result[flat(output, outShape, values)] += product;
+      return;
+    }
+    for (let v = 0; v < sizes.get(all[d])!; v++) {
+      values.set(all[d], v);
+      visit(d + 1);
+    }
+  };
+  visit(0);
+  return result;
+}
+
+function sequence(name: string, indices: string[], shape: number[]): Tensor {
+  const t = createTensor(name, indices, shape);
+  t.data.forEach((_, i) => { t.data[i] = ((i * 7) % 11) - 5; });
+  return t;
+}
+
+function testCompiledKernels(): boolean {
+  logTest('compileEinsum / runEinsum');
+  let passed = true;
+
+  const A = sequence('A', ['i', 'j'], [3, 4]);
+  const B = sequence('B', ['j', 'k'], [4, 5]);
+  const Bt = sequence('Bt', ['k', 'j'], [5, 4]);
+  const X = sequence('X', ['b', 'i', 'j'], [2, 3, 4]);
+  const Y = sequence('Y', ['b', 'j', 'k'], [2, 4, 5]);
+  const S = sequence('S', ['i', 'i'], [4, 4]);
+  const u = sequence('u', ['i'], [3]);
+  const v = sequence('v', ['j'], [4]);
+  const T3 = sequence('T', ['i', 'j', 'k'], [2, 3, 4]);
+
+  const cases: { notation: string; operands: Tensor[]; kernel: string }[] = [
+    { notation: 'ij,jk->ik', operands: [A, B], kernel: 'matmul' },
+    { notation: 'jk,ij->ik', operands: [B, A], kernel: 'matmul' },
+    { notation: 'ij,kj->ik', operands: [A, Bt], kernel: 'matmul' },
+    { notation: 'ij,jk->ki', operands: [A, B], kernel: 'matmul' },
+    { notation: 'bij,bjk->bik', operands: [X, Y], kernel: 'batched-matmul' },
+    { notation: 'i,j->ij', operands: [u, v], kernel: 'outer' },
+    { notation: 'i,j->ji', operands: [u, v], kernel: 'general' },
+    { notation: 'ii->', operands: [S], kernel: 'trace' },
+    { notation: 'ij->ji', operands: [A], kernel: 'transpose' },
+    { notation: 'ijk->kij', operands: [T3], kernel: 'transpose' },
+    { notation: 'ijk->j', operands: [T3], kernel: 'general' },
+    { notation: 'ij,j->i', operands: [A, v], kernel: 'general' },
+    { notation: 'ij,ij->', operands: [A, A], kernel: 'general' },
+  ];
+
+  for (const { notation, operands, kernel } of cases) {
+    const compiled = compileEinsum(notation, operands.map((t) => t.shape));
+    const fast = runEinsum(compiled, operands.map((t) => t.data));
+    const expected = referenceEinsum(notation, ...operands);
+    const same = fast.length === expected.length && fast.every((x, i) => Math.abs(x - expected[i]) < 1e-9);
+    passed = assert(compiled.kernel === kernel && same, `${notation} runs the ${kernel} kernel correctly`) && passed;
+  }
+
+  // Repeated indices read the diagonal
+  const diagonal = einsum('ii->i', S);
+  passed = assert(
+    Array.from(diagonal.data).join(',') === [0, 5, 10, 15].map((i) => S.data[i]).join(','),
+    'ii->i extracts the diagonal'
+  ) && passed;
+
+  passed = assertThrows(() => compileEinsum('ij->ii', [[2, 2]]), 'Repeated output index throws') && passed;
+  passed = assert(compileEinsum('ij,jk', [[2, 2], [2, 2]]).outputIndices === 'ik', 'Missing output is implicit') && passed;
+  passed = assertThrows(() => compileEinsum('ijk->i', [[2, 2]]), 'Rank mismatch throws') && passed;
+
+  // Large enough that the old per-element index lookups would be slow
+  const big = createTensor('M', ['i', 'j'], [60, 60], 'ones');
+  const product = einsum('ij,jk->ik', big, big);
+  passed = assertClose(getElement(product, 59, 0), 60, '60×60 matmul') && passed;
+
+  return passed;
+}
+
+function testEinsumNotation(): boolean {
+  logTest('NumPy einsum notation');
+  let passed = true;
+  const sameData = (a: Tensor, b: Tensor): boolean =>
+    a.shape.join(',') === b.shape.join(',') && a.data.every((x, i) => Math.abs(x - b.data[i]) < 1e-9);
+
+  const A = sequence('A', ['i', 'j'], [3, 4]);
+  const B = sequence('B', ['j', 'k'], [4, 5]);
+  const S = sequence('S', ['i', 'i'], [4, 4]);
+
+  // Implicit output: indices appearing once, alphabetically
+  passed = assert(normalizeEinsum('ij,jk', [[3, 4], [4, 5]]) === 'ij,jk->ik', "'ij,jk' means 'ij,jk->ik'") && passed;
+  passed = assert(normalizeEinsum('ba', [[2, 3]]) === 'ba->ab', "'ba' is a transpose") && passed;
+  passed = assert(normalizeEinsum('ii', [[4, 4]]) === 'ii->', "'ii' is a trace") && passed;
+  passed = assert(sameData(einsum('ij,jk', A, B), einsum('ij,jk->ik', A, B)), 'Implicit matmul') && passed;
+  passed = assert(sameData(einsum(' ij , jk -> ik ', A, B), einsum('ij,jk->ik', A, B)), 'Whitespace is ignored') && passed;
+  passed = assertClose(einsum('ii', S).data[0], S.data[0] + S.data[5] + S.data[10] + S.data[15], 'Implicit trace') && passed;
+
+  // Ellipsis: batched matmul with a broadcast batch dimension
+  const X = sequence('X', ['b', 'i', 'j'], [2, 3, 4]);
+  const W = sequence('W', ['o', 'j', 'k'], [1, 4, 5]);
+  const batched = einsum('...ij,...jk->...ik', X, W);
+  passed = assert(batched.shape.join(',') === '2,3,5', 'Ellipsis broadcasts [2] against [1]') && passed;
+  const second = einsum('ij,jk->ik', { ...A, data: X.data.slice(12, 24) }, { ...B, data: W.data });
+  passed = assert(sameData({ ...second, shape: [3, 5] }, { ...batched, shape: [3, 5], data: batched.data.slice(15) }), 'Second batch uses the shared W') && passed;
+  passed = assert(normalizeEinsum('...i,...i', [[2, 3], [2, 3]]) === 'ai,ai->a', 'Implicit output keeps ellipsis dimensions first') && passed;
+  passed = assert(parseEinsum('i...->i', [[3, 2, 2]]).output === 'i', 'Ellipsis dimensions missing from the output are summed') && passed;
+
+  passed = assertThrows(() => einsum('ij,jk->ik', A), 'Operand count mismatch throws') && passed;
+  passed = assertThrows(() => einsum('ij,jk->iz', A, B), 'Unknown output index throws') && passed;
+  passed = assertThrows(() => einsum('ijk,jk->ik', A, B), 'Rank mismatch throws') && passed;
+  passed = assertThrows(() => einsum('ij->...i', A), "'...' only in the output throws") && passed;
+  passed = assertThrows(() => parseEinsum('...i,...i', [[2, 3], [4, 3]]), 'Incompatible ellipsis dimensions throw') && passed;
+  passed = assertThrows(() => parseEinsum('i.j->i', [[2, 3]]), "Stray '.' throws") && passed;
+
+  return passed;
+}
+
+// ============================================================================
+// SPARSE.TS TESTS
+// ============================================================================
+
+function testSparseConversion(): boolean {
+  logTest('fromTuples / fromDense / toDense / toCSR');
+  let passed = true;
+
+  const dense = fromMatrix('M', ['i', 'j'], [[0, 2, 0], [1, 0, 0], [0, 0, 3]]);
+  const coo = fromDense(dense);
+  passed = assertClose(nnz(coo), 3, 'Only non-zeros are stored') && passed;
+  passed = assert(Array.from(toDense(coo).data).join(',') === Array.from(dense.data).join(','), 'Dense round trip') && passed;
+
+  const csr = toCSR(coo);
+  passed = assert(Array.from(csr.rowPtr).join(',') === '0,1,2,3', 'CSR row pointers') && passed;
+  passed = assert(Array.from(csr.colIdx).join(',') === '1,0,2', 'CSR column indices') && passed;
+  passed = assert(Array.from(toDense(fromCSR(csr)).data).join(',') === Array.from(dense.data).join(','), 'CSR round trip') && passed;
+
+  // Duplicates are summed; tuples without values are Boolean facts
+  const dup = fromTuples('D', ['x', 'y'], [2, 2], [[1, 0], [0, 1], [1, 0]]);
+  passed = assertClose(nnz(dup), 2, 'Duplicate tuples coalesce') && passed;
+  passed = assertClose(getElement(toDense(dup), 1, 0), 2, 'Duplicate values are summed') && passed;
+
+  passed = assertThrows(() => fromTuples('P', ['x', 'y'], [2, 2], [[0, 2]]), 'Out-of-range tuple throws') && passed;
+  passed = assertThrows(() => toCSR(fromTuples('V', ['x'], [3], [[1]])), 'CSR of a vector throws') && passed;
+
+  return passed;
+}
+
+function testSparseEinsum(): boolean {
+  logTest('sparseEinsum matches dense einsum');
+  let passed = true;
+
+  const A = sequence('A', ['i', 'j'], [3, 4]);
+  const B = sequence('B', ['j', 'k'], [4, 5]);
+  const T3 = sequence('T', ['i', 'j', 'k'], [2, 3, 4]);
+  const S = sequence('S', ['i', 'i'], [4, 4]);
+  const v = sequence('v', ['j'], [4]);
+  const C = sequence('C', ['k', 'l'], [5, 2]);
+
+  const cases: { notation: string; operands: Tensor[] }[] = [
+    { notation: 'ij,jk->ik', operands: [A, B] },
+    { notation: 'ij,jk->ki', operands: [A, B] },
+    { notation: 'ij,j->i', operands: [A, v] },
+    { notation: 'ij,jk,kl->il', operands: [A, B, C] },
+    { notation: 'ijk->kj', operands: [T3] },
+    { notation: 'ii->i', operands: [S] },
+    { notation: 'ij,ij->', operands: [A, A] },
+    { notation: 'ij,kl->ijkl', operands: [A, C] },
+  ];
+
+  for (const { notation, operands } of cases) {
+    const sparse = sparseEinsum(notation, ...operands.map(fromDense));
+    const expected = einsum(notation, ...operands);
+    const actual = toDense(sparse);
+    const same = actual.shape.join(',') === expected.shape.join(',') &&
+      actual.data.every((x, i) => Math.abs(x - expected.data[i]) < 1e-9);
+    passed = assert(same, `${notation}`) && passed;
+  }
+
+  passed = assertThrows(() => sparseEinsum('ij,jk->ik', fromDense(A), fromDense(A)), 'Inconsistent sizes throw') && passed;
+
+  return passed;
+}
+
+function testSparseBooleanJoin(): boolean {
+  logTest('sparseBooleanEinsum on a large knowledge graph');
+  let passed = true;
+
+  // A chain of 50,000 people: Parent(x, x+1). Dense it would be 2.5e9 entries.
+  const N = 50000;
+  const parents = Array.from({ length: N - 1 }, (_, x) => [x, x + 1]);
+  const Parent = fromTuples('Parent', ['x', 'y'], [N, N], parents);
+
+  const grandparent = sparseBooleanEinsum('xy,yz->xz', Parent, Parent);
+  passed = assertClose(nnz(grandparent), N - 2, 'Grandparent has N-2 facts') && passed;
+  passed = assert(grandparent.coords[0] === 0 && grandparent.coords[1] === 2, 'First fact is (0, 2)') && passed;
+
+  // Hash join path (output order differs from a matmul)
+  const reversed = sparseBooleanEinsum('xy,yz->zx', Parent, Parent);
+  passed = assertClose(nnz(reversed), N - 2, 'Hash join gives the same facts') && passed;
+
+  // Boolean join records each fact once; the counting join sums derivations
+  const Edge = fromTuples('Edge', ['x', 'y'], [4, 4], [[0, 1], [0, 2], [1, 3], [2, 3]]);
+  const bool = toDense(sparseBooleanEinsum('xy,yz->xz', Edge, Edge));
+  const count = toDense(sparseEinsum('xy,yz->xz', Edge, Edge));
+  passed = assertClose(getElement(bool, 0, 3), 1, 'Boolean: one fact') && passed;
+  passed = assertClose(getElement(count, 0, 3), 2, 'Counting: two paths') && passed;
+
+  return passed;
+}
+
+// ============================================================================
+// SHAPE.TS TESTS
+// ============================================================================
+
+const values = (t: Tensor): string => Array.from(t.data).join(',');
+
+function testPermuteReshape(): boolean {
+  logTest('permute / reshape / squeeze / unsqueeze');
+  let passed = true;
+
+  const T = sequence('T', ['batch', 'seq', 'emb'], [2, 3, 4]);
+  const P = permute(T, ['emb', 'batch', 'seq']);
+  passed = assert(P.shape.join(',') === '4,2,3' && P.indices.join(',') === 'emb,batch,seq', 'permute by name') && passed;
+  passed = assertClose(getElement(P, 3, 1, 2), getElement(T, 1, 2, 3), 'P[emb,batch,seq] = T[batch,seq,emb]') && passed;
+  passed = assertThrows(() => permute(T, ['emb', 'batch']), 'permute with missing names throws') && passed;
+
+  // Head splitting: emb = head · 2 + d
+  const heads = reshape(T, [2, 3, 2, 2], ['batch', 'seq', 'head', 'd']);
+  passed = assertClose(getElement(heads, 1, 2, 1, 0), getElement(T, 1, 2, 2), 'reshape is row-major') && passed;
+  passed = assertThrows(() => reshape(T, [5, 5], ['a', 'b']), 'reshape to a different size throws') && passed;
+
+  const u = unsqueeze(T, 'one', 1);
+  passed = assert(u.shape.join(',') === '2,1,3,4' && u.indices[1] === 'one', 'unsqueeze inserts a size-1 index') && passed;
+  passed = assert(squeeze(u).shape.join(',') === '2,3,4', 'squeeze removes all size-1 indices') && passed;
+  passed = assert(squeeze(u, 'one').indices.join(',') === 'batch,seq,emb', 'squeeze by name') && passed;
+  passed = assertThrows(() => squeeze(T, 'seq'), 'squeezing a larger index throws') && passed;
+
+  return passed;
+}
+
+function testSliceGather(): boolean {
+  logTest('slice / gather');
+  let passed = true;
+
+  const X = fromMatrix('X', ['seq', 'emb'], [[0, 1, 2, 3], [4, 5, 6, 7], [8, 9, 10, 11]]);
+  passed = assert(values(slice(X, { seq: { start: 1 } })) === '4,5,6,7,8,9,10,11', 'X[1:, :]') && passed;
+  passed = assert(values(slice(X, { emb: { step: 2 } })) === '0,2,4,6,8,10', 'X[:, ::2]') && passed;
+  passed = assert(values(slice(X, { seq: { step: -1 }, emb: { start: -2 } })) === '10,11,6,7,2,3', 'X[::-1, -2:]') && passed;
+  const row = slice(X, { seq: 1 });
+  passed = assert(row.indices.join(',') === 'emb' && values(row) === '4,5,6,7', 'A fixed position removes the index') && passed;
+  passed = assert(slice(X, { seq: { start: 2, stop: 1 } }).shape.join(',') === '0,4', 'Empty range') && passed;
+  passed = assertThrows(() => slice(X, { seq: 3 }), 'Position out of range throws') && passed;
+  passed = assertThrows(() => slice(X, { time: 0 }), 'Unknown index throws') && passed;
+
+  // Embedding lookup
+  const Embedding = fromMatrix('E', ['vocab', 'd'], [[0, 0], [1, 10], [2, 20]]);
+  const tokens = fromVector('Tokens', 'seq', [2, 0, 2, 1]);
+  const embedded = gather(Embedding, 'vocab', tokens);
+  passed = assert(embedded.indices.join(',') === 'seq,d' && values(embedded) === '2,20,0,0,2,20,1,10', 'gather rows by token') && passed;
+  passed = assertThrows(() => gather(Embedding, 'vocab', fromVector('Bad', 'seq', [3])), 'gather out of range throws') && passed;
+
+  return passed;
+}
+
+function testConcatStackSplit(): boolean {
+  logTest('concat / stack / split');
+  let passed = true;
+
+  const A = fromMatrix('A', ['seq', 'emb'], [[1, 2], [3, 4]]);
+  const B = fromMatrix('B', ['seq', 'emb'], [[5], [6]]);
+  const joined = concat([A, B], 'emb');
+  passed = assert(joined.shape.join(',') === '2,3' && values(joined) === '1,2,5,3,4,6', 'concat along emb') && passed;
+
+  // Operands are aligned by name
+  const Bt = fromMatrix('Bt', ['emb', 'seq'], [[7, 8]]);
+  passed = assert(values(concat([A, Bt], 'emb')) === '1,2,7,3,4,8', 'concat aligns other indices by name') && passed;
+  passed = assertThrows(() => concat([A, fromMatrix('C', ['seq', 'emb'], [[1]])], 'emb'), 'concat size mismatch throws') && passed;
+
+  const stacked = stack([A, A], 'head', 1);
+  passed = assert(stacked.indices.join(',') === 'seq,head,emb' && values(stacked) === '1,2,1,2,3,4,3,4', 'stack on a new index') && passed;
+
+  const X = sequence('X', ['seq', 'emb'], [2, 6]);
+  const parts = split(X, 'emb', 3);
+  passed = assert(parts.length === 3 && parts.every((p) => p.shape.join(',') === '2,2'), 'split into equal parts') && passed;
+  passed = assert(values(concat(parts, 'emb')) === values(X), 'concat undoes split') && passed;
+  const uneven = split(X, 'emb', [1, 5]);
+  passed = assert(uneven[1].shape.join(',') === '2,5', 'split by sizes') && passed;
+  passed = assertThrows(() => split(X, 'emb', 4), 'Uneven split throws') && passed;
+
+  return passed;
+}
+
+// ============================================================================
+// REDUCE.TS TESTS
+// ============================================================================
+
+function testReductions(): boolean {
+  logTest('Reductions by index name');
+  let passed = true;
+
+  const X = fromMatrix('X', ['seq', 'd'], [[1, -2, 3], [4, 5, -6]]);
+  passed = assert(values(sum(X, 'seq')) === '5,3,-3' && sum(X, 'seq').indices.join(',') === 'd', 'sum over seq') && passed;
+  passed = assert(values(sum(X, 'd')) === '2,3', 'sum over d') && passed;
+  passed = assertClose(sum(X).data[0], 5, 'sum over everything') && passed;
+  passed = assert(values(mean(X, 'seq')) === '2.5,1.5,-1.5', 'mean') && passed;
+  passed = assert(values(prod(X, 'd')) === '-6,-120', 'prod') && passed;
+  passed = assert(values(max(X, 'seq')) === '4,5,3', 'max-pooling over seq') && passed;
+  passed = assert(values(min(X, 'd')) === '-2,-6', 'min') && passed;
+  passed = assert(values(argmax(X, 'd')) === '2,1', 'argmax') && passed;
+  passed = assert(values(argmin(X, 'd')) === '1,2', 'argmin') && passed;
+  passed = assertClose(argmax(X, ['seq', 'd']).data[0], 4, 'argmax over both indices is row-major') && passed;
+
+  const big = fromVector('L', 'k', [1000, 1000]);
+  passed = assertClose(logsumexp(big, 'k').data[0], 1000 + Math.log(2), 'logsumexp does not overflow') && passed;
+
+  const B = fromMatrix('B', ['x', 'y'], [[0, 1], [0, 0]]);
+  passed = assert(values(any(B, 'y')) === '1,0' && values(all(B, 'x')) === '0,0', 'any / all') && passed;
+  passed = assert(dtypeOf(any(B)) === 'bool' && all(B, 'x', { keepdims: true }).data instanceof Uint8Array, 'any / all are Boolean') && passed;
+  passed = assertClose(norm(X).data[0], Math.sqrt(91), 'Frobenius norm') && passed;
+  passed = assert(values(norm(X, 'd', { p: 1 })) === '6,15', 'L1 norm') && passed;
+  passed = assert(values(norm(X, 'd', { p: Infinity })) === '3,6', 'L∞ norm') && passed;
+
+  // keepdims keeps the reduced index at size 1, so the result broadcasts back
+  const T = sequence('T', ['b', 'h', 'w'], [2, 3, 4]);
+  const m = max(T, 'h', { keepdims: true });
+  passed = assert(m.shape.join(',') === '2,1,4' && m.indices.join(',') === 'b,h,w', 'keepdims') && passed;
+  passed = assertClose(mean(T, ['b', 'w']).data[1], (() => {
+    let total = 0;
+    for (let b = 0; b < 2; b++) for (let w = 0; w < 4; w++) total += getElement(T, b, 1, w);
+    return total / 8;
+  })(), 'mean over two non-adjacent indices') && passed;
+
+  passed = assertThrows(() => sum(X, 'time'), 'Unknown index throws') && passed;
+  passed = assertThrows(() => max(createTensor('E', ['i'], [0]), 'i'), 'max of nothing throws') && passed;
+
+  return passed;
+}
+
+function testNamedSoftmax(): boolean {
+  logTest('softmax over any named index');
+  let passed = true;
+
+  const S = sequence('S', ['b', 'q', 'k'], [2, 3, 4]);
+  const byName = softmax(S, 'k');
+  passed = assert(sum(byName, 'k').data.every((x) => Math.abs(x - 1) < 1e-12), 'Rows over k sum to 1') && passed;
+  passed = assert(values(byName) === values(softmax(S, -1)), "softmax(S, 'k') = softmax(S, -1)") && passed;
+
+  const overQ = softmax(S, 'q');
+  passed = assert(sum(overQ, 'q').data.every((x) => Math.abs(x - 1) < 1e-12), 'Middle index q normalised') && passed;
+  const manual = Math.exp(getElement(S, 1, 2, 3)) /
+    [0, 1, 2].reduce((total, q) => total + Math.exp(getElement(S, 1, q, 3)), 0);
+  passed = assertClose(getElement(overQ, 1, 2, 3), manual, 'Matches the definition') && passed;
+  passed = assertThrows(() => softmax(S, 'z'), 'Unknown index throws') && passed;
+
+  return passed;
+}
+
+// ============================================================================
+// LOGSPACE.TS TESTS
+// ============================================================================
+
+/** Wikipedia's healthy/fever HMM: observations normal(0), cold(1), dizzy(2) */
+function feverModel(): HiddenMarkovModel {
+  return {
+    initial: fromVector('π', 's', [0.6, 0.4]),
+    transition: fromMatrix('A', ['s', 't'], [[0.7, 0.3], [0.4, 0.6]]),
+    emission: fromMatrix('B', ['s', 'o'], [[0.5, 0.4, 0.1], [0.1, 0.3, 0.6]]),
+  };
+}
+
+function testLogEinsum(): boolean {
+  logTest('logEinsum');
+  let passed = true;
+
+  const positive = (name: string, indices: string[], shape: number[]): Tensor => {
+    const t = sequence(name, indices, shape);
+    return { ...t, data: t.data.map((x) => (x + 6) / 10) };
+  };
+  const A = positive('A', ['i', 'j'], [3, 4]);
+  const B = positive('B', ['j', 'k'], [4, 5]);
+  const C = positive('C', ['k', 'l'], [5, 2]);
+
+  const product = fromLogSpace(logEinsum('ij,jk->ik', toLogSpace(A), toLogSpace(B)));
+  const expected = referenceEinsum('ij,jk->ik', A, B);
+  passed = assert(product.data.every((x, i) => Math.abs(x - expected[i]) < 1e-12), 'Matrix product matches einsum') && passed;
+
+  const chain = fromLogSpace(logEinsum('ij,jk,kl->il', toLogSpace(A), toLogSpace(B), toLogSpace(C)));
+  const expectedChain = referenceEinsum('ij,jk,kl->il', A, B, C);
+  passed = assert(chain.data.every((x, i) => Math.abs(x - expectedChain[i]) < 1e-12), 'Three operands contract pairwise') && passed;
+
+  // Products far below the smallest double stay finite in log space
+  const tiny = createTensor('tiny', ['i', 'j'], [2, 2], new Float64Array(4).fill(-800));
+  const squared = logEinsum('ij,jk->ik', tiny, tiny);
+  passed = assertClose(squared.data[0], -1600 + Math.log(2), 'exp(-800)² · 2 does not underflow') && passed;
+
+  return passed;
+}
+
+function testHMM(): boolean {
+  logTest('hmmForward / hmmBackward / viterbi');
+  let passed = true;
+
+  const hmm = feverModel();
+  const decoded = viterbi(hmm, [0, 1, 2]);
+  passed = assert(decoded.path.join(',') === '0,0,1', 'Viterbi path is healthy, healthy, fever') && passed;
+  passed = assertClose(Math.exp(decoded.logProbability), 0.01512, 'Viterbi path probability') && passed;
+
+  // Forward likelihood against enumeration of all 8 state sequences
+  let brute = 0;
+  for (let code = 0; code < 8; code++) {
+    const s = [(code >> 2) & 1, (code >> 1) & 1, code & 1];
+    let p = hmm.initial.data[s[0]] * hmm.emission.data[s[0] * 3];
+    p *= hmm.transition.data[s[0] * 2 + s[1]] * hmm.emission.data[s[1] * 3 + 1];
+    p *= hmm.transition.data[s[1] * 2 + s[2]] * hmm.emission.data[s[2] * 3 + 2];
+    brute += p;
+  }
+  const { logLikelihood } = hmmForward(hmm, [0, 1, 2]);
+  passed = assertClose(Math.exp(logLikelihood), brute, 'Forward likelihood matches enumeration') && passed;
+
+  const { logBeta } = hmmBackward(hmm, [0, 1, 2]);
+  const backward = hmm.initial.data.reduce((total, p, s) => total + p * hmm.emission.data[s * 3] * Math.exp(logBeta.data[s]), 0);
+  passed = assertClose(backward, brute, 'Backward messages give the same likelihood') && passed;
+
+  // A long sequence: plain probabilities underflow, logs do not
+  const observations = Array.from({ length: 3000 }, (_, t) => (t * 7) % 3);
+  const long = hmmForward(hmm, observations);
+  let scaled = 0;
+  let alpha = [0.6 * hmm.emission.data[observations[0]], 0.4 * hmm.emission.data[3 + observations[0]]];
+  for (let t = 0; t < observations.length; t++) {
+    if (t > 0) {
+      const o = observations[t];
+      alpha = [0, 1].map((to) =>
+        (alpha[0] * hmm.transition.data[to] + alpha[1] * hmm.transition.data[2 + to]) * hmm.emission.data[to * 3 + o]
+      );
+    }
+    const z = alpha[0] + alpha[1];
+    scaled += Math.log(z);
+    alpha = alpha.map((a) => a / z);
+  }
+  passed = assert(Number.isFinite(long.logLikelihood), `Log-likelihood of 3000 steps is finite (${long.logLikelihood.toFixed(1)})`) && passed;
+  passed = assertClose(long.logLikelihood, scaled, 'Matches the scaled forward pass') && passed;
+
+  const gamma = hmmPosterior(hmm, observations);
+  let worst = 0;
+  for (let t = 0; t < observations.length; t++) {
+    worst = Math.max(worst, Math.abs(gamma.data[2 * t] + gamma.data[2 * t + 1] - 1));
+  }
+  passed = assert(worst < 1e-9, 'Posteriors sum to 1 at every step') && passed;
+  passed = assert(viterbi(hmm, observations).path.length === 3000, 'Viterbi decodes the long sequence') && passed;
+
+  passed = assertThrows(() => hmmForward(hmm, [0, 3]), 'Unknown observation throws') && passed;
+  passed = assertThrows(() => viterbi(hmm, []), 'Empty sequence throws') && passed;
+
+  return passed;
+}
+
+function testBayesMarginal(): boolean {
+  logTest('bayesMarginal');
+  let passed = true;
+
+  // Student network: D → G ← I, G → L
+  const D = fromVector('P(D)', 'D', [0.6, 0.4]);
+  const I = fromVector('P(I)', 'I', [0.7, 0.3]);
+  const G = createTensor('P(G|D,I)', ['D', 'I', 'G'], [2, 2, 3], new Float64Array([
+    0.3, 0.4, 0.3, 0.9, 0.08, 0.02, 0.05, 0.25, 0.7, 0.5, 0.3, 0.2,
+  ]));
+  const L = fromMatrix('P(L|G)', ['G', 'L'], [[0.1, 0.9], [0.4, 0.6], [0.99, 0.01]]);
+
+  const pG = bayesMarginal([D, I, G, L], ['G']);
+  const dense = referenceEinsum('a,b,abc->c', D, I, G);
+  passed = assert(pG.indices.join(',') === 'G' && pG.data.every((x, i) => Math.abs(x - dense[i]) < 1e-12), 'P(G) matches einsum') && passed;
+
+  // P(I | L = strong) = Σ_{D,G} P(D) P(I) P(G|D,I) P(L=1|G) / Z
+  const joint = referenceEinsum('a,b,abc,c->b', D, I, G, fromVector('l', 'G', [0.9, 0.6, 0.01]));
+  const z = joint[0] + joint[1];
+  const pI = bayesMarginal([D, I, G, L], ['I'], { L: 1 });
+  passed = assertClose(pI.data[1], joint[1] / z, 'P(I = high | L = strong)') && passed;
+
+  // A chain of 500 binary variables with unnormalised factors: the joint is
+  // around 10^-1500, the marginal is P(X0 = 0 | X500 = 0) = (1 + 0.98^500) / 2
+  const links = Array.from({ length: 500 }, (_, k) =>
+    fromMatrix(`ψ${k}`, [`X${k}`, `X${k + 1}`], [[0.01e-3, 0.99e-3], [0.99e-3, 0.01e-3]])
+  );
+  const chain = bayesMarginal([fromVector('P(X0)', 'X0', [0.5, 0.5]), ...links], ['X0'], { X500: 0 });
+  passed = assertClose(chain.data[0] + chain.data[1], 1, 'Long chain marginal is normalised') && passed;
+  passed = assertClose(chain.data[0], (1 + Math.pow(0.98, 500)) / 2, 'Long chain matches the closed form') && passed;
+
+  // A Boolean indicator factor: its zeros are log 0 = -∞, not probability 1
+  const indicator = astype(fromVector('U', 'a', [1, 0]), 'bool');
+  const cpt = fromMatrix('P(b|a)', ['a', 'b'], [[0.5, 0.5], [0.2, 0.8]]);
+  passed = assert(toLogSpace(indicator).data[1] === -Infinity && dtypeOf(toLogSpace(indicator)) === 'float64', 'log of a bool factor is float64') && passed;
+  const gated = bayesMarginal([indicator, cpt], ['b']);
+  passed = assertClose(gated.data[0], 0.5, 'Bool factor gates the marginal') && passed;
+
+  passed = assertThrows(() => bayesMarginal([D, I], ['D'], { D: 0 }), 'Querying observed variable throws') && passed;
+
+  return passed;
+}
+
+// ============================================================================
+// RANDOM.TS TESTS
+// ============================================================================
+
+function testSeededRandom(): boolean {
+  logTest('createRandom / seedRandom');
+  let passed = true;
+
+  // Pinned values: a change here breaks reproducibility of saved runs
+  const rng = createRandom(42);
+  const first = [rng.uniform(), rng.uniform(), rng.int(1000)];
+  passed = assert(first.join(',') === '0.32415334736418533,0.5931862231687128,446', 'Seed 42 gives the pinned stream') && passed;
+
+  // Normal draws avoid Math.log and Math.cos, whose last bits vary by engine,
+  // but agree with Box–Muller computed from them
+  const gauss = createRandom(42);
+  const pinned = [gauss.normal(), gauss.normal(), gauss.normal()];
+  passed = assert(pinned.join(',') === '-0.7377539368596755,-1.8193384616313968,0.576262293881509', 'Seed 42 gives pinned normals') && passed;
+  const boxMuller = createRandom(42);
+  const u = 1 - boxMuller.uniform();
+  const v = boxMuller.uniform();
+  passed = assertClose(pinned[0], Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v), 'normal matches Math-based Box–Muller') && passed;
+
+  const a = createRandom(7);
+  const b = createRandom(7);
+  const draws = (r: ReturnType<typeof createRandom>) => Array.from({ length: 100 }, () => r.uniform()).join(',');
+  passed = assert(draws(a) === draws(b), 'Same seed, same stream') && passed;
+  passed = assert(draws(createRandom(7)) !== draws(createRandom(8)), 'Different seeds, different streams') && passed;
+
+  const parent = createRandom(7);
+  const child = parent.split();
+  passed = assert(draws(child) !== draws(parent), 'split gives an independent stream') && passed;
+  passed = assert(draws(createRandom(7).split()) === draws(createRandom(7).split()), 'split is deterministic') && passed;
+
+  const stats = createRandom(1);
+  let inRange = true;
+  let sum = 0;
+  let sumSq = 0;
+  for (let i = 0; i < 20000; i++) {
+    const u = stats.uniform();
+    const k = stats.int(6);
+    inRange = inRange && u >= 0 && u < 1 && Number.isInteger(k) && k >= 0 && k < 6;
+    const z = stats.normal();
+    sum += z;
+    sumSq += z * z;
+  }
+  passed = assert(inRange, 'uniform in [0, 1), int in [0, n)') && passed;
+  passed = assert(Math.abs(sum / 20000) < 0.05 && Math.abs(sumSq / 20000 - 1) < 0.05, 'normal has mean 0, variance 1') && passed;
+
+  // Tensors and networks built from the same seed are bit-identical
+  const T1 = createTensor('T', ['i', 'j'], [3, 4], 'random', { rng: createRandom(3) });
+  const T2 = createTensor('T', ['i', 'j'], [3, 4], 'random', { rng: createRandom(3) });
+  passed = assert(values(T1) === values(T2), "createTensor 'random' is reproducible") && passed;
+  const g1 = createGaugeTransformer(2, 4, 8, createRandom(5));
+  const g2 = createGaugeTransformer(2, 4, 8, createRandom(5));
+  passed = assert(values(g1.projections.query) === values(g2.projections.query) &&
+    values(g1.outputProjection) === values(g2.outputProjection), 'createGaugeTransformer is reproducible') && passed;
+
+  seedRandom(11);
+  const shared1 = values(createFiberBundle('x', 5).fiberData);
+  seedRandom(11);
+  const shared2 = values(createFiberBundle('x', 5).fiberData);
+  passed = assert(shared1 === shared2, 'seedRandom makes default draws reproducible') && passed;
+
+  passed = assertThrows(() => createRandom(0.5), 'Non-integer seed throws') && passed;
+
+  return passed;
+}
+
+function testInitializers(): boolean {
+  logTest('Xavier / He / orthogonal initializers');
+  let passed = true;
+
+  passed = assert(JSON.stringify(fans([64, 32, 3, 3])) === '{"fanIn":288,"fanOut":576}', 'fans of [out, in, kh, kw]') && passed;
+
+  const bound = Math.sqrt(6 / (100 + 50));
+  const X = xavierUniform([50, 100], { rng: createRandom(1) });
+  passed = assert(X.every((x) => Math.abs(x) <= bound), 'Xavier uniform within ±√(6 / (fanIn + fanOut))') && passed;
+
+  const H = heNormal([200, 100], { rng: createRandom(2) });
+  const std = Math.sqrt(H.reduce((total, x) => total + x * x, 0) / H.length);
+  passed = assert(Math.abs(std - Math.sqrt(2 / 100)) < 0.005, `He normal has σ ≈ √(2 / fanIn) (${std.toFixed(4)})`) && passed;
+
+  // Orthogonal rows for a wide matrix, orthogonal columns for a tall one
+  const orthonormal = (shape: [number, number], rows: boolean): boolean => {
+    const [r, c] = shape;
+    const Q = createTensor('Q', ['i', 'j'], shape, orthogonal(shape, { rng: createRandom(3) }));
+    const gram = rows ? einsum('ij,kj->ik', Q, Q) : einsum('ij,ik->jk', Q, Q);
+    const n = rows ? r : c;
+    return gram.data.every((x, i) => Math.abs(x - (Math.floor(i / n) === i % n ? 1 : 0)) < 1e-10);
+  };
+  passed = assert(orthonormal([3, 5], true), 'Wide orthogonal matrix: Q·Qᵀ = I') && passed;
+  passed = assert(orthonormal([6, 4], false), 'Tall orthogonal matrix: Qᵀ·Q = I') && passed;
+
+  const W = createTensor('W', ['o', 'i'], [4, 4], 'orthogonal', { rng: createRandom(9) });
+  passed = assert(einsum('oi,pi->op', W, W).data.every((x, i) => Math.abs(x - (i % 5 === 0 ? 1 : 0)) < 1e-10),
+    "createTensor 'orthogonal'") && passed;
+  passed = assertThrows(() => orthogonal([4]), 'Orthogonal vector throws') && passed;
+
+  return passed;
+}
+
+// ============================================================================
+// DTYPE.TS TESTS
+// ============================================================================
+
+function testDTypes(): boolean {
+  logTest('dtypes and promotion');
+  let passed = true;
+
+  passed = assert(dtypeOf(createTensor('F', ['i'], [3])) === 'float64', 'float64 by default') && passed;
+  const W = createTensor('W', ['i', 'j'], [2, 2], 'ones', { dtype: 'float32' });
+  passed = assert(W.data instanceof Float32Array && dtypeOf(W) === 'float32', 'float32 storage') && passed;
+  const R = createTensor('R', ['x', 'y'], [2, 2], new Uint8Array([0, 1, 1, 0]), { dtype: 'bool' });
+  passed = assert(R.data instanceof Uint8Array && dtypeOf(R) === 'bool', 'bool storage') && passed;
+  passed = assert(dtypeOf(createTensor('U', ['i'], [2], new Uint8Array(2))) === 'uint8', 'Uint8Array without a mark is uint8') && passed;
+
+  passed = assert(promoteTypes('bool', 'uint8') === 'uint8' && promoteTypes('uint8', 'int32') === 'int32', 'Integer promotion') && passed;
+  passed = assert(promoteTypes('int32', 'float32') === 'float64' && promoteTypes('uint8', 'float32') === 'float32', 'Mixed promotion') && passed;
+  passed = assert(promoteTypes('float32', 'float64') === 'float64', 'float32 with float64') && passed;
+
+  // Conversion: floats round to float32, truncate and wrap to integers
+  const X = fromVector('X', 'i', [0.1, -2.7, 300, 0]);
+  passed = assertClose(astype(X, 'float32').data[0], Math.fround(0.1), 'float32 rounds') && passed;
+  passed = assert(values(astype(X, 'int32')) === '0,-2,300,0', 'int32 truncates toward zero') && passed;
+  passed = assert(values(astype(X, 'uint8')) === '0,254,44,0', 'uint8 wraps around') && passed;
+  passed = assert(values(astype(X, 'bool')) === '1,1,1,0', 'bool is non-zero') && passed;
+
+  // einsum: float32 stays float32, Boolean joins stay Boolean
+  const F = einsum('ij,jk->ik', W, W);
+  passed = assert(dtypeOf(F) === 'float32' && values(F) === '2,2,2,2', 'float32 einsum') && passed;
+  const paths = einsum('xy,yz->xz', R, R);
+  passed = assert(dtypeOf(paths) === 'bool' && values(paths) === '1,0,0,1', 'Boolean einsum is OR of ANDs') && passed;
+  const counts = einsum('xy,yz->xz', astype(R, 'int32'), astype(R, 'int32'));
+  passed = assert(dtypeOf(counts) === 'int32', 'int32 einsum') && passed;
+  passed = assert(dtypeOf(einsum('ij,jk->ik', W, astype(R, 'int32'))) === 'float64', 'int32 with float32 gives float64') && passed;
+
+  // Element-wise ops promote; comparisons give bool; division gives floats
+  const bias = createTensor('B', ['j'], [2], 'ones', { dtype: 'float32' });
+  passed = assert(dtypeOf(add(W, bias)) === 'float32', 'float32 + float32 broadcast') && passed;
+  const I = createTensor('I', ['i'], [3], new Int32Array([7, 8, 9]));
+  passed = assert(dtypeOf(add(I, I)) === 'int32' && values(add(I, I)) === '14,16,18', 'int32 + int32') && passed;
+  passed = assert(dtypeOf(divide(I, I)) === 'float64', 'int32 / int32 is float64') && passed;
+  const mask = greater(I, fromVector('T', 'i', [8, 8, 8]));
+  passed = assert(dtypeOf(mask) === 'bool' && values(mask) === '0,0,1', 'Comparisons are Boolean') && passed;
+
+  // Shape operations keep the dtype
+  passed = assert(dtypeOf(slice(R, { x: 0 })) === 'bool' && dtypeOf(permute(W, ['j', 'i'])) === 'float32', 'slice / permute keep dtype') && passed;
+  passed = assert(dtypeOf(reshape(I, [1, 3], ['a', 'b'])) === 'int32' && dtypeOf(clone(R)) === 'bool', 'reshape / clone keep dtype') && passed;
+
+  return passed;
+}
+
+// ============================================================================
+// SERIALIZE.TS TESTS
+// ============================================================================
+
+function sameTensor(a: Tensor, b: Tensor): boolean {
+  return (
+    a.name === b.name &&
+    a.shape.join() === b.shape.join() &&
+    a.indices.join() === b.indices.join() &&
+    dtypeOf(a) === dtypeOf(b) &&
+    values(a) === values(b)
+  );
+}
+
+/** An .npy file as NumPy writes it, from a header dict and raw data bytes */
+function npyBytes(dict: string, data: number[]): Uint8Array {
+  const header = dict + ' '.repeat(63 - ((10 + dict.length) % 64)) + '\n';
+  return new Uint8Array([0x93, ...Array.from('NUMPY', (c) => c.charCodeAt(0)), 1, 0, header.length & 0xff, header.length >> 8,
+    ...Array.from(header, (c) => c.charCodeAt(0)), ...data]);
+}
+
+function testSerialize(): boolean {
+  logTest('Tensors, Nestors and RAPTL facts');
+  let passed = true;
+
+  // Every dtype survives, including values float32 must round
+  const weights = {
+    W: fromMatrix('W', ['o', 'i'], [[0.1, -2.5], [1e-300, Math.PI]]),
+    H: astype(fromVector('H', 'j', [0.1, 3, -7]), 'float32'),
+    C: astype(fromVector('C', 'k', [-5, 0, 2 ** 30]), 'int32'),
+    U: astype(fromVector('U', 'k', [1, 255, 7]), 'uint8'),
+    R: astype(fromMatrix('R', ['x', 'y'], [[0, 1], [1, 0]]), 'bool'),
+  };
+  const saved = serializeTensors(weights, { epoch: 12, note: 'trained' });
+  const { tensors, metadata } = deserializeTensors(saved);
+  passed = assert(tensors.size === 5 && Object.entries(weights).every(([k, t]) => sameTensor(t, tensors.get(k)!)), 'Collection round-trips every dtype') && passed;
+  passed = assert(JSON.stringify(metadata) === '{"epoch":12,"note":"trained"}', 'Metadata round-trips') && passed;
+  passed = assert(sameTensor(deserializeTensor(serializeTensor(weights.W)), weights.W), 'Single tensor round-trips') && passed;
+
+  // Nestor hypertree with fibers, connections and metadata
+  const typeInfo = createTestNestorType();
+  const leaf = { ...createNestor('leaf', fromVector('l', 'i', [4, 5]), typeInfo), metadata: { label: 'x' } };
+  const root = attachFiberBundle(createNestor('root', fromVector('r', 'i', [1, 2]), typeInfo, [leaf]), {
+    ...createFiberBundle('root', 3, fromVector('fiber', 'f', [0.5, 0.25, 0.125])),
+    connection: fromMatrix('A', ['f', 'g'], [[1, 0], [0, 1]]),
+  });
+  const loaded = deserializeNestor(serializeNestor(root));
+  passed = assert(loaded.id === 'root' && loaded.children[0].id === 'leaf', 'Tree structure round-trips') && passed;
+  passed = assert(sameTensor(loaded.tensor, root.tensor) && sameTensor(loaded.children[0].tensor, leaf.tensor), 'Node tensors round-trip') && passed;
+  passed = assert(
+    loaded.fiber?.fiberDim === 3 && sameTensor(loaded.fiber.fiberData, root.fiber!.fiberData) && sameTensor(loaded.fiber.connection!, root.fiber!.connection!),
+    'Fiber and connection round-trip'
+  ) && passed;
+  passed = assert(JSON.stringify(loaded.typeInfo) === JSON.stringify(typeInfo) && loaded.children[0].metadata?.label === 'x', 'Type info and metadata round-trip') && passed;
+
+  // RAPTL facts keep their truth values, resources and modality
+  const facts = [createRAPTLFact('parent', weights.R, 0.9, 0.8, 'question'), createRAPTLFact('w', weights.W)];
+  const restored = deserializeRAPTLFacts(serializeRAPTLFacts(facts));
+  passed = assert(restored.length === 2 && sameTensor(restored[0].logic, weights.R) && restored[0].modality === 'question', 'RAPTL fact round-trips') && passed;
+  passed = assert(JSON.stringify(restored[1].uncertainty) === JSON.stringify(facts[1].uncertainty) && JSON.stringify(restored[1].resources) === JSON.stringify(facts[1].resources), 'Truth value and resources round-trip') && passed;
+
+  // Bad input
+  const future = serializeTensor(weights.W);
+  future[String.fromCharCode(...future.subarray(0, 200)).indexOf('"version":1') + 10] = '9'.charCodeAt(0);
+  passed = assertThrows(() => deserializeTensor(future), 'Newer format version is rejected') && passed;
+  passed = assertThrows(() => deserializeTensors(new Uint8Array(32)), 'Bad magic is rejected') && passed;
+  passed = assertThrows(() => deserializeNestor(saved), 'Wrong kind is rejected') && passed;
+
+  return passed;
+}
+
+function testNumpy(): boolean {
+  logTest('NumPy .npy / .npz');
+  let passed = true;
+
+  const tensors = [
+    fromMatrix('W', ['i', 'j'], [[1.5, -2], [3, 4], [5, 6]]),
+    astype(fromVector('H', 'k', [0.1, 2]), 'float32'),
+    astype(fromVector('C', 'k', [-3, 9]), 'int32'),
+    astype(fromMatrix('R', ['x', 'y'], [[1, 0], [0, 1]]), 'bool'),
+  ];
+  for (const t of tensors) {
+    const bytes = toNpy(t);
+    const headerEnd = 10 + (bytes[8] | (bytes[9] << 8));
+    passed = assert(headerEnd % 64 === 0, `${t.name}: data starts on a 64-byte boundary`) && passed;
+    passed = assert(sameTensor(fromNpy(bytes, { name: t.name, indices: t.indices }), t), `${t.name}: .npy round-trips ${dtypeOf(t)}`) && passed;
+  }
+  const header = new TextDecoder().decode(toNpy(tensors[0]).subarray(10, 80));
+  passed = assert(header.startsWith("{'descr': '<f8', 'fortran_order': False, 'shape': (3, 2), }"), 'Header matches numpy.save') && passed;
+  passed = assert(fromNpy(toNpy(tensors[1])).indices.join() === 'i0', 'Default index names') && passed;
+
+  // Files NumPy writes that we do not: Fortran order, int64, big-endian
+  const fortran = npyBytes("{'descr': '<i8', 'fortran_order': True, 'shape': (2, 3), }",
+    [0, 3, 1, 4, 2, 5].flatMap((v) => [v, 0, 0, 0, 0, 0, 0, 0]));
+  const F = fromNpy(fortran);
+  passed = assert(F.shape.join() === '2,3' && values(F) === '0,1,2,3,4,5', 'Fortran order is read row-major') && passed;
+  const big = fromNpy(npyBytes("{'descr': '>f4', 'fortran_order': False, 'shape': (), }", [0x3f, 0xc0, 0, 0]));
+  passed = assert(big.shape.length === 0 && big.data[0] === 1.5, 'Big-endian scalar') && passed;
+  passed = assertThrows(() => fromNpy(npyBytes("{'descr': '<c16', 'fortran_order': False, 'shape': (1,), }", [])), 'Complex dtype is rejected') && passed;
+
+  // .npz archives
+  const archive = fromNpz(toNpz({ W: tensors[0], R: tensors[3] }), { W: ['i', 'j'] });
+  passed = assert(archive.size === 2 && sameTensor(archive.get('W')!, tensors[0]), '.npz round-trips with given indices') && passed;
+  passed = assert(values(archive.get('R')!) === '1,0,0,1' && dtypeOf(archive.get('R')!) === 'bool', '.npz keeps dtypes') && passed;
+  passed = assertThrows(() => fromNpz(new Uint8Array(40)), 'Non-ZIP input is rejected') && passed;
+
+  return passed;
+}
+
+// ============================================================================
+// DOMAINS.TS TESTS
+// ============================================================================
+
+function testIndexDomains(): boolean {
+  logTest('Index domains');
+  let passed = true;
+
+  const person = createDomain('person', ['alice', 'bob', 'carol']);
+  const city = createDomain('city', 3);
+  passed = assert(domainSize(person) === 3 && domainSize(city) === 3, 'Sizes from symbols or declaration') && passed;
+  passed = assertThrows(() => internSymbol(city, 'paris'), 'Size-only domain has no symbol table') && passed;
+  passed = assertThrows(() => withDomains(fromVector('v', 'i', [1, 2]), [person]), 'Shape must match domain size') && passed;
+
+  // Same size, different domains: einsum refuses the join
+  const knows = withDomains(fromMatrix('Knows', ['x', 'y'], [[0, 1, 0], [0, 0, 1], [1, 0, 0]]), [person, person]);
+  const livesIn = withDomains(fromMatrix('LivesIn', ['x', 'c'], [[1, 0, 0], [0, 1, 0], [0, 0, 1]]), [person, city]);
+  const near = withDomains(fromMatrix('Near', ['c', 'd'], [[0, 1, 1], [1, 0, 1], [1, 1, 0]]), [city, 'city']);
+  passed = assertThrows(() => einsum('xy,yz->xz', knows, near), 'person joined with city is rejected') && passed;
+
+  const friendCity = einsum('xy,yc->xc', knows, livesIn);
+  passed = assert(friendCity.domains?.join() === 'person,city', 'einsum output takes the joined domains') && passed;
+  passed = assert(einsum('xc,cd->xd', friendCity, near).domains?.join() === 'person,city', 'Domains propagate through chains') && passed;
+  passed = assert(einsum('xc,cd,de->xe', livesIn, near, near).domains?.join() === 'person,city', 'Planned multi-operand einsum') && passed;
+  const untyped = fromMatrix('M', ['i', 'j'], [[1, 0, 0], [0, 1, 0], [0, 0, 1]]);
+  passed = assert(einsum('ij,jc->ic', untyped, livesIn).domains?.join() === ',city', 'Untyped axes join with anything') && passed;
+  passed = assert(einsum('ij,jk->ik', untyped, untyped).domains === undefined, 'Untyped tensors stay untyped') && passed;
+  passed = assert(clone(livesIn).domains?.join() === 'person,city', 'clone keeps domains') && passed;
+
+  const restored = deserializeTensor(serializeTensor(livesIn));
+  passed = assert(restored.domains?.join() === 'person,city', 'Serialization keeps domains') && passed;
+
+  return passed;
+}
+
 // ============================================================================
 // MAIN TEST RUNNER
 // ============================================================================
@@ -996,10 +2055,12 @@ async function runAllUnitTests() {
         { name: 'relu', fn: testRelu },
         { name: 'softmax', fn: testSoftmax },
         { name: 'add / multiply / scale', fn: testAddMultiplyScale },
+        { name: 'Named broadcasting', fn: testBroadcasting },
         { name: 'transpose', fn: testTranspose },
         { name: 'tensorToString', fn: testTensorToString },
         { name: 'clone', fn: testClone },
         { name: 'identity', fn: testIdentity },
+        { name: 'contract', fn: testContract },
       ],
     },
     {
@@ -1038,6 +2099,77 @@ async function runAllUnitTests() {
         { name: 'extractSlice', fn: testExtractSlice },
       ],
     },
+    {
+      name: 'CONTRACTION.TS - Contraction Planning',
+      tests: [
+        { name: 'planContraction', fn: testPlanContraction },
+        { name: 'Planned einsum', fn: testPlannedEinsum },
+      ],
+    },
+    {
+      name: 'KERNELS.TS - Compiled Einsum',
+      tests: [
+        { name: 'compileEinsum / runEinsum', fn: testCompiledKernels },
+        { name: 'NumPy einsum notation', fn: testEinsumNotation },
+      ],
+    },
+    {
+      name: 'SPARSE.TS - Sparse Tensors',
+      tests: [
+        { name: 'Sparse conversion', fn: testSparseConversion },
+        { name: 'sparseEinsum', fn: testSparseEinsum },
+        { name: 'sparseBooleanEinsum', fn: testSparseBooleanJoin },
+      ],
+    },
+    {
+      name: 'SHAPE.TS - Shape Operations',
+      tests: [
+        { name: 'permute / reshape / squeeze / unsqueeze', fn: testPermuteReshape },
+        { name: 'slice / gather', fn: testSliceGather },
+        { name: 'concat / stack / split', fn: testConcatStackSplit },
+      ],
+    },
+    {
+      name: 'REDUCE.TS - Reductions',
+      tests: [
+        { name: 'Reductions', fn: testReductions },
+        { name: 'Named softmax', fn: testNamedSoftmax },
+      ],
+    },
+    {
+      name: 'LOGSPACE.TS - Log-Space Inference',
+      tests: [
+        { name: 'logEinsum', fn: testLogEinsum },
+        { name: 'Hidden Markov models', fn: testHMM },
+        { name: 'bayesMarginal', fn: testBayesMarginal },
+      ],
+    },
+    {
+      name: 'RANDOM.TS - Seeded Random Numbers',
+      tests: [
+        { name: 'createRandom / seedRandom', fn: testSeededRandom },
+        { name: 'Initializers', fn: testInitializers },
+      ],
+    },
+    {
+      name: 'DTYPE.TS - Element Types',
+      tests: [
+        { name: 'dtypes and promotion', fn: testDTypes },
+      ],
+    },
+    {
+      name: 'SERIALIZE.TS - Saving and Loading',
+      tests: [
+        { name: 'Tensors, Nestors and RAPTL facts', fn: testSerialize },
+        { name: 'NumPy .npy / .npz', fn: testNumpy },
+      ],
+    },
+    {
+      name: 'DOMAINS.TS - Index Domains',
+      tests: [
+        { name: 'Index domains', fn: testIndexDomains },
+      ],
+    },
   ];
 
   let totalPassed = 0;
@@ -11,12 +11,15 @@ import {
   runLogicProgramExample,
   runMLPExample,
   runFullXORDemo,
+  runTrainedXORExample,
   runTransformerExample,
   runMultiHeadAttentionExample,
   runKernelExample,
+  runTrainedKernelExample,
   runGraphicalModelExample,
   runHMMExample,
   runGNNExample,
+  runTrainedGNNExample,
 } from './tensor-logic';
 
 interface Example {
@@ -54,6 +57,12 @@ const examples: Example[] = [
     category: 'neural',
     run: runFullXORDemo,
   },
+  {
+    id: 'mlp-train',
+    name: 'Training an MLP (XOR)',
+    category: 'neural',
+    run: runTrainedXORExample,
+  },
   {
     id: 'transformer',
     name: 'Transformer (Self-Attention)',
@@ -72,12 +81,24 @@ const examples: Example[] = [
     category: 'neural',
     run: runGNNExample,
   },
+  {
+    id: 'gnn-train',
+    name: 'Training a GNN',
+    category: 'neural',
+    run: runTrainedGNNExample,
+  },
   {
     id: 'kernel',
     name: 'Kernel Machines (SVM)',
     category: 'hybrid',
     run: runKernelExample,
   },
+  {
+    id: 'kernel-train',
+    name: 'Training a Kernel Machine',
+    category: 'hybrid',
+    run: runTrainedKernelExample,
+  },
   {
     id: 'bayesian',
     name: 'Bayesian Network',
@@ -0,0 +1,303 @@
+/**
+ * REVERSE-MODE AUTOMATIC DIFFERENTIATION
+ *
+ * A tape records every operation of a forward pass. Walking the tape
+ * backwards propagates ∂loss/∂output to the inputs of each operation, so
+ * one backward pass yields the gradient of every parameter at once, instead
+ * of one extra forward pass per element as with finite differences.
+ *
+ * GRADIENTS OF EINSUMS ARE EINSUMS:
+ * For C = einsum('ij,jk->ik', A, B) the gradients are
+ *
+ *   ∂L/∂A[i,j] = Σ_k ∂L/∂C[i,k] · B[j,k]    i.e. einsum('ik,jk->ij', dC, B)
+ *   ∂L/∂B[j,k] = Σ_i ∂L/∂C[i,k] · A[i,j]    i.e. einsum('ik,ij->jk', dC, A)
+ *
+ * In general the gradient of an operand is the einsum of the output
+ * gradient with every other operand, projected onto the operand's indices.
+ * Learning in tensor logic is therefore itself a tensor logic program.
+ *
+ * Usage:
+ *   const tape = new Tape();
+ *   const W = tape.variable(weights);
+ *   const y = tape.sigmoid(tape.einsum('ij,j->i', W, tape.constant(x)));
+ *   const loss = tape.einsum('i->', y);
+ *   tape.backward(loss);
+ *   tape.gradient(W);  // ∂loss/∂W
+ */
+
+import {
+  Tensor,
+  einsum,
+  contract,
+  add,
+  multiply,
+  scale,
+  transpose,
+  sigmoid,
+  relu,
+  softmax,
+  resolveAxis,
+  threshold,
+} from './core';
+import { parseEinsum } from './kernels';
+
+/**
+ * A value recorded on a tape
+ */
+export interface Variable {
+  /** Position on the tape */
+  id: number;
+  /** Forward value */
+  value: Tensor;
+  /** True if the value depends on a variable created with tape.variable */
+  requiresGrad: boolean;
+}
+
+interface TapeEntry {
+  output: Variable;
+  inputs: Variable[];
+  /** Gradients with respect to each input, given the output gradient */
+  backward: (grad: Tensor) => Tensor[];
+}
+
+/**
+ * Sum a gradient computed over `from` indices into a tensor over `to` indices.
+ * Indices of `to` missing from `from` are broadcast. An index repeated in `to`
+ * (`ii` in a trace) only reaches the diagonal; elsewhere the gradient is 0.
+ */
+function broadcastGradient(grad: Tensor, from: string, to: string, shape: number[]): Tensor {
+  if (from === to) return grad;
+
+  const size = shape.reduce((a, b) => a * b, 1);
+  const data = new Float64Array(size);
+  const firstAxis = [...to].map((idx) => to.indexOf(idx));
+  const gradStrides = [...to].map((idx, axis) => {
+    const pos = from.indexOf(idx);
+    if (pos < 0 || firstAxis[axis] !== axis) return 0;
+    let stride = 1;
+    for (let i = pos + 1; i < grad.shape.length; i++) stride *= grad.shape[i];
+    return stride;
+  });
+
+  const position = new Array(shape.length).fill(0);
+  for (let flat = 0; flat < size; flat++) {
+    if (position.every((p, i) => p === position[firstAxis[i]])) {
+      let source = 0;
+      for (let i = 0; i < shape.length; i++) source += position[i] * gradStrides[i];
+      data[flat] = grad.data[source];
+    }
+
+    for (let i = shape.length - 1; i >= 0; i--) {
+      if (++position[i] < shape[i]) break;
+      position[i] = 0;
+    }
+  }
+
+  return { name: grad.name, shape: [...shape], indices: [...to], data };
+}
+
+/**
+ * Sum a gradient over the indices an element-wise operand was broadcast along
+ */
+function reduceToInput(grad: Tensor, input: Tensor): Tensor {
+  const same = grad.indices.length === input.indices.length &&
+    grad.indices.every((idx, i) => idx === input.indices[i]);
+  return same ? grad : { ...contract([grad], input.indices), name: grad.name };
+}
+
+/**
+ * Records operations on tensors and computes their gradients in reverse
+ */
+export class Tape {
+  private entries: TapeEntry[] = [];
+  private nextId = 0;
+  private grads = new Map<number, Tensor>();
+
+  /** A trainable value: gradients are computed for it */
+  variable(value: Tensor): Variable {
+    return { id: this.nextId++, value, requiresGrad: true };
+  }
+
+  /** A fixed input: no gradient flows into it */
+  constant(value: Tensor): Variable {
+    return { id: this.nextId++, value, requiresGrad: false };
+  }
+
+  private record(value: Tensor, inputs: Variable[], backward: (grad: Tensor) => Tensor[]): Variable {
+    const output: Variable = { id: this.nextId++, value, requiresGrad: inputs.some((v) => v.requiresGrad) };
+    if (output.requiresGrad) {
+      this.entries.push({ output, inputs, backward });
+    }
+    return output;
+  }
+
+  /** Einstein summation; see einsum in core.ts */
+  einsum(notation: string, ...inputs: Variable[]): Variable {
+    const { inputs: operands, output } = parseEinsum(notation, inputs.map((v) => v.value.shape));
+    const value = einsum(notation, ...inputs.map((v) => v.value));
+
+    return this.record(value, inputs, (grad) =>
+      inputs.map((input, k) => {
+        if (!input.requiresGrad) return grad;
+
+        // Contract the output gradient with every other operand. Indices that
+        // appear only in this operand are constant along the gradient and are
+        // broadcast back afterwards.
+        const others = operands.filter((_, j) => j !== k);
+        const available = new Set([...output, ...others.join('')]);
+        const target = [...new Set(operands[k])].filter((idx) => available.has(idx)).join('');
+
+        const gradNotation = [output, ...others].join(',') + '->' + target;
+        const partial = einsum(gradNotation, grad, ...inputs.filter((_, j) => j !== k).map((v) => v.value));
+        const full = broadcastGradient(partial, target, operands[k], input.value.shape);
+        return { ...full, indices: [...input.value.indices] };
+      })
+    );
+  }
+
+  /** Element-wise sum, broadcast by index name */
+  add(...inputs: Variable[]): Variable {
+    return this.record(add(...inputs.map((v) => v.value)), inputs, (grad) =>
+      inputs.map((input) => reduceToInput(grad, input.value))
+    );
+  }
+
+  /** Element-wise (Hadamard) product, broadcast by index name */
+  multiply(...inputs: Variable[]): Variable {
+    const value = multiply(...inputs.map((v) => v.value));
+    return this.record(value, inputs, (grad) =>
+      inputs.map((input, k) => {
+        const others = inputs.filter((__, j) => j !== k).map((v) => v.value);
+        return reduceToInput(multiply(grad, ...others), input.value);
+      })
+    );
+  }
+
+  /** Multiplication by a constant */
+  scale(input: Variable, scalar: number): Variable {
+    return this.record(scale(input.value, scalar), [input], (grad) => [scale(grad, scalar)]);
+  }
+
+  /** Natural logarithm; inputs are clamped to at least `floor` so that log(0) stays finite */
+  log(input: Variable, floor = 1e-12): Variable {
+    // Logarithms are fractional: never store them in the input's int or bool type
+    const data = Float64Array.from(input.value.data, (x) => Math.log(Math.max(x, floor)));
+    return this.record({ ...input.value, data, dtype: 'float64' }, [input], (grad) => {
+      const g = new Float64Array(grad.data.length);
+      for (let i = 0; i < g.length; i++) {
+        const x = input.value.data[i];
+        g[i] = x > floor ? grad.data[i] / x : 0;
+      }
+      return [{ ...input.value, data: g, dtype: 'float64' }];
+    });
+  }
+
+  /** 2D transpose */
+  transpose(input: Variable): Variable {
+    return this.record(transpose(input.value), [input], (grad) => [transpose(grad)]);
+  }
+
+  /** σ(x / T); at T = 0 it is a hard threshold with zero gradient */
+  sigmoid(input: Variable, temperature = 1): Variable {
+    const value = sigmoid(input.value, temperature);
+    return this.record(value, [input], (grad) => {
+      const data = new Float64Array(grad.data.length);
+      if (temperature !== 0) {
+        for (let i = 0; i < data.length; i++) {
+          const y = value.data[i];
+          data[i] = (grad.data[i] * y * (1 - y)) / temperature;
+        }
+      }
+      return [{ ...input.value, data }];
+    });
+  }
+
+  /** max(0, x) */
+  relu(input: Variable): Variable {
+    return this.record(relu(input.value), [input], (grad) => {
+      const data = new Float64Array(grad.data.length);
+      for (let i = 0; i < data.length; i++) {
+        data[i] = input.value.data[i] > 0 ? grad.data[i] : 0;
+      }
+      return [{ ...input.value, data }];
+    });
+  }
+
+  /** Softmax along an index name or axis, as softmax in core.ts */
+  softmax(input: Variable, axis: number | string = -1): Variable {
+    const value = softmax(input.value, axis);
+    const shape = input.value.shape;
+    const actualAxis = shape.length === 0 ? 0 : resolveAxis(input.value, axis, 'softmax');
+    const length = shape[actualAxis];
+    const inner = shape.slice(actualAxis + 1).reduce((a, b) => a * b, 1);
+    const outer = shape.slice(0, actualAxis).reduce((a, b) => a * b, 1);
+
+    // ∂x_i = y_i (g_i - Σ_j g_j y_j) within each softmax group
+    return this.record(value, [input], (grad) => {
+      const data = new Float64Array(grad.data.length);
+      for (let o = 0; o < outer; o++) {
+        for (let n = 0; n < inner; n++) {
+          const base = o * length * inner + n;
+          let dot = 0;
+          for (let j = 0; j < length; j++) {
+            dot += grad.data[base + j * inner] * value.data[base + j * inner];
+          }
+          for (let j = 0; j < length; j++) {
+            const i = base + j * inner;
+            data[i] = value.data[i] * (grad.data[i] - dot);
+          }
+        }
+      }
+      return [{ ...input.value, data }];
+    });
+  }
+
+  /**
+   * Hard threshold x > t. Its true gradient is zero almost everywhere; with
+   * straightThrough the output gradient is passed to the input unchanged,
+   * which lets Boolean rules be trained end to end.
+   */
+  threshold(input: Variable, t = 0, options: { straightThrough?: boolean } = {}): Variable {
+    return this.record(threshold(input.value, t), [input], (grad) => [
+      options.straightThrough ? grad : { ...input.value, data: new Float64Array(grad.data.length) },
+    ]);
+  }
+
+  /**
+   * Propagate gradients from `output` back through the tape.
+   * A scalar output is seeded with 1; otherwise pass the seed gradient.
+   */
+  backward(output: Variable, seed?: Tensor): void {
+    if (!seed && output.value.data.length !== 1) {
+      throw new Error(`backward needs a seed gradient for a non-scalar output of shape [${output.value.shape.join(', ')}]`);
+    }
+
+    this.grads.clear();
+    this.grads.set(output.id, seed ?? { ...output.value, data: new Float64Array([1]) });
+
+    for (let e = this.entries.length - 1; e >= 0; e--) {
+      const entry = this.entries[e];
+      const grad = this.grads.get(entry.output.id);
+      if (!grad) continue;
+
+      const inputGrads = entry.backward(grad);
+      entry.inputs.forEach((input, k) => {
+        if (!input.requiresGrad) return;
+        const existing = this.grads.get(input.id);
+        this.grads.set(input.id, existing ? add(existing, inputGrads[k]) : inputGrads[k]);
+      });
+    }
+  }
+
+  /** Gradient of the last backward output with respect to a value (zeros if unrelated) */
+  gradient(v: Variable): Tensor {
+    const grad = this.grads.get(v.id);
+    const data = grad ? new Float64Array(grad.data) : new Float64Array(v.value.data.length);
+    return {
+      name: `grad_${v.value.name}`,
+      shape: [...v.value.shape],
+      indices: [...v.value.indices],
+      data,
+    };
+  }
+}
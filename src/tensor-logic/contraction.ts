@@ -0,0 +1,308 @@
+/**
+ * CONTRACTION ORDER PLANNING
+ *
+ * A multi-operand einsum such as
+ *
+ *   R[i,l] = A[i,j] B[j,k] C[k,l]          'ij,jk,kl->il'
+ *
+ * can be evaluated in one pass over every index combination, costing
+ * I·J·K·L, or as a sequence of pairwise contractions:
+ *
+ *   T[i,k] = A[i,j] B[j,k]     cost I·J·K
+ *   R[i,l] = T[i,k] C[k,l]     cost I·K·L
+ *
+ * Which pairs to contract first matters: the intermediate tensors (here T)
+ * can be small or huge depending on the order. This is the same problem as
+ * choosing a join order in a database, and the rule body of a tensor logic
+ * equation is exactly such a join.
+ *
+ * Two strategies are provided:
+ * - 'optimal': dynamic programming over subsets of operands; exact, but
+ *   exponential in the number of operands
+ * - 'greedy':  repeatedly contract the pair that is cheapest right now
+ *
+ * Costs count one multiply-add per element of the joint index space of a
+ * contraction.
+ */
+
+import type { Tensor } from './core';
+import { parseEinsum } from './kernels';
+
+/**
+ * One pairwise contraction in a plan
+ */
+export interface ContractionStep {
+  /**
+   * Operands being contracted: 0..n-1 are the einsum's inputs, and n + s
+   * is the result of step s
+   */
+  operands: [number, number];
+  /** Two-operand einsum notation for this step */
+  notation: string;
+  /** Estimated cost of this step */
+  flops: number;
+  /** Number of elements in the step's result */
+  size: number;
+}
+
+/**
+ * A contraction order and its cost estimate
+ */
+export interface ContractionPlan {
+  notation: string;
+  strategy: 'optimal' | 'greedy';
+  steps: ContractionStep[];
+  /** Total estimated cost of the plan */
+  flops: number;
+  /** Estimated cost of a single pass over every index combination */
+  naiveFlops: number;
+  /** Largest intermediate result, in elements */
+  largestIntermediate: number;
+}
+
+/**
+ * Options for planning
+ */
+export interface PlanOptions {
+  /** 'auto' uses the optimal search up to maxOptimalOperands, greedy beyond */
+  strategy?: 'optimal' | 'greedy' | 'auto';
+  /** Operand count above which 'auto' switches to greedy (default 8) */
+  maxOptimalOperands?: number;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function sizeOf(indices: Iterable<string>, sizes: Map<string, number>): number {
+  let size = 1;
+  for (const idx of indices) size *= sizes.get(idx)!;
+  return size;
+}
+
+/**
+ * Indices an operand must keep: those still needed by the output or by an
+ * operand outside the group
+ */
+function keptIndices(group: string, outside: string[], output: string): string {
+  const needed = new Set([...output, ...outside.join('')]);
+  return [...new Set(group)].filter((idx) => needed.has(idx)).join('');
+}
+
+/**
+ * Parse the notation into explicit form and collect index sizes
+ */
+function parseNotation(notation: string, shapes: number[][]): { inputs: string[]; output: string; sizes: Map<string, number> } {
+  const { inputs, output } = parseEinsum(notation, shapes);
+
+  const sizes = new Map<string, number>();
+  inputs.forEach((indices, t) => {
+    [...indices].forEach((idx, i) => {
+      const size = shapes[t][i];
+      if (sizes.has(idx) && sizes.get(idx) !== size) {
+        throw new Error(`Index ${idx} has inconsistent sizes`);
+      }
+      sizes.set(idx, size);
+    });
+  });
+  return { inputs, output, sizes };
+}
+
+// ============================================================================
+// STRATEGIES
+// ============================================================================
+
+interface PlannedStep {
+  operands: [number, number];
+  left: string;
+  right: string;
+  result: string;
+}
+
+function greedyOrder(inputs: string[], output: string, sizes: Map<string, number>): PlannedStep[] {
+  // Live operands: id → indices
+  const live = new Map<number, string>();
+  inputs.forEach((indices, id) => live.set(id, indices));
+  let nextId = inputs.length;
+  const steps: PlannedStep[] = [];
+
+  while (live.size > 1) {
+    let best: { a: number; b: number; result: string; cost: number; size: number; shared: boolean } | null = null;
+    const ids = [...live.keys()];
+
+    for (let x = 0; x < ids.length; x++) {
+      for (let y = x + 1; y < ids.length; y++) {
+        const a = ids[x];
+        const b = ids[y];
+        const left = live.get(a)!;
+        const right = live.get(b)!;
+        const outside = ids.filter((id) => id !== a && id !== b).map((id) => live.get(id)!);
+        const result = live.size === 2 ? output : keptIndices(left + right, outside, output);
+        const cost = sizeOf(new Set(left + right), sizes);
+        const size = sizeOf(result, sizes);
+        const shared = [...left].some((idx) => right.includes(idx));
+
+        // Prefer pairs that share an index (avoids outer products), then
+        // the cheapest contraction, then the smallest result
+        if (
+          !best ||
+          (shared && !best.shared) ||
+          (shared === best.shared && (cost < best.cost || (cost === best.cost && size < best.size)))
+        ) {
+          best = { a, b, result, cost, size, shared };
+        }
+      }
+    }
+
+    const { a, b, result } = best!;
+    steps.push({ operands: [a, b], left: live.get(a)!, right: live.get(b)!, result });
+    live.delete(a);
+    live.delete(b);
+    live.set(nextId++, result);
+  }
+
+  return steps;
+}
+
+function optimalOrder(inputs: string[], output: string, sizes: Map<string, number>): PlannedStep[] {
+  const n = inputs.length;
+  const full = (1 << n) - 1;
+
+  const indicesOf = (mask: number): string => {
+    if (mask === full) return output;
+    const group = inputs.filter((_, t) => mask & (1 << t)).join('');
+    const outside = inputs.filter((_, t) => !(mask & (1 << t)));
+    return keptIndices(group, outside, output);
+  };
+
+  // best[mask] = cheapest way to contract the operands in mask into one tensor
+  const cost = new Map<number, number>();
+  const split = new Map<number, number>();
+  const indices = new Map<number, string>();
+  for (let t = 0; t < n; t++) {
+    cost.set(1 << t, 0);
+    indices.set(1 << t, inputs[t]);
+  }
+
+  // Subsets in order of increasing size, so every sub-problem is solved first
+  const masks = Array.from({ length: full }, (_, i) => i + 1)
+    .filter((mask) => mask & (mask - 1))
+    .sort((a, b) => popcount(a) - popcount(b));
+
+  for (const mask of masks) {
+    indices.set(mask, indicesOf(mask));
+    let bestCost = Infinity;
+    let bestSplit = 0;
+
+    // Enumerate each unordered split once: the left part holds the lowest operand
+    const lowest = mask & -mask;
+    for (let left = (mask - 1) & mask; left > 0; left = (left - 1) & mask) {
+      if (!(left & lowest)) continue;
+      const right = mask ^ left;
+      const joint = new Set(indices.get(left)! + indices.get(right)!);
+      const total = cost.get(left)! + cost.get(right)! + sizeOf(joint, sizes);
+      if (total < bestCost) {
+        bestCost = total;
+        bestSplit = left;
+      }
+    }
+
+    cost.set(mask, bestCost);
+    split.set(mask, bestSplit);
+  }
+
+  // Unfold the tree into steps, children before parents
+  const steps: PlannedStep[] = [];
+  const ids = new Map<number, number>();
+  for (let t = 0; t < n; t++) ids.set(1 << t, t);
+
+  const emit = (mask: number): number => {
+    if (ids.has(mask)) return ids.get(mask)!;
+    const left = split.get(mask)!;
+    const right = mask ^ left;
+    const a = emit(left);
+    const b = emit(right);
+    steps.push({ operands: [a, b], left: indices.get(left)!, right: indices.get(right)!, result: indices.get(mask)! });
+    const id = n + steps.length - 1;
+    ids.set(mask, id);
+    return id;
+  };
+  emit(full);
+
+  return steps;
+}
+
+function popcount(mask: number): number {
+  let count = 0;
+  for (let m = mask; m; m &= m - 1) count++;
+  return count;
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Choose an order of pairwise contractions for an einsum.
+ *
+ * @param notation - Einsum notation, e.g. 'ij,jk,kl->il' (any form parseEinsum accepts)
+ * @param shapes - Shape of each operand
+ */
+export function planContraction(notation: string, shapes: number[][], options: PlanOptions = {}): ContractionPlan {
+  const { inputs, output, sizes } = parseNotation(notation, shapes);
+  const maxOptimal = options.maxOptimalOperands ?? 8;
+  const requested = options.strategy ?? 'auto';
+  const strategy = requested === 'auto' ? (inputs.length <= maxOptimal ? 'optimal' : 'greedy') : requested;
+
+  const planned = inputs.length < 2
+    ? []
+    : strategy === 'optimal'
+      ? optimalOrder(inputs, output, sizes)
+      : greedyOrder(inputs, output, sizes);
+
+  const steps: ContractionStep[] = planned.map((step) => ({
+    operands: step.operands,
+    notation: `${step.left},${step.right}->${step.result}`,
+    flops: sizeOf(new Set(step.left + step.right), sizes),
+    size: sizeOf(step.result, sizes),
+  }));
+
+  const allIndices = new Set(inputs.join(''));
+  const intermediates = steps.slice(0, -1).map((s) => s.size);
+
+  return {
+    notation,
+    strategy,
+    steps,
+    flops: steps.reduce((sum, s) => sum + s.flops, 0),
+    naiveFlops: sizeOf(allIndices, sizes) * Math.max(inputs.length - 1, 1),
+    largestIntermediate: intermediates.length > 0 ? Math.max(...intermediates) : 0,
+  };
+}
+
+/**
+ * Plan the contraction of actual tensors (see planContraction)
+ */
+export function einsumPath(notation: string, ...tensors: Tensor[]): ContractionPlan {
+  return planContraction(notation, tensors.map((t) => t.shape));
+}
+
+/**
+ * Render a plan as a readable table
+ */
+export function planToString(plan: ContractionPlan): string {
+  const n = plan.notation.split('->')[0].split(',').length;
+  const name = (id: number): string => (id < n ? `#${id}` : `t${id - n}`);
+
+  const lines = [
+    `Plan for ${plan.notation} (${plan.strategy})`,
+    `  estimated cost: ${plan.flops} (single pass: ${plan.naiveFlops}, ` +
+      `speedup ${(plan.naiveFlops / Math.max(plan.flops, 1)).toFixed(1)}x)`,
+    `  largest intermediate: ${plan.largestIntermediate} elements`,
+  ];
+  plan.steps.forEach((step, s) => {
+    const target = s === plan.steps.length - 1 ? 'result' : `t${s}`;
+    lines.push(`  ${target} = ${name(step.operands[0])} ⊗ ${name(step.operands[1])}  ${step.notation}  cost ${step.flops}`);
+  });
+  return lines.join('\n');
+}
@@ -13,6 +13,11 @@
  * - Numeric (floats) for neural networks
  */
 
+import { planContraction } from './contraction';
+import { compileEinsum, parseEinsum, runEinsum } from './kernels';
+import { Random, defaultRandom, randomUniform, randomNormal, xavierUniform, heNormal, orthogonal } from './random';
+import { DType, TensorData, castData, dtypeOf, dtypeOfData, floatType, promoteTypes } from './dtype';
+
 /**
  * A Tensor is a multi-dimensional array with named indices.
  * The indices are the "arguments" of the relation in logic programming terms.
@@ -21,7 +26,40 @@ export interface Tensor {
   name: string;
   shape: number[];
   indices: string[];
-  data: Float64Array;
+  /** Values in row-major order; the array type is the element type */
+  data: TensorData;
+  /**
+   * Element type (see dtype.ts). Needed only to mark Uint8Array data as
+   * bool; otherwise the type of `data` decides, so read it with dtypeOf().
+   */
+  dtype?: DType;
+  /**
+   * Domain (index type) of each axis, e.g. ['person', 'city'], or null for
+   * an untyped axis (see domains.ts). einsum refuses to join axes whose
+   * domains differ.
+   */
+  domains?: (string | null)[];
+}
+
+/**
+ * How to fill a new tensor:
+ * - 'zeros', 'ones'
+ * - 'random': uniform in [-1, 1)
+ * - 'normal': standard normal
+ * - 'xavier': Xavier/Glorot uniform, 'he': He normal, 'orthogonal'
+ *   (fans follow the [out, in, ...] convention of fans())
+ * - a typed array of values, used as is
+ */
+export type TensorInitializer = 'zeros' | 'ones' | 'random' | 'normal' | 'xavier' | 'he' | 'orthogonal' | TensorData;
+
+/**
+ * Options for createTensor
+ */
+export interface TensorOptions {
+  /** Element type (default float64, or the type of an initializer array) */
+  dtype?: DType;
+  /** Generator for random initializers (default: the shared one, see seedRandom) */
+  rng?: Random;
 }
 
 /**
@@ -31,22 +69,33 @@ export function createTensor(
   name: string,
   indices: string[],
   shape: number[],
-  initializer: 'zeros' | 'ones' | 'random' | Float64Array = 'zeros'
+  initializer: TensorInitializer = 'zeros',
+  options: TensorOptions = {}
 ): Tensor {
   const size = shape.reduce((a, b) => a * b, 1);
-  let data: Float64Array;
+  const rng = options.rng ?? defaultRandom();
+  let data: TensorData;
 
-  if (initializer instanceof Float64Array) {
+  if (typeof initializer !== 'string') {
     data = initializer;
   } else if (initializer === 'zeros') {
     data = new Float64Array(size);
   } else if (initializer === 'ones') {
     data = new Float64Array(size).fill(1);
+  } else if (initializer === 'normal') {
+    data = randomNormal(shape, 0, 1, rng);
+  } else if (initializer === 'xavier') {
+    data = xavierUniform(shape, { rng });
+  } else if (initializer === 'he') {
+    data = heNormal(shape, { rng });
+  } else if (initializer === 'orthogonal') {
+    data = orthogonal(shape, { rng });
   } else {
-    data = new Float64Array(size).map(() => Math.random() * 2 - 1);
+    data = randomUniform(shape, -1, 1, rng);
   }
 
-  return { name, shape, indices, data };
+  const dtype = options.dtype ?? dtypeOfData(data);
+  return { name, shape, indices, data: castData(data, dtype), dtype };
 }
 
 /**
@@ -123,102 +172,165 @@ export function setElement(tensor: Tensor, value: number, ...indices: number[]):
  * Example: einsum("xy,yz->xz", A, B) computes matrix multiplication
  * - x,y from A and y,z from B are joined on y
  * - The result is projected onto x,z by summing over y
+ *
+ * With three or more operands the join is split into pairwise contractions
+ * in the order chosen by planContraction (contraction.ts), so that a chain
+ * like "ij,jk,kl->il" costs two matrix products rather than I·J·K·L.
+ * Each pairwise contraction runs on precomputed stride tables (kernels.ts).
+ *
+ * The notation follows NumPy (see parseEinsum): the output may be implicit
+ * ("xy,yz" is "xy,yz->xz"), "..." stands for broadcast leading dimensions,
+ * and a repeated index reads a diagonal ("ii->i") or trace ("ii->").
+ *
+ * Sums are accumulated in float64 and the result takes the promoted type
+ * of the operands (dtype.ts): float32 weights give a float32 result, and
+ * Boolean relations give a Boolean one (OR of ANDs).
  */
 export function einsum(notation: string, ...tensors: Tensor[]): Tensor {
-  // Parse the einsum notation: "ij,jk->ik"
-  const [inputPart, outputIndices] = notation.split('->');
-  const inputIndices = inputPart.split(',');
-
-  // Build a map of all unique indices to their dimension sizes
-  const indexSizes = new Map<string, number>();
-  for (let t = 0; t < tensors.length; t++) {
-    const indices = inputIndices[t];
-    for (let i = 0; i < indices.length; i++) {
-      const idx = indices[i];
-      const size = tensors[t].shape[i];
-      if (indexSizes.has(idx)) {
-        if (indexSizes.get(idx) !== size) {
-          throw new Error(`Index ${idx} has inconsistent sizes`);
-        }
-      } else {
-        indexSizes.set(idx, size);
-      }
+  if (tensors.length > 2) {
+    const plan = planContraction(notation, tensors.map((t) => t.shape));
+    const operands = [...tensors];
+    for (const step of plan.steps) {
+      operands.push(einsum(step.notation, operands[step.operands[0]], operands[step.operands[1]]));
     }
+    return operands[operands.length - 1];
   }
 
-  // Determine output shape
-  const outputShape = [...outputIndices].map((idx) => indexSizes.get(idx)!);
-  const outputSize = outputShape.reduce((a, b) => a * b, 1);
-  const outputData = new Float64Array(outputSize);
-
-  // All indices (including contracted ones)
-  const allIndices = [...new Set([...inputIndices.join('')])];
-
-  // Compute strides for output tensor
-  const outputStrides = new Map<string, number>();
-  let stride = 1;
-  for (let i = outputIndices.length - 1; i >= 0; i--) {
-    outputStrides.set(outputIndices[i], stride);
-    stride *= outputShape[i];
-  }
+  const compiled = compileEinsum(notation, tensors.map((t) => t.shape));
+  const dtype = promoteTypes(...tensors.map(dtypeOf));
+  const result: Tensor = {
+    name: 'result',
+    shape: compiled.outputShape,
+    indices: [...compiled.outputIndices],
+    data: castData(runEinsum(compiled, tensors.map((t) => t.data)), dtype),
+    dtype,
+  };
 
-  // Compute strides for input tensors
-  const inputStrides: Map<string, number>[] = [];
-  for (let t = 0; t < tensors.length; t++) {
-    const strides = new Map<string, number>();
-    let s = 1;
-    for (let i = inputIndices[t].length - 1; i >= 0; i--) {
-      strides.set(inputIndices[t][i], s);
-      s *= tensors[t].shape[i];
-    }
-    inputStrides.push(strides);
+  if (tensors.some((t) => t.domains)) {
+    result.domains = joinDomains(notation, tensors);
   }
+  return result;
+}
 
-  // Generate all combinations of index values
-  const indexRanges = allIndices.map((idx) => indexSizes.get(idx)!);
-
-  // Iterate over all possible index combinations
-  const indexValues = new Array(allIndices.length).fill(0);
-
-  const iterate = (depth: number): void => {
-    if (depth === allIndices.length) {
-      // Compute the product of all tensor elements at current indices
-      let product = 1;
-      for (let t = 0; t < tensors.length; t++) {
-        let flatIndex = 0;
-        for (let i = 0; i < inputIndices[t].length; i++) {
-          const idx = inputIndices[t][i];
-          const idxPos = allIndices.indexOf(idx);
-          flatIndex += indexValues[idxPos] * (inputStrides[t].get(idx) ?? 0);
-        }
-        product *= tensors[t].data[flatIndex];
+/**
+ * Check that every einsum index joins axes of one domain, and return the
+ * domains of the output axes
+ */
+function joinDomains(notation: string, tensors: Tensor[]): (string | null)[] {
+  const parsed = parseEinsum(notation, tensors.map((t) => t.shape));
+  const domains = new Map<string, { domain: string; tensor: Tensor }>();
+  parsed.inputs.forEach((letters, t) => {
+    [...letters].forEach((letter, axis) => {
+      const domain = tensors[t].domains?.[axis];
+      if (!domain) return;
+      const seen = domains.get(letter);
+      if (seen && seen.domain !== domain) {
+        throw new Error(
+          `einsum '${notation}': index '${letter}' joins domain ${seen.domain} of ${seen.tensor.name} ` +
+          `with domain ${domain} of ${tensors[t].name}`
+        );
       }
+      domains.set(letter, { domain, tensor: tensors[t] });
+    });
+  });
+  return [...parsed.output].map((letter) => domains.get(letter)?.domain ?? null);
+}
+
+const INDEX_LETTERS = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ';
 
-      // Add to output at appropriate position
-      let outputFlatIndex = 0;
-      for (let i = 0; i < outputIndices.length; i++) {
-        const idx = outputIndices[i];
-        const idxPos = allIndices.indexOf(idx);
-        outputFlatIndex += indexValues[idxPos] * (outputStrides.get(idx) ?? 0);
+/**
+ * Einsum notation for operands whose indices are names of any length:
+ * each distinct name is assigned a letter in order of first appearance.
+ *
+ * Example: namedNotation([['person', 'city'], ['city', 'country']], ['person', 'country'])
+ *          gives 'ab,bc->ac'
+ */
+export function namedNotation(operands: string[][], output: string[]): string {
+  const letters = new Map<string, string>();
+  const letterFor = (name: string): string => {
+    if (!letters.has(name)) {
+      if (letters.size >= INDEX_LETTERS.length) {
+        throw new Error(`Too many distinct index names (at most ${INDEX_LETTERS.length})`);
       }
-      outputData[outputFlatIndex] += product;
-      return;
+      letters.set(name, INDEX_LETTERS[letters.size]);
     }
+    return letters.get(name)!;
+  };
 
-    for (let v = 0; v < indexRanges[depth]; v++) {
-      indexValues[depth] = v;
-      iterate(depth + 1);
+  const inputs = operands.map((names) => names.map(letterFor).join(''));
+  for (const name of output) {
+    if (!letters.has(name)) {
+      throw new Error(`Output index '${name}' does not appear in any operand`);
     }
-  };
+  }
+  return `${inputs.join(',')}->${output.map(letterFor).join('')}`;
+}
+
+/**
+ * EINSUM OVER NAMED INDICES
+ *
+ * Contracts tensors by index name rather than by notation string, so
+ * indices can be readable words: person, n', layer. Indices with the same
+ * name are joined; those not in `output` are summed out.
+ *
+ * Operands are given either as tensors, aligned by the names stored on
+ * each tensor:
+ *
+ *   contract([Parent, Sibling], ['person', 'relative'])
+ *
+ * or as a map from tensor name to index names, which renames the indices
+ * for this contraction only:
+ *
+ *   contract({ A: ['x', 'y'], B: ['y', 'z'] }, ['x', 'z'], [A, B])
+ *
+ * where the tensors are looked up by key in a record or by Tensor.name in
+ * an array.
+ */
+export function contract(operands: Tensor[], output: string[]): Tensor;
+export function contract(
+  operands: Record<string, string[]>,
+  output: string[],
+  tensors: Record<string, Tensor> | Tensor[]
+): Tensor;
+export function contract(
+  operands: Tensor[] | Record<string, string[]>,
+  output: string[],
+  tensors?: Record<string, Tensor> | Tensor[]
+): Tensor {
+  let inputs: Tensor[];
+  let names: string[][];
 
-  iterate(0);
+  if (Array.isArray(operands)) {
+    inputs = operands;
+    names = operands.map((t) => t.indices);
+  } else {
+    if (!tensors) {
+      throw new Error('contract: index names were given by tensor name but no tensors were passed');
+    }
+    const lookup = (key: string): Tensor | undefined =>
+      Array.isArray(tensors) ? tensors.find((t) => t.name === key) : tensors[key];
+
+    const keys = Object.keys(operands);
+    inputs = keys.map((key) => {
+      const tensor = lookup(key);
+      if (!tensor) {
+        throw new Error(`contract: no tensor named '${key}'`);
+      }
+      return tensor;
+    });
+    names = keys.map((key) => operands[key]);
+  }
 
-  return {
-    name: 'result',
-    shape: outputShape,
-    indices: [...outputIndices],
-    data: outputData,
-  };
+  inputs.forEach((t, k) => {
+    if (names[k].length !== t.shape.length) {
+      throw new Error(
+        `contract: ${t.name} has rank ${t.shape.length} but ${names[k].length} index names [${names[k].join(', ')}]`
+      );
+    }
+  });
+
+  const result = einsum(namedNotation(names, output), ...inputs);
+  return { ...result, indices: [...output] };
 }
 
 /**
@@ -242,7 +354,7 @@ export function threshold(tensor: Tensor, t = 0): Tensor {
   for (let i = 0; i < tensor.data.length; i++) {
     data[i] = tensor.data[i] > t ? 1 : 0;
   }
-  return { ...tensor, data };
+  return { ...tensor, data, dtype: 'float64' };
 }
 
 /**
@@ -261,7 +373,7 @@ export function sigmoid(tensor: Tensor, temperature = 1): Tensor {
       data[i] = 1 / (1 + Math.exp(-tensor.data[i] / temperature));
     }
   }
-  return { ...tensor, data };
+  return { ...tensor, data, dtype: 'float64' };
 }
 
 /**
@@ -273,102 +385,250 @@ export function relu(tensor: Tensor): Tensor {
   for (let i = 0; i < tensor.data.length; i++) {
     data[i] = Math.max(0, tensor.data[i]);
   }
-  return { ...tensor, data };
+  return { ...tensor, data, dtype: 'float64' };
 }
 
 /**
  * Softmax: exp(x_i) / Σ exp(x_j)
  * Converts a vector of real numbers into a probability distribution
  * The "soft" version of argmax
+ *
+ * Normalises along one index, given by name or by axis number (negative
+ * counts from the end; default the last), independently for every
+ * combination of the other indices, at any rank.
  */
-export function softmax(tensor: Tensor, axis = -1): Tensor {
-  if (tensor.shape.length !== 1 && tensor.shape.length !== 2) {
-    throw new Error('Softmax currently supports 1D and 2D tensors');
+export function softmax(tensor: Tensor, axis: number | string = -1): Tensor {
+  const data = new Float64Array(tensor.data.length);
+  if (tensor.shape.length === 0) {
+    data.fill(1);
+    return { ...tensor, data, dtype: 'float64' };
   }
 
-  const data = new Float64Array(tensor.data.length);
+  const actualAxis = resolveAxis(tensor, axis, 'softmax');
+  const length = tensor.shape[actualAxis];
+  const inner = tensor.shape.slice(actualAxis + 1).reduce((a, b) => a * b, 1);
+  const outer = tensor.shape.slice(0, actualAxis).reduce((a, b) => a * b, 1);
+
+  for (let o = 0; o < outer; o++) {
+    for (let n = 0; n < inner; n++) {
+      const base = o * length * inner + n;
+      let max = -Infinity;
+      for (let j = 0; j < length; j++) {
+        max = Math.max(max, tensor.data[base + j * inner]);
+      }
+      let sum = 0;
+      for (let j = 0; j < length; j++) {
+        data[base + j * inner] = Math.exp(tensor.data[base + j * inner] - max);
+        sum += data[base + j * inner];
+      }
+      for (let j = 0; j < length; j++) {
+        data[base + j * inner] /= sum;
+      }
+    }
+  }
 
-  if (tensor.shape.length === 1) {
-    // 1D tensor
-    const max = Math.max(...tensor.data);
-    let sum = 0;
-    for (let i = 0; i < tensor.data.length; i++) {
-      data[i] = Math.exp(tensor.data[i] - max);
-      sum += data[i];
+  return { ...tensor, data, dtype: 'float64' };
+}
+
+/**
+ * Position of an index given by name, or by axis number (negative counts
+ * from the end)
+ */
+export function resolveAxis(tensor: Tensor, axis: number | string, operation: string): number {
+  if (typeof axis === 'string') {
+    const position = tensor.indices.indexOf(axis);
+    if (position < 0) {
+      throw new Error(`${operation}: ${tensor.name} has no index '${axis}' (indices: ${tensor.indices.join(', ')})`);
     }
-    for (let i = 0; i < data.length; i++) {
-      data[i] /= sum;
+    return position;
+  }
+  const position = axis < 0 ? tensor.shape.length + axis : axis;
+  if (!Number.isInteger(position) || position < 0 || position >= tensor.shape.length) {
+    throw new Error(`${operation}: axis ${axis} out of range for rank ${tensor.shape.length}`);
+  }
+  return position;
+}
+
+/**
+ * ELEMENT-WISE ARITHMETIC WITH NAMED BROADCASTING
+ *
+ * Operands are aligned by index name, not by position. The result has every
+ * index of every operand, in order of first appearance, and an operand
+ * lacking an index is repeated along it:
+ *
+ *   add(X[batch, hidden], Bias[hidden])          → [batch, hidden]
+ *   multiply(Row[i], Col[j])                     → [i, j]  (outer product)
+ *   greater(Score[q, k], Threshold[q])           → [q, k]
+ *
+ * An index shared by several operands must have the same size in each;
+ * a mismatch is an error rather than an out-of-bounds read.
+ *
+ * `op` runs on float64 values; the result is then converted to `dtype`,
+ * by default the promoted type of the operands (dtype.ts).
+ */
+export function elementwise(
+  tensors: Tensor[],
+  op: (accumulated: number, value: number) => number,
+  name = 'elementwise',
+  dtype?: DType
+): Tensor {
+  if (tensors.length === 0) {
+    throw new Error(`${name} needs at least one tensor`);
+  }
+  const first = tensors[0];
+  const resultType = dtype ?? promoteTypes(...tensors.map(dtypeOf));
+
+  // Same indices and shape throughout: combine position by position
+  const aligned = tensors.every((t) =>
+    t.indices.length === first.indices.length &&
+    t.indices.every((idx, i) => idx === first.indices[i] && t.shape[i] === first.shape[i])
+  );
+  if (aligned) {
+    const data = new Float64Array(first.data);
+    for (let k = 1; k < tensors.length; k++) {
+      const other = tensors[k].data;
+      for (let i = 0; i < data.length; i++) data[i] = op(data[i], other[i]);
     }
-  } else {
-    // 2D tensor - apply along axis
-    const actualAxis = axis === -1 ? 1 : axis;
-    const [rows, cols] = tensor.shape;
+    return {
+      ...first,
+      shape: [...first.shape],
+      indices: [...first.indices],
+      data: castData(data, resultType),
+      dtype: resultType,
+    };
+  }
 
-    if (actualAxis === 1) {
-      // Softmax along columns (each row is independent)
-      for (let i = 0; i < rows; i++) {
-        const rowStart = i * cols;
-        let max = -Infinity;
-        for (let j = 0; j < cols; j++) {
-          max = Math.max(max, tensor.data[rowStart + j]);
-        }
-        let sum = 0;
-        for (let j = 0; j < cols; j++) {
-          data[rowStart + j] = Math.exp(tensor.data[rowStart + j] - max);
-          sum += data[rowStart + j];
-        }
-        for (let j = 0; j < cols; j++) {
-          data[rowStart + j] /= sum;
-        }
+  const indices: string[] = [];
+  const sizes = new Map<string, number>();
+  for (const t of tensors) {
+    if (t.indices.length !== t.shape.length) {
+      throw new Error(`${name}: ${t.name} has ${t.indices.length} index names but rank ${t.shape.length}`);
+    }
+    t.indices.forEach((idx, i) => {
+      const size = sizes.get(idx);
+      if (size === undefined) {
+        sizes.set(idx, t.shape[i]);
+        indices.push(idx);
+      } else if (size !== t.shape[i]) {
+        throw new Error(
+          `${name}: index ${idx} has size ${size} but ${t.shape[i]} in ${t.name} [${t.shape.join(', ')}]`
+        );
       }
-    } else {
-      // Softmax along rows (each column is independent)
-      for (let j = 0; j < cols; j++) {
-        let max = -Infinity;
-        for (let i = 0; i < rows; i++) {
-          max = Math.max(max, tensor.data[i * cols + j]);
-        }
-        let sum = 0;
-        for (let i = 0; i < rows; i++) {
-          data[i * cols + j] = Math.exp(tensor.data[i * cols + j] - max);
-          sum += data[i * cols + j];
-        }
-        for (let i = 0; i < rows; i++) {
-          data[i * cols + j] /= sum;
-        }
+    });
+  }
+  const shape = indices.map((idx) => sizes.get(idx)!);
+  const size = shape.reduce((a, b) => a * b, 1);
+
+  // Stride of each operand along each result index (0 where it is absent)
+  const strides = tensors.map((t) => {
+    const result = new Array(indices.length).fill(0);
+    let stride = 1;
+    for (let i = t.shape.length - 1; i >= 0; i--) {
+      result[indices.indexOf(t.indices[i])] += stride;
+      stride *= t.shape[i];
+    }
+    return result;
+  });
+
+  const data = new Float64Array(size);
+  const position = new Array(indices.length).fill(0);
+  const offsets = new Array(tensors.length).fill(0);
+  for (let flat = 0; flat < size; flat++) {
+    let value = tensors[0].data[offsets[0]];
+    for (let k = 1; k < tensors.length; k++) value = op(value, tensors[k].data[offsets[k]]);
+    data[flat] = value;
+
+    for (let d = indices.length - 1; d >= 0; d--) {
+      if (++position[d] < shape[d]) {
+        for (let k = 0; k < tensors.length; k++) offsets[k] += strides[k][d];
+        break;
       }
+      position[d] = 0;
+      for (let k = 0; k < tensors.length; k++) offsets[k] -= (shape[d] - 1) * strides[k][d];
     }
   }
 
-  return { ...tensor, data };
+  return { name: first.name, shape, indices, data: castData(data, resultType), dtype: resultType };
 }
 
 /**
- * Element-wise addition of tensors
+ * Element-wise addition of tensors, broadcast by index name
  */
 export function add(...tensors: Tensor[]): Tensor {
-  const first = tensors[0];
-  const data = new Float64Array(first.data.length);
-
-  for (let i = 0; i < data.length; i++) {
-    data[i] = tensors.reduce((sum, t) => sum + t.data[i], 0);
-  }
+  return elementwise(tensors, (a, b) => a + b, 'add');
+}
 
-  return { ...first, data };
+/**
+ * Element-wise a - b, broadcast by index name
+ */
+export function subtract(a: Tensor, b: Tensor): Tensor {
+  return elementwise([a, b], (x, y) => x - y, 'subtract');
 }
 
 /**
- * Element-wise multiplication (Hadamard product)
+ * Element-wise multiplication (Hadamard product), broadcast by index name
  */
 export function multiply(...tensors: Tensor[]): Tensor {
-  const first = tensors[0];
-  const data = new Float64Array(first.data.length);
+  return elementwise(tensors, (a, b) => a * b, 'multiply');
+}
 
-  for (let i = 0; i < data.length; i++) {
-    data[i] = tensors.reduce((prod, t) => prod * t.data[i], 1);
-  }
+/**
+ * Element-wise a / b, broadcast by index name. Integer and Boolean
+ * operands give a float64 result (true division).
+ */
+export function divide(a: Tensor, b: Tensor): Tensor {
+  return elementwise([a, b], (x, y) => x / y, 'divide', floatType(promoteTypes(dtypeOf(a), dtypeOf(b))));
+}
+
+/**
+ * Element-wise a^b, broadcast by index name
+ */
+export function power(a: Tensor, b: Tensor): Tensor {
+  return elementwise([a, b], (x, y) => Math.pow(x, y), 'power');
+}
+
+/**
+ * Element-wise minimum, broadcast by index name
+ */
+export function minimum(...tensors: Tensor[]): Tensor {
+  return elementwise(tensors, (a, b) => Math.min(a, b), 'minimum');
+}
+
+/**
+ * Element-wise maximum, broadcast by index name
+ */
+export function maximum(...tensors: Tensor[]): Tensor {
+  return elementwise(tensors, (a, b) => Math.max(a, b), 'maximum');
+}
 
-  return { ...first, data };
+/**
+ * COMPARISONS
+ *
+ * Element-wise comparisons give Boolean tensors (dtype bool: 1 where true,
+ * 0 elsewhere), broadcast by index name like the arithmetic above.
+ */
+export function equal(a: Tensor, b: Tensor): Tensor {
+  return elementwise([a, b], (x, y) => (x === y ? 1 : 0), 'equal', 'bool');
+}
+
+export function notEqual(a: Tensor, b: Tensor): Tensor {
+  return elementwise([a, b], (x, y) => (x !== y ? 1 : 0), 'notEqual', 'bool');
+}
+
+export function greater(a: Tensor, b: Tensor): Tensor {
+  return elementwise([a, b], (x, y) => (x > y ? 1 : 0), 'greater', 'bool');
+}
+
+export function greaterEqual(a: Tensor, b: Tensor): Tensor {
+  return elementwise([a, b], (x, y) => (x >= y ? 1 : 0), 'greaterEqual', 'bool');
+}
+
+export function less(a: Tensor, b: Tensor): Tensor {
+  return elementwise([a, b], (x, y) => (x < y ? 1 : 0), 'less', 'bool');
+}
+
+export function lessEqual(a: Tensor, b: Tensor): Tensor {
+  return elementwise([a, b], (x, y) => (x <= y ? 1 : 0), 'lessEqual', 'bool');
 }
 
 /**
@@ -379,7 +639,7 @@ export function scale(tensor: Tensor, scalar: number): Tensor {
   for (let i = 0; i < data.length; i++) {
     data[i] = tensor.data[i] * scalar;
   }
-  return { ...tensor, data };
+  return { ...tensor, data, dtype: 'float64' };
 }
 
 /**
@@ -411,6 +671,10 @@ export function transpose(tensor: Tensor): Tensor {
  * Convert tensor to human-readable string
  */
 export function tensorToString(tensor: Tensor, precision = 3): string {
+  if (tensor.shape.length === 0) {
+    return tensor.data[0].toFixed(precision);
+  }
+
   if (tensor.shape.length === 1) {
     return `[${Array.from(tensor.data)
       .map((v) => v.toFixed(precision))
@@ -470,12 +734,15 @@ export function tensorToString(tensor: Tensor, precision = 3): string {
  * Clone a tensor
  */
 export function clone(tensor: Tensor): Tensor {
-  return {
+  const copy: Tensor = {
     name: tensor.name,
     shape: [...tensor.shape],
     indices: [...tensor.indices],
-    data: new Float64Array(tensor.data),
+    data: tensor.data.slice(),
+    dtype: dtypeOf(tensor),
   };
+  if (tensor.domains) copy.domains = [...tensor.domains];
+  return copy;
 }
 
 /**
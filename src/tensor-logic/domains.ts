@@ -0,0 +1,115 @@
+/**
+ * INDEX DOMAINS
+ *
+ * A domain is a named type for tensor indices: `person`, `city`, `token`.
+ * It has a size and, optionally, a symbol table giving each constant its
+ * position:
+ *
+ *   person = { alice → 0, bob → 1, carol → 2 }     size 3, with symbols
+ *   hidden = 64                                   size only
+ *
+ * Tensors record the domain of each axis in Tensor.domains. Sizes alone
+ * cannot tell `person` from `city` when both have three elements, but
+ * domains can: einsum refuses to join axes of different domains, and
+ * runProgram checks a whole program before running it, so
+ *
+ *   Lives[x, c] = Parent[x, y] LivesIn[y, c]     where y: person in Parent
+ *                                                     but city in LivesIn
+ *
+ * fails with the offending equation and index pointed out. Untyped axes
+ * (null or no Tensor.domains) join with anything.
+ */
+
+import type { Tensor } from './core';
+
+/**
+ * A named index type with a size and an optional symbol table
+ */
+export interface Domain {
+  name: string;
+  /** Constants in position order (empty for domains declared by size) */
+  symbols: string[];
+  positions: Map<string, number>;
+  /** Fixed size of a domain without symbols; otherwise symbols.length */
+  size?: number;
+}
+
+/**
+ * Create a domain from its constants, which get positions in order, or
+ * from a size alone
+ */
+export function createDomain(name: string, symbols: string[] | number = []): Domain {
+  if (typeof symbols === 'number') {
+    if (!Number.isInteger(symbols) || symbols < 0) {
+      throw new Error(`Domain ${name} needs a non-negative integer size, got ${symbols}`);
+    }
+    return { name, symbols: [], positions: new Map(), size: symbols };
+  }
+
+  const domain: Domain = { name, symbols: [], positions: new Map() };
+  for (const symbol of symbols) {
+    if (domain.positions.has(symbol)) {
+      throw new Error(`Domain ${name} lists '${symbol}' twice`);
+    }
+    internSymbol(domain, symbol);
+  }
+  return domain;
+}
+
+/**
+ * Number of positions in a domain
+ */
+export function domainSize(domain: Domain): number {
+  return domain.size ?? domain.symbols.length;
+}
+
+/**
+ * Position of a constant, adding it at the end if it is new
+ */
+export function internSymbol(domain: Domain, symbol: string): number {
+  let position = domain.positions.get(symbol);
+  if (position === undefined) {
+    if (domain.size !== undefined) {
+      throw new Error(`Domain ${domain.name} is declared by size and has no symbol '${symbol}'`);
+    }
+    position = domain.symbols.length;
+    domain.symbols.push(symbol);
+    domain.positions.set(symbol, position);
+  }
+  return position;
+}
+
+/**
+ * Position of a constant that must already be in the domain
+ */
+export function symbolPosition(domain: Domain, symbol: string): number {
+  const position = domain.positions.get(symbol);
+  if (position === undefined) {
+    throw new Error(`'${symbol}' is not in domain ${domain.name}`);
+  }
+  return position;
+}
+
+/**
+ * Positions of every constant, in the form RunProgramOptions.constants and
+ * BackwardChainOptions.constants take
+ */
+export function domainConstants(domain: Domain): Record<string, number> {
+  return Object.fromEntries(domain.positions);
+}
+
+/**
+ * Type the axes of a tensor. Domains given as objects are checked against
+ * the tensor's shape; names and null (untyped) are taken as they are.
+ */
+export function withDomains(tensor: Tensor, domains: (Domain | string | null)[]): Tensor {
+  if (domains.length !== tensor.shape.length) {
+    throw new Error(`${tensor.name} has ${tensor.shape.length} axes but ${domains.length} domains were given`);
+  }
+  domains.forEach((domain, axis) => {
+    if (domain && typeof domain !== 'string' && domainSize(domain) !== tensor.shape[axis]) {
+      throw new Error(`${tensor.name} axis ${axis} has size ${tensor.shape[axis]} but domain ${domain.name} has size ${domainSize(domain)}`);
+    }
+  });
+  return { ...tensor, domains: domains.map((d) => (d === null || typeof d === 'string' ? d : d.name)) };
+}
@@ -0,0 +1,144 @@
+/**
+ * ELEMENT TYPES
+ *
+ * A tensor's values live in a typed array, and the array type is the
+ * tensor's dtype:
+ *
+ *   float64   Float64Array   8 bytes   default; gradients and probabilities
+ *   float32   Float32Array   4 bytes   weights of models that fit in float32
+ *   int32     Int32Array     4 bytes   counts, indices, token ids
+ *   uint8     Uint8Array     1 byte    small integers
+ *   bool      Uint8Array     1 byte    relations: 1 = true, 0 = false
+ *
+ * bool and uint8 share an array type, so Tensor.dtype marks Boolean data;
+ * for the other types the array decides (dtypeOf).
+ *
+ * When operands of different types meet, in einsum or element-wise
+ * arithmetic, the result takes the smallest type that holds both, as in
+ * NumPy: bool < uint8 < int32 < float64 and uint8 < float32 < float64,
+ * with int32 and float32 promoting to float64. Values are converted as
+ * typed arrays convert them (float32 rounds; integers truncate toward zero
+ * and wrap around), except that bool maps every non-zero value to 1 — so a
+ * Boolean einsum is an OR of ANDs.
+ */
+
+import type { Tensor } from './core';
+
+/**
+ * Element type of a tensor
+ */
+export type DType = 'float64' | 'float32' | 'int32' | 'uint8' | 'bool';
+
+/**
+ * Storage for a tensor's values
+ */
+export type TensorData = Float64Array | Float32Array | Int32Array | Uint8Array;
+
+const RANK: Record<DType, number> = { bool: 0, uint8: 1, int32: 2, float32: 2, float64: 3 };
+
+/**
+ * Bytes per element of each dtype
+ */
+export function bytesPerElement(dtype: DType): number {
+  switch (dtype) {
+    case 'float64': return 8;
+    case 'float32': return 4;
+    case 'int32': return 4;
+    case 'uint8': return 1;
+    case 'bool': return 1;
+  }
+}
+
+/**
+ * The dtype of an array of values (Uint8Array reads as uint8)
+ */
+export function dtypeOfData(data: TensorData): DType {
+  if (data instanceof Float32Array) return 'float32';
+  if (data instanceof Int32Array) return 'int32';
+  if (data instanceof Uint8Array) return 'uint8';
+  return 'float64';
+}
+
+/**
+ * The dtype of a tensor: the type of its data array, with Uint8Array data
+ * read as bool when the tensor is marked so
+ */
+export function dtypeOf(tensor: Tensor): DType {
+  const stored = dtypeOfData(tensor.data);
+  return stored === 'uint8' && tensor.dtype === 'bool' ? 'bool' : stored;
+}
+
+/**
+ * The result type of an operation on values of the given types
+ */
+export function promoteTypes(...dtypes: DType[]): DType {
+  if (dtypes.length === 0) {
+    throw new Error('promoteTypes needs at least one dtype');
+  }
+  return dtypes.reduce((a, b) => {
+    if (a === b) return a;
+    if ((a === 'int32' && b === 'float32') || (a === 'float32' && b === 'int32')) return 'float64';
+    return RANK[a] >= RANK[b] ? a : b;
+  });
+}
+
+/**
+ * The floating-point type that holds a type's values: float32 stays
+ * float32, everything else becomes float64 (used by division)
+ */
+export function floatType(dtype: DType): DType {
+  return dtype === 'float32' ? 'float32' : 'float64';
+}
+
+/**
+ * A zero-filled array of `size` elements of a dtype
+ */
+export function allocate(dtype: DType, size: number): TensorData {
+  switch (dtype) {
+    case 'float64': return new Float64Array(size);
+    case 'float32': return new Float32Array(size);
+    case 'int32': return new Int32Array(size);
+    case 'uint8':
+    case 'bool': return new Uint8Array(size);
+  }
+}
+
+/**
+ * Convert values to a dtype. Returns `values` itself when it already has
+ * the right array type (and, for bool, holds only 0 and 1).
+ */
+export function castData(values: ArrayLike<number>, dtype: DType): TensorData {
+  if (dtype === 'bool') {
+    if (values instanceof Uint8Array && values.every((v) => v <= 1)) return values;
+    const out = new Uint8Array(values.length);
+    for (let i = 0; i < values.length; i++) out[i] = values[i] !== 0 ? 1 : 0;
+    return out;
+  }
+  if (isArrayOf(values, dtype)) return values as TensorData;
+  const out = allocate(dtype, values.length);
+  for (let i = 0; i < values.length; i++) out[i] = values[i];
+  return out;
+}
+
+function isArrayOf(values: ArrayLike<number>, dtype: DType): boolean {
+  return (
+    (dtype === 'float64' && values instanceof Float64Array) ||
+    (dtype === 'float32' && values instanceof Float32Array) ||
+    (dtype === 'int32' && values instanceof Int32Array) ||
+    (dtype === 'uint8' && values instanceof Uint8Array)
+  );
+}
+
+/**
+ * A copy of a tensor converted to another dtype
+ */
+export function astype(tensor: Tensor, dtype: DType): Tensor {
+  const data = castData(tensor.data, dtype);
+  return {
+    name: tensor.name,
+    shape: [...tensor.shape],
+    indices: [...tensor.indices],
+    data: data === tensor.data ? data.slice() : data,
+    dtype,
+  };
+}
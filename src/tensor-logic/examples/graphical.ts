@@ -40,6 +40,7 @@ import {
   scale,
   tensorToString,
 } from '../core';
+import { hmmForward, viterbi } from '../logspace';
 
 export interface GraphicalModelResult {
   title: string;
@@ -534,6 +535,30 @@ The model infers the weather from umbrella observations!`,
     tensorString: tensorToString(P_S2_given_obs, 3),
   });
 
+  // A long sequence: the probabilities underflow, their logarithms do not
+  const hmm = { initial: Pi, transition: A, emission: B };
+  const week = [1, 1, 0, 0, 0, 1, 0];
+  const longSequence = Array.from({ length: 200 }, () => week).flat();
+  const { logLikelihood } = hmmForward(hmm, longSequence);
+  const decoded = viterbi(hmm, longSequence);
+  const firstWeek = createTensor('path', ['t'], [week.length], Float64Array.from(decoded.path.slice(0, week.length)));
+
+  steps.push({
+    name: 'Log-Space Forward and Viterbi (1400 steps)',
+    explanation: `After 1400 observations the forward variables are far below the
+smallest double (about 10⁻³⁰⁸). In the log semiring (logsumexp, +) they stay finite:
+
+  log α_t[s'] = logsumexp_s (log α_{t-1}[s] + log A[s,s']) + log B[s',o_t]
+
+  log P(obs) = ${logLikelihood.toFixed(2)}, i.e. P(obs) ≈ 10^${Math.round(logLikelihood / Math.LN10)}
+
+Viterbi replaces logsumexp with max and keeps back-pointers.
+Most likely weather for the first week (0=sunny, 1=rainy):
+  ${decoded.path.slice(0, week.length).join(' ')}`,
+    tensor: firstWeek,
+    tensorString: tensorToString(firstWeek, 0),
+  });
+
   return {
     title: 'Hidden Markov Model',
     description: `HMMs model sequences with hidden states.
@@ -1,8 +1,8 @@
 export { runLogicProgramExample } from './logic';
-export { runMLPExample, runFullXORDemo } from './mlp';
+export { runMLPExample, runFullXORDemo, runTrainedXORExample } from './mlp';
 export { runTransformerExample, runMultiHeadAttentionExample } from './transformer';
-export { runKernelExample } from './kernel';
+export { runKernelExample, runTrainedKernelExample } from './kernel';
 export { runGraphicalModelExample, runHMMExample } from './graphical';
-export { runGNNExample } from './gnn';
+export { runGNNExample, runTrainedGNNExample } from './gnn';
 export { runNeuralNestorMorphExample } from './neural-nestor-morph';
 
@@ -39,6 +39,7 @@ import {
   einsum,
   tensorToString,
 } from '../core';
+import { fit, mseLoss, createMomentum, stepDecay } from '../training';
 
 export interface KernelResult {
   title: string;
@@ -175,7 +176,8 @@ Diagonal entries are always 1 (each point is identical to itself).`,
   });
 
   // For a true SVM, we'd solve a quadratic program to find α.
-  // For demonstration, we'll use pre-computed α values that work.
+  // For demonstration, we'll use uniform α values that work;
+  // runTrainedKernelExample learns them instead.
   // These are the dual coefficients: α_i · y_i
   const Alpha = fromVector('Alpha', 'i', [1, 1, 1, 1]);
 
@@ -303,3 +305,91 @@ K[x, x′] = exp(-γ Σ_i (X[x, i] - X[x′, i])²)`,
   };
 }
 
+
+/**
+ * Example: Learning the dual coefficients
+ *
+ * Instead of fixing α, fit the predictions Pred[j] = K[i,j] · Beta[i]
+ * (with Beta[i] = α_i · y_i) to the labels by gradient descent, starting
+ * from random values.
+ */
+export function runTrainedKernelExample(): KernelResult {
+  const steps: KernelResult['steps'] = [];
+
+  const X_train = createTensor('X_train', ['sample', 'feature'], [4, 2], new Float64Array([0, 0, 0, 1, 1, 0, 1, 1]));
+  const Y_train = fromVector('Y_train', 'j', [-1, 1, 1, -1]);
+  const K = rbfKernel(X_train, 0.5);
+  const Beta = createTensor('Beta', ['i'], [4], 'random');
+
+  steps.push({
+    name: 'Random Coefficients',
+    explanation: `Beta[i] = α_i · y_i starts out random.
+
+The RBF kernel K[i,j] is fixed (σ = 0.5); only Beta is learned.
+Predictions are the same einsum as before:
+  Pred[j] = K[i,j] · Beta[i]`,
+    tensor: Beta,
+    tensorString: tensorToString(Beta, 3),
+  });
+
+  const epochs = 200;
+  const result = fit(
+    new Map([['K', K], ['Y', Y_train], ['Beta', Beta]]),
+    (tape, v) => mseLoss(tape, tape.einsum('ij,i->j', v.K, v.Beta), v.Y),
+    {
+      parameters: ['Beta'],
+      optimizer: createMomentum(0.2, 0.9),
+      schedule: stepDecay(100, 0.5),
+      epochs,
+    }
+  );
+
+  const Loss = fromVector('Loss', 'epoch', [0, 20, 50, 100, epochs - 1].map((e) => result.losses[e]));
+  steps.push({
+    name: 'Training Loss',
+    explanation: `Mean squared error at epochs 0, 20, 50, 100 and ${epochs - 1}:
+  Loss = (1/N) Σ_j (Pred[j] - Y[j])²
+
+Its gradient is again an einsum over the kernel matrix:
+  ∂Loss/∂Beta[i] = (2/N) Σ_j K[i,j] (Pred[j] - Y[j])
+
+SGD with momentum takes the steps; the learning rate halves
+after epoch 100.`,
+    tensor: Loss,
+    tensorString: tensorToString(Loss, 5),
+  });
+
+  const Learned = result.tensors.get('Beta')!;
+  steps.push({
+    name: 'Learned Coefficients',
+    explanation: `The learned Beta[i] have the sign of the labels y_i:
+the classes are recovered without being told α ⊙ y.`,
+    tensor: Learned,
+    tensorString: tensorToString(Learned, 3),
+  });
+
+  const Predictions = einsum('ij,i->j', K, Learned);
+  Predictions.name = 'Predictions';
+  steps.push({
+    name: 'Predictions After Training',
+    explanation: `Pred[j] = K[i,j] · Beta[i]
+
+${[0, 1, 2, 3].map((j) => `  Pred[${j}] = ${Predictions.data[j].toFixed(3)} (true: ${Y_train.data[j] > 0 ? '+1' : '-1'})`).join('\n')}`,
+    tensor: Predictions,
+    tensorString: tensorToString(Predictions, 3),
+  });
+
+  return {
+    title: 'Training a Kernel Machine',
+    description: `The dual coefficients of the kernel machine, learned by
+gradient descent on the squared error instead of fixed by hand.
+
+The kernel matrix is a constant tensor; fit() marks Beta as the only
+parameter.`,
+    code: `Pred[j] = K[i, j] Beta[i]
+Loss = (1/N) Σ_j (Pred[j] - Y[j])²
+
+// Learned with fit(): parameter Beta`,
+    steps,
+  };
+}
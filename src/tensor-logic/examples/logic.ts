@@ -30,13 +30,13 @@
 
 import {
   Tensor,
-  fromMatrix,
-  einsum,
-  threshold,
   clone,
   tensorToString,
-  add,
 } from '../core';
+import { BooleanSemiring } from '../raptl';
+import { WhyProvenanceSemiring, annotateFacts, formatWhyProvenance } from '../semirings';
+import { forwardChain } from '../fixpoint';
+import { loadDatalogFacts, decodeTuples } from '../facts';
 
 export interface LogicProgramResult {
   title: string;
@@ -69,26 +69,30 @@ export interface LogicProgramResult {
 export function runLogicProgramExample(): LogicProgramResult {
   const steps: LogicProgramResult['steps'] = [];
 
-  // Define the Parent relation as a Boolean tensor
+  // Load the Parent relation as a Boolean tensor
   // Parent[x,y] = 1 if x is a parent of y, 0 otherwise
   //
-  // Matrix representation (rows = parent, cols = child):
+  // The loader numbers people in order of appearance, so the matrix is
+  // (rows = parent, cols = child):
   //          Alice  Bob  Charlie  Diana
   // Alice      0     1      0       0
   // Bob        0     0      1       1
   // Charlie    0     0      0       0
   // Diana      0     0      0       0
-  const Parent = fromMatrix('Parent', ['x', 'y'], [
-    [0, 1, 0, 0], // Alice is parent of Bob
-    [0, 0, 1, 1], // Bob is parent of Charlie and Diana
-    [0, 0, 0, 0], // Charlie has no children
-    [0, 0, 0, 0], // Diana has no children
-  ]);
+  const facts = loadDatalogFacts(
+    `Parent(Alice, Bob).
+     Parent(Bob, Charlie).
+     Parent(Bob, Diana).`,
+    { indices: { Parent: ['x', 'y'] } }
+  );
+  const Parent = facts.relations.get('Parent')!;
+  const people = facts.domains.get('entity')!;
 
   steps.push({
     name: 'Parent Relation',
-    explanation: `The Parent relation encoded as a Boolean tensor.
-Parent[x,y] = 1 means "x is the parent of y".
+    explanation: `The Parent relation, loaded from Datalog facts into a Boolean tensor.
+Parent[x,y] = 1 means "x is the parent of y"; the symbol table numbers
+${people.symbols.map((name, i) => `${name}(${i})`).join(', ')}.
 
 In Tensor Logic notation:
   Parent[Alice,Bob] = 1
@@ -101,7 +105,7 @@ In Tensor Logic notation:
   // Rule 1: Ancestor(x,y) ← Parent(x,y)
   // "Parents are ancestors"
   // This is just copying Parent to Ancestor
-  let Ancestor = clone(Parent);
+  const Ancestor = clone(Parent);
   Ancestor.name = 'Ancestor';
 
   steps.push({
@@ -124,40 +128,22 @@ This is a base case - direct copy of the Parent tensor.`,
   // This is matrix multiplication! Einstein summation notation: "xy,yz->xz"
   // The shared index 'y' is summed over (the JOIN)
   // The result keeps indices x,z (the PROJECTION)
-
-  // Iterate until fixpoint (no new ancestors found)
-  let changed = true;
-  let iteration = 0;
-
-  while (changed && iteration < 10) {
-    iteration++;
-
-    // Compute new ancestors via the transitive rule
-    // This einsum computes: NewAncestors[x,z] = Σ_y Ancestor[x,y] · Parent[y,z]
-    const newAncestors = einsum('xy,yz->xz', Ancestor, Parent);
-
-    // Apply threshold: any positive value becomes 1 (Boolean OR semantics)
-    const thresholded = threshold(newAncestors);
-
-    // Combine with existing ancestors (logical OR)
-    const combined = add(Ancestor, thresholded);
-    const combinedThresholded = threshold(combined);
-
-    // Check if anything changed
-    changed = false;
-    for (let i = 0; i < Ancestor.data.length; i++) {
-      if (combinedThresholded.data[i] !== Ancestor.data[i]) {
-        changed = true;
-        break;
-      }
-    }
-
-    Ancestor = { ...combinedThresholded, name: 'Ancestor' };
-
-    if (changed) {
-      steps.push({
-        name: `Rule 2 (iteration ${iteration})`,
-        explanation: `Transitive rule: Ancestor[x,z] ← Ancestor[x,y], Parent[y,z]
+  //
+  // Forward chaining applies the rule until fixpoint (no new ancestors found).
+  // Semi-naive evaluation only re-joins the ancestors discovered in the
+  // previous iteration, and the Boolean semiring's OR plays the role of
+  // threshold(Σ ...).
+  const closure = forwardChain(
+    'Ancestor[x, z] = Ancestor[x, y] Parent[y, z]',
+    new Map([['Parent', Parent], ['Ancestor', Ancestor]]),
+    BooleanSemiring,
+    {
+      onIteration: (iteration, relations, delta) => {
+        if (!delta.has('Ancestor')) return;
+        const current = relations.get('Ancestor')!;
+        steps.push({
+          name: `Rule 2 (iteration ${iteration})`,
+          explanation: `Transitive rule: Ancestor[x,z] ← Ancestor[x,y], Parent[y,z]
 
 Tensor Logic:  Ancestor[x,z] = threshold(Σ_y Ancestor[x,y] · Parent[y,z])
 
@@ -167,27 +153,60 @@ Einstein summation "xy,yz->xz" computes:
 - This is JOIN on y, PROJECT onto (x,z)
 
 New ancestors discovered in this iteration!`,
-        tensor: clone(Ancestor),
-        tensorString: tensorToString(Ancestor, 0),
-      });
+          tensor: clone(current),
+          tensorString: tensorToString(current, 0),
+        });
+      },
     }
-  }
+  );
+
+  const FinalAncestor = closure.relations.get('Ancestor')!;
+  const ancestors = decodeTuples(FinalAncestor, people)
+    .map(({ args: [x, z] }) => `- Ancestor(${x}, ${z})`)
+    .join('\n');
 
   steps.push({
     name: 'Final: Ancestor Relation (Fixpoint)',
-    explanation: `Fixpoint reached after ${iteration} iteration(s).
+    explanation: `Fixpoint reached after ${closure.iterations} iteration(s).
 
-Final Ancestor relation:
-- Ancestor(Alice, Bob)     ✓  (direct parent)
-- Ancestor(Alice, Charlie) ✓  (grandparent via Bob)
-- Ancestor(Alice, Diana)   ✓  (grandparent via Bob)
-- Ancestor(Bob, Charlie)   ✓  (direct parent)
-- Ancestor(Bob, Diana)     ✓  (direct parent)
+Final Ancestor relation, decoded back into named tuples:
+${ancestors}
 
 This is the DEDUCTIVE CLOSURE - all facts that can be derived from
 the rules and base facts through logical inference.`,
-    tensor: Ancestor,
-    tensorString: tensorToString(Ancestor, 0),
+    tensor: FinalAncestor,
+    tensorString: tensorToString(FinalAncestor, 0),
+  });
+
+  // Why does each answer hold? Running the same rules in the why-provenance
+  // semiring labels every Parent fact and carries, for each Ancestor tuple,
+  // the sets of facts that derive it.
+  const ParentWhy = annotateFacts(WhyProvenanceSemiring, Parent, (fact) => [[fact]], people);
+  const provenance = forwardChain(
+    'Ancestor[x, y] = Parent[x, y]\nAncestor[x, z] = Ancestor[x, y] Parent[y, z]',
+    new Map([['Parent', ParentWhy]]),
+    WhyProvenanceSemiring
+  );
+  const AncestorWhy = provenance.values.get('Ancestor')!;
+  const explanations = decodeTuples(FinalAncestor, people)
+    .map(({ args: [x, z] }) => {
+      const flat = people.positions.get(x)! * people.symbols.length + people.positions.get(z)!;
+      return `- Ancestor(${x}, ${z}) ← ${formatWhyProvenance(AncestorWhy.data[flat])}`;
+    })
+    .join('\n');
+  const witnessCounts = provenance.relations.get('Ancestor')!;
+
+  steps.push({
+    name: 'Explanation: Why-Provenance',
+    explanation: `The same rules, run in the why-provenance semiring instead of
+the Boolean one. Each Parent fact is annotated with itself; AND takes the
+union of the facts used, OR collects the alternatives. The fixpoint
+explains every answer:
+${explanations}
+
+The tensor counts the witnesses of each tuple.`,
+    tensor: witnessCounts,
+    tensorString: tensorToString(witnessCounts, 0),
   });
 
   return {
@@ -45,6 +45,8 @@ import {
   tensorToString,
   relu,
 } from '../core';
+import { reshape, split, squeeze, stack } from '../shape';
+import { randomUniform } from '../random';
 
 export interface TransformerResult {
   title: string;
@@ -287,13 +289,13 @@ other positions, weighted by relevance (attention).`,
     'W_ff1',
     ['emb', 'hidden'],
     [4, 8],
-    new Float64Array(32).map(() => (Math.random() - 0.5) * 0.5)
+    randomUniform([4, 8], -0.25, 0.25)
   );
   const W_ff2 = createTensor(
     'W_ff2',
     ['hidden', 'emb'],
     [8, 4],
-    new Float64Array(32).map(() => (Math.random() - 0.5) * 0.5)
+    randomUniform([8, 4], -0.25, 0.25)
   );
 
   // FFN: ReLU(x·W1)·W2
@@ -321,8 +323,8 @@ Tensor Logic notation:
     tensorString: tensorToString(ffOutput, 2),
   });
 
-  // Residual connection
-  const residualOutput = add(Input, ffOutput);
+  // Residual connection (ffOutput[q,e] is indexed by the same positions as Input[seq,emb])
+  const residualOutput = add(Input, { ...ffOutput, indices: [...Input.indices] });
   residualOutput.name = 'ResidualOutput';
 
   steps.push({
@@ -412,27 +414,13 @@ Multi-head attention allows the model to attend to different
     tensorString: tensorToString(Input, 2),
   });
 
-  // Split embedding into 2 heads
-  // Head 0 uses dimensions [0,1], Head 1 uses dimensions [2,3]
-  const Head0_Input = createTensor(
-    'Head0',
-    ['seq', 'head_dim'],
-    [2, 2],
-    new Float64Array([
-      Input.data[0], Input.data[1],
-      Input.data[4], Input.data[5],
-    ])
-  );
-
-  const Head1_Input = createTensor(
-    'Head1',
-    ['seq', 'head_dim'],
-    [2, 2],
-    new Float64Array([
-      Input.data[2], Input.data[3],
-      Input.data[6], Input.data[7],
-    ])
-  );
+  // Split embedding into 2 heads: emb = head · 2 + head_dim, so
+  // Head 0 uses dimensions [0,1] and Head 1 uses dimensions [2,3]
+  const Heads = reshape(Input, [2, 2, 2], ['seq', 'head', 'head_dim']);
+  const [Head0_Input, Head1_Input] = split(Heads, 'head', 2).map((h, i) => ({
+    ...squeeze(h, 'head'),
+    name: `Head${i}`,
+  }));
 
   steps.push({
     name: 'Head 0 Input',
@@ -484,16 +472,10 @@ between heads - this is the power of multi-head attention.`,
     tensorString: tensorToString(weights1, 3),
   });
 
-  // Concatenate head outputs
-  const MultiHeadOutput = createTensor(
-    'MultiHeadOutput',
-    ['seq', 'emb'],
-    [2, 4],
-    new Float64Array([
-      out0.data[0], out0.data[1], out1.data[0], out1.data[1],
-      out0.data[2], out0.data[3], out1.data[2], out1.data[3],
-    ])
-  );
+  // Concatenate head outputs: stack them along head, then merge
+  // head × head_dim back into emb
+  const MultiHeadOutput = reshape(stack([out0, out1], 'head', 1), [2, 4], ['seq', 'emb']);
+  MultiHeadOutput.name = 'MultiHeadOutput';
 
   steps.push({
     name: 'Concatenated Multi-Head Output',
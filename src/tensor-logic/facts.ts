@@ -0,0 +1,402 @@
+/**
+ * LOADING RELATIONAL FACTS
+ *
+ * Turns tuples of named constants into tensors and back. Each argument
+ * position belongs to a domain (see domains.ts), whose symbol table gives
+ * each constant an index position:
+ *
+ *   parent(alice, bob).          person: alice → 0, bob → 1, carol → 2
+ *   parent(bob, carol).    →     Parent[0, 1] = 1, Parent[1, 2] = 1
+ *
+ * Facts come from Datalog text or CSV/TSV rows. A fact may carry a weight,
+ * written ProbLog-style as `0.8::parent(alice, bob).` or as a CSV column;
+ * relations without weights are Boolean (0/1). decodeTuples reverses the
+ * mapping, so the result of forward chaining can be read as named tuples.
+ *
+ * DOMAINS:
+ * By default every argument of every relation draws from one shared domain
+ * called 'entity', which suits relations over one kind of object. Typed
+ * relations list a domain per argument, e.g. { livesIn: ['person', 'city'] };
+ * each domain then only holds the constants that appear in its positions.
+ * Constants are numbered in order of first appearance, and tensor shapes are
+ * the domain sizes once all facts of a call are read — so relations that
+ * must line up should be loaded in one call, or share pre-filled domains.
+ */
+
+import { Tensor, createTensor } from './core';
+import { DType } from './dtype';
+import { Domain, createDomain, internSymbol } from './domains';
+
+/**
+ * One ground fact, e.g. `0.8::parent(alice, bob).`
+ */
+export interface Fact {
+  relation: string;
+  args: string[];
+  /** 1 unless a weight was given */
+  weight: number;
+  /** Line the fact starts on (1-based) */
+  line: number;
+}
+
+/**
+ * Tensors built from facts, typed by the domains that index them
+ */
+export interface FactBase {
+  /** One tensor per relation, named after it */
+  relations: Map<string, Tensor>;
+  /** Every domain used, by name */
+  domains: Map<string, Domain>;
+  /** Domain of each argument, per relation */
+  signatures: Map<string, Domain[]>;
+}
+
+/**
+ * Options for turning facts into tensors
+ */
+export interface LoadFactsOptions {
+  /** Domain names of each relation's arguments, e.g. { livesIn: ['person', 'city'] } */
+  signatures?: Record<string, string[]>;
+  /** Domains to reuse; they are extended with new constants unless extendDomains is false */
+  domains?: Map<string, Domain>;
+  /** Add unseen constants to the domains (default true); false makes them an error */
+  extendDomains?: boolean;
+  /** Index names per relation (default x0, x1, ...) */
+  indices?: Record<string, string[]>;
+  /** Element type of the tensors (default float64) */
+  dtype?: DType;
+}
+
+const DEFAULT_DOMAIN = 'entity';
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/**
+ * Parse Datalog facts: `relation(const, ...).`, one or more per line, with
+ * an optional `weight::` prefix. Constants are identifiers, numbers or
+ * quoted strings; `%`, `#` and `//` start comments.
+ */
+export function parseDatalogFacts(text: string): Fact[] {
+  const facts: Fact[] = [];
+  let pos = 0;
+  let line = 1;
+
+  const fail = (message: string): never => {
+    throw new Error(`line ${line}: ${message}`);
+  };
+
+  const skipSpace = (): void => {
+    while (pos < text.length) {
+      const c = text[pos];
+      if (c === '\n') {
+        line++;
+        pos++;
+      } else if (/\s/.test(c)) {
+        pos++;
+      } else if (c === '%' || c === '#' || text.startsWith('//', pos)) {
+        while (pos < text.length && text[pos] !== '\n') pos++;
+      } else {
+        break;
+      }
+    }
+  };
+
+  const word = (): string => {
+    const match = /^(?:[A-Za-z_][A-Za-z0-9_]*|[+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?)/.exec(text.slice(pos, pos + 256));
+    if (!match) fail(`expected a name or number at '${text.slice(pos, pos + 10)}'`);
+    pos += match![0].length;
+    return match![0];
+  };
+
+  const constant = (): string => {
+    const quote = text[pos];
+    if (quote !== '"' && quote !== "'") return word();
+    let value = '';
+    pos++;
+    while (pos < text.length && text[pos] !== quote) {
+      if (text[pos] === '\n') fail('unterminated string');
+      if (text[pos] === '\\' && pos + 1 < text.length) pos++;
+      value += text[pos++];
+    }
+    if (pos >= text.length) fail('unterminated string');
+    pos++;
+    return value;
+  };
+
+  const expect = (token: string): void => {
+    skipSpace();
+    if (!text.startsWith(token, pos)) fail(`expected '${token}' at '${text.slice(pos, pos + 10)}'`);
+    pos += token.length;
+  };
+
+  skipSpace();
+  while (pos < text.length) {
+    const start = line;
+    let weight = 1;
+    let relation = word();
+    skipSpace();
+    if (text.startsWith('::', pos)) {
+      weight = Number(relation);
+      if (!Number.isFinite(weight)) fail(`weight '${relation}' is not a number`);
+      pos += 2;
+      skipSpace();
+      relation = word();
+    }
+    if (!/^[A-Za-z_]/.test(relation)) fail(`relation name expected, got '${relation}'`);
+
+    const args: string[] = [];
+    skipSpace();
+    if (text[pos] === '(') {
+      pos++;
+      skipSpace();
+      if (text[pos] !== ')') {
+        for (;;) {
+          skipSpace();
+          args.push(constant());
+          skipSpace();
+          if (text[pos] !== ',') break;
+          pos++;
+        }
+      }
+      expect(')');
+    }
+    expect('.');
+    facts.push({ relation, args, weight, line: start });
+    skipSpace();
+  }
+  return facts;
+}
+
+/**
+ * Parse CSV or TSV text into rows of fields. Fields may be quoted with
+ * double quotes ("" inside quotes is a literal quote); blank lines are
+ * skipped. The delimiter defaults to a tab if the first line has one,
+ * otherwise a comma.
+ */
+export function parseDelimited(text: string, delimiter?: string): string[][] {
+  const sep = delimiter ?? (text.slice(0, text.indexOf('\n') + 1 || undefined).includes('\t') ? '\t' : ',');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+
+  const endRow = (): void => {
+    row.push(field);
+    if (row.length > 1 || row[0].trim() !== '') rows.push(row.map((f) => f.trim()));
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        if (c === '\n') line++;
+        field += c;
+      }
+    } else if (c === '"' && field.trim() === '') {
+      quoted = true;
+      field = '';
+    } else if (c === sep) {
+      row.push(field);
+      field = '';
+    } else if (c === '\n') {
+      line++;
+      endRow();
+    } else if (c !== '\r') {
+      field += c;
+    }
+  }
+  if (quoted) {
+    throw new Error(`line ${line}: unterminated quoted field`);
+  }
+  if (field !== '' || row.length > 0) endRow();
+  return rows;
+}
+
+// ============================================================================
+// FACTS TO TENSORS
+// ============================================================================
+
+/**
+ * Build one tensor per relation from ground facts: each tuple's entry is
+ * its weight and absent tuples are 0. Repeated tuples are allowed, but not
+ * with different weights.
+ */
+export function factsToTensors(facts: Fact[], options: LoadFactsOptions = {}): FactBase {
+  const domains = options.domains ?? new Map<string, Domain>();
+  const extend = options.extendDomains ?? true;
+  const domainNamed = (name: string): Domain => {
+    let domain = domains.get(name);
+    if (!domain) {
+      if (!extend) throw new Error(`Unknown domain ${name}`);
+      domain = createDomain(name);
+      domains.set(name, domain);
+    }
+    return domain;
+  };
+
+  // Intern every constant first, so each tensor gets the final domain sizes
+  const signatures = new Map<string, Domain[]>();
+  const byRelation = new Map<string, { positions: number[]; weight: number; fact: Fact }[]>();
+  for (const fact of facts) {
+    let signature = signatures.get(fact.relation);
+    if (!signature) {
+      const names = options.signatures?.[fact.relation] ?? fact.args.map(() => DEFAULT_DOMAIN);
+      signature = names.map(domainNamed);
+      signatures.set(fact.relation, signature);
+      byRelation.set(fact.relation, []);
+    }
+    if (fact.args.length !== signature.length) {
+      throw new Error(`line ${fact.line}: ${fact.relation} has ${fact.args.length} arguments but expects ${signature.length}`);
+    }
+    const positions = fact.args.map((arg, k) => {
+      if (!extend && !signature![k].positions.has(arg)) {
+        throw new Error(`line ${fact.line}: '${arg}' is not in domain ${signature![k].name}`);
+      }
+      return internSymbol(signature![k], arg);
+    });
+    byRelation.get(fact.relation)!.push({ positions, weight: fact.weight, fact });
+  }
+
+  const relations = new Map<string, Tensor>();
+  for (const [relation, entries] of byRelation) {
+    const signature = signatures.get(relation)!;
+    const shape = signature.map((d) => d.symbols.length);
+    const indices = options.indices?.[relation] ?? signature.map((_, k) => `x${k}`);
+    if (indices.length !== shape.length) {
+      throw new Error(`${relation} has ${shape.length} arguments but ${indices.length} index names were given`);
+    }
+
+    const strides = shape.map((_, k) => shape.slice(k + 1).reduce((a, b) => a * b, 1));
+    const values = new Float64Array(shape.reduce((a, b) => a * b, 1));
+    const seen = new Map<number, Fact>();
+    for (const { positions, weight, fact } of entries) {
+      const at = positions.reduce((sum, p, k) => sum + p * strides[k], 0);
+      const previous = seen.get(at);
+      if (previous && previous.weight !== weight) {
+        throw new Error(`line ${fact.line}: ${relation}(${fact.args.join(', ')}) was given weight ${previous.weight} on line ${previous.line}`);
+      }
+      seen.set(at, fact);
+      values[at] = weight;
+    }
+    const tensor = createTensor(relation, [...indices], shape, values, { dtype: options.dtype ?? 'float64' });
+    tensor.domains = signature.map((d) => d.name);
+    relations.set(relation, tensor);
+  }
+
+  return { relations, domains, signatures };
+}
+
+/**
+ * Load Datalog facts such as `parent(alice, bob).` into tensors
+ */
+export function loadDatalogFacts(text: string, options: LoadFactsOptions = {}): FactBase {
+  return factsToTensors(parseDatalogFacts(text), options);
+}
+
+/**
+ * Options for loading one relation from CSV/TSV rows
+ */
+export interface DelimitedFactsOptions extends LoadFactsOptions {
+  /** Relation the rows belong to */
+  relation: string;
+  /** Field separator (default: tab if the first line has one, else comma) */
+  delimiter?: string;
+  /** Skip the first row (default false) */
+  header?: boolean;
+  /** Column holding each tuple's weight, by position or header name */
+  weightColumn?: number | string;
+}
+
+/**
+ * Load one relation from CSV/TSV text, one tuple per row
+ */
+export function loadDelimitedFacts(text: string, options: DelimitedFactsOptions): FactBase {
+  const rows = parseDelimited(text, options.delimiter);
+  const header = options.header ? rows.shift() : undefined;
+  let weightAt = -1;
+  if (typeof options.weightColumn === 'string') {
+    weightAt = header?.indexOf(options.weightColumn) ?? -1;
+    if (weightAt < 0) {
+      throw new Error(`No column named '${options.weightColumn}' in the header`);
+    }
+  } else if (options.weightColumn !== undefined) {
+    weightAt = options.weightColumn;
+  }
+
+  const facts = rows.map((row, r): Fact => {
+    const line = r + 1 + (header ? 1 : 0);
+    if (weightAt < 0) {
+      return { relation: options.relation, args: row, weight: 1, line };
+    }
+    const weight = Number(row[weightAt]);
+    if (row[weightAt] === undefined || row[weightAt] === '' || !Number.isFinite(weight)) {
+      throw new Error(`line ${line}: weight '${row[weightAt] ?? ''}' is not a number`);
+    }
+    return { relation: options.relation, args: row.filter((_, k) => k !== weightAt), weight, line };
+  });
+  return factsToTensors(facts, options);
+}
+
+// ============================================================================
+// TENSORS TO TUPLES
+// ============================================================================
+
+/**
+ * A tensor entry read back as constants
+ */
+export interface DecodedTuple {
+  args: string[];
+  value: number;
+}
+
+/**
+ * Read the entries of a relation tensor as named tuples. `domains` gives
+ * each axis its symbol table (one domain applies to every axis); entries
+ * equal to `absent` are skipped — 0 by default, Infinity for min-plus
+ * results.
+ */
+export function decodeTuples(tensor: Tensor, domains: Domain | Domain[], absent = 0): DecodedTuple[] {
+  const axes = Array.isArray(domains) ? domains : tensor.shape.map(() => domains);
+  if (axes.length !== tensor.shape.length) {
+    throw new Error(`${tensor.name} has ${tensor.shape.length} axes but ${axes.length} domains were given`);
+  }
+  axes.forEach((domain, k) => {
+    if (domain.symbols.length < tensor.shape[k]) {
+      throw new Error(`${tensor.name} axis ${k} has size ${tensor.shape[k]} but domain ${domain.name} has ${domain.symbols.length} constants`);
+    }
+  });
+
+  const tuples: DecodedTuple[] = [];
+  const position = new Array(tensor.shape.length).fill(0);
+  for (let flat = 0; flat < tensor.data.length; flat++) {
+    const value = tensor.data[flat];
+    if (value !== absent && !Number.isNaN(value)) {
+      tuples.push({ args: position.map((p, k) => axes[k].symbols[p]), value });
+    }
+    for (let k = position.length - 1; k >= 0; k--) {
+      if (++position[k] < tensor.shape[k]) break;
+      position[k] = 0;
+    }
+  }
+  return tuples;
+}
+
+/**
+ * Write tuples back out as Datalog facts, with weights when they are not 1
+ */
+export function formatDatalogFacts(relation: string, tuples: DecodedTuple[]): string {
+  const quote = (s: string): string => (/^[A-Za-z_][A-Za-z0-9_]*$|^-?\d+(\.\d+)?$/.test(s) ? s : JSON.stringify(s));
+  return tuples
+    .map(({ args, value }) => `${value === 1 ? '' : `${value}::`}${relation}(${args.map(quote).join(', ')}).`)
+    .join('\n');
+}
@@ -0,0 +1,339 @@
+/**
+ * FORWARD CHAINING TO A FIXPOINT
+ *
+ * Computes the deductive closure of a recursive tensor logic program:
+ *
+ *   Ancestor[x, y] = Parent[x, y]
+ *   Ancestor[x, z] = Ancestor[x, y] Parent[y, z]
+ *
+ * Rules are applied until no relation changes. The engine is generic over
+ * the Semiring interface from raptl.ts, so the same program computes:
+ * - Boolean:  reachability (is there a path?)
+ * - Counting: number of derivations (how many paths?)
+ * - MinPlus:  shortest paths (what is the cheapest path?)
+ * - WhyProvenance (semirings.ts): which facts derive each answer?
+ *
+ * SEMI-NAIVE EVALUATION:
+ * Naive evaluation re-joins every fact on every iteration. Semi-naive
+ * evaluation only joins what changed: with Δ the facts derived in the last
+ * iteration, a rule's new derivations are
+ *
+ *   ⊕_i  Body₁ⁿᵉʷ ⊗ ... ⊗ Bodyᵢ₋₁ⁿᵉʷ ⊗ ΔBodyᵢ ⊗ Bodyᵢ₊₁ᵒˡᵈ ⊗ ... ⊗ Bodyₙᵒˡᵈ
+ *
+ * which by distributivity is exactly f(new) - f(old). For idempotent
+ * semirings (Boolean, MinPlus, Viterbi) Δ keeps only entries whose value
+ * actually changed; for the others (Counting) Δ is the increment itself.
+ *
+ * Relations are held as semiring tensors throughout, so values are never
+ * round-tripped through numbers between iterations: ordinary input tensors
+ * are lifted with fromNumber once, and the results lowered with toNumber
+ * once (a MinPlus relation lowers to Infinity for missing edges). The
+ * native values are returned as well, for semirings whose values are not
+ * numbers.
+ */
+
+import { Tensor } from './core';
+import {
+  Semiring,
+  SemiringTensor,
+  BooleanSemiring,
+  createSemiringTensor,
+  cloneSemiringTensor,
+  liftTensor,
+  lowerTensor,
+  semiringContract,
+} from './raptl';
+import { TensorProgram, Factor, parseProgram } from './parser';
+
+/**
+ * A rule Head ⊕= einsum(notation, ...body) over a semiring
+ */
+export interface FixpointRule {
+  /** Relation being derived */
+  head: string;
+  /** Relations joined in the body, in notation order */
+  body: string[];
+  /** Einsum notation over the body, e.g. 'xy,yz->xz' */
+  notation: string;
+  /** Source text of the equation the rule came from, if any */
+  source?: string;
+}
+
+/**
+ * Options for forward chaining
+ */
+export interface ForwardChainOptions {
+  /** Iteration cap; programs that have not converged by then report converged: false */
+  maxIterations?: number;
+  /** Use semi-naive (delta) evaluation; false re-joins everything each iteration */
+  semiNaive?: boolean;
+  /** Override idempotence detection (a ⊕ a = a) */
+  idempotent?: boolean;
+  /** Called after every iteration with the current relations and the facts just derived */
+  onIteration?: (iteration: number, relations: Map<string, Tensor>, delta: Map<string, Tensor>) => void;
+}
+
+/**
+ * Result of forward chaining
+ */
+export interface FixpointResult<T = unknown> {
+  /** Every relation (given and derived) at the fixpoint, lowered to numbers */
+  relations: Map<string, Tensor>;
+  /** The same relations as semiring values */
+  values: Map<string, SemiringTensor<T>>;
+  /** Number of iterations performed */
+  iterations: number;
+  /** True if a fixpoint was reached within maxIterations */
+  converged: boolean;
+  /** Number of changed entries per iteration */
+  deltaSizes: number[];
+  /** Number of einsum joins evaluated in total */
+  joins: number;
+}
+
+/**
+ * Convert a parsed program into fixpoint rules.
+ * Each equation must be a single join of tensors over index variables;
+ * a top-level step(...) is accepted and dropped, since the semiring's
+ * addition already provides the OR.
+ */
+export function rulesFromProgram(program: TensorProgram | string): FixpointRule[] {
+  const parsed = typeof program === 'string' ? parseProgram(program) : program;
+
+  return parsed.equations.map((eq) => {
+    const where = `line ${eq.line}: "${eq.source}"`;
+    let expr = eq.rhs;
+    const only = expr.terms[0]?.factors[0];
+    if (expr.terms.length === 1 && expr.terms[0].factors.length === 1 && only?.kind === 'apply' && only.fn === 'step') {
+      expr = only.argument;
+    }
+
+    if (expr.terms.length !== 1) {
+      throw new Error(`${where} has ${expr.terms.length} terms; write one equation per term`);
+    }
+    const term = expr.terms[0];
+    if (term.coefficient !== 1) {
+      throw new Error(`${where} has a numeric coefficient, which has no semiring meaning`);
+    }
+
+    const letters = new Map<string, string>();
+    const letterFor = (name: string): string => {
+      if (!letters.has(name)) {
+        letters.set(name, 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ'[letters.size]);
+      }
+      return letters.get(name)!;
+    };
+
+    const body: string[] = [];
+    const inputs: string[] = [];
+    term.factors.forEach((factor: Factor) => {
+      if (factor.kind !== 'tensor') {
+        throw new Error(`${where} must be a join of relations; nonlinearities and nested sums are not supported`);
+      }
+      body.push(factor.name);
+      inputs.push(factor.indices.map((idx) => {
+        if (idx.kind !== 'variable') {
+          throw new Error(`${where} uses constant slice ${idx.value}, which forward chaining does not support`);
+        }
+        return letterFor(idx.name);
+      }).join(''));
+    });
+
+    const output = eq.lhs.indices.map((idx) => {
+      if (idx.kind !== 'variable') {
+        throw new Error(`${where} uses constant slice ${idx.value} on the left-hand side`);
+      }
+      if (!letters.has(idx.name)) {
+        throw new Error(`${where}: index '${idx.name}' on the left-hand side does not appear in the body`);
+      }
+      return letterFor(idx.name);
+    }).join('');
+
+    return { head: eq.lhs.name, body, notation: `${inputs.join(',')}->${output}`, source: eq.source };
+  });
+}
+
+/**
+ * Infer the shape of every derived relation from the rules that define it
+ */
+export function inferRelationShapes(rules: FixpointRule[], facts: Map<string, { shape: number[] }>): Map<string, number[]> {
+  const shapes = new Map<string, number[]>();
+  facts.forEach((t, name) => shapes.set(name, t.shape));
+
+  let progress = true;
+  while (progress) {
+    progress = false;
+    for (const rule of rules) {
+      if (shapes.has(rule.head)) continue;
+      if (!rule.body.every((name) => shapes.has(name))) continue;
+
+      const [inputPart, output] = rule.notation.split('->');
+      const sizes = new Map<string, number>();
+      inputPart.split(',').forEach((indices, t) => {
+        const shape = shapes.get(rule.body[t])!;
+        [...indices].forEach((idx, i) => sizes.set(idx, shape[i]));
+      });
+      shapes.set(rule.head, [...output].map((idx) => sizes.get(idx)!));
+      progress = true;
+    }
+  }
+
+  for (const rule of rules) {
+    if (!shapes.has(rule.head)) {
+      const missing = rule.body.filter((name) => !shapes.has(name));
+      throw new Error(`Cannot determine the shape of ${rule.head}: no facts for ${missing.join(', ')}`);
+    }
+  }
+
+  return shapes;
+}
+
+/**
+ * Run a set of rules to a fixpoint over a semiring.
+ *
+ * @param rules - Rules, or a program to convert with rulesFromProgram
+ * @param facts - Initial relations (EDB facts, and optional seeds for derived relations),
+ *   as ordinary tensors to lift with fromNumber or as semiring tensors used as they are
+ * @param semiring - Algebra to evaluate in (defaults to Boolean)
+ */
+export function forwardChain<T>(
+  rules: FixpointRule[] | TensorProgram | string,
+  facts: Map<string, Tensor | SemiringTensor<T>>,
+  semiring: Semiring<T> = BooleanSemiring as unknown as Semiring<T>,
+  options: ForwardChainOptions = {}
+): FixpointResult<T> {
+  const ruleList = Array.isArray(rules) ? rules : rulesFromProgram(rules);
+  const maxIterations = options.maxIterations ?? 100;
+  const semiNaive = options.semiNaive ?? true;
+  const equals = semiring.equals ?? ((a: T, b: T) => a === b);
+  const idempotent = options.idempotent ?? equals(semiring.add(semiring.one, semiring.one), semiring.one);
+
+  const shapes = inferRelationShapes(ruleList, facts);
+  const derived = new Set(ruleList.map((r) => r.head));
+
+  // Derived relations take their index names from the first rule defining them
+  const headIndices = new Map<string, string[]>();
+  for (const rule of ruleList) {
+    if (!headIndices.has(rule.head)) {
+      headIndices.set(rule.head, facts.get(rule.head)?.indices ?? [...rule.notation.split('->')[1]]);
+    }
+  }
+
+  const emptyLike = (name: string): SemiringTensor<T> =>
+    createSemiringTensor(semiring, name, headIndices.get(name)!, shapes.get(name)!);
+
+  // Current values, lifted into the semiring once; derived relations start
+  // from their seed facts (or zero)
+  const relations = new Map<string, SemiringTensor<T>>();
+  facts.forEach((t, name) => {
+    if ('semiring' in t && t.semiring !== semiring) {
+      throw new Error(`${name} holds ${t.semiring.name} values but the rules run in ${semiring.name}`);
+    }
+    relations.set(name, 'semiring' in t ? cloneSemiringTensor(t) : liftTensor(semiring, t));
+  });
+  for (const name of derived) {
+    if (!relations.has(name)) relations.set(name, emptyLike(name));
+  }
+
+  const initial = new Map<string, SemiringTensor<T>>();
+  derived.forEach((name) => initial.set(name, cloneSemiringTensor(relations.get(name)!)));
+
+  let previous = new Map<string, SemiringTensor<T>>();
+  let delta = new Map<string, SemiringTensor<T>>();
+  let joins = 0;
+  const deltaSizes: number[] = [];
+  let iteration = 0;
+  let converged = false;
+
+  const accumulate = (target: SemiringTensor<T>, contribution: SemiringTensor<T>): void => {
+    for (let i = 0; i < target.data.length; i++) {
+      target.data[i] = semiring.add(target.data[i], contribution.data[i]);
+    }
+  };
+
+  const lowerAll = (tensors: Map<string, SemiringTensor<T>>): Map<string, Tensor> =>
+    new Map([...tensors].map(([name, t]) => [name, lowerTensor(t)]));
+
+  while (iteration < maxIterations) {
+    iteration++;
+    const firstRound = iteration === 1 || !semiNaive;
+
+    // Contributions of every rule this iteration, per head
+    const contributions = new Map<string, SemiringTensor<T>>();
+    for (const name of derived) contributions.set(name, emptyLike(name));
+
+    for (const rule of ruleList) {
+      const target = contributions.get(rule.head)!;
+
+      if (firstRound) {
+        const operands = rule.body.map((name) => relations.get(name)!);
+        accumulate(target, semiringContract(rule.notation, ...operands));
+        joins++;
+        continue;
+      }
+
+      rule.body.forEach((name, i) => {
+        const d = delta.get(name);
+        if (!d) return; // Relations that did not change contribute no new derivations
+
+        const operands = rule.body.map((other, j) => {
+          if (j < i) return relations.get(other)!;
+          if (j === i) return d;
+          return previous.get(other) ?? relations.get(other)!;
+        });
+        accumulate(target, semiringContract(rule.notation, ...operands));
+        joins++;
+      });
+    }
+
+    // Apply contributions and compute the delta for the next iteration
+    const nextPrevious = new Map<string, SemiringTensor<T>>();
+    const nextDelta = new Map<string, SemiringTensor<T>>();
+    let changedEntries = 0;
+
+    for (const name of derived) {
+      const current = relations.get(name)!;
+      const contribution = contributions.get(name)!;
+      nextPrevious.set(name, cloneSemiringTensor(current));
+
+      let updated: SemiringTensor<T>;
+      if (!semiNaive && !idempotent) {
+        // Naive Jacobi iteration: V = Facts ⊕ f(V)
+        updated = cloneSemiringTensor(initial.get(name)!);
+        accumulate(updated, contribution);
+      } else {
+        updated = cloneSemiringTensor(current);
+        accumulate(updated, contribution);
+      }
+
+      // Idempotent: Δ holds only entries that changed, at their new value.
+      // Otherwise every contribution is a new derivation, so Δ is the increment.
+      const d = idempotent ? emptyLike(name) : cloneSemiringTensor(contribution);
+      let changed = 0;
+      for (let i = 0; i < updated.data.length; i++) {
+        if (!equals(updated.data[i], current.data[i])) {
+          changed++;
+          if (idempotent) d.data[i] = updated.data[i];
+        }
+      }
+
+      changedEntries += changed;
+      relations.set(name, { ...updated, name });
+      if (changed > 0) nextDelta.set(name, d);
+    }
+
+    previous = nextPrevious;
+    delta = nextDelta;
+    deltaSizes.push(changedEntries);
+    if (options.onIteration) {
+      options.onIteration(iteration, lowerAll(relations), lowerAll(delta));
+    }
+
+    if (changedEntries === 0) {
+      converged = true;
+      break;
+    }
+  }
+
+  return { relations: lowerAll(relations), values: relations, iterations: iteration, converged, deltaSizes, joins };
+}
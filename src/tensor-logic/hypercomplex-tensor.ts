@@ -20,6 +20,8 @@ import {
   CayleyDickson,
   algebraDimension,
 } from './hypercomplex';
+import { compileEinsum, forEachEinsumTerm } from './kernels';
+import { Random, defaultRandom } from './random';
 
 /**
  * A hypercomplex-valued tensor
@@ -33,14 +35,16 @@ export interface HypercomplexTensor {
 }
 
 /**
- * Create a hypercomplex tensor
+ * Create a hypercomplex tensor ('random' components are uniform in [-1, 1),
+ * drawn from `rng`)
  */
 export function createHypercomplexTensor(
   name: string,
   indices: string[],
   shape: number[],
   algebraType: AlgebraType,
-  initializer: 'zeros' | 'ones' | 'random' | HypercomplexNumber[] = 'zeros'
+  initializer: 'zeros' | 'ones' | 'random' | HypercomplexNumber[] = 'zeros',
+  rng: Random = defaultRandom()
 ): HypercomplexTensor {
   const size = shape.reduce((a, b) => a * b, 1);
   const dim = algebraDimension(algebraType);
@@ -63,7 +67,7 @@ export function createHypercomplexTensor(
     data = Array.from({ length: size }, () => {
       const components = new Float64Array(dim);
       for (let i = 0; i < dim; i++) {
-        components[i] = (Math.random() - 0.5) * 2;
+        components[i] = rng.range(-1, 1);
       }
       return new CayleyDickson(components, algebraType);
     });
@@ -79,7 +83,8 @@ export function createComplexTensor(
   name: string,
   indices: string[],
   shape: number[],
-  initializer: 'zeros' | 'ones' | 'random' | Complex[] = 'zeros'
+  initializer: 'zeros' | 'ones' | 'random' | Complex[] = 'zeros',
+  rng: Random = defaultRandom()
 ): HypercomplexTensor {
   const size = shape.reduce((a, b) => a * b, 1);
   let data: Complex[];
@@ -92,7 +97,7 @@ export function createComplexTensor(
     data = Array.from({ length: size }, () => new Complex(1, 0));
   } else {
     data = Array.from({ length: size }, () => 
-      new Complex(Math.random() - 0.5, Math.random() - 0.5)
+      new Complex(rng.uniform() - 0.5, rng.uniform() - 0.5)
     );
   }
 
@@ -106,7 +111,8 @@ export function createQuaternionTensor(
   name: string,
   indices: string[],
   shape: number[],
-  initializer: 'zeros' | 'ones' | 'random' | Quaternion[] = 'zeros'
+  initializer: 'zeros' | 'ones' | 'random' | Quaternion[] = 'zeros',
+  rng: Random = defaultRandom()
 ): HypercomplexTensor {
   const size = shape.reduce((a, b) => a * b, 1);
   let data: Quaternion[];
@@ -120,10 +126,10 @@ export function createQuaternionTensor(
   } else {
     data = Array.from({ length: size }, () => 
       new Quaternion(
-        Math.random() - 0.5,
-        Math.random() - 0.5,
-        Math.random() - 0.5,
-        Math.random() - 0.5
+        rng.uniform() - 0.5,
+        rng.uniform() - 0.5,
+        rng.uniform() - 0.5,
+        rng.uniform() - 0.5
       )
     );
   }
@@ -180,10 +186,6 @@ export function hypercomplexEinsum(
   notation: string,
   ...tensors: HypercomplexTensor[]
 ): HypercomplexTensor {
-  // Parse the einsum notation
-  const [inputPart, outputIndices] = notation.split('->');
-  const inputIndices = inputPart.split(',');
-
   // Verify all tensors have the same algebra type
   const algebraType = tensors[0].algebraType;
   for (const t of tensors) {
@@ -192,131 +194,55 @@ export function hypercomplexEinsum(
     }
   }
 
-  // Build index size map
-  const indexSizes = new Map<string, number>();
-  for (let t = 0; t < tensors.length; t++) {
-    const indices = inputIndices[t];
-    for (let i = 0; i < indices.length; i++) {
-      const idx = indices[i];
-      const size = tensors[t].shape[i];
-      if (indexSizes.has(idx)) {
-        if (indexSizes.get(idx) !== size) {
-          throw new Error(`Index ${idx} has inconsistent sizes`);
-        }
-      } else {
-        indexSizes.set(idx, size);
-      }
-    }
-  }
-
-  // Determine output shape
-  const outputShape = [...outputIndices].map((idx) => indexSizes.get(idx)!);
-  const outputSize = outputShape.reduce((a, b) => a * b, 1);
+  const compiled = compileEinsum(notation, tensors.map((t) => t.shape));
 
   // Initialize output with zeros
   const dim = algebraDimension(algebraType);
-  const outputData: HypercomplexNumber[] = Array.from({ length: outputSize }, () => {
+  const outputData: HypercomplexNumber[] = Array.from({ length: compiled.outputSize }, () => {
     const components = new Float64Array(dim);
     return new CayleyDickson(components, algebraType);
   });
 
-  // All indices (including contracted ones)
-  const allIndices = [...new Set([...inputIndices.join('')])];
-
-  // Compute strides for output tensor
-  const outputStrides = new Map<string, number>();
-  let stride = 1;
-  for (let i = outputIndices.length - 1; i >= 0; i--) {
-    outputStrides.set(outputIndices[i], stride);
-    stride *= outputShape[i];
-  }
-
-  // Compute strides for input tensors
-  const inputStrides: Map<string, number>[] = [];
-  for (let t = 0; t < tensors.length; t++) {
-    const strides = new Map<string, number>();
-    let s = 1;
-    for (let i = inputIndices[t].length - 1; i >= 0; i--) {
-      strides.set(inputIndices[t][i], s);
-      s *= tensors[t].shape[i];
-    }
-    inputStrides.push(strides);
-  }
-
-  // Generate all combinations of index values
-  const indexRanges = allIndices.map((idx) => indexSizes.get(idx)!);
-
-  // Iterate over all possible index combinations
-  const indexValues = new Array(allIndices.length).fill(0);
-
-  const iterate = (depth: number): void => {
-    if (depth === allIndices.length) {
-      // Compute the product of all tensor elements at current indices
-      let product: HypercomplexNumber = tensors[0].data[0];
-      
-      for (let t = 0; t < tensors.length; t++) {
-        let flatIndex = 0;
-        for (let i = 0; i < inputIndices[t].length; i++) {
-          const idx = inputIndices[t][i];
-          const idxPos = allIndices.indexOf(idx);
-          flatIndex += indexValues[idxPos] * (inputStrides[t].get(idx) ?? 0);
-        }
-        
-        const element = tensors[t].data[flatIndex];
-        if (t === 0) {
-          product = element;
-        } else {
-          // Use appropriate multiplication based on type
-          if (element instanceof Complex && product instanceof Complex) {
-            product = product.multiply(element);
-          } else if (element instanceof Quaternion && product instanceof Quaternion) {
-            product = product.multiply(element);
-          } else if (element instanceof Octonion && product instanceof Octonion) {
-            product = product.multiply(element);
-          } else if (element instanceof Sedenion && product instanceof Sedenion) {
-            product = product.multiply(element);
-          } else if (element instanceof CayleyDickson && product instanceof CayleyDickson) {
-            product = product.multiply(element);
-          }
-        }
+  // Operands are multiplied left to right: the order matters for
+  // non-commutative and non-associative algebras
+  forEachEinsumTerm(compiled, (outputFlatIndex, offsets) => {
+    let product: HypercomplexNumber = tensors[0].data[offsets[0]];
+
+    for (let t = 1; t < tensors.length; t++) {
+      const element = tensors[t].data[offsets[t]];
+      // Use appropriate multiplication based on type
+      if (element instanceof Complex && product instanceof Complex) {
+        product = product.multiply(element);
+      } else if (element instanceof Quaternion && product instanceof Quaternion) {
+        product = product.multiply(element);
+      } else if (element instanceof Octonion && product instanceof Octonion) {
+        product = product.multiply(element);
+      } else if (element instanceof Sedenion && product instanceof Sedenion) {
+        product = product.multiply(element);
+      } else if (element instanceof CayleyDickson && product instanceof CayleyDickson) {
+        product = product.multiply(element);
       }
-
-      // Add to output at appropriate position
-      let outputFlatIndex = 0;
-      for (let i = 0; i < outputIndices.length; i++) {
-        const idx = outputIndices[i];
-        const idxPos = allIndices.indexOf(idx);
-        outputFlatIndex += indexValues[idxPos] * (outputStrides.get(idx) ?? 0);
-      }
-      
-      // Accumulate result
-      const current = outputData[outputFlatIndex];
-      if (current instanceof Complex && product instanceof Complex) {
-        outputData[outputFlatIndex] = current.add(product);
-      } else if (current instanceof Quaternion && product instanceof Quaternion) {
-        outputData[outputFlatIndex] = current.add(product);
-      } else if (current instanceof Octonion && product instanceof Octonion) {
-        outputData[outputFlatIndex] = current.add(product);
-      } else if (current instanceof Sedenion && product instanceof Sedenion) {
-        outputData[outputFlatIndex] = current.add(product);
-      } else if (current instanceof CayleyDickson && product instanceof CayleyDickson) {
-        outputData[outputFlatIndex] = current.add(product);
-      }
-      return;
     }
 
-    for (let v = 0; v < indexRanges[depth]; v++) {
-      indexValues[depth] = v;
-      iterate(depth + 1);
+    // Accumulate result
+    const current = outputData[outputFlatIndex];
+    if (current instanceof Complex && product instanceof Complex) {
+      outputData[outputFlatIndex] = current.add(product);
+    } else if (current instanceof Quaternion && product instanceof Quaternion) {
+      outputData[outputFlatIndex] = current.add(product);
+    } else if (current instanceof Octonion && product instanceof Octonion) {
+      outputData[outputFlatIndex] = current.add(product);
+    } else if (current instanceof Sedenion && product instanceof Sedenion) {
+      outputData[outputFlatIndex] = current.add(product);
+    } else if (current instanceof CayleyDickson && product instanceof CayleyDickson) {
+      outputData[outputFlatIndex] = current.add(product);
     }
-  };
-
-  iterate(0);
+  });
 
   return {
     name: 'result',
-    shape: outputShape,
-    indices: [...outputIndices],
+    shape: compiled.outputShape,
+    indices: [...compiled.outputIndices],
     data: outputData,
     algebraType,
   };
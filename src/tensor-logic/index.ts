@@ -1,8 +1,26 @@
 export * from './core';
+export * from './dtype';
+export * from './random';
+export * from './contraction';
+export * from './kernels';
+export * from './sparse';
+export * from './shape';
+export * from './reduce';
+export * from './logspace';
+export * from './autodiff';
+export * from './training';
 export * from './nestor';
 export * from './neural-nestor-morph';
 export * from './raptl';
+export * from './semirings';
+export * from './pln';
 export * from './hypercomplex';
 export * from './hypercomplex-tensor';
+export * from './parser';
+export * from './interpreter';
+export * from './fixpoint';
+export * from './query';
+export * from './domains';
+export * from './facts';
+export * from './serialize';
 export * from './examples';
-
@@ -0,0 +1,629 @@
+/**
+ * TENSOR LOGIC PROGRAM INTERPRETER
+ *
+ * Executes parsed tensor logic programs against the core engine. Each
+ * equation is compiled into the same einsum / threshold / sigmoid / softmax
+ * calls that the hand-written examples use:
+ *
+ *   Ancestor[x, z] = Ancestor[x, y] Parent[y, z]
+ *     → einsum('xy,yz->xz', Ancestor, Parent)
+ *
+ *   Y[n] = sig(WOut[d] Emb[n, L, d])
+ *     → sigmoid(einsum('a,ba->b', WOut, slice(Emb, L)))
+ *
+ * SEMANTICS:
+ * - Equations run in program order; each reads the current value of the
+ *   tensors it mentions (bound inputs or tensors derived earlier)
+ * - Equations sharing an LHS are summed, as in the paper; Datalog rules
+ *   (`←`) instead combine by OR, i.e. threshold of the sum
+ * - Product terms sum over every index absent from the LHS, then terms
+ *   are broadcast over the LHS indices they do not mention and added
+ * - A nonlinearity projects its argument onto the LHS indices it mentions
+ *   before being applied; softmax normalises over the last such index
+ *
+ * DOMAINS:
+ * Before anything runs, the program is type-checked against the domains of
+ * its inputs (Tensor.domains) and of index variables declared in
+ * options.indexDomains: every variable must range over one domain within
+ * an equation, and each LHS takes the domains of its variables, so types
+ * flow from equation to equation. A mismatch raises TensorProgramTypeError
+ * pointing at the offending index. Constants may name symbols of the
+ * axis's declared domain; lowercase symbols are quoted, e.g.
+ * `Parent('alice', y)`, since a bare `alice` is a variable.
+ */
+
+import {
+  Tensor,
+  createTensor,
+  einsum,
+  namedNotation,
+  threshold,
+  sigmoid,
+  relu,
+  softmax,
+  scale,
+  clone,
+  tensorToString,
+} from './core';
+import { castData, dtypeOf, promoteTypes } from './dtype';
+import { extractSlice } from './utils';
+import { Domain, domainSize } from './domains';
+import {
+  TensorProgram,
+  TensorEquation,
+  TensorRef,
+  SumExpr,
+  ProductTerm,
+  Nonlinearity,
+  SourceSpan,
+  parseProgram,
+  equationToString,
+} from './parser';
+
+/**
+ * One executed equation, in the same shape as the examples' step arrays
+ */
+export interface ProgramStep {
+  name: string;
+  explanation: string;
+  tensor: Tensor;
+  tensorString: string;
+}
+
+/**
+ * Result of running a program
+ */
+export interface ProgramResult {
+  /** Every tensor defined by an equation, keyed by LHS name */
+  tensors: Map<string, Tensor>;
+  /** One step per executed equation, in execution order */
+  trace: ProgramStep[];
+}
+
+/**
+ * Options for running a program
+ */
+export interface RunProgramOptions {
+  /** Values of named constant slices, e.g. { L: 2 } for `Emb[n, L, d]` */
+  constants?: Record<string, number>;
+  /** Declared domains: their sizes are checked against typed inputs, and their symbols may be used as constants */
+  domains?: Domain[];
+  /** Domains of index variables by name, e.g. { x: 'person', c: 'city' } */
+  indexDomains?: Record<string, string>;
+  /** Digits shown in each step's tensorString */
+  precision?: number;
+}
+
+/**
+ * Evaluation state shared by the equations of one run
+ */
+interface EvalContext {
+  env: Map<string, Tensor>;
+  constants: Record<string, number>;
+  /** Domains of each tensor's axes, from checkProgramDomains */
+  types: Map<string, (string | null)[]>;
+  domains: Map<string, Domain>;
+  equation: TensorEquation;
+  /** Human-readable record of the core calls issued for the current equation */
+  calls: string[];
+}
+
+function fail(ctx: EvalContext, span: SourceSpan, message: string): never {
+  throw new Error(`line ${span.line}, column ${span.column}: ${message} (in "${ctx.equation.source}")`);
+}
+
+/**
+ * Raised before a program runs when an index joins axes of different
+ * domains. The message quotes the equation with a caret under the index.
+ */
+export class TensorProgramTypeError extends Error {
+  constructor(message: string, public readonly line: number, public readonly column: number) {
+    super(message);
+    this.name = 'TensorProgramTypeError';
+  }
+}
+
+/**
+ * Variables mentioned anywhere inside an expression
+ */
+function freeVariables(expr: SumExpr, out = new Set<string>()): Set<string> {
+  for (const term of expr.terms) {
+    for (const factor of term.factors) {
+      if (factor.kind === 'tensor') {
+        for (const idx of factor.indices) {
+          if (idx.kind === 'variable') out.add(idx.name);
+        }
+      } else if (factor.kind === 'apply') {
+        freeVariables(factor.argument, out);
+      } else if (factor.kind === 'sum') {
+        freeVariables(factor, out);
+      }
+    }
+  }
+  return out;
+}
+
+/**
+ * Run einsum over operands whose indices are (possibly multi-character)
+ * variable names, by assigning each name a single-letter einsum index.
+ */
+function namedEinsum(ctx: EvalContext, operands: Tensor[], output: string[]): Tensor {
+  const notation = namedNotation(operands.map((t) => t.indices), output);
+  ctx.calls.push(`einsum('${notation}', ${operands.map((t) => t.name).join(', ')})`);
+
+  const result = einsum(notation, ...operands);
+  return { ...result, indices: [...output] };
+}
+
+/**
+ * Broadcast a tensor over extra indices, reordering to `indices`
+ */
+function broadcastTo(tensor: Tensor, indices: string[], sizes: Map<string, number>): Tensor {
+  if (tensor.indices.join('\0') === indices.join('\0')) {
+    return tensor;
+  }
+
+  const shape = indices.map((idx) => sizes.get(idx)!);
+  const result = createTensor(tensor.name, [...indices], shape, 'zeros');
+
+  const sourceStrides = new Map<string, number>();
+  let stride = 1;
+  for (let i = tensor.indices.length - 1; i >= 0; i--) {
+    sourceStrides.set(tensor.indices[i], stride);
+    stride *= tensor.shape[i];
+  }
+
+  const coords = new Array(indices.length).fill(0);
+  for (let flat = 0; flat < result.data.length; flat++) {
+    let rem = flat;
+    for (let i = indices.length - 1; i >= 0; i--) {
+      coords[i] = rem % shape[i];
+      rem = Math.floor(rem / shape[i]);
+    }
+    let source = 0;
+    for (let i = 0; i < indices.length; i++) {
+      source += coords[i] * (sourceStrides.get(indices[i]) ?? 0);
+    }
+    result.data[flat] = tensor.data[source];
+  }
+
+  return result;
+}
+
+/**
+ * Look up a tensor reference, checking rank and applying constant slices
+ */
+function resolveRef(ctx: EvalContext, ref: TensorRef): Tensor {
+  const bound = ctx.env.get(ref.name);
+  if (!bound) {
+    fail(ctx, ref.span, `unknown tensor '${ref.name}'`);
+  }
+  if (bound.shape.length !== ref.indices.length) {
+    fail(ctx, ref.span, `'${ref.name}' has rank ${bound.shape.length} but is used with ${ref.indices.length} indices`);
+  }
+
+  let tensor: Tensor = { ...bound, indices: ref.indices.map((idx) => idx.kind === 'variable' ? idx.name : '') };
+
+  // Slice from the last dimension down so earlier dimension numbers stay valid
+  for (let dim = ref.indices.length - 1; dim >= 0; dim--) {
+    const idx = ref.indices[dim];
+    if (idx.kind !== 'constant') continue;
+    const position = resolveConstant(ctx, idx.value, idx.span, ref.name, dim);
+    if (position < 0 || position >= tensor.shape[dim]) {
+      fail(ctx, idx.span, `slice ${idx.value}=${position} is out of bounds for '${ref.name}' dimension of size ${tensor.shape[dim]}`);
+    }
+    tensor = extractSlice(tensor, dim, position);
+    ctx.calls.push(`extractSlice(${ref.name}, ${dim}, ${position})`);
+  }
+
+  const seen = new Set<string>();
+  for (const idx of ref.indices) {
+    if (idx.kind !== 'variable') continue;
+    if (seen.has(idx.name)) {
+      fail(ctx, idx.span, `index '${idx.name}' is repeated in '${ref.name}'`);
+    }
+    seen.add(idx.name);
+  }
+
+  return { ...tensor, name: ref.name };
+}
+
+/**
+ * Position of a constant: an integer, a name in options.constants, or a
+ * symbol of the axis's domain
+ */
+function resolveConstant(ctx: EvalContext, value: string | number, span: SourceSpan, tensor: string, axis: number): number {
+  if (typeof value === 'number') return value;
+  if (value in ctx.constants) return ctx.constants[value];
+  const domain = ctx.domains.get(ctx.types.get(tensor)?.[axis] ?? '');
+  const position = domain?.positions.get(value);
+  if (position === undefined) {
+    fail(ctx, span, `constant '${value}' has no value; pass it in options.constants`);
+  }
+  return position;
+}
+
+function mapData(tensor: Tensor, fn: (v: number) => number): Tensor {
+  return { ...tensor, data: Float64Array.from(tensor.data, fn), dtype: 'float64' };
+}
+
+function applyNonlinearity(ctx: EvalContext, fn: Nonlinearity, tensor: Tensor): Tensor {
+  ctx.calls.push(`${fn}(…)`);
+  switch (fn) {
+    case 'sig':
+      return sigmoid(tensor);
+    case 'relu':
+      return relu(tensor);
+    case 'step':
+      return threshold(tensor);
+    case 'softmax':
+      return tensor.shape.length === 0 ? mapData(tensor, () => 1) : softmax(tensor);
+    case 'tanh':
+      return mapData(tensor, Math.tanh);
+    case 'exp':
+      return mapData(tensor, Math.exp);
+    case 'log':
+      return mapData(tensor, Math.log);
+  }
+}
+
+/**
+ * Evaluate a sum of products onto the LHS variables it mentions
+ */
+function evaluateSum(ctx: EvalContext, expr: SumExpr, lhsVars: string[]): Tensor {
+  const mentioned = freeVariables(expr);
+  const output = lhsVars.filter((v) => mentioned.has(v));
+  const sizes = new Map<string, number>();
+
+  const terms = expr.terms.map((term) => {
+    const value = evaluateProduct(ctx, term, lhsVars);
+    value.indices.forEach((idx, i) => sizes.set(idx, value.shape[i]));
+    return value;
+  });
+
+  let total: Tensor | undefined;
+  for (const term of terms) {
+    const aligned = broadcastTo(term, output, sizes);
+    if (!total) {
+      // Sums are numeric: a bool or int term must not keep its storage type
+      total = aligned === term ? { ...term, data: new Float64Array(term.data), dtype: 'float64' } : aligned;
+    } else {
+      for (let i = 0; i < total.data.length; i++) {
+        total.data[i] += aligned.data[i];
+      }
+    }
+  }
+
+  return total!;
+}
+
+/**
+ * Evaluate one product term: join its factors and project onto the LHS
+ */
+function evaluateProduct(ctx: EvalContext, term: ProductTerm, lhsVars: string[]): Tensor {
+  const operands: Tensor[] = [];
+
+  for (const factor of term.factors) {
+    if (factor.kind === 'tensor') {
+      operands.push(resolveRef(ctx, factor));
+    } else if (factor.kind === 'apply') {
+      const inner = evaluateSum(ctx, factor.argument, lhsVars);
+      operands.push({ ...applyNonlinearity(ctx, factor.fn, inner), name: factor.fn });
+    } else if (factor.kind === 'sum') {
+      operands.push({ ...evaluateSum(ctx, factor, lhsVars), name: '(…)' });
+    }
+  }
+
+  if (operands.length === 0) {
+    return createTensor('const', [], [], new Float64Array([term.coefficient]));
+  }
+
+  const mentioned = new Set(operands.flatMap((t) => t.indices));
+  const output = lhsVars.filter((v) => mentioned.has(v));
+  const product = namedEinsum(ctx, operands, output);
+
+  return term.coefficient === 1 ? product : scale(product, term.coefficient);
+}
+
+/**
+ * Evaluate one equation's right-hand side over its full LHS shape
+ */
+function evaluateEquation(ctx: EvalContext): Tensor {
+  const { equation } = ctx;
+  const lhsVars = equation.lhs.indices.flatMap((idx) => idx.kind === 'variable' ? [idx.name] : []);
+  const value = evaluateSum(ctx, equation.rhs, lhsVars);
+
+  const missing = lhsVars.filter((v) => !value.indices.includes(v));
+  if (missing.length > 0) {
+    fail(ctx, equation.lhs.span, `index '${missing[0]}' on the left-hand side does not appear on the right-hand side`);
+  }
+
+  return broadcastTo(value, lhsVars, new Map(value.indices.map((idx, i) => [idx, value.shape[i]])));
+}
+
+/**
+ * Write an equation's value into its LHS, summing with (or, for rules,
+ * OR-ing into) any value the LHS already has.
+ */
+function assign(ctx: EvalContext, value: Tensor): { tensor: Tensor; combined: boolean } {
+  const { equation } = ctx;
+  const lhs = equation.lhs;
+  const existing = ctx.env.get(lhs.name);
+  const hasSlices = lhs.indices.some((idx) => idx.kind === 'constant');
+
+  if (!existing) {
+    if (hasSlices) {
+      fail(ctx, lhs.span, `'${lhs.name}' must already exist to assign into a constant slice`);
+    }
+    const tensor: Tensor = { ...value, name: lhs.name };
+    return { tensor: equation.operator === '←' ? threshold(tensor) : tensor, combined: false };
+  }
+
+  if (existing.shape.length !== lhs.indices.length) {
+    fail(ctx, lhs.span, `'${lhs.name}' has rank ${existing.shape.length} but is defined with ${lhs.indices.length} indices`);
+  }
+
+  // Map each element of the value to its position in the full LHS tensor
+  const strides: number[] = [];
+  let stride = 1;
+  for (let i = existing.shape.length - 1; i >= 0; i--) {
+    strides[i] = stride;
+    stride *= existing.shape[i];
+  }
+
+  let offset = 0;
+  const varStrides: number[] = [];
+  const varSizes: number[] = [];
+  lhs.indices.forEach((idx, dim) => {
+    if (idx.kind === 'constant') {
+      const position = resolveConstant(ctx, idx.value, idx.span, lhs.name, dim);
+      if (position < 0 || position >= existing.shape[dim]) {
+        fail(ctx, idx.span, `slice ${idx.value}=${position} is out of bounds for '${lhs.name}' dimension of size ${existing.shape[dim]}`);
+      }
+      offset += position * strides[dim];
+    } else {
+      varStrides.push(strides[dim]);
+      varSizes.push(existing.shape[dim]);
+    }
+  });
+
+  if (varSizes.join(',') !== value.shape.join(',')) {
+    fail(ctx, lhs.span, `'${lhs.name}' has shape [${existing.shape.join(', ')}] but the right-hand side has shape [${value.shape.join(', ')}]`);
+  }
+
+  // Accumulate in a type that holds both sides: bool or int storage would
+  // wrap and truncate a fractional value
+  const existingType = dtypeOf(existing);
+  const dtype = promoteTypes(existingType, dtypeOf(value));
+  const tensor = clone(existing);
+  tensor.data = castData(tensor.data, dtype);
+  tensor.dtype = dtype;
+  const coords = new Array(varSizes.length).fill(0);
+  for (let flat = 0; flat < value.data.length; flat++) {
+    let rem = flat;
+    let target = offset;
+    for (let i = varSizes.length - 1; i >= 0; i--) {
+      coords[i] = rem % varSizes[i];
+      rem = Math.floor(rem / varSizes[i]);
+      target += coords[i] * varStrides[i];
+    }
+    tensor.data[target] += value.data[flat];
+  }
+
+  if (equation.operator === '←' || (lhs.relation && existingType === 'bool')) {
+    const truth = threshold(tensor);
+    // A Boolean relation stays Boolean once the new facts are OR-ed in
+    return {
+      tensor: existingType === 'bool' ? { ...truth, data: castData(truth.data, 'bool'), dtype: 'bool' } : truth,
+      combined: true,
+    };
+  }
+  return { tensor, combined: true };
+}
+
+function describeStep(ctx: EvalContext, value: Tensor, combined: boolean): string {
+  const { equation } = ctx;
+  const summed = new Set<string>();
+  const collect = (expr: SumExpr): void => {
+    for (const term of expr.terms) {
+      term.summedIndices.forEach((idx) => summed.add(idx));
+      for (const factor of term.factors) {
+        if (factor.kind === 'apply') collect(factor.argument);
+        if (factor.kind === 'sum') collect(factor);
+      }
+    }
+  };
+  collect(equation.rhs);
+
+  const lines = [
+    `Tensor Logic:  ${equationToString(equation)}`,
+    '',
+    'Compiled to:',
+    ...ctx.calls.map((call) => `  ${call}`),
+    '',
+    summed.size > 0
+      ? `Summed out (projection): ${[...summed].join(', ')}`
+      : 'No indices summed out (pure join).',
+    `Result shape: [${value.shape.join(', ')}]`,
+  ];
+
+  if (combined) {
+    lines.push(equation.operator === '←'
+      ? `Combined with earlier ${equation.lhs.name} facts by OR (threshold of the sum).`
+      : `Summed with the earlier value of ${equation.lhs.name}.`);
+  }
+
+  return lines.join('\n');
+}
+
+// ============================================================================
+// DOMAIN CHECKING
+// ============================================================================
+
+function typeError(equation: TensorEquation, span: SourceSpan, message: string): never {
+  // The equation source starts at its LHS, so columns are relative to that
+  const caret = ' '.repeat(Math.max(0, span.column - equation.lhs.span.column));
+  throw new TensorProgramTypeError(
+    `line ${span.line}, column ${span.column}: ${message}\n  ${equation.source}\n  ${caret}^`,
+    span.line,
+    span.column
+  );
+}
+
+function forEachRef(expr: SumExpr, fn: (ref: TensorRef) => void): void {
+  for (const term of expr.terms) {
+    for (const factor of term.factors) {
+      if (factor.kind === 'tensor') fn(factor);
+      else if (factor.kind === 'apply') forEachRef(factor.argument, fn);
+      else if (factor.kind === 'sum') forEachRef(factor, fn);
+    }
+  }
+}
+
+/**
+ * Type-check a program's indices against domains without running it.
+ * Inputs are typed by Tensor.domains, index variables by
+ * options.indexDomains; untyped axes match anything.
+ *
+ * @returns The domains of every tensor's axes after the last equation
+ */
+export function checkProgramDomains(
+  program: TensorProgram | string,
+  bindings: Map<string, Tensor>,
+  options: RunProgramOptions = {}
+): Map<string, (string | null)[]> {
+  const parsed = typeof program === 'string' ? parseProgram(program) : program;
+  const declared = new Map((options.domains ?? []).map((d) => [d.name, d]));
+  const constants = options.constants ?? {};
+  const types = new Map<string, (string | null)[]>();
+
+  for (const [name, tensor] of bindings) {
+    if (!tensor.domains) continue;
+    tensor.domains.forEach((domain, axis) => {
+      const d = domain === null ? undefined : declared.get(domain);
+      if (d && domainSize(d) !== tensor.shape[axis]) {
+        throw new Error(`${name} axis ${axis} has size ${tensor.shape[axis]} but domain ${d.name} has size ${domainSize(d)}`);
+      }
+    });
+    types.set(name, [...tensor.domains]);
+  }
+
+  for (const equation of parsed.equations) {
+    const found = new Map<string, { domain: string; source: string }>();
+    const occurrences = new Map<string, number>();
+    const count = (ref: TensorRef): void => {
+      for (const idx of ref.indices) {
+        if (idx.kind === 'variable') occurrences.set(idx.name, (occurrences.get(idx.name) ?? 0) + 1);
+      }
+    };
+    count(equation.lhs);
+    forEachRef(equation.rhs, count);
+
+    for (const [variable, domain] of Object.entries(options.indexDomains ?? {})) {
+      found.set(variable, { domain, source: 'options.indexDomains' });
+    }
+
+    const visit = (ref: TensorRef): void => {
+      const axes = types.get(ref.name);
+      // Unknown tensors and rank mismatches are reported when the equation runs
+      if (!axes || axes.length !== ref.indices.length) return;
+      ref.indices.forEach((idx, axis) => {
+        const domain = axes[axis];
+        if (!domain) return;
+        if (idx.kind === 'variable') {
+          const seen = found.get(idx.name);
+          if (seen && seen.domain !== domain) {
+            typeError(equation, idx.span, `index '${idx.name}' ranges over ${domain} in ${ref.name} but over ${seen.domain} in ${seen.source}`);
+          }
+          if (!seen) found.set(idx.name, { domain, source: ref.name });
+          // A lone variable spelled like a symbol was almost certainly meant as one
+          if (occurrences.get(idx.name) === 1 && declared.get(domain)?.positions.has(idx.name)) {
+            typeError(equation, idx.span, `'${idx.name}' is a variable summed out of ${ref.name}, but also a symbol of domain ${domain}; quote it ('${idx.name}') to select it`);
+          }
+        } else if (typeof idx.value === 'string' && !(idx.value in constants)) {
+          const d = declared.get(domain);
+          if (d && d.symbols.length > 0 && !d.positions.has(idx.value)) {
+            typeError(equation, idx.span, `'${idx.value}' is not a constant of domain ${domain} in ${ref.name}`);
+          }
+        }
+      });
+    };
+
+    // An LHS that already exists fixes its variables' domains first
+    const lhs = equation.lhs;
+    visit(lhs);
+    forEachRef(equation.rhs, visit);
+
+    // Inputs must match the sizes of declared domains their indices range over
+    forEachRef(equation.rhs, (ref) => {
+      const bound = bindings.get(ref.name);
+      if (!bound || bound.shape.length !== ref.indices.length) return;
+      ref.indices.forEach((idx, axis) => {
+        if (idx.kind !== 'variable') return;
+        const d = declared.get(found.get(idx.name)?.domain ?? '');
+        if (d && domainSize(d) !== bound.shape[axis]) {
+          typeError(equation, idx.span, `index '${idx.name}' ranges over ${d.name} of size ${domainSize(d)} but ${ref.name} has size ${bound.shape[axis]} there`);
+        }
+      });
+    });
+
+    const existing = types.get(lhs.name);
+    const lhsTypes = lhs.indices.map((idx, axis) =>
+      idx.kind === 'variable' ? found.get(idx.name)?.domain ?? existing?.[axis] ?? null : existing?.[axis] ?? null
+    );
+    if (lhsTypes.some((d) => d !== null)) {
+      types.set(lhs.name, lhsTypes);
+    }
+  }
+
+  return types;
+}
+
+/**
+ * Run a tensor logic program.
+ *
+ * @param program - Parsed program, or program text to parse
+ * @param bindings - Input tensors (facts, weights, data) by name
+ * @returns All tensors defined by equations, plus a per-equation trace
+ */
+export function runProgram(
+  program: TensorProgram | string,
+  bindings: Map<string, Tensor>,
+  options: RunProgramOptions = {}
+): ProgramResult {
+  const parsed = typeof program === 'string' ? parseProgram(program) : program;
+  const types = checkProgramDomains(parsed, bindings, options);
+  const domains = new Map((options.domains ?? []).map((d) => [d.name, d]));
+  const env = new Map(bindings);
+  const tensors = new Map<string, Tensor>();
+  const trace: ProgramStep[] = [];
+  const precision = options.precision ?? 3;
+
+  for (const equation of parsed.equations) {
+    const ctx: EvalContext = {
+      env,
+      constants: options.constants ?? {},
+      types,
+      domains,
+      equation,
+      calls: [],
+    };
+
+    const value = evaluateEquation(ctx);
+    const { tensor, combined } = assign(ctx, value);
+    const lhsTypes = types.get(equation.lhs.name);
+    if (lhsTypes) tensor.domains = [...lhsTypes];
+
+    env.set(equation.lhs.name, tensor);
+    tensors.set(equation.lhs.name, tensor);
+
+    trace.push({
+      name: equationToString(equation),
+      explanation: describeStep(ctx, tensor, combined),
+      tensor: clone(tensor),
+      tensorString: tensorToString(tensor, precision),
+    });
+  }
+
+  return { tensors, trace };
+}
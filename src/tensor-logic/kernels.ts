@@ -0,0 +1,449 @@
+/**
+ * COMPILED EINSUM KERNELS
+ *
+ * An einsum is a loop nest: one loop per distinct index, with the output
+ * element and every operand element addressed by a linear combination of
+ * the loop counters. Compiling a notation once turns that into integer
+ * stride tables:
+ *
+ *   'ij,jk->ik'   loops i, k (free) and j (summed)
+ *                 A: i → 2, k → 0, j → 1        (strides of A[i,j] with J = 2)
+ *                 B: i → 0, k → 1, j → K
+ *
+ * Offsets are then advanced incrementally like an odometer instead of being
+ * recomputed from index names at every step. A repeated index within one
+ * operand ('ii->i') simply adds its strides, which reads the diagonal.
+ *
+ * Common patterns run in dedicated loops over the typed arrays:
+ * - matmul          'ij,jk->ik' (and any transposed layout of the operands)
+ * - batched-matmul  'bij,bjk->bik'
+ * - outer           'i,j->ij'
+ * - trace           'ii->'
+ * - transpose       'ij->ji' (any permutation without summation)
+ *
+ * NOTATION:
+ * The full NumPy einsum grammar is accepted and normalised to explicit
+ * single-character form before compiling:
+ * - whitespace is ignored:            'ij, jk -> ik'
+ * - implicit output ('ij,jk'):        indices appearing exactly once, in
+ *                                     alphabetical order ('ik'; 'ii' is a trace)
+ * - ellipsis ('...ij,...jk->...ik'):  the leading dimensions not named by
+ *                                     letters, broadcast NumPy-style (aligned
+ *                                     from the right, size 1 stretches)
+ */
+
+/**
+ * Which loop runs a compiled einsum
+ */
+export type EinsumKernel = 'matmul' | 'batched-matmul' | 'outer' | 'trace' | 'transpose' | 'general';
+
+/**
+ * Stride tables for an einsum over fixed operand shapes.
+ * Loops run over the output indices (free) in output order, then over the
+ * summed indices; the output is therefore written sequentially.
+ */
+export interface CompiledEinsum {
+  notation: string;
+  kernel: EinsumKernel;
+  outputIndices: string;
+  outputShape: number[];
+  outputSize: number;
+  /** Sizes of the free loops (the output shape) */
+  freeSizes: number[];
+  /** Sizes of the summed loops */
+  sumSizes: number[];
+  /** freeStrides[t][d]: step of operand t's offset along free loop d (0 if absent) */
+  freeStrides: number[][];
+  /** sumStrides[t][d]: step of operand t's offset along summed loop d */
+  sumStrides: number[][];
+}
+
+// ============================================================================
+// NOTATION
+// ============================================================================
+
+/**
+ * An einsum notation in explicit form: one index character per dimension
+ */
+export interface ParsedEinsum {
+  inputs: string[];
+  output: string;
+}
+
+const ELLIPSIS = '...';
+
+/**
+ * Characters for the dimensions covered by an ellipsis, skipping any the
+ * notation already uses
+ */
+function freshIndices(used: Set<string>): () => string {
+  const pool = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ';
+  let next = 0;
+  return () => {
+    for (;;) {
+      const c = next < pool.length ? pool[next] : String.fromCharCode(0xc0 + next - pool.length);
+      next++;
+      if (!used.has(c)) return c;
+    }
+  };
+}
+
+/**
+ * Split one term into its letters and whether (and where) it has an ellipsis
+ */
+function parseTerm(term: string, notation: string): { before: string; after: string; ellipsis: boolean } {
+  const at = term.indexOf(ELLIPSIS);
+  const ellipsis = at >= 0;
+  const before = ellipsis ? term.slice(0, at) : term;
+  const after = ellipsis ? term.slice(at + ELLIPSIS.length) : '';
+  for (const c of before + after) {
+    if (c === '.') {
+      throw new Error(`Einsum notation '${notation}' has a '.' that is not part of a single '...'`);
+    }
+    if (c === '-' || c === '>') {
+      throw new Error(`Einsum notation '${notation}' has a misplaced '${c}'; the output is separated by '->'`);
+    }
+  }
+  return { before, after, ellipsis };
+}
+
+/**
+ * Parse any NumPy einsum notation against operand shapes into explicit form
+ *
+ * @param notation - e.g. 'ij,jk->ik', 'ij,jk', '...ij,...jk->...ik', 'ii->i'
+ * @param shapes - Shape of each operand
+ */
+export function parseEinsum(notation: string, shapes: number[][]): ParsedEinsum {
+  const compact = notation.replace(/\s+/g, '');
+  const arrow = compact.split('->');
+  if (arrow.length > 2) {
+    throw new Error(`Einsum notation '${notation}' has more than one '->'`);
+  }
+  const [inputPart, outputPart] = arrow;
+  const terms = inputPart.split(',');
+  if (terms.length !== shapes.length) {
+    throw new Error(`Einsum notation '${notation}' has ${terms.length} operands but ${shapes.length} tensors were given`);
+  }
+
+  const parsed = terms.map((term) => parseTerm(term, notation));
+  const used = new Set(compact.replace(/[.,\->]/g, ''));
+  const fresh = freshIndices(used);
+
+  // Dimensions covered by each operand's ellipsis, and the broadcast shape
+  let broadcastRank = 0;
+  const ellipsisShapes = parsed.map(({ before, after, ellipsis }, t) => {
+    const named = before.length + after.length;
+    const rank = shapes[t].length;
+    if (ellipsis ? named > rank : named !== rank) {
+      throw new Error(`Operand ${t} of '${notation}' has ${named} indices but rank ${rank}`);
+    }
+    const covered = ellipsis ? shapes[t].slice(before.length, rank - after.length) : [];
+    broadcastRank = Math.max(broadcastRank, covered.length);
+    return covered;
+  });
+
+  const broadcastShape = new Array(broadcastRank).fill(1);
+  ellipsisShapes.forEach((covered, t) => {
+    covered.forEach((size, d) => {
+      const b = broadcastRank - covered.length + d;
+      if (size !== 1 && broadcastShape[b] !== 1 && broadcastShape[b] !== size) {
+        throw new Error(`Operand ${t} of '${notation}' cannot broadcast ellipsis dimensions [${covered.join(', ')}]`);
+      }
+      if (size !== 1) broadcastShape[b] = size;
+    });
+  });
+  const broadcastIndices = broadcastShape.map(() => fresh());
+
+  // A size-1 dimension stretched against a larger one gets its own index,
+  // which is summed over its single value
+  const inputs = parsed.map(({ before, after }, t) => {
+    const covered = ellipsisShapes[t];
+    const middle = covered.map((size, d) => {
+      const b = broadcastRank - covered.length + d;
+      return size === 1 && broadcastShape[b] !== 1 ? fresh() : broadcastIndices[b];
+    });
+    return before + middle.join('') + after;
+  });
+
+  const anyEllipsis = parsed.some((p) => p.ellipsis);
+  let output: string;
+  if (outputPart === undefined) {
+    const counts = new Map<string, number>();
+    for (const { before, after } of parsed) {
+      for (const c of before + after) counts.set(c, (counts.get(c) ?? 0) + 1);
+    }
+    const once = [...counts.keys()].filter((c) => counts.get(c) === 1).sort();
+    output = (anyEllipsis ? broadcastIndices.join('') : '') + once.join('');
+  } else {
+    const { before, after, ellipsis } = parseTerm(outputPart, notation);
+    if (ellipsis && !anyEllipsis) {
+      throw new Error(`Output of '${notation}' has '...' but no operand does`);
+    }
+    output = before + (ellipsis ? broadcastIndices.join('') : '') + after;
+    const named = new Set(parsed.map((p) => p.before + p.after).join(''));
+    for (const c of before + after) {
+      if (!named.has(c)) {
+        throw new Error(`Output index ${c} does not appear in any operand of '${notation}'`);
+      }
+    }
+    if (new Set(output).size !== output.length) {
+      throw new Error(`Output of '${notation}' repeats an index`);
+    }
+  }
+
+  return { inputs, output };
+}
+
+/**
+ * Rewrite any einsum notation in explicit form, e.g. 'ij,jk' → 'ij,jk->ik'
+ */
+export function normalizeEinsum(notation: string, shapes: number[][]): string {
+  const { inputs, output } = parseEinsum(notation, shapes);
+  return `${inputs.join(',')}->${output}`;
+}
+
+// ============================================================================
+// COMPILATION
+// ============================================================================
+
+/**
+ * Build the stride tables for a notation and operand shapes
+ */
+export function compileEinsum(notation: string, shapes: number[][]): CompiledEinsum {
+  const { inputs: inputIndices, output: outputIndices } = parseEinsum(notation, shapes);
+
+  const indexSizes = new Map<string, number>();
+  inputIndices.forEach((indices, t) => {
+    for (let i = 0; i < indices.length; i++) {
+      const idx = indices[i];
+      const size = shapes[t][i];
+      if (indexSizes.has(idx) && indexSizes.get(idx) !== size) {
+        throw new Error(`Index ${idx} has inconsistent sizes`);
+      }
+      indexSizes.set(idx, size);
+    }
+  });
+
+  const free = [...outputIndices];
+  const summed = [...indexSizes.keys()].filter((idx) => !free.includes(idx));
+
+  // Stride of each loop in each operand; repeated indices accumulate
+  const operandStrides = inputIndices.map((indices, t) => {
+    const strides = new Map<string, number>();
+    let stride = 1;
+    for (let i = indices.length - 1; i >= 0; i--) {
+      strides.set(indices[i], (strides.get(indices[i]) ?? 0) + stride);
+      stride *= shapes[t][i];
+    }
+    return strides;
+  });
+
+  const freeSizes = free.map((idx) => indexSizes.get(idx)!);
+  const compiled: CompiledEinsum = {
+    notation,
+    kernel: 'general',
+    outputIndices,
+    outputShape: freeSizes,
+    outputSize: freeSizes.reduce((a, b) => a * b, 1),
+    freeSizes,
+    sumSizes: summed.map((idx) => indexSizes.get(idx)!),
+    freeStrides: operandStrides.map((s) => free.map((idx) => s.get(idx) ?? 0)),
+    sumStrides: operandStrides.map((s) => summed.map((idx) => s.get(idx) ?? 0)),
+  };
+  compiled.kernel = classify(compiled, inputIndices);
+  return compiled;
+}
+
+function classify(c: CompiledEinsum, inputIndices: string[]): EinsumKernel {
+  const F = c.freeSizes.length;
+  const S = c.sumSizes.length;
+  const uses = (t: number, kind: 'free' | 'sum', d: number): boolean =>
+    (kind === 'free' ? c.freeStrides : c.sumStrides)[t][d] !== 0;
+
+  if (inputIndices.length === 1) {
+    const distinct = new Set(inputIndices[0]).size === inputIndices[0].length;
+    if (S === 0 && distinct) return 'transpose';
+    if (F === 0 && S === 1 && inputIndices[0].length === 2) return 'trace';
+    return 'general';
+  }
+
+  if (inputIndices.length !== 2) return 'general';
+  if (inputIndices.some((indices) => new Set(indices).size !== indices.length)) return 'general';
+
+  // Two operands: [A-only free, B-only free] with one shared summed index
+  if (F === 2 && S === 1 && uses(0, 'sum', 0) && uses(1, 'sum', 0) &&
+      uses(0, 'free', 0) !== uses(1, 'free', 0) && uses(0, 'free', 1) !== uses(1, 'free', 1) &&
+      uses(0, 'free', 0) !== uses(0, 'free', 1) && inputIndices[0].length === 2 && inputIndices[1].length === 2) {
+    return 'matmul';
+  }
+  if (F === 3 && S === 1 && uses(0, 'free', 0) && uses(1, 'free', 0) && uses(0, 'sum', 0) && uses(1, 'sum', 0) &&
+      uses(0, 'free', 1) !== uses(1, 'free', 1) && uses(0, 'free', 2) !== uses(1, 'free', 2) &&
+      uses(0, 'free', 1) !== uses(0, 'free', 2) && inputIndices[0].length === 3 && inputIndices[1].length === 3) {
+    return 'batched-matmul';
+  }
+  // Outer product: A's indices then B's, each in its own storage order
+  if (S === 0 && inputIndices[0] + inputIndices[1] === c.outputIndices) {
+    return 'outer';
+  }
+  return 'general';
+}
+
+// ============================================================================
+// GENERIC LOOP
+// ============================================================================
+
+/**
+ * Visit every term of the einsum in output order. `visit` receives the flat
+ * output position and the flat offset into each operand; all terms of an
+ * output element are visited consecutively.
+ */
+export function forEachEinsumTerm(
+  c: CompiledEinsum,
+  visit: (output: number, offsets: number[]) => void
+): void {
+  const n = c.freeStrides.length;
+  const F = c.freeSizes.length;
+  const S = c.sumSizes.length;
+  if (c.freeSizes.some((s) => s === 0) || c.sumSizes.some((s) => s === 0)) return;
+
+  const sumSize = c.sumSizes.reduce((a, b) => a * b, 1);
+  const base = new Array(n).fill(0);
+  const offsets = new Array(n).fill(0);
+  const freeCounter = new Array(F).fill(0);
+  const sumCounter = new Array(S).fill(0);
+
+  for (let out = 0; out < c.outputSize; out++) {
+    for (let t = 0; t < n; t++) offsets[t] = base[t];
+    for (let s = 0; s < sumSize; s++) {
+      visit(out, offsets);
+      for (let d = S - 1; d >= 0; d--) {
+        if (++sumCounter[d] < c.sumSizes[d]) {
+          for (let t = 0; t < n; t++) offsets[t] += c.sumStrides[t][d];
+          break;
+        }
+        sumCounter[d] = 0;
+        for (let t = 0; t < n; t++) offsets[t] -= (c.sumSizes[d] - 1) * c.sumStrides[t][d];
+      }
+    }
+
+    for (let d = F - 1; d >= 0; d--) {
+      if (++freeCounter[d] < c.freeSizes[d]) {
+        for (let t = 0; t < n; t++) base[t] += c.freeStrides[t][d];
+        break;
+      }
+      freeCounter[d] = 0;
+      for (let t = 0; t < n; t++) base[t] -= (c.freeSizes[d] - 1) * c.freeStrides[t][d];
+    }
+  }
+}
+
+// ============================================================================
+// REAL-VALUED KERNELS
+// ============================================================================
+
+/**
+ * out[i,k] = Σ_j A[i·ai + j·aj] · B[j·bj + k·bk], summing j in order
+ */
+function matmulInto(
+  out: Float64Array, outOffset: number,
+  A: ArrayLike<number>, aOffset: number, ai: number, aj: number,
+  B: ArrayLike<number>, bOffset: number, bj: number, bk: number,
+  I: number, J: number, K: number
+): void {
+  for (let i = 0; i < I; i++) {
+    const row = outOffset + i * K;
+    const aRow = aOffset + i * ai;
+    for (let j = 0; j < J; j++) {
+      const a = A[aRow + j * aj];
+      const bRow = bOffset + j * bj;
+      for (let k = 0; k < K; k++) {
+        out[row + k] += a * B[bRow + k * bk];
+      }
+    }
+  }
+}
+
+/**
+ * Evaluate a compiled einsum over real-valued operands
+ */
+export function runEinsum(c: CompiledEinsum, operands: ArrayLike<number>[]): Float64Array {
+  const out = new Float64Array(c.outputSize);
+
+  switch (c.kernel) {
+    case 'matmul': {
+      // Make A the operand that carries the first output index
+      const swap = c.freeStrides[0][0] === 0;
+      const [a, b] = swap ? [1, 0] : [0, 1];
+      matmulInto(
+        out, 0,
+        operands[a], 0, c.freeStrides[a][0], c.sumStrides[a][0],
+        operands[b], 0, c.sumStrides[b][0], c.freeStrides[b][1],
+        c.freeSizes[0], c.sumSizes[0], c.freeSizes[1]
+      );
+      return out;
+    }
+
+    case 'batched-matmul': {
+      const swap = c.freeStrides[0][1] === 0;
+      const [a, b] = swap ? [1, 0] : [0, 1];
+      const [batch, I, K] = c.freeSizes;
+      for (let n = 0; n < batch; n++) {
+        matmulInto(
+          out, n * I * K,
+          operands[a], n * c.freeStrides[a][0], c.freeStrides[a][1], c.sumStrides[a][0],
+          operands[b], n * c.freeStrides[b][0], c.sumStrides[b][0], c.freeStrides[b][2],
+          I, c.sumSizes[0], K
+        );
+      }
+      return out;
+    }
+
+    case 'outer': {
+      const [A, B] = operands;
+      let k = 0;
+      for (let p = 0; p < A.length; p++) {
+        const a = A[p];
+        for (let q = 0; q < B.length; q++) out[k++] = a * B[q];
+      }
+      return out;
+    }
+
+    case 'trace': {
+      const A = operands[0];
+      const step = c.sumStrides[0][0];
+      let sum = 0;
+      for (let i = 0; i < c.sumSizes[0]; i++) sum += A[i * step];
+      out[0] = sum;
+      return out;
+    }
+
+    case 'transpose': {
+      if (c.freeSizes.length === 2) {
+        const A = operands[0];
+        const [rows, cols] = c.freeSizes;
+        const [rs, cs] = c.freeStrides[0];
+        for (let i = 0; i < rows; i++) {
+          for (let j = 0; j < cols; j++) out[i * cols + j] = A[i * rs + j * cs];
+        }
+        return out;
+      }
+      break;
+    }
+  }
+
+  // General loop nest, specialised by operand count
+  if (operands.length === 1) {
+    const [A] = operands;
+    forEachEinsumTerm(c, (o, off) => { out[o] += A[off[0]]; });
+  } else if (operands.length === 2) {
+    const [A, B] = operands;
+    forEachEinsumTerm(c, (o, off) => { out[o] += A[off[0]] * B[off[1]]; });
+  } else {
+    forEachEinsumTerm(c, (o, off) => {
+      let product = 1;
+      for (let t = 0; t < operands.length; t++) product *= operands[t][off[t]];
+      out[o] += product;
+    });
+  }
+  return out;
+}
@@ -0,0 +1,321 @@
+/**
+ * LOG-SPACE INFERENCE FOR GRAPHICAL MODELS
+ *
+ * Inference in graphical models is einsum over probability tables, but a
+ * product of a few hundred probabilities underflows a double: 0.1^400 is 0.
+ * Working with logarithms turns the (+, ×) semiring into (logsumexp, +):
+ *
+ *   einsum:      C[i,k] = Σ_j A[i,j] · B[j,k]
+ *   logEinsum:   log C[i,k] = logsumexp_j (log A[i,j] + log B[j,k])
+ *
+ * which stays finite however long the product. On top of logEinsum:
+ * - hmmForward / hmmBackward: forward and backward messages of an HMM
+ * - hmmPosterior: P(S_t = s | all observations)
+ * - viterbi: the most likely hidden state sequence, in the (max, +) semiring
+ * - bayesMarginal: P(query | evidence) in a Bayesian network whose CPTs
+ *   are tensors indexed by variable name
+ */
+
+import { Tensor, createTensor, namedNotation } from './core';
+import { planContraction } from './contraction';
+import { SemiringTensor, LogSemiring, semiringContract } from './raptl';
+import { slice } from './shape';
+
+// ============================================================================
+// LOG-SPACE EINSUM
+// ============================================================================
+
+/**
+ * Element-wise natural logarithm (log 0 = -Infinity). The result is
+ * float64 whatever the input's dtype: bool and int storage cannot hold -∞.
+ */
+export function toLogSpace(tensor: Tensor): Tensor {
+  const data = Float64Array.from(tensor.data, Math.log);
+  return { ...tensor, shape: [...tensor.shape], indices: [...tensor.indices], data, dtype: 'float64' };
+}
+
+/**
+ * Element-wise exponential, back from log space, as float64
+ */
+export function fromLogSpace(tensor: Tensor): Tensor {
+  const data = Float64Array.from(tensor.data, Math.exp);
+  return { ...tensor, shape: [...tensor.shape], indices: [...tensor.indices], data, dtype: 'float64' };
+}
+
+/**
+ * Einsum in the log semiring: operands and result hold logarithms, sums
+ * become logsumexp and products become sums. Three or more operands are
+ * contracted pairwise in the order chosen by planContraction.
+ */
+export function logEinsum(notation: string, ...tensors: Tensor[]): Tensor {
+  // The values already are logarithms, i.e. native LogSemiring values
+  const operands: SemiringTensor<number>[] = tensors.map((t) => ({ ...t, semiring: LogSemiring }));
+  if (tensors.length > 2) {
+    const plan = planContraction(notation, tensors.map((t) => t.shape));
+    for (const step of plan.steps) {
+      operands.push(semiringContract(step.notation, operands[step.operands[0]], operands[step.operands[1]]));
+    }
+  } else {
+    operands.push(semiringContract(notation, ...operands));
+  }
+
+  const result = operands[operands.length - 1];
+  return { name: result.name, shape: result.shape, indices: result.indices, data: result.data as Float64Array };
+}
+
+/**
+ * Normalise a log-space tensor into probabilities summing to 1
+ */
+function normalizeLog(tensor: Tensor): Tensor {
+  const top = Math.max(...tensor.data);
+  if (top === -Infinity) {
+    throw new Error(`Cannot normalise ${tensor.name}: every configuration has probability 0`);
+  }
+  let total = 0;
+  for (const v of tensor.data) total += Math.exp(v - top);
+  const logZ = top + Math.log(total);
+  return { ...tensor, data: Float64Array.from(tensor.data, (v) => Math.exp(v - logZ)), dtype: 'float64' };
+}
+
+// ============================================================================
+// HIDDEN MARKOV MODELS
+// ============================================================================
+
+/**
+ * A hidden Markov model with S states and O observation symbols,
+ * given as probabilities
+ */
+export interface HiddenMarkovModel {
+  /** π[s]: distribution of the first state, shape [S] */
+  initial: Tensor;
+  /** A[s, s']: P(next state s' | state s), shape [S, S] */
+  transition: Tensor;
+  /** B[s, o]: P(observation o | state s), shape [S, O] */
+  emission: Tensor;
+}
+
+interface LogModel {
+  states: number;
+  logInitial: Tensor;
+  logTransition: Tensor;
+  /** Column of log B for each observation symbol, indexed by state */
+  logEmission: (o: number) => Tensor;
+}
+
+function logModel(hmm: HiddenMarkovModel, observations: number[]): LogModel {
+  const [S] = hmm.initial.shape;
+  if (hmm.initial.shape.length !== 1 || hmm.transition.shape.join(',') !== `${S},${S}` ||
+      hmm.emission.shape.length !== 2 || hmm.emission.shape[0] !== S) {
+    throw new Error(
+      `HMM shapes do not fit: initial [${hmm.initial.shape.join(', ')}], ` +
+      `transition [${hmm.transition.shape.join(', ')}], emission [${hmm.emission.shape.join(', ')}]`
+    );
+  }
+  const O = hmm.emission.shape[1];
+  if (observations.length === 0) {
+    throw new Error('HMM inference needs at least one observation');
+  }
+  for (const o of observations) {
+    if (!Number.isInteger(o) || o < 0 || o >= O) {
+      throw new Error(`Observation ${o} is not one of the model's ${O} symbols`);
+    }
+  }
+
+  const logB = toLogSpace(hmm.emission);
+  const columns = new Map<number, Tensor>();
+  return {
+    states: S,
+    logInitial: { ...toLogSpace(hmm.initial), indices: ['s'] },
+    logTransition: { ...toLogSpace(hmm.transition), indices: ['s', 't'] },
+    logEmission: (o) => {
+      if (!columns.has(o)) {
+        const column = createTensor(`logB[:, ${o}]`, ['s'], [S]);
+        for (let s = 0; s < S; s++) column.data[s] = logB.data[s * O + o];
+        columns.set(o, column);
+      }
+      return columns.get(o)!;
+    },
+  };
+}
+
+/**
+ * Forward algorithm in log space:
+ *   log α_0[s] = log π[s] + log B[s, o_0]
+ *   log α_t[s'] = logsumexp_s (log α_{t-1}[s] + log A[s, s']) + log B[s', o_t]
+ *
+ * @returns log α as a [time, state] tensor, and log P(observations)
+ */
+export function hmmForward(
+  hmm: HiddenMarkovModel,
+  observations: number[]
+): { logAlpha: Tensor; logLikelihood: number } {
+  const model = logModel(hmm, observations);
+  const S = model.states;
+  const logAlpha = createTensor('logα', ['time', 'state'], [observations.length, S]);
+
+  let alpha = logEinsum('s,s->s', model.logInitial, model.logEmission(observations[0]));
+  logAlpha.data.set(alpha.data, 0);
+  for (let t = 1; t < observations.length; t++) {
+    alpha = logEinsum('s,st,t->t', alpha, model.logTransition, model.logEmission(observations[t]));
+    alpha = { ...alpha, indices: ['s'] };
+    logAlpha.data.set(alpha.data, t * S);
+  }
+
+  const logLikelihood = logEinsum('s->', alpha).data[0];
+  return { logAlpha, logLikelihood };
+}
+
+/**
+ * Backward algorithm in log space:
+ *   log β_{T-1}[s] = 0
+ *   log β_t[s] = logsumexp_s' (log A[s, s'] + log B[s', o_{t+1}] + log β_{t+1}[s'])
+ *
+ * @returns log β as a [time, state] tensor
+ */
+export function hmmBackward(hmm: HiddenMarkovModel, observations: number[]): { logBeta: Tensor } {
+  const model = logModel(hmm, observations);
+  const S = model.states;
+  const T = observations.length;
+  const logBeta = createTensor('logβ', ['time', 'state'], [T, S]);
+
+  let beta = createTensor('β', ['t'], [S]);
+  for (let t = T - 2; t >= 0; t--) {
+    const emission = { ...model.logEmission(observations[t + 1]), indices: ['t'] };
+    beta = { ...logEinsum('st,t,t->s', model.logTransition, emission, beta), indices: ['t'] };
+    logBeta.data.set(beta.data, t * S);
+  }
+  return { logBeta };
+}
+
+/**
+ * Posterior state marginals γ_t[s] = P(S_t = s | o_0 .. o_{T-1}), as a
+ * [time, state] tensor of probabilities
+ */
+export function hmmPosterior(hmm: HiddenMarkovModel, observations: number[]): Tensor {
+  const { logAlpha, logLikelihood } = hmmForward(hmm, observations);
+  const { logBeta } = hmmBackward(hmm, observations);
+  const data = logAlpha.data.map((a, i) => Math.exp(a + logBeta.data[i] - logLikelihood));
+  return { name: 'γ', shape: [...logAlpha.shape], indices: ['time', 'state'], data };
+}
+
+/**
+ * Viterbi decoding: the most likely hidden state sequence, computed in the
+ * (max, +) semiring on log probabilities with back-pointers
+ */
+export function viterbi(
+  hmm: HiddenMarkovModel,
+  observations: number[]
+): { path: number[]; logProbability: number } {
+  const model = logModel(hmm, observations);
+  const S = model.states;
+  const T = observations.length;
+  const logA = model.logTransition.data;
+
+  let delta = Float64Array.from(model.logInitial.data, (p, s) => p + model.logEmission(observations[0]).data[s]);
+  const backPointers: Int32Array[] = [];
+
+  for (let t = 1; t < T; t++) {
+    const emission = model.logEmission(observations[t]).data;
+    const next = new Float64Array(S);
+    const pointers = new Int32Array(S);
+    for (let to = 0; to < S; to++) {
+      let best = -Infinity;
+      let arg = 0;
+      for (let from = 0; from < S; from++) {
+        const score = delta[from] + logA[from * S + to];
+        if (score > best) {
+          best = score;
+          arg = from;
+        }
+      }
+      next[to] = best + emission[to];
+      pointers[to] = arg;
+    }
+    delta = next;
+    backPointers.push(pointers);
+  }
+
+  let last = 0;
+  for (let s = 1; s < S; s++) if (delta[s] > delta[last]) last = s;
+  const path = [last];
+  for (let t = T - 2; t >= 0; t--) path.unshift(backPointers[t][path[0]]);
+
+  return { path, logProbability: delta[last] };
+}
+
+// ============================================================================
+// BAYESIAN NETWORKS
+// ============================================================================
+
+/**
+ * Marginal distribution of the query variables given evidence, in a
+ * Bayesian network (or any factor graph) whose factors are tensors indexed
+ * by variable name:
+ *
+ *   P(D)[D], P(I)[I], P(G|D,I)[D, I, G], P(L|G)[G, L]
+ *   bayesMarginal(cpts, ['G'], { L: 1 })  →  P(G | L = 1)
+ *
+ * Evidence fixes variables by slicing every factor that mentions them. The
+ * remaining variables are then eliminated one at a time, cheapest first:
+ * the factors that mention a variable are multiplied and the variable summed
+ * out with logEinsum, so long chains of small probabilities do not underflow.
+ */
+export function bayesMarginal(
+  factors: Tensor[],
+  query: string[],
+  evidence: Record<string, number> = {}
+): Tensor {
+  for (const name of query) {
+    if (name in evidence) {
+      throw new Error(`Variable ${name} is both queried and observed`);
+    }
+    if (!factors.some((f) => f.indices.includes(name))) {
+      throw new Error(`Query variable ${name} appears in no factor`);
+    }
+  }
+  for (const name of Object.keys(evidence)) {
+    if (!factors.some((f) => f.indices.includes(name))) {
+      throw new Error(`Evidence on ${name}, which no factor mentions`);
+    }
+  }
+
+  let pool = factors.map((factor) => {
+    const fixed: Record<string, number> = {};
+    for (const idx of factor.indices) {
+      if (idx in evidence) fixed[idx] = evidence[idx];
+    }
+    return toLogSpace(Object.keys(fixed).length > 0 ? slice(factor, fixed) : factor);
+  });
+
+  // Multiply the factors and keep only `keep`, in log space
+  const combine = (group: Tensor[], keep: string[]): Tensor => ({
+    ...logEinsum(namedNotation(group.map((f) => f.indices), keep), ...group),
+    indices: [...keep],
+  });
+
+  const hidden = new Set(pool.flatMap((f) => f.indices).filter((idx) => !query.includes(idx)));
+  while (hidden.size > 0) {
+    // Eliminate the variable whose combined factor is smallest
+    let best = '';
+    let bestScope: string[] = [];
+    let bestSize = Infinity;
+    for (const name of hidden) {
+      const scope = new Map<string, number>();
+      for (const f of pool) {
+        if (f.indices.includes(name)) f.indices.forEach((idx, i) => scope.set(idx, f.shape[i]));
+      }
+      const size = [...scope.values()].reduce((a, b) => a * b, 1);
+      if (size < bestSize) {
+        best = name;
+        bestSize = size;
+        bestScope = [...scope.keys()].filter((idx) => idx !== name);
+      }
+    }
+    const touching = pool.filter((f) => f.indices.includes(best));
+    pool = [...pool.filter((f) => !f.indices.includes(best)), combine(touching, bestScope)];
+    hidden.delete(best);
+  }
+
+  const joint = combine(pool, query);
+  return { ...normalizeLog(joint), name: `P(${query.join(', ')})` };
+}
@@ -33,6 +33,8 @@ import {
   einsum,
   clone,
 } from './core';
+import { Tape, Variable } from './autodiff';
+import { Random, defaultRandom } from './random';
 
 /**
  * A Nestor is a nested tensor structure forming a rooted hypertree.
@@ -145,18 +147,21 @@ export function createNestor(
 }
 
 /**
- * Create a fiber bundle attached to a Nestor
+ * Create a fiber bundle attached to a Nestor. Without fiberData the fiber
+ * is drawn uniformly from [-1, 1) using `rng`.
  */
 export function createFiberBundle(
   baseId: string,
   fiberDim: number,
-  fiberData?: Tensor
+  fiberData?: Tensor,
+  rng: Random = defaultRandom()
 ): FiberBundle {
   const fiber = fiberData || createTensor(
     `fiber_${baseId}`,
     ['f'],
     [fiberDim],
-    'random'
+    'random',
+    { rng }
   );
   
   return {
@@ -279,19 +284,30 @@ export function parallelTransport(
   return connection.covariantDerivative(tensor, path);
 }
 
+/**
+ * A loss over a Nestor's tensor: either a plain function, differentiated by
+ * finite differences, or a function recorded on a tape, differentiated in
+ * reverse mode with one backward pass per node.
+ */
+export type NestorLoss =
+  | ((t: Tensor) => number)
+  | { differentiable: (x: Variable, tape: Tape) => Variable };
+
 /**
  * Compute smooth differential gradients through a Nestor hypertree.
  * This enables backpropagation through the nested structure.
  */
 export function computeNestorGradient(
   nestor: Nestor,
-  loss: (t: Tensor) => number,
+  loss: NestorLoss,
   epsilon = 1e-5
 ): Map<string, Tensor> {
   const gradients = new Map<string, Tensor>();
   
   // Compute gradient for this node
-  const grad = numericalGradient(nestor.tensor, loss, epsilon);
+  const grad = typeof loss === 'function'
+    ? numericalGradient(nestor.tensor, loss, epsilon)
+    : reverseModeGradient(nestor.tensor, loss.differentiable);
   gradients.set(nestor.id, grad);
   
   // Recursively compute gradients for children
@@ -303,6 +319,19 @@ export function computeNestorGradient(
   return gradients;
 }
 
+/**
+ * Compute the exact gradient of a taped loss with respect to a tensor.
+ */
+function reverseModeGradient(
+  tensor: Tensor,
+  loss: (x: Variable, tape: Tape) => Variable
+): Tensor {
+  const tape = new Tape();
+  const x = tape.variable(tensor);
+  tape.backward(loss(x, tape));
+  return tape.gradient(x);
+}
+
 /**
  * Compute numerical gradient of a loss function with respect to a tensor.
  */
@@ -27,7 +27,7 @@
 import {
   Tensor,
   createTensor,
-  einsum,
+  contract,
   add,
   relu,
   softmax,
@@ -44,6 +44,7 @@ import {
   composeMorphisms,
   identityMorphism,
 } from './nestor';
+import { Random, defaultRandom } from './random';
 
 /**
  * Neural Nestor: A Nestor with learnable parameters and activation functions.
@@ -160,6 +161,18 @@ export function createNeuralNestor(
   };
 }
 
+/**
+ * Element-wise sum of same-shape tensors, aligned by position. `add`
+ * broadcasts by index name, which would turn differently named axes into
+ * an outer product.
+ */
+function addByPosition(a: Tensor, b: Tensor): Tensor {
+  if (a.shape.join(',') !== b.shape.join(',')) {
+    throw new Error(`Cannot add ${b.name} [${b.shape.join(', ')}] to ${a.name} [${a.shape.join(', ')}]`);
+  }
+  return add(a, { ...b, indices: [...a.indices] });
+}
+
 /**
  * Forward pass through a Neural Nestor.
  * Applies transformations recursively through the hypertree.
@@ -174,9 +187,8 @@ export function neuralNestorForward(
   if (nestor.weights && nestor.weights.size > 0) {
     const weight = nestor.weights.values().next().value;
     if (weight && weight.indices.length >= 2) {
-      // Simple matrix multiplication: input @ weight
-      const notation = `${input.indices.join('')},${weight.indices.join('')}->${weight.indices[1]}`;
-      output = einsum(notation, output, weight);
+      // Simple matrix multiplication: input @ weight, joined on the shared index name
+      output = contract([output, weight], [weight.indices[1]]);
     }
   }
   
@@ -184,7 +196,7 @@ export function neuralNestorForward(
   if (nestor.biases && nestor.biases.size > 0) {
     const bias = nestor.biases.values().next().value;
     if (bias) {
-      output = add(output, bias);
+      output = addByPosition(output, bias);
     }
   }
   
@@ -201,7 +213,7 @@ export function neuralNestorForward(
     
     // Aggregate child outputs (simple average)
     if (childOutputs.length > 0) {
-      output = childOutputs.reduce((sum, t) => add(sum, t));
+      output = childOutputs.reduce((sum, t) => addByPosition(sum, t));
       // Average by dividing each element
       const avgData = new Float64Array(output.data.map(v => v / childOutputs.length));
       output = { ...output, data: avgData };
@@ -228,11 +240,13 @@ export function createFiberForest(
 
 /**
  * Embed a Nestor into a fiber forest.
- * Creates tensor embeddings that capture the hierarchical structure.
+ * Creates tensor embeddings that capture the hierarchical structure;
+ * the node's own embedding is drawn from `rng`.
  */
 export function embedNestorInForest(
   nestor: Nestor,
-  forest: FiberForest
+  forest: FiberForest,
+  rng: Random = defaultRandom()
 ): Tensor {
   const embeddingDim = forest.embeddingDim;
   
@@ -241,14 +255,15 @@ export function embedNestorInForest(
     `embedding_${nestor.id}`,
     ['e'],
     [embeddingDim],
-    'random'
+    'random',
+    { rng }
   );
   
   // Incorporate type information
   const typeEmbedding = getTypeEmbedding(nestor.typeInfo, embeddingDim);
   
   // Combine node embedding with type embedding
-  const combined = add(embedding, typeEmbedding);
+  const combined = addByPosition(embedding, typeEmbedding);
   
   // If fiber bundle exists, incorporate fiber information
   if (nestor.fiber) {
@@ -265,7 +280,7 @@ export function embedNestorInForest(
       fiberEmbedding.data[i] = nestor.fiber.fiberData.data[i];
     }
     
-    return add(combined, fiberEmbedding);
+    return addByPosition(combined, fiberEmbedding);
   }
   
   return combined;
@@ -307,11 +322,13 @@ function hashString(str: string): number {
 
 /**
  * Create a Gauge Transformer for attention over Nestors.
+ * Projections and the connection form are drawn from `rng`.
  */
 export function createGaugeTransformer(
   numHeads: number,
   headDim: number,
-  modelDim: number
+  modelDim: number,
+  rng: Random = defaultRandom()
 ): GaugeTransformer {
   const totalDim = numHeads * headDim;
   
@@ -320,21 +337,24 @@ export function createGaugeTransformer(
     'query_proj',
     ['m', 'h'],
     [modelDim, totalDim],
-    'random'
+    'random',
+    { rng }
   );
   
   const key = createTensor(
     'key_proj',
     ['m', 'h'],
     [modelDim, totalDim],
-    'random'
+    'random',
+    { rng }
   );
   
   const value = createTensor(
     'value_proj',
     ['m', 'h'],
     [modelDim, totalDim],
-    'random'
+    'random',
+    { rng }
   );
   
   // Output projection
@@ -342,7 +362,8 @@ export function createGaugeTransformer(
     'output_proj',
     ['h', 'm'],
     [totalDim, modelDim],
-    'random'
+    'random',
+    { rng }
   );
   
   // Create gauge connection for smooth attention
@@ -350,7 +371,8 @@ export function createGaugeTransformer(
     'attention_connection',
     ['h', 'h'],
     [totalDim, totalDim],
-    'random'
+    'random',
+    { rng }
   );
   
   const connection = createGaugeConnection(connectionForm, true);
@@ -377,18 +399,9 @@ export function gaugeTransformerAttention(
   const embeddings = nestors.map(n => n.tensor);
   
   // Apply projections to get Q, K, V
-  const queries = embeddings.map(e => {
-    const notation = `${e.indices.join('')},${projections.query.indices.join('')}->${projections.query.indices[1]}`;
-    return einsum(notation, e, projections.query);
-  });
-  const keys = embeddings.map(e => {
-    const notation = `${e.indices.join('')},${projections.key.indices.join('')}->${projections.key.indices[1]}`;
-    return einsum(notation, e, projections.key);
-  });
-  const values = embeddings.map(e => {
-    const notation = `${e.indices.join('')},${projections.value.indices.join('')}->${projections.value.indices[1]}`;
-    return einsum(notation, e, projections.value);
-  });
+  const queries = embeddings.map(e => contract([e, projections.query], [projections.query.indices[1]]));
+  const keys = embeddings.map(e => contract([e, projections.key], [projections.key.indices[1]]));
+  const values = embeddings.map(e => contract([e, projections.value], [projections.value.indices[1]]));
   
   // Compute attention scores with gauge connection
   const attended = queries.map((q) => {
@@ -396,9 +409,8 @@ export function gaugeTransformerAttention(
     const scoreValues: number[] = [];
     for (const k of keys) {
       // Dot product: sum over all indices
-      const notation = `${q.indices.join('')},${k.indices.join('')}->`;
-      const score = einsum(notation, q, k);
-      // Extract the scalar value (einsum with empty output produces a scalar in data[0])
+      const score = contract([q, k], []);
+      // Extract the scalar value (a contraction with no output indices produces a scalar in data[0])
       scoreValues.push(score.data[0] || 0);
     }
     
@@ -408,7 +420,7 @@ export function gaugeTransformerAttention(
     const weights = softmax(scoresVec);
     
     // Apply attention weights to values
-    let attended = createTensor('attended', ['v'], [values[0].shape[0]], 'zeros');
+    let attended = createTensor('attended', [...values[0].indices], [...values[0].shape], 'zeros');
     for (let j = 0; j < values.length; j++) {
       const weighted = createTensor(
         'weighted',
@@ -416,7 +428,7 @@ export function gaugeTransformerAttention(
         values[j].shape,
         new Float64Array(values[j].data.map(v => v * weights.data[j]))
       );
-      attended = add(attended, weighted);
+      attended = addByPosition(attended, weighted);
     }
     
     // Apply gauge connection for parallel transport
@@ -424,10 +436,7 @@ export function gaugeTransformerAttention(
   });
   
   // Apply output projection
-  return attended.map(a => {
-    const notation = `${a.indices.join('')},${transformer.outputProjection.indices.join('')}->${transformer.outputProjection.indices[1]}`;
-    return einsum(notation, a, transformer.outputProjection);
-  });
+  return attended.map(a => contract([a, transformer.outputProjection], [transformer.outputProjection.indices[1]]));
 }
 
 /**
@@ -551,7 +560,8 @@ export function applyFunctor(
 export function createTypedHyperGraphNN(
   forest: FiberForest,
   hiddenDim: number,
-  outputDim: number
+  outputDim: number,
+  rng: Random = defaultRandom()
 ): {
   forest: FiberForest;
   encoder: GaugeTransformer;
@@ -564,7 +574,8 @@ export function createTypedHyperGraphNN(
   const encoder = createGaugeTransformer(
     4, // 4 attention heads
     hiddenDim / 4,
-    forest.embeddingDim
+    forest.embeddingDim,
+    rng
   );
   
   // Create decoder Neural Nestor
@@ -589,7 +600,7 @@ export function createTypedHyperGraphNN(
   // Add weights to decoder
   decoder.weights!.set(
     'W',
-    createTensor('decoder_W', ['h', 'o'], [hiddenDim, outputDim], 'random')
+    createTensor('decoder_W', ['h', 'o'], [hiddenDim, outputDim], 'random', { rng })
   );
   decoder.biases!.set(
     'b',
@@ -635,7 +646,7 @@ export function neuralNestorMorphForward(
   // 3. Aggregate attended representations
   let aggregated = attended[0];
   for (let i = 1; i < attended.length; i++) {
-    aggregated = add(aggregated, attended[i]);
+    aggregated = addByPosition(aggregated, attended[i]);
   }
   
   // Average
@@ -0,0 +1,584 @@
+/**
+ * TENSOR LOGIC PROGRAM PARSER
+ *
+ * Turns the textual form of a tensor logic program into an AST of tensor
+ * equations, so programs can be written the way the paper writes them:
+ *
+ *   Ancestor[x, z] = Ancestor[x, y] Parent[y, z]
+ *   Y[n] = sig(WOut[d] Emb[n, L, d])
+ *   Ancestor(x, z) ← Ancestor(x, y), Parent(y, z)
+ *
+ * GRAMMAR (one equation per line, `//` or `#` start a comment):
+ *
+ *   equation := ref ('=' sum | ('←' | '<-' | ':-') ref (',' ref)*)
+ *   sum      := ['-'] product (('+' | '-') product)*
+ *   product  := factor (['*'] factor)* ('/' number)?
+ *   factor   := ref | number | fn '(' sum ')' | '(' sum ')'
+ *   ref      := Name ['[' indices ']' | '(' indices ')']
+ *   index    := variable | Constant | 'symbol' | integer
+ *
+ * CONVENTIONS:
+ * - Lowercase index names (x, n', person) are variables; capitalised names
+ *   (L, Alice) and integers are constant slices, as in `Emb[n, L, d]`
+ * - Quoted names ('alice', "bob") are constants too, so domain symbols
+ *   written in lowercase can be used as slices: `Parent('alice', y)`
+ * - `R(x, y)` marks a Boolean relation, `R[x, y]` a numeric tensor
+ * - Juxtaposition is the tensor product (join); any variable that appears
+ *   in a product but not on the LHS is summed out (projection)
+ * - Datalog rules (`←`) conjoin their body atoms and are implicitly
+ *   thresholded, since their head is a relation
+ */
+
+/**
+ * Nonlinearities that may wrap a sub-expression on the right-hand side
+ */
+export type Nonlinearity = 'sig' | 'relu' | 'step' | 'softmax' | 'tanh' | 'exp' | 'log';
+
+const NONLINEARITIES = new Map<string, Nonlinearity>([
+  ['sig', 'sig'],
+  ['sigmoid', 'sig'],
+  ['relu', 'relu'],
+  ['step', 'step'],
+  ['softmax', 'softmax'],
+  ['tanh', 'tanh'],
+  ['exp', 'exp'],
+  ['log', 'log'],
+]);
+
+/**
+ * Position of a syntax node in the program text (1-based)
+ */
+export interface SourceSpan {
+  line: number;
+  column: number;
+}
+
+/**
+ * An index variable (summed or kept) or a constant slice
+ */
+export type IndexTerm =
+  | { kind: 'variable'; name: string; span: SourceSpan }
+  | { kind: 'constant'; value: string | number; span: SourceSpan };
+
+/**
+ * A reference to a named tensor, e.g. `Emb[n, L, d]` or `Neig(x, y)`
+ */
+export interface TensorRef {
+  kind: 'tensor';
+  name: string;
+  indices: IndexTerm[];
+  /** Written with parentheses: a Boolean relation rather than a numeric tensor */
+  relation: boolean;
+  span: SourceSpan;
+}
+
+/**
+ * A numeric literal used as a scalar factor
+ */
+export interface NumberLiteral {
+  kind: 'number';
+  value: number;
+  span: SourceSpan;
+}
+
+/**
+ * A nonlinearity applied to a sub-expression, e.g. `sig(...)`
+ */
+export interface Apply {
+  kind: 'apply';
+  fn: Nonlinearity;
+  argument: SumExpr;
+  span: SourceSpan;
+}
+
+export type Factor = TensorRef | NumberLiteral | Apply | SumExpr;
+
+/**
+ * A product of factors (a join), scaled by a constant coefficient.
+ * `summedIndices` are the variables projected out: those appearing in
+ * the factors' tensor references but not on the left-hand side.
+ */
+export interface ProductTerm {
+  kind: 'product';
+  coefficient: number;
+  factors: Factor[];
+  summedIndices: string[];
+  span: SourceSpan;
+}
+
+/**
+ * A sum of product terms
+ */
+export interface SumExpr {
+  kind: 'sum';
+  terms: ProductTerm[];
+  span: SourceSpan;
+}
+
+/**
+ * A single tensor equation `LHS = RHS`
+ */
+export interface TensorEquation {
+  lhs: TensorRef;
+  rhs: SumExpr;
+  /** '=' for tensor equations, '←' for Datalog rules */
+  operator: '=' | '←';
+  /** The equation's source line, trimmed of comments */
+  source: string;
+  line: number;
+}
+
+/**
+ * A tensor logic program: an ordered list of equations
+ */
+export interface TensorProgram {
+  equations: TensorEquation[];
+}
+
+/**
+ * Raised for malformed programs; carries the position of the offending token
+ */
+export class TensorProgramSyntaxError extends Error {
+  constructor(message: string, public readonly line: number, public readonly column: number) {
+    super(`line ${line}, column ${column}: ${message}`);
+    this.name = 'TensorProgramSyntaxError';
+  }
+}
+
+// ============================================================================
+// LEXER
+// ============================================================================
+
+type TokenType = 'name' | 'symbol' | 'number' | 'punct' | 'end';
+
+interface Token {
+  type: TokenType;
+  text: string;
+  column: number;
+}
+
+const PUNCTUATION = ['<-', ':-', '←', '[', ']', '(', ')', ',', '=', '+', '-', '*', '/'];
+
+function tokenizeLine(text: string, line: number): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    const ch = text[i];
+
+    if (ch === ' ' || ch === '\t' || ch === '\r') {
+      i++;
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(ch)) {
+      const start = i;
+      while (i < text.length && /[A-Za-z0-9_]/.test(text[i])) i++;
+      // Primes are part of the name: n' and n′ are the same variable
+      while (i < text.length && (text[i] === "'" || text[i] === '′')) i++;
+      tokens.push({ type: 'name', text: text.slice(start, i).replace(/′/g, "'"), column: start + 1 });
+      continue;
+    }
+
+    if (ch === "'" || ch === '"') {
+      const close = text.indexOf(ch, i + 1);
+      const symbol = close < 0 ? '' : text.slice(i + 1, close);
+      if (!/^[A-Za-z0-9_]+$/.test(symbol)) {
+        throw new TensorProgramSyntaxError('expected a quoted symbol such as \'alice\'', line, i + 1);
+      }
+      tokens.push({ type: 'symbol', text: symbol, column: i + 1 });
+      i = close + 1;
+      continue;
+    }
+
+    if (/[0-9.]/.test(ch)) {
+      const match = /^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/.exec(text.slice(i));
+      if (!match) {
+        throw new TensorProgramSyntaxError(`unexpected character '${ch}'`, line, i + 1);
+      }
+      tokens.push({ type: 'number', text: match[0], column: i + 1 });
+      i += match[0].length;
+      continue;
+    }
+
+    const punct = PUNCTUATION.find((p) => text.startsWith(p, i));
+    if (!punct) {
+      throw new TensorProgramSyntaxError(`unexpected character '${ch}'`, line, i + 1);
+    }
+    tokens.push({ type: 'punct', text: punct, column: i + 1 });
+    i += punct.length;
+  }
+
+  tokens.push({ type: 'end', text: '', column: text.length + 1 });
+  return tokens;
+}
+
+/**
+ * Strip `//` and `#` comments from a line
+ */
+function stripComment(text: string): string {
+  const slash = text.indexOf('//');
+  const hash = text.indexOf('#');
+  const cut = [slash, hash].filter((p) => p >= 0);
+  return cut.length > 0 ? text.slice(0, Math.min(...cut)) : text;
+}
+
+// ============================================================================
+// PARSER
+// ============================================================================
+
+/**
+ * Recursive-descent parser over the tokens of one line
+ */
+class LineParser {
+  private pos = 0;
+
+  constructor(private readonly tokens: Token[], private readonly line: number) {}
+
+  private peek(): Token {
+    return this.tokens[this.pos];
+  }
+
+  private next(): Token {
+    return this.tokens[this.pos++];
+  }
+
+  private at(text: string): boolean {
+    const token = this.peek();
+    return token.type === 'punct' && token.text === text;
+  }
+
+  private span(token: Token): SourceSpan {
+    return { line: this.line, column: token.column };
+  }
+
+  private fail(message: string, token = this.peek()): never {
+    throw new TensorProgramSyntaxError(message, this.line, token.column);
+  }
+
+  private describe(token: Token): string {
+    if (token.type === 'end') return 'end of line';
+    return token.type === 'symbol' ? `symbol '${token.text}'` : `'${token.text}'`;
+  }
+
+  private expect(text: string): Token {
+    if (!this.at(text)) {
+      this.fail(`expected '${text}' but found ${this.describe(this.peek())}`);
+    }
+    return this.next();
+  }
+
+  parseEquation(source: string): TensorEquation {
+    const lhs = this.parseRef();
+    const lhsVariables = new Set<string>();
+    for (const idx of lhs.indices) {
+      if (idx.kind !== 'variable') continue;
+      if (lhsVariables.has(idx.name)) {
+        throw new TensorProgramSyntaxError(
+          `index '${idx.name}' appears twice on the left-hand side`,
+          idx.span.line,
+          idx.span.column
+        );
+      }
+      lhsVariables.add(idx.name);
+    }
+
+    let rhs: SumExpr;
+    let operator: TensorEquation['operator'];
+    const opToken = this.peek();
+
+    if (this.at('=')) {
+      this.next();
+      operator = '=';
+      rhs = this.parseSum();
+    } else if (this.at('←') || this.at('<-') || this.at(':-')) {
+      this.next();
+      operator = '←';
+      rhs = this.parseRuleBody();
+    } else {
+      this.fail(`expected '=' or '←' after ${lhs.name} but found ${this.describe(opToken)}`);
+    }
+
+    if (this.peek().type !== 'end') {
+      this.fail(`unexpected ${this.describe(this.peek())}`);
+    }
+
+    annotateSummedIndices(rhs, lhsVariables);
+    return { lhs, rhs, operator, source, line: this.line };
+  }
+
+  private parseRuleBody(): SumExpr {
+    const start = this.peek();
+    const factors: Factor[] = [this.parseRef()];
+    while (this.at(',')) {
+      this.next();
+      factors.push(this.parseRef());
+    }
+    const term: ProductTerm = {
+      kind: 'product',
+      coefficient: 1,
+      factors,
+      summedIndices: [],
+      span: this.span(start),
+    };
+    return { kind: 'sum', terms: [term], span: this.span(start) };
+  }
+
+  private parseSum(): SumExpr {
+    const start = this.peek();
+    const terms: ProductTerm[] = [];
+    let sign = 1;
+
+    if (this.at('-')) {
+      this.next();
+      sign = -1;
+    }
+    terms.push(this.parseProduct(sign));
+
+    while (this.at('+') || this.at('-')) {
+      sign = this.next().text === '-' ? -1 : 1;
+      terms.push(this.parseProduct(sign));
+    }
+
+    return { kind: 'sum', terms, span: this.span(start) };
+  }
+
+  private parseProduct(sign: number): ProductTerm {
+    const start = this.peek();
+    const factors: Factor[] = [];
+    let coefficient = sign;
+
+    const startsFactor = (): boolean => {
+      const token = this.peek();
+      return token.type === 'name' || token.type === 'number' || this.at('(');
+    };
+
+    if (!startsFactor()) {
+      this.fail(`expected a tensor, number or '(' but found ${this.describe(start)}`);
+    }
+
+    while (startsFactor() || this.at('*')) {
+      if (this.at('*')) {
+        this.next();
+        if (!startsFactor()) {
+          this.fail(`expected a factor after '*' but found ${this.describe(this.peek())}`);
+        }
+      }
+      const factor = this.parseFactor();
+      if (factor.kind === 'number') {
+        coefficient *= factor.value;
+      } else {
+        factors.push(factor);
+      }
+    }
+
+    if (this.at('/')) {
+      this.next();
+      const divisor = this.peek();
+      if (divisor.type !== 'number') {
+        this.fail(`only division by a number is supported, found ${this.describe(divisor)}`);
+      }
+      this.next();
+      const value = Number(divisor.text);
+      if (value === 0) {
+        this.fail('division by zero', divisor);
+      }
+      coefficient /= value;
+    }
+
+    return { kind: 'product', coefficient, factors, summedIndices: [], span: this.span(start) };
+  }
+
+  private parseFactor(): Factor {
+    const token = this.peek();
+
+    if (token.type === 'number') {
+      this.next();
+      return { kind: 'number', value: Number(token.text), span: this.span(token) };
+    }
+
+    if (this.at('(')) {
+      this.next();
+      const inner = this.parseSum();
+      this.expect(')');
+      return inner;
+    }
+
+    const fn = NONLINEARITIES.get(token.text);
+    if (fn && this.tokens[this.pos + 1]?.text === '(') {
+      this.next();
+      this.next();
+      const argument = this.parseSum();
+      this.expect(')');
+      return { kind: 'apply', fn, argument, span: this.span(token) };
+    }
+
+    return this.parseRef();
+  }
+
+  private parseRef(): TensorRef {
+    const token = this.peek();
+    if (token.type !== 'name') {
+      this.fail(`expected a tensor name but found ${this.describe(token)}`);
+    }
+    this.next();
+
+    let indices: IndexTerm[] = [];
+    let relation = false;
+
+    if (this.at('[')) {
+      this.next();
+      indices = this.parseIndices(']');
+    } else if (this.at('(')) {
+      this.next();
+      indices = this.parseIndices(')');
+      relation = true;
+    }
+
+    return { kind: 'tensor', name: token.text, indices, relation, span: this.span(token) };
+  }
+
+  private parseIndices(close: string): IndexTerm[] {
+    const indices: IndexTerm[] = [];
+    if (this.at(close)) {
+      this.next();
+      return indices;
+    }
+
+    for (;;) {
+      const token = this.next();
+      const span = this.span(token);
+      if (token.type === 'name') {
+        indices.push(/^[a-z]/.test(token.text)
+          ? { kind: 'variable', name: token.text, span }
+          : { kind: 'constant', value: token.text, span });
+      } else if (token.type === 'symbol') {
+        indices.push({ kind: 'constant', value: token.text, span });
+      } else if (token.type === 'number' && /^\d+$/.test(token.text)) {
+        indices.push({ kind: 'constant', value: Number(token.text), span });
+      } else {
+        this.fail(`expected an index but found ${this.describe(token)}`, token);
+      }
+
+      if (this.at(',')) {
+        this.next();
+        continue;
+      }
+      if (this.at('+') || this.at('-')) {
+        this.fail('index arithmetic is not supported');
+      }
+      this.expect(close);
+      return indices;
+    }
+  }
+}
+
+/**
+ * Fill in `summedIndices` for every product term: variables that a term's
+ * tensor references mention but the left-hand side does not.
+ */
+function annotateSummedIndices(expr: SumExpr, lhsVariables: Set<string>): void {
+  for (const term of expr.terms) {
+    const summed = new Set<string>();
+    for (const factor of term.factors) {
+      if (factor.kind === 'tensor') {
+        for (const idx of factor.indices) {
+          if (idx.kind === 'variable' && !lhsVariables.has(idx.name)) {
+            summed.add(idx.name);
+          }
+        }
+      } else if (factor.kind === 'apply') {
+        annotateSummedIndices(factor.argument, lhsVariables);
+      } else if (factor.kind === 'sum') {
+        annotateSummedIndices(factor, lhsVariables);
+      }
+    }
+    term.summedIndices = [...summed];
+  }
+}
+
+/**
+ * Parse a multi-equation tensor logic program.
+ * Throws TensorProgramSyntaxError with the line and column of the first error.
+ */
+export function parseProgram(text: string): TensorProgram {
+  const equations: TensorEquation[] = [];
+  const lines = text.split('\n');
+
+  for (let i = 0; i < lines.length; i++) {
+    const source = stripComment(lines[i]);
+    if (source.trim() === '') continue;
+
+    const tokens = tokenizeLine(source, i + 1);
+    equations.push(new LineParser(tokens, i + 1).parseEquation(source.trim()));
+  }
+
+  return { equations };
+}
+
+/**
+ * Parse a single equation
+ */
+export function parseEquation(text: string): TensorEquation {
+  const { equations } = parseProgram(text);
+  if (equations.length !== 1) {
+    throw new Error(`Expected exactly one equation, found ${equations.length}`);
+  }
+  return equations[0];
+}
+
+// ============================================================================
+// PRINTING
+// ============================================================================
+
+function indexToString(idx: IndexTerm): string {
+  return idx.kind === 'variable' ? idx.name : String(idx.value);
+}
+
+function refToString(ref: TensorRef): string {
+  if (ref.indices.length === 0 && !ref.relation) return ref.name;
+  const [open, close] = ref.relation ? ['(', ')'] : ['[', ']'];
+  return `${ref.name}${open}${ref.indices.map(indexToString).join(', ')}${close}`;
+}
+
+function factorToString(factor: Factor): string {
+  switch (factor.kind) {
+    case 'tensor':
+      return refToString(factor);
+    case 'number':
+      return String(factor.value);
+    case 'apply':
+      return `${factor.fn}(${sumToString(factor.argument)})`;
+    case 'sum':
+      return `(${sumToString(factor)})`;
+  }
+}
+
+function productToString(term: ProductTerm): string {
+  const body = term.factors.map(factorToString).join(' ');
+  const magnitude = Math.abs(term.coefficient);
+  if (magnitude === 1 && body !== '') return body;
+  return body === '' ? String(magnitude) : `${magnitude} ${body}`;
+}
+
+function sumToString(expr: SumExpr): string {
+  return expr.terms
+    .map((term, i) => {
+      const sign = term.coefficient < 0 ? '-' : '+';
+      const text = productToString(term);
+      if (i === 0) return sign === '-' ? `-${text}` : text;
+      return `${sign} ${text}`;
+    })
+    .join(' ');
+}
+
+/**
+ * Render an equation back to canonical source form
+ */
+export function equationToString(equation: TensorEquation): string {
+  if (equation.operator === '←') {
+    const body = equation.rhs.terms[0].factors.map(factorToString).join(', ');
+    return `${refToString(equation.lhs)} ← ${body}`;
+  }
+  return `${refToString(equation.lhs)} = ${sumToString(equation.rhs)}`;
+}
@@ -0,0 +1,609 @@
+/**
+ * PLN INFERENCE RULES
+ *
+ * The Probabilistic Logic Networks rule set over the truth values of
+ * raptl.ts. An inheritance A→B has strength P(B|A); a term A has strength
+ * P(A). From these the rules estimate new links:
+ *
+ *   deduction    A→B, B→C        ⟹  A→C
+ *   induction    A→B, A→C        ⟹  B→C
+ *   abduction    A→B, C→B        ⟹  A→C
+ *   inversion    A→B             ⟹  B→A          (Bayes' rule)
+ *   modus ponens A, A→B          ⟹  B
+ *   similarity   A↔B             ⟺  A→B          (and back, from A→B and B→A)
+ *   membership   x ∈ A           ⟹  {x}→A
+ *
+ * Confidence comes from evidence counts (c = n / (n + k), see
+ * confidenceToCount), and a conclusion reached several ways is merged by
+ * revision, which adds the counts.
+ *
+ * INDEFINITE TRUTH VALUES:
+ * A strength with confidence c is read as the interval of strengths the
+ * evidence allows once k more observations arrive: [s·c, s·c + 1 − c].
+ * Rules on intervals evaluate the strength formula on every corner of the
+ * premise intervals; each formula is monotone in each argument, so the
+ * corners bound the result exactly.
+ *
+ * TENSOR-WISE RULES:
+ * A PLNTensor holds a whole relation, e.g. Inh[x, y] for every pair of
+ * terms. The tensor rules apply a rule through every intermediate term and
+ * revise the results, so
+ *
+ *   plnTensorDeduction(Inh, Inh, Terms)
+ *
+ * infers Inh[x, z] from all chains x → y → z at once, as einsum does for
+ * Boolean relations.
+ *
+ * FORWARD CHAINING:
+ * plnForwardChain runs a rule program such as
+ *
+ *   Ancestor[x, z] = Ancestor[x, y] Parent[y, z]
+ *
+ * over relations whose facts carry truth values: a join conjoins the truth
+ * values along the shared index and merges over the summed one by
+ * disjunction or revision, until no truth value changes. A confidence
+ * floor prunes derivations too weak to be worth following.
+ */
+
+import { Tensor, createTensor } from './core';
+import {
+  PLNTruthValue,
+  PLNTensor,
+  PLN_DEFAULT_K,
+  Semiring,
+  SemiringTensor,
+  createTruthValue,
+  createSemiringTensor,
+  cloneSemiringTensor,
+  semiringContract,
+  deductionStrength,
+  plnConjunction,
+  plnDisjunction,
+  plnDeduction,
+  plnRevision,
+} from './raptl';
+import { FixpointRule, rulesFromProgram, inferRelationShapes } from './fixpoint';
+import { TensorProgram } from './parser';
+
+// ============================================================================
+// RULES
+// ============================================================================
+
+/**
+ * Strength of B→A from A→B by Bayes' rule: P(A|B) = P(B|A)·P(A) / P(B)
+ */
+export function inversionStrength(sAB: number, sA: number, sB: number): number {
+  if (sB <= 0) return 0;
+  return Math.max(0, Math.min(1, (sAB * sA) / sB));
+}
+
+/**
+ * PLN inversion: A->B => B->A
+ * Bayes' rule needs P(A) and P(B) as well as the link, so the conclusion
+ * is only as confident as the weakest of the three.
+ */
+export function plnInversion(ab: PLNTruthValue, a: PLNTruthValue, b: PLNTruthValue): PLNTruthValue {
+  return createTruthValue(
+    inversionStrength(ab.strength, a.strength, b.strength),
+    b.strength <= 0 ? 0 : Math.min(ab.confidence, a.confidence, b.confidence)
+  );
+}
+
+/**
+ * PLN induction: A->B, A->C => B->C
+ * Inverts A->B to B->A, then deduces B->A->C.
+ */
+export function plnInduction(
+  ab: PLNTruthValue,
+  ac: PLNTruthValue,
+  a: PLNTruthValue,
+  b: PLNTruthValue,
+  c: PLNTruthValue
+): PLNTruthValue {
+  return plnDeduction(plnInversion(ab, a, b), ac, b, a, c);
+}
+
+/**
+ * PLN abduction: A->B, C->B => A->C
+ * Inverts C->B to B->C, then deduces A->B->C.
+ */
+export function plnAbduction(
+  ab: PLNTruthValue,
+  cb: PLNTruthValue,
+  a: PLNTruthValue,
+  b: PLNTruthValue,
+  c: PLNTruthValue
+): PLNTruthValue {
+  return plnDeduction(ab, plnInversion(cb, c, b), a, b, c);
+}
+
+/**
+ * Options for modus ponens
+ */
+export interface ModusPonensOptions {
+  /** P(B|¬A), which the premises do not give (default 0.2, as in OpenCog) */
+  notAB?: number;
+}
+
+/**
+ * Strength of B from A and A→B: P(B) = P(A)·P(B|A) + (1 − P(A))·P(B|¬A)
+ */
+export function modusPonensStrength(sA: number, sAB: number, notAB = 0.2): number {
+  return Math.max(0, Math.min(1, sA * sAB + (1 - sA) * notAB));
+}
+
+/**
+ * PLN modus ponens: A, A->B => B
+ */
+export function plnModusPonens(a: PLNTruthValue, ab: PLNTruthValue, options: ModusPonensOptions = {}): PLNTruthValue {
+  return createTruthValue(modusPonensStrength(a.strength, ab.strength, options.notAB), Math.min(a.confidence, ab.confidence));
+}
+
+/**
+ * Strength of A→B from similarity A↔B = |A∩B| / |A∪B|:
+ * P(B|A) = (1 + P(B)/P(A))·sim / (1 + sim)
+ */
+export function similarityToInheritanceStrength(sim: number, sA: number, sB: number): number {
+  if (sA <= 0) return 0;
+  return Math.max(0, Math.min(1, ((1 + sB / sA) * sim) / (1 + sim)));
+}
+
+/**
+ * PLN similarity to inheritance: A<->B => A->B
+ */
+export function plnSimilarityToInheritance(sim: PLNTruthValue, a: PLNTruthValue, b: PLNTruthValue): PLNTruthValue {
+  return createTruthValue(
+    similarityToInheritanceStrength(sim.strength, a.strength, b.strength),
+    Math.min(sim.confidence, a.confidence, b.confidence)
+  );
+}
+
+/**
+ * Strength of A↔B from both inheritances: sim = 1 / (1/P(B|A) + 1/P(A|B) − 1)
+ */
+export function inheritanceToSimilarityStrength(sAB: number, sBA: number): number {
+  if (sAB <= 0 || sBA <= 0) return 0;
+  return 1 / (1 / sAB + 1 / sBA - 1);
+}
+
+/**
+ * PLN inheritance to similarity: A->B, B->A => A<->B
+ */
+export function plnInheritanceToSimilarity(ab: PLNTruthValue, ba: PLNTruthValue): PLNTruthValue {
+  return createTruthValue(inheritanceToSimilarityStrength(ab.strength, ba.strength), Math.min(ab.confidence, ba.confidence));
+}
+
+/**
+ * PLN member to inheritance: x ∈ A => {x}->A
+ * The singleton {x} inherits from A as strongly as x is a member, but a
+ * single member is weak evidence about a class, so the confidence is
+ * discounted (by 0.5 unless given).
+ */
+export function plnMemberToInheritance(member: PLNTruthValue, discount = 0.5): PLNTruthValue {
+  return createTruthValue(member.strength, member.confidence * discount);
+}
+
+/**
+ * PLN inheritance to member: {x}->A => x ∈ A, with the same discount
+ */
+export function plnInheritanceToMember(inheritance: PLNTruthValue, discount = 0.5): PLNTruthValue {
+  return createTruthValue(inheritance.strength, inheritance.confidence * discount);
+}
+
+// ============================================================================
+// INDEFINITE TRUTH VALUES
+// ============================================================================
+
+/**
+ * A strength known to lie in [lower, upper], with the credibility (the
+ * probability mass) the interval is stated at
+ */
+export interface IndefiniteTruthValue {
+  lower: number;
+  upper: number;
+  credibility: number;
+}
+
+/**
+ * Create an indefinite truth value
+ */
+export function createIndefiniteTruthValue(lower: number, upper: number, credibility = 0.9): IndefiniteTruthValue {
+  if (!(lower >= 0 && lower <= upper && upper <= 1)) {
+    throw new Error(`Indefinite truth value needs 0 ≤ lower ≤ upper ≤ 1, got [${lower}, ${upper}]`);
+  }
+  if (!(credibility > 0 && credibility <= 1)) {
+    throw new Error(`Credibility must be in (0, 1], got ${credibility}`);
+  }
+  return { lower, upper, credibility };
+}
+
+/**
+ * The interval a simple truth value allows: [s·c, s·c + 1 − c]
+ */
+export function toIndefinite(tv: PLNTruthValue, credibility = 0.9): IndefiniteTruthValue {
+  const lower = tv.strength * tv.confidence;
+  return createIndefiniteTruthValue(lower, Math.min(1, lower + 1 - tv.confidence), credibility);
+}
+
+/**
+ * The simple truth value of an interval: confidence 1 − width, and the
+ * strength that interval would come from
+ */
+export function fromIndefinite(itv: IndefiniteTruthValue): PLNTruthValue {
+  const confidence = 1 - (itv.upper - itv.lower);
+  return createTruthValue(confidence > 0 ? itv.lower / confidence : (itv.lower + itv.upper) / 2, confidence);
+}
+
+/**
+ * Apply a strength formula to intervals: the result spans the formula's
+ * values on every corner of the premise intervals. Credibility is that of
+ * the least credible premise.
+ *
+ *   indefiniteRule(deductionStrength, ab, bc, b, c)
+ */
+export function indefiniteRule(
+  strength: (...strengths: number[]) => number,
+  ...premises: IndefiniteTruthValue[]
+): IndefiniteTruthValue {
+  let lower = Infinity;
+  let upper = -Infinity;
+  for (let corner = 0; corner < 1 << premises.length; corner++) {
+    const s = strength(...premises.map((p, i) => ((corner >> i) & 1 ? p.upper : p.lower)));
+    lower = Math.min(lower, s);
+    upper = Math.max(upper, s);
+  }
+  const credibility = Math.min(1, ...premises.map((p) => p.credibility));
+  return createIndefiniteTruthValue(Math.max(0, lower), Math.min(1, upper), credibility);
+}
+
+/**
+ * Deduction on intervals: A->B, B->C => A->C
+ */
+export function indefiniteDeduction(
+  ab: IndefiniteTruthValue,
+  bc: IndefiniteTruthValue,
+  b: IndefiniteTruthValue,
+  c: IndefiniteTruthValue
+): IndefiniteTruthValue {
+  return indefiniteRule(deductionStrength, ab, bc, b, c);
+}
+
+/**
+ * Revision on intervals, through the simple truth values they stand for
+ */
+export function indefiniteRevision(a: IndefiniteTruthValue, b: IndefiniteTruthValue): IndefiniteTruthValue {
+  return toIndefinite(plnRevision(fromIndefinite(a), fromIndefinite(b)), Math.min(a.credibility, b.credibility));
+}
+
+// ============================================================================
+// TENSOR-WISE RULES
+// ============================================================================
+
+/** No evidence either way: strength 0, confidence 0 */
+const ABSENT = createTruthValue(0, 0);
+
+/** A PLN tensor whose tensor holds the strengths */
+function plnTensorFrom(name: string, indices: string[], shape: number[], truthValues: PLNTruthValue[]): PLNTensor {
+  const tensor = createTensor(name, indices, shape, 'zeros');
+  truthValues.forEach((tv, i) => (tensor.data[i] = tv.strength));
+  return { tensor, truthValues };
+}
+
+function checkRelation(relation: PLNTensor, terms: PLNTensor, rule: string): void {
+  const [rows, cols] = relation.tensor.shape;
+  if (relation.tensor.shape.length !== 2 || rows !== terms.truthValues.length || cols !== terms.truthValues.length) {
+    throw new Error(`${rule}: ${relation.tensor.name} must be ${terms.truthValues.length}×${terms.truthValues.length} to match the terms, got [${relation.tensor.shape.join(', ')}]`);
+  }
+}
+
+/** Revision of every estimate with some evidence; (0, 0) if there is none */
+function reviseAll(estimates: PLNTruthValue[], k: number): PLNTruthValue {
+  return estimates
+    .filter((tv) => tv.confidence > 0)
+    .reduce((merged, tv) => plnRevision(merged, tv, k), createTruthValue(0, 0));
+}
+
+/**
+ * Element-wise revision of two estimates of the same relation
+ */
+export function plnTensorRevision(a: PLNTensor, b: PLNTensor, k: number = PLN_DEFAULT_K): PLNTensor {
+  if (a.tensor.shape.join(',') !== b.tensor.shape.join(',')) {
+    throw new Error(`Cannot revise ${a.tensor.name} [${a.tensor.shape.join(', ')}] with ${b.tensor.name} [${b.tensor.shape.join(', ')}]`);
+  }
+  // Revising two absent entries gives no evidence, not plnRevision's (0.5, 0)
+  const truthValues = a.truthValues.map((tv, i) =>
+    tv.confidence === 0 && b.truthValues[i].confidence === 0 ? ABSENT : plnRevision(tv, b.truthValues[i], k)
+  );
+  return plnTensorFrom(a.tensor.name, a.tensor.indices, a.tensor.shape, truthValues);
+}
+
+/**
+ * Inversion of a whole relation: BA[y, x] from AB[x, y] and the term
+ * probabilities
+ */
+export function plnTensorInversion(ab: PLNTensor, terms: PLNTensor): PLNTensor {
+  checkRelation(ab, terms, 'plnTensorInversion');
+  const n = terms.truthValues.length;
+  const truthValues: PLNTruthValue[] = [];
+  for (let y = 0; y < n; y++) {
+    for (let x = 0; x < n; x++) {
+      const link = ab.truthValues[x * n + y];
+      truthValues.push(link.confidence > 0 ? plnInversion(link, terms.truthValues[x], terms.truthValues[y]) : createTruthValue(0, 0));
+    }
+  }
+  const [i, j] = ab.tensor.indices;
+  return plnTensorFrom(ab.tensor.name, [j, i], [n, n], truthValues);
+}
+
+/**
+ * Deduction over a whole relation: AC[x, z] revises the deductions through
+ * every intermediate y ∉ {x, z} with evidence for both AB[x, y] and BC[y, z].
+ * Entries with no such chain have confidence 0.
+ */
+export function plnTensorDeduction(ab: PLNTensor, bc: PLNTensor, terms: PLNTensor, k: number = PLN_DEFAULT_K): PLNTensor {
+  checkRelation(ab, terms, 'plnTensorDeduction');
+  checkRelation(bc, terms, 'plnTensorDeduction');
+  const n = terms.truthValues.length;
+  const term = terms.truthValues;
+  const truthValues: PLNTruthValue[] = [];
+  for (let x = 0; x < n; x++) {
+    for (let z = 0; z < n; z++) {
+      const chains: PLNTruthValue[] = [];
+      for (let y = 0; y < n; y++) {
+        if (y === x || y === z) continue;
+        const first = ab.truthValues[x * n + y];
+        const second = bc.truthValues[y * n + z];
+        if (first.confidence > 0 && second.confidence > 0) {
+          chains.push(plnDeduction(first, second, term[x], term[y], term[z]));
+        }
+      }
+      truthValues.push(reviseAll(chains, k));
+    }
+  }
+  return plnTensorFrom(ab.tensor.name, [ab.tensor.indices[0], bc.tensor.indices[1]], [n, n], truthValues);
+}
+
+/**
+ * Induction over a whole relation: BC[y, z] from AB[x, y] and AC[x, z],
+ * through every shared subject x
+ */
+export function plnTensorInduction(ab: PLNTensor, ac: PLNTensor, terms: PLNTensor, k: number = PLN_DEFAULT_K): PLNTensor {
+  return plnTensorDeduction(plnTensorInversion(ab, terms), ac, terms, k);
+}
+
+/**
+ * Abduction over a whole relation: AC[x, z] from AB[x, y] and CB[z, y],
+ * through every shared target y
+ */
+export function plnTensorAbduction(ab: PLNTensor, cb: PLNTensor, terms: PLNTensor, k: number = PLN_DEFAULT_K): PLNTensor {
+  return plnTensorDeduction(ab, plnTensorInversion(cb, terms), terms, k);
+}
+
+/**
+ * Modus ponens over a whole relation: B[y] revises the conclusions from
+ * every A[x] with evidence for AB[x, y]
+ */
+export function plnTensorModusPonens(
+  a: PLNTensor,
+  ab: PLNTensor,
+  options: ModusPonensOptions & { k?: number } = {}
+): PLNTensor {
+  checkRelation(ab, a, 'plnTensorModusPonens');
+  const n = a.truthValues.length;
+  const truthValues: PLNTruthValue[] = [];
+  for (let y = 0; y < n; y++) {
+    const conclusions: PLNTruthValue[] = [];
+    for (let x = 0; x < n; x++) {
+      const link = ab.truthValues[x * n + y];
+      if (link.confidence > 0 && a.truthValues[x].confidence > 0) {
+        conclusions.push(plnModusPonens(a.truthValues[x], link, options));
+      }
+    }
+    truthValues.push(reviseAll(conclusions, options.k ?? PLN_DEFAULT_K));
+  }
+  return plnTensorFrom(a.tensor.name, [ab.tensor.indices[1]], [n], truthValues);
+}
+
+/**
+ * Similarity to inheritance over a whole relation: AB[x, y] from Sim[x, y]
+ */
+export function plnTensorSimilarityToInheritance(sim: PLNTensor, terms: PLNTensor): PLNTensor {
+  checkRelation(sim, terms, 'plnTensorSimilarityToInheritance');
+  const n = terms.truthValues.length;
+  const truthValues = sim.truthValues.map((tv, i) =>
+    tv.confidence > 0
+      ? plnSimilarityToInheritance(tv, terms.truthValues[Math.floor(i / n)], terms.truthValues[i % n])
+      : createTruthValue(0, 0)
+  );
+  return plnTensorFrom(sim.tensor.name, sim.tensor.indices, sim.tensor.shape, truthValues);
+}
+
+/**
+ * Strengths of a PLN tensor whose confidence is at least `minConfidence`,
+ * 0 elsewhere
+ */
+export function plnStrengths(tensor: PLNTensor, minConfidence = 0): Tensor {
+  const result = createTensor(tensor.tensor.name, tensor.tensor.indices, tensor.tensor.shape, 'zeros');
+  tensor.truthValues.forEach((tv, i) => {
+    if (tv.confidence > 0 && tv.confidence >= minConfidence) result.data[i] = tv.strength;
+  });
+  return result;
+}
+
+// ============================================================================
+// FORWARD CHAINING
+// ============================================================================
+
+/**
+ * How derivations of the same entry are merged: noisy-or of the strengths,
+ * as confident as the best-supported derivation; or revision, treating
+ * each derivation as independent evidence. (plnDisjunction's minimum of
+ * the confidences would let every longer derivation of a fact make it less
+ * certain, and confidences on cyclic rules would decay to 0.)
+ */
+export type PLNCombine = 'disjunction' | 'revision';
+
+/**
+ * Options for joining PLN tensors
+ */
+export interface PLNJoinOptions {
+  /** Merge of derivations over summed indices and across rules (default 'disjunction') */
+  combine?: PLNCombine;
+  /** Derivations and facts less confident than this are dropped (default 0) */
+  confidenceFloor?: number;
+  /** Lookahead for revision */
+  k?: number;
+}
+
+/**
+ * Truth values under conjunction (⊗) and disjunction or revision (⊕), with
+ * confidence 0 as the absent zero. Not a semiring: ⊕ does not distribute
+ * over ⊗, which is why plnForwardChain re-derives every relation each
+ * iteration instead of joining only what changed.
+ */
+function plnAlgebra(options: PLNJoinOptions): Semiring<PLNTruthValue> {
+  const floor = options.confidenceFloor ?? 0;
+  const k = options.k ?? PLN_DEFAULT_K;
+  const merge = options.combine === 'revision'
+    ? (a: PLNTruthValue, b: PLNTruthValue) => plnRevision(a, b, k)
+    : (a: PLNTruthValue, b: PLNTruthValue) => createTruthValue(plnDisjunction(a, b).strength, Math.max(a.confidence, b.confidence));
+  return {
+    name: 'PLN',
+    zero: ABSENT,
+    one: createTruthValue(1, 1),
+    add: (a, b) => (a.confidence === 0 ? b : b.confidence === 0 ? a : merge(a, b)),
+    mul: (a, b) => {
+      const both = plnConjunction(a, b);
+      return both.confidence > 0 && both.confidence >= floor ? both : ABSENT;
+    },
+    fromNumber: (n) => createTruthValue(n, 1),
+    toNumber: (v) => v.strength,
+  };
+}
+
+function toValues(algebra: Semiring<PLNTruthValue>, tensor: PLNTensor, floor = 0): SemiringTensor<PLNTruthValue> {
+  const { name, indices, shape } = tensor.tensor;
+  const values = tensor.truthValues.map((tv) => (tv.confidence > 0 && tv.confidence >= floor ? tv : ABSENT));
+  return createSemiringTensor(algebra, name, indices, shape, values);
+}
+
+function fromValues(values: SemiringTensor<PLNTruthValue>, name = values.name, indices = values.indices): PLNTensor {
+  return plnTensorFrom(name, indices, values.shape, Array.from(values.data as ArrayLike<PLNTruthValue>));
+}
+
+/**
+ * Einsum over PLN tensors: the operands' truth values are conjoined for
+ * every assignment of the indices, and merged over the summed indices by
+ * disjunction or revision. Entries with confidence 0 are absent.
+ *
+ *   plnEinsum('xy,yz->xz', [Parent, Parent])   // Grandparent
+ */
+export function plnEinsum(notation: string, tensors: PLNTensor[], options: PLNJoinOptions = {}): PLNTensor {
+  const algebra = plnAlgebra(options);
+  return fromValues(semiringContract(notation, ...tensors.map((t) => toValues(algebra, t, options.confidenceFloor))));
+}
+
+/**
+ * Options for PLN forward chaining
+ */
+export interface PLNForwardChainOptions extends PLNJoinOptions {
+  /** Iteration cap; programs that have not converged by then report converged: false */
+  maxIterations?: number;
+  /** Largest change of any strength or confidence that counts as a fixpoint (default 1e-9) */
+  tolerance?: number;
+}
+
+/**
+ * Result of PLN forward chaining
+ */
+export interface PLNFixpointResult {
+  /** Every relation (given and derived) at the fixpoint */
+  relations: Map<string, PLNTensor>;
+  /** Number of iterations performed */
+  iterations: number;
+  /** True if the relations stopped changing within maxIterations */
+  converged: boolean;
+  /** Largest change of any strength or confidence, per iteration */
+  changes: number[];
+}
+
+/**
+ * Run a rule program over PLN tensors to a fixpoint:
+ *
+ *   Ancestor[x, y] = Parent[x, y]
+ *   Ancestor[x, z] = Ancestor[x, y] Parent[y, z]
+ *
+ * Each iteration re-derives every derived relation from its seed facts and
+ * the current relations (plnEinsum per rule, merged across rules). Strengths
+ * and confidences only grow under disjunction of conjunctions, so the
+ * iteration settles; on cyclic rules it does so in the limit, and stops
+ * once nothing changes by more than the tolerance. The confidence floor
+ * prunes weak facts and derivations, which also cuts the chains built on
+ * them.
+ *
+ * @param rules - Rules, or a program to convert with rulesFromProgram
+ * @param facts - Given relations, and optional seeds for derived ones
+ */
+export function plnForwardChain(
+  rules: FixpointRule[] | TensorProgram | string,
+  facts: Map<string, PLNTensor>,
+  options: PLNForwardChainOptions = {}
+): PLNFixpointResult {
+  const ruleList = Array.isArray(rules) ? rules : rulesFromProgram(rules);
+  const maxIterations = options.maxIterations ?? 100;
+  const tolerance = options.tolerance ?? 1e-9;
+  const algebra = plnAlgebra(options);
+
+  const shapes = inferRelationShapes(ruleList, new Map([...facts].map(([name, t]) => [name, t.tensor])));
+  const derived = new Set(ruleList.map((r) => r.head));
+  const headIndices = new Map<string, string[]>();
+  for (const rule of ruleList) {
+    if (!headIndices.has(rule.head)) {
+      headIndices.set(rule.head, facts.get(rule.head)?.tensor.indices ?? [...rule.notation.split('->')[1]]);
+    }
+  }
+
+  // Seeds are the given facts (or nothing) and never change
+  const seeds = new Map<string, SemiringTensor<PLNTruthValue>>();
+  facts.forEach((t, name) => seeds.set(name, toValues(algebra, t, options.confidenceFloor)));
+  for (const name of derived) {
+    if (!seeds.has(name)) seeds.set(name, createSemiringTensor(algebra, name, headIndices.get(name)!, shapes.get(name)!));
+  }
+
+  let relations = new Map(seeds);
+  const changes: number[] = [];
+  let iteration = 0;
+  let converged = false;
+
+  while (iteration < maxIterations) {
+    iteration++;
+    const next = new Map(relations);
+    for (const name of derived) next.set(name, cloneSemiringTensor(seeds.get(name)!));
+
+    for (const rule of ruleList) {
+      const target = next.get(rule.head)!;
+      const contribution = semiringContract(rule.notation, ...rule.body.map((name) => relations.get(name)!));
+      for (let i = 0; i < target.data.length; i++) target.data[i] = algebra.add(target.data[i], contribution.data[i]);
+    }
+
+    let change = 0;
+    for (const name of derived) {
+      const before = relations.get(name)!.data;
+      const after = next.get(name)!.data;
+      for (let i = 0; i < after.length; i++) {
+        change = Math.max(change, Math.abs(after[i].strength - before[i].strength), Math.abs(after[i].confidence - before[i].confidence));
+      }
+    }
+
+    relations = next;
+    changes.push(change);
+    if (change <= tolerance) {
+      converged = true;
+      break;
+    }
+  }
+
+  const result = new Map<string, PLNTensor>();
+  relations.forEach((values, name) => result.set(name, fromValues(values, name, headIndices.get(name) ?? values.indices)));
+  return { relations: result, iterations: iteration, converged, changes };
+}
@@ -0,0 +1,355 @@
+/**
+ * BACKWARD CHAINING QUERY ANSWERING
+ *
+ * Forward chaining materialises every fact a program implies. When only one
+ * question matters, e.g.
+ *
+ *   Ancestor(Alice, Charlie)?     or     Ancestor(Alice, z)?
+ *
+ * backward chaining starts from the query and only derives the slices of
+ * each tensor that the query depends on.
+ *
+ * TABLED RESOLUTION:
+ * Each subgoal is a relation plus a binding pattern, e.g. Ancestor(0, _).
+ * Resolving it against a rule binds the head's variables from the pattern
+ * and evaluates the body left to right, passing bindings sideways: after
+ * Parent(0, y) yields y = 1, the next subgoal is Ancestor(1, _) rather than
+ * the whole Ancestor relation. Answers are memoised in a table per subgoal,
+ * and tables are re-evaluated until none grows, so left-recursive rules like
+ * Ancestor(x, z) ← Ancestor(x, y), Parent(y, z) terminate.
+ *
+ * Every answer records the rule and premises of its first derivation, from
+ * which a proof tree down to the base facts is rebuilt.
+ */
+
+import { Tensor, createTensor } from './core';
+import { TensorProgram } from './parser';
+import { FixpointRule, rulesFromProgram, inferRelationShapes } from './fixpoint';
+
+/**
+ * A query atom: constants are index positions, strings are variables
+ */
+export interface Query {
+  relation: string;
+  args: (number | string)[];
+}
+
+/**
+ * A node in a proof tree: a fact, and how it was derived
+ */
+export interface ProofNode {
+  relation: string;
+  args: number[];
+  /** Rule used to derive the fact; undefined for base facts */
+  rule?: string;
+  /** Proofs of the rule's body atoms */
+  children: ProofNode[];
+}
+
+/**
+ * Result of answering a query
+ */
+export interface QueryResult {
+  /** Boolean tensor over the query's variables (0-D for a yes/no query) */
+  answer: Tensor;
+  /** Matching tuples of the queried relation */
+  tuples: number[][];
+  /** One proof tree per tuple */
+  proofs: ProofNode[];
+  /** Number of distinct subgoals that were tabled */
+  subgoals: number;
+  /** Number of derived facts across all tables */
+  derivedFacts: number;
+}
+
+/**
+ * Options for backward chaining
+ */
+export interface BackwardChainOptions {
+  /** Positions of named constants, e.g. { Alice: 0, Charlie: 2 } */
+  constants?: Record<string, number>;
+}
+
+interface Table {
+  relation: string;
+  pattern: (number | null)[];
+  answers: Map<string, number[]>;
+}
+
+interface Justification {
+  rule: number;
+  premises: { relation: string; args: number[] }[];
+}
+
+const factKey = (relation: string, args: number[]): string => `${relation}(${args.join(',')})`;
+
+/**
+ * Parse a query such as `Ancestor(Alice, z)?` or `Ancestor[0, 2]`.
+ * Lowercase arguments are variables; integers and capitalised names are
+ * constants, the latter resolved through `constants`.
+ */
+export function parseQuery(text: string, constants: Record<string, number> = {}): Query {
+  const match = /^\s*([A-Za-z_][A-Za-z0-9_]*)\s*[([]\s*(.*?)\s*[)\]]\s*\??\s*$/.exec(text);
+  if (!match) {
+    throw new Error(`Cannot parse query "${text}"; expected Relation(arg, ...)`);
+  }
+
+  const [, relation, argText] = match;
+  const args = argText === '' ? [] : argText.split(',').map((raw) => {
+    const arg = raw.trim();
+    if (/^\d+$/.test(arg)) return Number(arg);
+    if (/^[a-z_]/.test(arg)) return arg;
+    if (!(arg in constants)) {
+      throw new Error(`Query constant '${arg}' has no position; pass it in options.constants`);
+    }
+    return constants[arg];
+  });
+
+  return { relation, args };
+}
+
+function ruleToString(rule: FixpointRule): string {
+  if (rule.source) return rule.source;
+  const [inputPart, output] = rule.notation.split('->');
+  const body = inputPart.split(',').map((indices, i) => `${rule.body[i]}(${[...indices].join(', ')})`);
+  return `${rule.head}(${[...output].join(', ')}) ← ${body.join(', ')}`;
+}
+
+/**
+ * Answer a query over Boolean relations by tabled backward chaining.
+ *
+ * @param rules - Rules, or a program to convert with rulesFromProgram
+ * @param facts - Base relations as Boolean (0/1) tensors
+ * @param query - Query atom or text such as 'Ancestor(0, z)'
+ */
+export function backwardChain(
+  rules: FixpointRule[] | TensorProgram | string,
+  facts: Map<string, Tensor>,
+  query: Query | string,
+  options: BackwardChainOptions = {}
+): QueryResult {
+  const ruleList = Array.isArray(rules) ? rules : rulesFromProgram(rules);
+  const goal = typeof query === 'string' ? parseQuery(query, options.constants) : query;
+  const shapes = inferRelationShapes(ruleList, facts);
+  const derivedRelations = new Set(ruleList.map((r) => r.head));
+
+  const shape = shapes.get(goal.relation);
+  if (!shape) {
+    throw new Error(`Unknown relation '${goal.relation}' in query`);
+  }
+  if (shape.length !== goal.args.length) {
+    throw new Error(`${goal.relation} has arity ${shape.length} but the query has ${goal.args.length} arguments`);
+  }
+  goal.args.forEach((arg, i) => {
+    if (typeof arg === 'number' && (arg < 0 || arg >= shape[i])) {
+      throw new Error(`Query argument ${i} = ${arg} is out of range for ${goal.relation} (size ${shape[i]})`);
+    }
+  });
+
+  const tables = new Map<string, Table>();
+  const justifications = new Map<string, Justification>();
+
+  /** Tuples of a stored tensor that match a binding pattern */
+  const scanFacts = (relation: string, pattern: (number | null)[]): number[][] => {
+    const tensor = facts.get(relation);
+    if (!tensor) return [];
+
+    const strides: number[] = [];
+    let stride = 1;
+    for (let i = tensor.shape.length - 1; i >= 0; i--) {
+      strides[i] = stride;
+      stride *= tensor.shape[i];
+    }
+
+    // Enumerate only the free positions: the bound ones select a slice
+    const free = pattern.flatMap((p, i) => (p === null ? [i] : []));
+    const tuples: number[][] = [];
+    const tuple = pattern.map((p) => p ?? 0);
+    const visit = (k: number): void => {
+      if (k === free.length) {
+        let flat = 0;
+        tuple.forEach((v, i) => { flat += v * strides[i]; });
+        if (tensor.data[flat] > 0) tuples.push([...tuple]);
+        return;
+      }
+      for (let v = 0; v < tensor.shape[free[k]]; v++) {
+        tuple[free[k]] = v;
+        visit(k + 1);
+      }
+    };
+    visit(0);
+    return tuples;
+  };
+
+  const tableFor = (relation: string, pattern: (number | null)[]): Table => {
+    const key = `${relation}(${pattern.map((p) => p ?? '_').join(',')})`;
+    let table = tables.get(key);
+    if (!table) {
+      table = { relation, pattern, answers: new Map() };
+      // Stored facts for a derived relation seed its tables
+      for (const tuple of scanFacts(relation, pattern)) {
+        table.answers.set(tuple.join(','), tuple);
+      }
+      tables.set(key, table);
+    }
+    return table;
+  };
+
+  const lookup = (relation: string, pattern: (number | null)[]): number[][] => {
+    if (!derivedRelations.has(relation)) {
+      if (!facts.has(relation)) {
+        throw new Error(`Unknown relation '${relation}'`);
+      }
+      return scanFacts(relation, pattern);
+    }
+    return [...tableFor(relation, pattern).answers.values()];
+  };
+
+  /** Resolve a table against every rule for its relation; returns true if it grew */
+  const evaluate = (table: Table): boolean => {
+    let grew = false;
+
+    ruleList.forEach((rule, ruleIndex) => {
+      if (rule.head !== table.relation) return;
+
+      const [inputPart, output] = rule.notation.split('->');
+      const bodyIndices = inputPart.split(',');
+      const binding = new Map<string, number>();
+
+      for (let i = 0; i < output.length; i++) {
+        const bound = table.pattern[i];
+        if (bound === null) continue;
+        if (binding.has(output[i]) && binding.get(output[i]) !== bound) return;
+        binding.set(output[i], bound);
+      }
+
+      const premises: { relation: string; args: number[] }[] = [];
+      const solveBody = (j: number): void => {
+        if (j === rule.body.length) {
+          const tuple = [...output].map((v) => binding.get(v)!);
+          const key = tuple.join(',');
+          if (!table.answers.has(key)) {
+            table.answers.set(key, tuple);
+            grew = true;
+            const fk = factKey(table.relation, tuple);
+            if (!justifications.has(fk)) {
+              justifications.set(fk, { rule: ruleIndex, premises: premises.map((p) => ({ ...p, args: [...p.args] })) });
+            }
+          }
+          return;
+        }
+
+        const letters = bodyIndices[j];
+        const pattern = [...letters].map((v) => binding.get(v) ?? null);
+        for (const tuple of lookup(rule.body[j], pattern)) {
+          const added: string[] = [];
+          let consistent = true;
+          for (let i = 0; i < letters.length && consistent; i++) {
+            const v = letters[i];
+            if (binding.has(v)) {
+              consistent = binding.get(v) === tuple[i];
+            } else {
+              binding.set(v, tuple[i]);
+              added.push(v);
+            }
+          }
+          if (consistent) {
+            premises.push({ relation: rule.body[j], args: tuple });
+            solveBody(j + 1);
+            premises.pop();
+          }
+          added.forEach((v) => binding.delete(v));
+        }
+      };
+      solveBody(0);
+    });
+
+    return grew;
+  };
+
+  // Evaluate tables until none grows; new subgoals discovered on the way join the loop
+  const pattern = goal.args.map((arg) => (typeof arg === 'number' ? arg : null));
+  let goalTuples: number[][];
+
+  if (derivedRelations.has(goal.relation)) {
+    const root = tableFor(goal.relation, pattern);
+    let changed = true;
+    while (changed) {
+      changed = false;
+      const before = tables.size;
+      for (const table of [...tables.values()]) {
+        if (evaluate(table)) changed = true;
+      }
+      if (tables.size !== before) changed = true;
+    }
+    goalTuples = [...root.answers.values()];
+  } else {
+    goalTuples = lookup(goal.relation, pattern);
+  }
+
+  // Repeated query variables, e.g. R(x, x), must bind to the same value
+  const variables: string[] = [];
+  const positions = new Map<string, number>();
+  goal.args.forEach((arg, i) => {
+    if (typeof arg === 'string' && !positions.has(arg)) {
+      positions.set(arg, i);
+      variables.push(arg);
+    }
+  });
+  const tuples = goalTuples.filter((tuple) =>
+    goal.args.every((arg, i) => typeof arg !== 'string' || tuple[positions.get(arg)!] === tuple[i])
+  );
+  tuples.sort((a, b) => {
+    for (let i = 0; i < a.length; i++) {
+      if (a[i] !== b[i]) return a[i] - b[i];
+    }
+    return 0;
+  });
+
+  const answerShape = variables.map((v) => shape[positions.get(v)!]);
+  const answer = createTensor(goal.relation, variables, answerShape);
+  for (const tuple of tuples) {
+    let flat = 0;
+    variables.forEach((v, k) => {
+      flat = flat * answerShape[k] + tuple[positions.get(v)!];
+    });
+    answer.data[flat] = 1;
+  }
+
+  const buildProof = (relation: string, args: number[]): ProofNode => {
+    const justification = justifications.get(factKey(relation, args));
+    if (!justification) {
+      return { relation, args, children: [] };
+    }
+    return {
+      relation,
+      args,
+      rule: ruleToString(ruleList[justification.rule]),
+      children: justification.premises.map((p) => buildProof(p.relation, p.args)),
+    };
+  };
+
+  let derivedFacts = 0;
+  tables.forEach((table) => { derivedFacts += table.answers.size; });
+
+  return {
+    answer,
+    tuples,
+    proofs: tuples.map((tuple) => buildProof(goal.relation, tuple)),
+    subgoals: tables.size,
+    derivedFacts,
+  };
+}
+
+/**
+ * Render a proof tree as indented text
+ */
+export function proofToString(proof: ProofNode, names?: string[], depth = 0): string {
+  const args = proof.args.map((a) => names?.[a] ?? String(a)).join(', ');
+  const how = proof.rule ? `  [by ${proof.rule}]` : '  [fact]';
+  const lines = [`${'  '.repeat(depth)}${proof.relation}(${args})${how}`];
+  for (const child of proof.children) {
+    lines.push(proofToString(child, names, depth + 1));
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,298 @@
+/**
+ * SEEDED RANDOM NUMBERS AND WEIGHT INITIALIZERS
+ *
+ * Every random initializer in the library draws from a Random generator
+ * instead of Math.random(), so the same seed gives the same tensors:
+ *
+ *   const rng = createRandom(42);
+ *   createTensor('W', ['o', 'i'], [8, 4], 'xavier', { rng });
+ *   createGaugeTransformer(4, 8, 32, rng.split());
+ *
+ * The generator is counter-based: the n-th draw is a hash of (key, n), so
+ * it needs no hidden state beyond a counter and can be split into
+ * independent streams by deriving new keys. Draws use only 32-bit integer
+ * arithmetic (Math.imul and shifts), which is exact in every JavaScript
+ * engine; uniform and integer draws are therefore bit-identical in Node
+ * and the browser.
+ *
+ * Normal draws use the Box–Muller transform, which needs a logarithm and a
+ * cosine. ECMAScript only asks Math.log and Math.cos to be approximately
+ * right, so engines differ in the last bits; the generator computes both
+ * itself with +, -, ×, ÷ and Math.sqrt, which IEEE 754 rounds exactly.
+ * Normal, Xavier/He normal and orthogonal tensors are then bit-identical
+ * across engines too.
+ *
+ * Calls that are not given a generator use a shared default one, seeded
+ * with 0 at start-up and reset with seedRandom().
+ */
+
+/**
+ * A seeded stream of random numbers
+ */
+export interface Random {
+  /** Uniform in [0, 1), with 53 random bits */
+  uniform(): number;
+  /** Uniform in [low, high) */
+  range(low: number, high: number): number;
+  /** Standard normal, by the Box–Muller transform (engine-independent) */
+  normal(): number;
+  /** Uniform integer in [0, n) */
+  int(n: number): number;
+  /** A new generator whose stream is independent of this one */
+  split(): Random;
+}
+
+// ============================================================================
+// GENERATOR
+// ============================================================================
+
+const TWO_32 = 0x100000000;
+
+/** Murmur3 finaliser: a bijective avalanche on 32-bit words */
+function mix32(x: number): number {
+  x = Math.imul(x ^ (x >>> 16), 0x85ebca6b);
+  x = Math.imul(x ^ (x >>> 13), 0xc2b2ae35);
+  return (x ^ (x >>> 16)) >>> 0;
+}
+
+/** The 32-bit word at position `counter` of the stream with key (k0, k1) */
+function word(k0: number, k1: number, counter: number): number {
+  const low = counter >>> 0;
+  const high = Math.floor(counter / TWO_32) >>> 0;
+  const x = mix32((low ^ k0) >>> 0);
+  return mix32((x ^ mix32((high ^ k1) >>> 0) ^ 0x9e3779b9) >>> 0);
+}
+
+const LN2 = 0.6931471805599453;
+
+/**
+ * Natural logarithm of x in (0, 1] from exact arithmetic only: x = m · 2^-e
+ * with m in [√½, √2), and log m = 2 atanh(s), s = (m - 1) / (m + 1)
+ */
+function portableLog(x: number): number {
+  let m = x;
+  let e = 0;
+  while (m < Math.SQRT1_2) {
+    m *= 2;
+    e++;
+  }
+  const s = (m - 1) / (m + 1);
+  const s2 = s * s;
+  let power = s;
+  let series = 0;
+  for (let k = 1; k < 40; k += 2) {
+    series += power / k;
+    power *= s2;
+  }
+  return 2 * series - e * LN2;
+}
+
+/**
+ * cos(2πv) for v in [0, 1) from exact arithmetic only: reduced by symmetry
+ * to sin or cos of an angle in [0, π/4], then summed as a Taylor series
+ */
+function portableCos2Pi(v: number): number {
+  let w = v > 0.5 ? 1 - v : v; // cos(2πv) = cos(2π(1 - v))
+  let sign = 1;
+  if (w > 0.25) {
+    w = 0.5 - w;
+    sign = -1;
+  }
+  // Now cos(2πv) = sign · cos(2πw) with w in [0, 1/4]
+  const sine = w > 0.125;
+  const x = 2 * Math.PI * (sine ? 0.25 - w : w);
+  const x2 = x * x;
+  let term = sine ? x : 1;
+  let sum = term;
+  for (let n = sine ? 2 : 1; n < 30; n += 2) {
+    term *= -x2 / (n * (n + 1));
+    sum += term;
+  }
+  return sign * sum;
+}
+
+function fromKey(k0: number, k1: number): Random {
+  let counter = 0;
+  const next = (): number => word(k0, k1, counter++);
+
+  const rng: Random = {
+    uniform: () => {
+      const hi = next() >>> 5; // 27 bits
+      const lo = next() >>> 6; // 26 bits
+      return (hi * 67108864 + lo) / 9007199254740992;
+    },
+    range: (low, high) => low + (high - low) * rng.uniform(),
+    normal: () => {
+      const u = 1 - rng.uniform(); // (0, 1], so the logarithm is finite
+      const v = rng.uniform();
+      return Math.sqrt(-2 * portableLog(u)) * portableCos2Pi(v);
+    },
+    int: (n) => {
+      if (!Number.isInteger(n) || n <= 0 || n > TWO_32) {
+        throw new Error(`Random.int needs an integer in [1, 2^32], got ${n}`);
+      }
+      // Rejection sampling keeps every value equally likely
+      const limit = TWO_32 - (TWO_32 % n);
+      let x = next();
+      while (x >= limit) x = next();
+      return x % n;
+    },
+    split: () => fromKey(next(), next()),
+  };
+  return rng;
+}
+
+/**
+ * Create a generator from an integer seed
+ */
+export function createRandom(seed: number): Random {
+  if (!Number.isSafeInteger(seed)) {
+    throw new Error(`Random seed must be a safe integer, got ${seed}`);
+  }
+  const low = seed >>> 0;
+  const high = Math.floor(seed / TWO_32) >>> 0;
+  return fromKey(mix32(low), mix32((high ^ 0x6a09e667) >>> 0));
+}
+
+let shared = createRandom(0);
+
+/**
+ * The generator used when none is passed explicitly
+ */
+export function defaultRandom(): Random {
+  return shared;
+}
+
+/**
+ * Reset the default generator, making every later call that relies on it
+ * reproducible
+ */
+export function seedRandom(seed: number): void {
+  shared = createRandom(seed);
+}
+
+// ============================================================================
+// INITIALIZERS
+// ============================================================================
+
+/**
+ * Fan-in and fan-out of a weight shape, following the convention
+ * [out, in, ...receptive field]: a vector has fan-in and fan-out equal to
+ * its length
+ */
+export function fans(shape: number[]): { fanIn: number; fanOut: number } {
+  if (shape.length === 0) return { fanIn: 1, fanOut: 1 };
+  if (shape.length === 1) return { fanIn: shape[0], fanOut: shape[0] };
+  const receptive = shape.slice(2).reduce((a, b) => a * b, 1);
+  return { fanIn: shape[1] * receptive, fanOut: shape[0] * receptive };
+}
+
+/**
+ * Options shared by the initializers
+ */
+export interface InitializerOptions {
+  /** Generator to draw from (defaults to defaultRandom()) */
+  rng?: Random;
+  /** Scale factor, e.g. √2 for ReLU layers (default 1) */
+  gain?: number;
+  /** Override the fan-in computed from the shape */
+  fanIn?: number;
+  /** Override the fan-out computed from the shape */
+  fanOut?: number;
+}
+
+function sizeOf(shape: number[]): number {
+  return shape.reduce((a, b) => a * b, 1);
+}
+
+/**
+ * Uniform values in [low, high)
+ */
+export function randomUniform(shape: number[], low = -1, high = 1, rng: Random = defaultRandom()): Float64Array {
+  return Float64Array.from({ length: sizeOf(shape) }, () => rng.range(low, high));
+}
+
+/**
+ * Normally distributed values
+ */
+export function randomNormal(shape: number[], mean = 0, std = 1, rng: Random = defaultRandom()): Float64Array {
+  return Float64Array.from({ length: sizeOf(shape) }, () => mean + std * rng.normal());
+}
+
+function resolveFans(shape: number[], options: InitializerOptions): { fanIn: number; fanOut: number } {
+  const computed = fans(shape);
+  return { fanIn: options.fanIn ?? computed.fanIn, fanOut: options.fanOut ?? computed.fanOut };
+}
+
+/**
+ * Xavier/Glorot uniform: U(-a, a) with a = gain · √(6 / (fanIn + fanOut))
+ */
+export function xavierUniform(shape: number[], options: InitializerOptions = {}): Float64Array {
+  const { fanIn, fanOut } = resolveFans(shape, options);
+  const a = (options.gain ?? 1) * Math.sqrt(6 / (fanIn + fanOut));
+  return randomUniform(shape, -a, a, options.rng);
+}
+
+/**
+ * Xavier/Glorot normal: N(0, σ²) with σ = gain · √(2 / (fanIn + fanOut))
+ */
+export function xavierNormal(shape: number[], options: InitializerOptions = {}): Float64Array {
+  const { fanIn, fanOut } = resolveFans(shape, options);
+  return randomNormal(shape, 0, (options.gain ?? 1) * Math.sqrt(2 / (fanIn + fanOut)), options.rng);
+}
+
+/**
+ * He/Kaiming uniform for ReLU layers: U(-a, a) with a = gain · √(6 / fanIn)
+ */
+export function heUniform(shape: number[], options: InitializerOptions = {}): Float64Array {
+  const { fanIn } = resolveFans(shape, options);
+  const a = (options.gain ?? 1) * Math.sqrt(6 / fanIn);
+  return randomUniform(shape, -a, a, options.rng);
+}
+
+/**
+ * He/Kaiming normal for ReLU layers: N(0, σ²) with σ = gain · √(2 / fanIn)
+ */
+export function heNormal(shape: number[], options: InitializerOptions = {}): Float64Array {
+  const { fanIn } = resolveFans(shape, options);
+  return randomNormal(shape, 0, (options.gain ?? 1) * Math.sqrt(2 / fanIn), options.rng);
+}
+
+/**
+ * (Semi-)orthogonal matrix: the shape is read as [rows, product of the
+ * rest], and the rows (or the columns, if there are more rows than
+ * columns) are orthonormal, scaled by gain. Gram–Schmidt on a Gaussian
+ * matrix, so the result is uniformly distributed over orthogonal matrices.
+ */
+export function orthogonal(shape: number[], options: InitializerOptions = {}): Float64Array {
+  if (shape.length < 2) {
+    throw new Error(`orthogonal needs at least 2 dimensions, got [${shape.join(', ')}]`);
+  }
+  const rows = shape[0];
+  const cols = sizeOf(shape.slice(1));
+  const gaussian = randomNormal([rows, cols], 0, 1, options.rng);
+
+  // Orthonormalise the shorter side: `count` vectors of length `length`
+  const byRows = rows <= cols;
+  const count = byRows ? rows : cols;
+  const length = byRows ? cols : rows;
+  const at = (v: number, k: number): number => (byRows ? v * cols + k : k * cols + v);
+
+  for (let v = 0; v < count; v++) {
+    for (let u = 0; u < v; u++) {
+      let dot = 0;
+      for (let k = 0; k < length; k++) dot += gaussian[at(v, k)] * gaussian[at(u, k)];
+      for (let k = 0; k < length; k++) gaussian[at(v, k)] -= dot * gaussian[at(u, k)];
+    }
+    let norm = 0;
+    for (let k = 0; k < length; k++) norm += gaussian[at(v, k)] ** 2;
+    norm = Math.sqrt(norm);
+    if (norm < 1e-12) {
+      throw new Error('orthogonal: degenerate random matrix, try another seed');
+    }
+    for (let k = 0; k < length; k++) gaussian[at(v, k)] /= norm;
+  }
+
+  const gain = options.gain ?? 1;
+  return gain === 1 ? gaussian : gaussian.map((x) => x * gain);
+}
@@ -6,7 +6,7 @@
  *
  * This module extends Tensor Logic with:
  * 1. Semiring abstractions for flexible algebraic reasoning
- * 2. PLN (Probabilistic Logic Networks) truth values
+ * 2. PLN (Probabilistic Logic Networks) truth values (rules in pln.ts)
  * 3. Resource tracking (memory, FLOPs, bandwidth)
  * 4. Linear logic modalities for tensor management
  * 5. RAPTL triple product structure
@@ -20,6 +20,9 @@ import {
   multiply,
   clone,
 } from './core';
+import { compileEinsum, forEachEinsumTerm, parseEinsum } from './kernels';
+import { bytesPerElement, dtypeOf, promoteTypes } from './dtype';
+import { Random, createRandom } from './random';
 
 // ============================================================================
 // SEMIRING ABSTRACTION
@@ -32,6 +35,14 @@ import {
  * - Counting: Path enumeration
  * - Viterbi: Optimization (highest-score paths)
  * - Probabilistic: Expected values under uncertainty
+ * - Log: Probabilities in log space, stable over long products
+ * semirings.ts adds provenance, top-k, expectation, fuzzy and bounded
+ * counting semirings.
+ *
+ * Semiring tensors hold values of type T. fromNumber and toNumber convert
+ * between T and the numbers of ordinary tensors, and are only applied at
+ * the boundaries (liftTensor, lowerTensor), never between operations.
+ * checkSemiringLaws tests a new semiring against the axioms.
  */
 export interface Semiring<T> {
   /** Name of the semiring */
@@ -54,6 +65,12 @@ export interface Semiring<T> {
 
   /** Convert to number */
   toNumber: (v: T) => number;
+
+  /** Values are numbers, stored in a Float64Array rather than an array */
+  numeric?: boolean;
+
+  /** Equality of values (default ===), used to detect a fixpoint */
+  equals?: (a: T, b: T) => boolean;
 }
 
 /**
@@ -82,11 +99,14 @@ export const CountingSemiring: Semiring<number> = {
   mul: (a, b) => a * b,
   fromNumber: (n) => n,
   toNumber: (v) => v,
+  numeric: true,
 };
 
 /**
  * Viterbi Semiring: (max, +) for optimization
  * "What is the highest-score path?"
+ * Values are log-scores: fromNumber takes the log of a probability and
+ * toNumber exponentiates, so the zero (-∞) lowers to probability 0.
  */
 export const ViterbiSemiring: Semiring<number> = {
   name: 'Viterbi',
@@ -96,6 +116,7 @@ export const ViterbiSemiring: Semiring<number> = {
   mul: (a, b) => a + b,
   fromNumber: (n) => n === 0 ? -Infinity : Math.log(n),
   toNumber: (v) => v === -Infinity ? 0 : Math.exp(v),
+  numeric: true,
 };
 
 /**
@@ -110,6 +131,7 @@ export const ProbabilisticSemiring: Semiring<number> = {
   mul: (a, b) => a * b,
   fromNumber: (n) => Math.max(0, Math.min(1, n)),
   toNumber: (v) => v,
+  numeric: true,
 };
 
 /**
@@ -123,108 +145,319 @@ export const MinPlusSemiring: Semiring<number> = {
   mul: (a, b) => a + b,
   fromNumber: (n) => n,
   toNumber: (v) => v,
+  numeric: true,
 };
 
 /**
- * Apply a semiring operation to tensors
+ * log(e^a + e^b) without overflow or underflow
  */
-export function semiringEinsum<T>(
-  semiring: Semiring<T>,
-  notation: string,
-  ...tensors: Tensor[]
-): Tensor {
-  // Parse notation
-  const [inputPart, outputIndices] = notation.split('->');
-  const inputIndices = inputPart.split(',');
+export function logAddExp(a: number, b: number): number {
+  if (a === -Infinity) return b;
+  if (b === -Infinity) return a;
+  return Math.max(a, b) + Math.log1p(Math.exp(-Math.abs(a - b)));
+}
 
-  // Build index sizes map
-  const indexSizes = new Map<string, number>();
-  for (let t = 0; t < tensors.length; t++) {
-    const indices = inputIndices[t];
-    for (let i = 0; i < indices.length; i++) {
-      indexSizes.set(indices[i], tensors[t].shape[i]);
-    }
-  }
+/**
+ * Log Semiring: (logsumexp, +) for probabilities stored as logarithms
+ * Sums of products of many small probabilities without underflow
+ */
+export const LogSemiring: Semiring<number> = {
+  name: 'Log',
+  zero: -Infinity,
+  one: 0,
+  add: logAddExp,
+  mul: (a, b) => a + b,
+  fromNumber: (n) => n === 0 ? -Infinity : Math.log(n),
+  toNumber: (v) => Math.exp(v),
+  numeric: true,
+};
 
-  // Determine output shape
-  const outputShape = [...outputIndices].map(idx => indexSizes.get(idx)!);
-  const outputSize = outputShape.reduce((a, b) => a * b, 1);
-  const outputData = new Float64Array(outputSize);
+// ============================================================================
+// SEMIRING TENSORS
+// ============================================================================
 
-  // Initialize with semiring zero
-  for (let i = 0; i < outputSize; i++) {
-    outputData[i] = semiring.toNumber(semiring.zero);
-  }
+/**
+ * Row-major storage for semiring values
+ */
+export interface SemiringValues<T> {
+  [index: number]: T;
+  readonly length: number;
+}
 
-  // All indices
-  const allIndices = [...new Set([...inputIndices.join('')])];
-  const indexRanges = allIndices.map(idx => indexSizes.get(idx)!);
-
-  // Compute strides
-  const outputStrides = new Map<string, number>();
-  let stride = 1;
-  for (let i = outputIndices.length - 1; i >= 0; i--) {
-    outputStrides.set(outputIndices[i], stride);
-    stride *= outputShape[i];
+/**
+ * A tensor whose entries are values of a semiring, e.g. booleans for
+ * BooleanSemiring or log-scores for ViterbiSemiring
+ */
+export interface SemiringTensor<T> {
+  name: string;
+  shape: number[];
+  indices: string[];
+  semiring: Semiring<T>;
+  /** A Float64Array for numeric semirings, an array otherwise */
+  data: SemiringValues<T>;
+}
+
+/**
+ * Storage for `size` copies of `value`
+ */
+function allocateValues<T>(semiring: Semiring<T>, size: number, value: T = semiring.zero): SemiringValues<T> {
+  if (semiring.numeric) {
+    return new Float64Array(size).fill(value as unknown as number) as unknown as SemiringValues<T>;
   }
+  return new Array<T>(size).fill(value);
+}
 
-  const inputStrides: Map<string, number>[] = [];
-  for (let t = 0; t < tensors.length; t++) {
-    const strides = new Map<string, number>();
-    let s = 1;
-    for (let i = inputIndices[t].length - 1; i >= 0; i--) {
-      strides.set(inputIndices[t][i], s);
-      s *= tensors[t].shape[i];
-    }
-    inputStrides.push(strides);
+/**
+ * Create a semiring tensor filled with the semiring's zero, or holding
+ * the given values
+ */
+export function createSemiringTensor<T>(
+  semiring: Semiring<T>,
+  name: string,
+  indices: string[],
+  shape: number[],
+  values?: ArrayLike<T>
+): SemiringTensor<T> {
+  const size = shape.reduce((a, b) => a * b, 1);
+  if (values && values.length !== size) {
+    throw new Error(`${name}: ${values.length} values for shape [${shape.join(', ')}]`);
+  }
+  const data = allocateValues(semiring, size);
+  if (values) {
+    for (let i = 0; i < size; i++) data[i] = values[i];
   }
+  return { name, shape: [...shape], indices: [...indices], semiring, data };
+}
 
-  // Iterate over all index combinations
-  const indexValues = new Array(allIndices.length).fill(0);
-
-  const iterate = (depth: number): void => {
-    if (depth === allIndices.length) {
-      // Compute product using semiring multiplication
-      let product: T = semiring.one;
-      for (let t = 0; t < tensors.length; t++) {
-        let flatIndex = 0;
-        for (let i = 0; i < inputIndices[t].length; i++) {
-          const idx = inputIndices[t][i];
-          const idxPos = allIndices.indexOf(idx);
-          flatIndex += indexValues[idxPos] * (inputStrides[t].get(idx) ?? 0);
-        }
-        product = semiring.mul(product, semiring.fromNumber(tensors[t].data[flatIndex]));
-      }
+/**
+ * Convert an ordinary tensor into semiring values with fromNumber
+ */
+export function liftTensor<T>(semiring: Semiring<T>, tensor: Tensor): SemiringTensor<T> {
+  const data = allocateValues(semiring, tensor.data.length);
+  for (let i = 0; i < data.length; i++) data[i] = semiring.fromNumber(tensor.data[i]);
+  return { name: tensor.name, shape: [...tensor.shape], indices: [...tensor.indices], semiring, data };
+}
 
-      // Add to output using semiring addition
-      let outputFlatIndex = 0;
-      for (let i = 0; i < outputIndices.length; i++) {
-        const idx = outputIndices[i];
-        const idxPos = allIndices.indexOf(idx);
-        outputFlatIndex += indexValues[idxPos] * (outputStrides.get(idx) ?? 0);
-      }
+/**
+ * Convert semiring values back into an ordinary tensor with toNumber
+ */
+export function lowerTensor<T>(tensor: SemiringTensor<T>): Tensor {
+  const data = new Float64Array(tensor.data.length);
+  for (let i = 0; i < data.length; i++) data[i] = tensor.semiring.toNumber(tensor.data[i]);
+  return { name: tensor.name, shape: [...tensor.shape], indices: [...tensor.indices], data };
+}
 
-      const current = semiring.fromNumber(outputData[outputFlatIndex]);
-      outputData[outputFlatIndex] = semiring.toNumber(semiring.add(current, product));
-      return;
-    }
+/**
+ * Copy of a semiring tensor
+ */
+export function cloneSemiringTensor<T>(tensor: SemiringTensor<T>): SemiringTensor<T> {
+  return createSemiringTensor(tensor.semiring, tensor.name, tensor.indices, tensor.shape, tensor.data as ArrayLike<T>);
+}
 
-    for (let v = 0; v < indexRanges[depth]; v++) {
-      indexValues[depth] = v;
-      iterate(depth + 1);
-    }
-  };
+/**
+ * Einsum over semiring values: ⊗ across operands, ⊕ over summed indices.
+ * Values stay in the semiring throughout; all operands must share it.
+ */
+export function semiringContract<T>(notation: string, ...tensors: SemiringTensor<T>[]): SemiringTensor<T> {
+  if (tensors.length === 0) {
+    throw new Error('semiringContract needs at least one operand');
+  }
+  const semiring = tensors[0].semiring;
+  const other = tensors.find((t) => t.semiring !== semiring);
+  if (other) {
+    throw new Error(`Cannot contract ${tensors[0].name} (${semiring.name}) with ${other.name} (${other.semiring.name})`);
+  }
 
-  iterate(0);
+  const compiled = compileEinsum(notation, tensors.map((t) => t.shape));
+  const operands = tensors.map((t) => t.data);
+  const accumulators = allocateValues(semiring, compiled.outputSize);
+  forEachEinsumTerm(compiled, (output, offsets) => {
+    let product: T = semiring.one;
+    for (let t = 0; t < operands.length; t++) {
+      product = semiring.mul(product, operands[t][offsets[t]]);
+    }
+    accumulators[output] = semiring.add(accumulators[output], product);
+  });
 
   return {
     name: 'result',
-    shape: outputShape,
-    indices: [...outputIndices],
-    data: outputData,
+    shape: compiled.outputShape,
+    indices: [...compiled.outputIndices],
+    semiring,
+    data: accumulators,
   };
 }
 
+/**
+ * Element-wise ⊕ of two semiring tensors of the same shape
+ */
+export function semiringSum<T>(a: SemiringTensor<T>, b: SemiringTensor<T>): SemiringTensor<T> {
+  if (a.shape.join(',') !== b.shape.join(',')) {
+    throw new Error(`Cannot add ${a.name} [${a.shape.join(', ')}] and ${b.name} [${b.shape.join(', ')}]`);
+  }
+  const result = cloneSemiringTensor(a);
+  for (let i = 0; i < result.data.length; i++) result.data[i] = a.semiring.add(a.data[i], b.data[i]);
+  return result;
+}
+
+/**
+ * Apply a semiring operation to ordinary tensors: the operands are lifted
+ * with fromNumber, contracted in the semiring, and the result lowered with
+ * toNumber. Chains of operations should stay in semiring tensors
+ * (semiringContract) so values are converted only once.
+ */
+export function semiringEinsum<T>(
+  semiring: Semiring<T>,
+  notation: string,
+  ...tensors: Tensor[]
+): Tensor {
+  return lowerTensor(semiringContract(notation, ...tensors.map((t) => liftTensor(semiring, t))));
+}
+
+// ============================================================================
+// SEMIRING LAWS
+// ============================================================================
+
+/**
+ * The axioms every semiring must satisfy. Contraction and forward chaining
+ * rely on them to regroup and reorder sums and products; a semiring that
+ * breaks one gives wrong answers without any error.
+ */
+export type SemiringLaw =
+  | 'add-associative'
+  | 'add-commutative'
+  | 'add-identity'
+  | 'mul-associative'
+  | 'mul-identity'
+  | 'left-distributive'
+  | 'right-distributive'
+  | 'zero-annihilates';
+
+/**
+ * A sample on which a law fails: the two sides that should be equal
+ */
+export interface SemiringLawViolation<T> {
+  law: SemiringLaw;
+  /** The sampled a, b, c (as many as the law uses) */
+  values: T[];
+  left: T;
+  right: T;
+  /** The counterexample as text */
+  message: string;
+}
+
+/**
+ * Options for checkSemiringLaws
+ */
+export interface SemiringLawOptions<T> {
+  /** Number of sampled (a, b, c) triples (default 200) */
+  samples?: number;
+  /** Generator to sample from (default: a fresh one with seed 0) */
+  rng?: Random;
+  /** Draw a value; defaults to fromNumber of 0, 1, a small integer or a number in [0, 1) */
+  sample?: (rng: Random) => T;
+  /** Equality of values; defaults to semiring.equals, with a relative tolerance for numeric semirings */
+  equals?: (a: T, b: T) => boolean;
+}
+
+/**
+ * Result of checking a semiring's laws
+ */
+export interface SemiringLawReport<T> {
+  semiring: string;
+  /** Laws that held on every sample */
+  holds: SemiringLaw[];
+  /** The first counterexample of every law that failed */
+  violations: SemiringLawViolation<T>[];
+  samples: number;
+}
+
+/** A value for counterexample messages; JSON.stringify would print Infinity as null */
+function formatSemiringValue(value: unknown): string {
+  if (typeof value === 'number') return String(value);
+  return JSON.stringify(value, (_, v) => (typeof v === 'number' && !Number.isFinite(v) ? String(v) : v));
+}
+
+/**
+ * Test the semiring axioms on random values. Each law is checked on every
+ * sampled triple and on the identities; failures come back with the values
+ * that break them rather than as an exception, so a report can list
+ * everything that is wrong at once.
+ */
+export function checkSemiringLaws<T>(semiring: Semiring<T>, options: SemiringLawOptions<T> = {}): SemiringLawReport<T> {
+  const samples = options.samples ?? 200;
+  const rng = options.rng ?? createRandom(0);
+  const { zero, one, add: plus, mul: times } = semiring;
+
+  const sample =
+    options.sample ??
+    ((r: Random): T => {
+      const kind = r.int(4);
+      return semiring.fromNumber(kind === 0 ? 0 : kind === 1 ? 1 : kind === 2 ? 2 + r.int(3) : r.uniform());
+    });
+  const equals =
+    options.equals ??
+    semiring.equals ??
+    (semiring.numeric
+      ? (a: T, b: T): boolean => {
+        const x = a as unknown as number;
+        const y = b as unknown as number;
+        return x === y || Math.abs(x - y) <= 1e-9 * Math.max(1, Math.abs(x), Math.abs(y));
+      }
+      : (a: T, b: T): boolean => a === b);
+
+  // Each law lists the pairs of sides that must be equal
+  const laws: [SemiringLaw, number, string, (a: T, b: T, c: T) => [T, T][]][] = [
+    ['add-associative', 3, '(a ⊕ b) ⊕ c = a ⊕ (b ⊕ c)', (a, b, c) => [[plus(plus(a, b), c), plus(a, plus(b, c))]]],
+    ['add-commutative', 2, 'a ⊕ b = b ⊕ a', (a, b) => [[plus(a, b), plus(b, a)]]],
+    ['add-identity', 1, '0 ⊕ a = a ⊕ 0 = a', (a) => [[plus(zero, a), a], [plus(a, zero), a]]],
+    ['mul-associative', 3, '(a ⊗ b) ⊗ c = a ⊗ (b ⊗ c)', (a, b, c) => [[times(times(a, b), c), times(a, times(b, c))]]],
+    ['mul-identity', 1, '1 ⊗ a = a ⊗ 1 = a', (a) => [[times(one, a), a], [times(a, one), a]]],
+    ['left-distributive', 3, 'a ⊗ (b ⊕ c) = (a ⊗ b) ⊕ (a ⊗ c)', (a, b, c) => [[times(a, plus(b, c)), plus(times(a, b), times(a, c))]]],
+    ['right-distributive', 3, '(a ⊕ b) ⊗ c = (a ⊗ c) ⊕ (b ⊗ c)', (a, b, c) => [[times(plus(a, b), c), plus(times(a, c), times(b, c))]]],
+    ['zero-annihilates', 1, '0 ⊗ a = a ⊗ 0 = 0', (a) => [[times(zero, a), zero], [times(a, zero), zero]]],
+  ];
+
+  // The identities themselves are always among the samples
+  const triples: T[][] = [[zero, one, zero], [one, zero, one]];
+  for (let i = 0; i < samples; i++) triples.push([sample(rng), sample(rng), sample(rng)]);
+
+  const holds: SemiringLaw[] = [];
+  const violations: SemiringLawViolation<T>[] = [];
+  for (const [law, arity, statement, sides] of laws) {
+    let violation: SemiringLawViolation<T> | undefined;
+    for (const [a, b, c] of triples) {
+      const failing = sides(a, b, c).find(([left, right]) => !equals(left, right));
+      if (!failing) continue;
+      const [left, right] = failing;
+      const values = [a, b, c].slice(0, arity);
+      const named = values.map((v, i) => `${'abc'[i]} = ${formatSemiringValue(v)}`).join(', ');
+      violation = {
+        law,
+        values,
+        left,
+        right,
+        message: `${semiring.name}: ${law} fails for ${named}: ${statement}, but got ${formatSemiringValue(left)} and ${formatSemiringValue(right)}`,
+      };
+      break;
+    }
+    if (violation) violations.push(violation);
+    else holds.push(law);
+  }
+
+  return { semiring: semiring.name, holds, violations, samples: triples.length };
+}
+
+/**
+ * Throw if a semiring breaks any law, listing every counterexample
+ */
+export function assertSemiringLaws<T>(semiring: Semiring<T>, options: SemiringLawOptions<T> = {}): void {
+  const { violations } = checkSemiringLaws(semiring, options);
+  if (violations.length > 0) {
+    throw new Error(`${semiring.name} is not a semiring:\n${violations.map((v) => `  ${v.message}`).join('\n')}`);
+  }
+}
+
 // ============================================================================
 // PLN TRUTH VALUES
 // ============================================================================
@@ -233,12 +466,22 @@ export function semiringEinsum<T>(
  * PLN Truth Value: Strength-Confidence pair
  * - Strength: How likely something is (0 to 1)
  * - Confidence: How much evidence supports that estimate (0 to 1)
+ *
+ * Confidence is tied to an evidence count n by c = n / (n + k), where the
+ * lookahead k is the amount of further evidence that would halve the
+ * weight of what has been seen so far.
  */
 export interface PLNTruthValue {
   strength: number;
   confidence: number;
 }
 
+/**
+ * Default lookahead k for converting between evidence counts and
+ * confidence (OpenCog's default)
+ */
+export const PLN_DEFAULT_K = 800;
+
 /**
  * Create a PLN truth value
  */
@@ -249,6 +492,30 @@ export function createTruthValue(strength: number, confidence: number): PLNTruth
   };
 }
 
+/**
+ * Evidence count behind a confidence: n = k·c / (1 − c), Infinity for c = 1
+ */
+export function confidenceToCount(confidence: number, k: number = PLN_DEFAULT_K): number {
+  return confidence >= 1 ? Infinity : (k * confidence) / (1 - confidence);
+}
+
+/**
+ * Confidence of n pieces of evidence: c = n / (n + k)
+ */
+export function countToConfidence(count: number, k: number = PLN_DEFAULT_K): number {
+  return count === Infinity ? 1 : count / (count + k);
+}
+
+/**
+ * Truth value of `positive` successes out of `total` observations
+ */
+export function truthValueFromCounts(positive: number, total: number, k: number = PLN_DEFAULT_K): PLNTruthValue {
+  if (total < 0 || positive < 0 || positive > total) {
+    throw new Error(`Cannot have ${positive} positive out of ${total} observations`);
+  }
+  return createTruthValue(total === 0 ? 0 : positive / total, countToConfidence(total, k));
+}
+
 /**
  * PLN conjunction (AND): Combines two truth values
  * Uses the independence-based formula from OpenCog's PLN
@@ -276,8 +543,31 @@ export function plnNegation(a: PLNTruthValue): PLNTruthValue {
   return createTruthValue(1 - a.strength, a.confidence);
 }
 
+/**
+ * Range of P(B|A) consistent with P(A) and P(B):
+ * max(0, (P(A) + P(B) − 1) / P(A)) ≤ P(B|A) ≤ min(1, P(B) / P(A))
+ */
+export function conditionalBounds(sA: number, sB: number): [number, number] {
+  if (sA <= 0) return [0, 1];
+  return [Math.max(0, (sA + sB - 1) / sA), Math.min(1, sB / sA)];
+}
+
+/**
+ * Strength of A→C from A→B and B→C, assuming A and C are independent
+ * given B and given ¬B:
+ * P(C|A) = P(B|A)·P(C|B) + P(¬B|A)·(P(C) − P(B)·P(C|B)) / (1 − P(B))
+ */
+export function deductionStrength(sAB: number, sBC: number, sB: number, sC: number): number {
+  if (sB >= 1 - 1e-9) return Math.max(0, Math.min(1, sBC));
+  const strength = sAB * sBC + ((1 - sAB) * (sC - sB * sBC)) / (1 - sB);
+  return Math.max(0, Math.min(1, strength));
+}
+
 /**
  * PLN deduction: A->B, B->C => A->C
+ * The term truth values a, b, c are the probabilities of A, B and C.
+ * Premises outside conditionalBounds describe no joint distribution, and
+ * give confidence 0; otherwise confidence is that of the weaker premise.
  */
 export function plnDeduction(
   ab: PLNTruthValue,
@@ -286,39 +576,37 @@ export function plnDeduction(
   b: PLNTruthValue,
   c: PLNTruthValue
 ): PLNTruthValue {
-  // Simplified deduction formula
-  const strength = ab.strength * bc.strength +
-    (1 - ab.strength) * (c.strength - b.strength * bc.strength) /
-    Math.max(0.001, 1 - b.strength);
-
-  // Confidence based on evidence combination
-  const confidence = ab.confidence * bc.confidence *
-    a.confidence * b.confidence * c.confidence;
-
-  return createTruthValue(
-    Math.max(0, Math.min(1, strength)),
-    Math.pow(confidence, 0.2) // Fifth root for reasonable scaling
-  );
+  const consistent = (sX: number, sY: number, sXY: number): boolean => {
+    const [low, high] = conditionalBounds(sX, sY);
+    return sXY >= low - 1e-9 && sXY <= high + 1e-9;
+  };
+  const strength = deductionStrength(ab.strength, bc.strength, b.strength, c.strength);
+  if (!consistent(a.strength, b.strength, ab.strength) || !consistent(b.strength, c.strength, bc.strength)) {
+    return createTruthValue(strength, 0);
+  }
+  return createTruthValue(strength, Math.min(ab.confidence, bc.confidence));
 }
 
 /**
- * PLN revision: Combine multiple estimates of the same fact
+ * PLN revision: Combine two estimates of the same fact from independent
+ * evidence. Evidence counts add, strengths are averaged by count; k
+ * cancels out of the result, so any lookahead gives the same answer.
  */
-export function plnRevision(a: PLNTruthValue, b: PLNTruthValue): PLNTruthValue {
-  // Weight by confidence
-  const w1 = a.confidence;
-  const w2 = b.confidence;
-  const totalW = w1 + w2;
+export function plnRevision(a: PLNTruthValue, b: PLNTruthValue, k: number = PLN_DEFAULT_K): PLNTruthValue {
+  const n1 = confidenceToCount(a.confidence, k);
+  const n2 = confidenceToCount(b.confidence, k);
+
+  if (n1 === Infinity || n2 === Infinity) {
+    // Certain estimates outweigh any finite evidence
+    const certain = [a, b].filter((tv) => tv.confidence >= 1);
+    return createTruthValue(certain.reduce((s, tv) => s + tv.strength, 0) / certain.length, 1);
+  }
 
-  if (totalW === 0) {
+  const n = n1 + n2;
+  if (n === 0) {
     return createTruthValue(0.5, 0);
   }
-
-  const strength = (a.strength * w1 + b.strength * w2) / totalW;
-  // Confidence increases with more evidence
-  const confidence = Math.min(0.99, (w1 + w2) / (w1 + w2 + 1));
-
-  return createTruthValue(strength, confidence);
+  return createTruthValue((a.strength * n1 + b.strength * n2) / n, countToConfidence(n, k));
 }
 
 /**
@@ -342,10 +630,24 @@ export function createPLNTensor(
   return { tensor, truthValues };
 }
 
+/**
+ * Element-wise logic pairs elements by position, so both operands must share
+ * indices and shape; otherwise multiply/add would broadcast by index name.
+ */
+function assertAligned(operation: string, a: Tensor, b: Tensor): void {
+  if (a.indices.join(',') !== b.indices.join(',') || a.shape.join(',') !== b.shape.join(',')) {
+    throw new Error(
+      `${operation}: ${a.name}[${a.indices.join(', ')}] of shape [${a.shape.join(', ')}] and ` +
+      `${b.name}[${b.indices.join(', ')}] of shape [${b.shape.join(', ')}] must have the same indices and shape`
+    );
+  }
+}
+
 /**
  * PLN tensor conjunction (element-wise)
  */
 export function plnTensorConjunction(a: PLNTensor, b: PLNTensor): PLNTensor {
+  assertAligned('plnTensorConjunction', a.tensor, b.tensor);
   const resultTensor = multiply(a.tensor, b.tensor);
   const truthValues = a.truthValues.map((tv, i) =>
     plnConjunction(tv, b.truthValues[i])
@@ -404,16 +706,17 @@ export function createResourceProfile(): ResourceProfile {
  */
 export function estimateTensorResources(tensor: Tensor): ResourceProfile {
   const totalElements = tensor.shape.reduce((a, b) => a * b, 1);
-  const bytesPerElement = 8; // Float64
-  const nnz = tensor.data.filter(v => v !== 0).length;
+  const bytes = totalElements * bytesPerElement(dtypeOf(tensor));
+  let nnz = 0;
+  for (let i = 0; i < tensor.data.length; i++) if (tensor.data[i] !== 0) nnz++;
 
   return {
-    hbmBytes: totalElements * bytesPerElement,
-    l2Bytes: Math.min(totalElements * bytesPerElement, 6 * 1024 * 1024), // Typical L2 size
-    sharedMemBytes: Math.min(totalElements * bytesPerElement, 48 * 1024), // Typical shared mem
+    hbmBytes: bytes,
+    l2Bytes: Math.min(bytes, 6 * 1024 * 1024), // Typical L2 size
+    sharedMemBytes: Math.min(bytes, 48 * 1024), // Typical shared mem
     registers: Math.min(tensor.shape.length * 4, 255), // Conservative register estimate
     flops: 0, // No computation for just storing
-    bandwidth: totalElements * bytesPerElement, // Memory footprint
+    bandwidth: bytes, // Memory footprint
     nnz: nnz,
     density: nnz / Math.max(1, totalElements),
     rank: tensor.shape.length,
@@ -427,8 +730,7 @@ export function estimateEinsumResources(
   notation: string,
   ...tensors: Tensor[]
 ): ResourceProfile {
-  const [inputPart, outputIndices] = notation.split('->');
-  const inputIndices = inputPart.split(',');
+  const { inputs: inputIndices, output: outputIndices } = parseEinsum(notation, tensors.map((t) => t.shape));
 
   // Build index sizes
   const indexSizes = new Map<string, number>();
@@ -451,13 +753,13 @@ export function estimateEinsumResources(
 
   // Memory: sum of all tensor sizes
   const inputBytes = tensors.reduce((sum, t) =>
-    sum + t.data.length * 8, 0
+    sum + t.data.length * bytesPerElement(dtypeOf(t)), 0
   );
 
-  // Output size
+  // Output size, in the promoted dtype einsum produces
   const outputShape = [...outputIndices].map(idx => indexSizes.get(idx)!);
   const outputSize = outputShape.reduce((a, b) => a * b, 1);
-  const outputBytes = outputSize * 8;
+  const outputBytes = outputSize * bytesPerElement(promoteTypes(...tensors.map(dtypeOf)));
 
   return {
     hbmBytes: inputBytes + outputBytes,
@@ -674,6 +976,7 @@ export function createRAPTLFact(
  * - Resources: sequential combination
  */
 export function raptlConjunction(a: RAPTLFact, b: RAPTLFact): RAPTLFact {
+  assertAligned('raptlConjunction', a.logic, b.logic);
   const logic = multiply(a.logic, b.logic);
   const uncertainty = plnConjunction(a.uncertainty, b.uncertainty);
   const resources = combineResourcesSequential(a.resources, b.resources);
@@ -694,6 +997,7 @@ export function raptlConjunction(a: RAPTLFact, b: RAPTLFact): RAPTLFact {
  * - Resources: parallel combination (max)
  */
 export function raptlDisjunction(a: RAPTLFact, b: RAPTLFact): RAPTLFact {
+  assertAligned('raptlDisjunction', a.logic, b.logic);
   const logic = add(a.logic, b.logic);
   const uncertainty = plnDisjunction(a.uncertainty, b.uncertainty);
   const resources = combineResourcesParallel(a.resources, b.resources);
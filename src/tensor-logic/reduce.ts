@@ -0,0 +1,211 @@
+/**
+ * REDUCTIONS ALONG NAMED INDICES
+ *
+ * Summation is the projection of tensor logic: einsum sums out every index
+ * missing from the output. Other aggregates replace the sum:
+ *
+ *   sum(X, 'seq')           Σ_seq X[seq, d]                  → [d]
+ *   max(X, 'seq')           max-pooling over positions       → [d]
+ *   argmax(Y, 'class')      predicted class per example      → [n]
+ *   logsumexp(S, 'k')       log Σ_k exp S[q, k], computed stably
+ *   norm(W, ['i', 'j'])     Frobenius norm
+ *
+ * Every reduction takes one index name, a list of them, or none (reduce
+ * everything). With keepdims the reduced indices stay in place with size 1,
+ * so the result still broadcasts against the input by name.
+ */
+
+import { Tensor } from './core';
+import { DType, TensorData, castData } from './dtype';
+import { permute } from './shape';
+
+/**
+ * Options shared by all reductions
+ */
+export interface ReduceOptions {
+  /** Keep reduced indices as size-1 indices (default false) */
+  keepdims?: boolean;
+}
+
+// ============================================================================
+// GENERIC REDUCTION
+// ============================================================================
+
+/**
+ * Apply `fn` to every group of elements that share the kept indices.
+ * Each group is passed as a contiguous array in row-major order of the
+ * reduced indices. With `dtype` the result is stored as that type.
+ */
+function reduceAlong(
+  tensor: Tensor,
+  indices: string | string[] | undefined,
+  options: ReduceOptions,
+  operation: string,
+  fn: (group: TensorData) => number,
+  dtype?: DType
+): Tensor {
+  const reduced = indices === undefined ? [...tensor.indices] : typeof indices === 'string' ? [indices] : indices;
+  for (const idx of reduced) {
+    if (!tensor.indices.includes(idx)) {
+      throw new Error(`${operation}: ${tensor.name} has no index '${idx}' (indices: ${tensor.indices.join(', ')})`);
+    }
+  }
+  if (new Set(reduced).size !== reduced.length) {
+    throw new Error(`${operation}: index names [${reduced.join(', ')}] repeat`);
+  }
+
+  const kept = tensor.indices.filter((idx) => !reduced.includes(idx));
+  const order = [...kept, ...reduced];
+  const same = order.every((idx, i) => idx === tensor.indices[i]);
+  const arranged = same ? tensor : permute(tensor, order);
+
+  const sizeOf = (names: string[]) => names.reduce((size, idx) => size * tensor.shape[tensor.indices.indexOf(idx)], 1);
+  const groupSize = sizeOf(reduced);
+  const data = new Float64Array(sizeOf(kept));
+  for (let g = 0; g < data.length; g++) {
+    data[g] = fn(arranged.data.subarray(g * groupSize, (g + 1) * groupSize));
+  }
+
+  const keep = options.keepdims ?? false;
+  const resultIndices = keep ? [...tensor.indices] : kept;
+  const shape = resultIndices.map((idx) =>
+    reduced.includes(idx) ? 1 : tensor.shape[tensor.indices.indexOf(idx)]
+  );
+  if (dtype) {
+    return { name: tensor.name, shape, indices: [...resultIndices], data: castData(data, dtype), dtype };
+  }
+  return { name: tensor.name, shape, indices: [...resultIndices], data };
+}
+
+function nonEmpty(operation: string, group: TensorData): void {
+  if (group.length === 0) {
+    throw new Error(`${operation} of an empty set of elements`);
+  }
+}
+
+// ============================================================================
+// REDUCTIONS
+// ============================================================================
+
+/** Σ over the indices */
+export function sum(tensor: Tensor, indices?: string | string[], options: ReduceOptions = {}): Tensor {
+  return reduceAlong(tensor, indices, options, 'sum', (g) => {
+    let total = 0;
+    for (let i = 0; i < g.length; i++) total += g[i];
+    return total;
+  });
+}
+
+/** Arithmetic mean over the indices */
+export function mean(tensor: Tensor, indices?: string | string[], options: ReduceOptions = {}): Tensor {
+  return reduceAlong(tensor, indices, options, 'mean', (g) => {
+    nonEmpty('mean', g);
+    let total = 0;
+    for (let i = 0; i < g.length; i++) total += g[i];
+    return total / g.length;
+  });
+}
+
+/** Π over the indices */
+export function prod(tensor: Tensor, indices?: string | string[], options: ReduceOptions = {}): Tensor {
+  return reduceAlong(tensor, indices, options, 'prod', (g) => {
+    let product = 1;
+    for (let i = 0; i < g.length; i++) product *= g[i];
+    return product;
+  });
+}
+
+/** Largest element over the indices */
+export function max(tensor: Tensor, indices?: string | string[], options: ReduceOptions = {}): Tensor {
+  return reduceAlong(tensor, indices, options, 'max', (g) => {
+    nonEmpty('max', g);
+    let best = -Infinity;
+    for (let i = 0; i < g.length; i++) best = Math.max(best, g[i]);
+    return best;
+  });
+}
+
+/** Smallest element over the indices */
+export function min(tensor: Tensor, indices?: string | string[], options: ReduceOptions = {}): Tensor {
+  return reduceAlong(tensor, indices, options, 'min', (g) => {
+    nonEmpty('min', g);
+    let best = Infinity;
+    for (let i = 0; i < g.length; i++) best = Math.min(best, g[i]);
+    return best;
+  });
+}
+
+/**
+ * Position of the largest element (the first, on ties). Over several
+ * indices, the position is row-major over them in the tensor's order.
+ */
+export function argmax(tensor: Tensor, indices?: string | string[], options: ReduceOptions = {}): Tensor {
+  return reduceAlong(tensor, indices, options, 'argmax', (g) => {
+    nonEmpty('argmax', g);
+    let best = 0;
+    for (let i = 1; i < g.length; i++) if (g[i] > g[best]) best = i;
+    return best;
+  });
+}
+
+/**
+ * Position of the smallest element (the first, on ties); see argmax
+ */
+export function argmin(tensor: Tensor, indices?: string | string[], options: ReduceOptions = {}): Tensor {
+  return reduceAlong(tensor, indices, options, 'argmin', (g) => {
+    nonEmpty('argmin', g);
+    let best = 0;
+    for (let i = 1; i < g.length; i++) if (g[i] < g[best]) best = i;
+    return best;
+  });
+}
+
+/**
+ * log Σ exp(x) over the indices, shifted by the maximum so that large
+ * inputs do not overflow
+ */
+export function logsumexp(tensor: Tensor, indices?: string | string[], options: ReduceOptions = {}): Tensor {
+  return reduceAlong(tensor, indices, options, 'logsumexp', (g) => {
+    let top = -Infinity;
+    for (let i = 0; i < g.length; i++) top = Math.max(top, g[i]);
+    if (top === -Infinity || top === Infinity) return top;
+    let total = 0;
+    for (let i = 0; i < g.length; i++) total += Math.exp(g[i] - top);
+    return top + Math.log(total);
+  });
+}
+
+/** 1 if any element over the indices is non-zero (logical OR); a bool tensor */
+export function any(tensor: Tensor, indices?: string | string[], options: ReduceOptions = {}): Tensor {
+  return reduceAlong(tensor, indices, options, 'any', (g) => (g.some((x) => x !== 0) ? 1 : 0), 'bool');
+}
+
+/** 1 if every element over the indices is non-zero (logical AND); a bool tensor */
+export function all(tensor: Tensor, indices?: string | string[], options: ReduceOptions = {}): Tensor {
+  return reduceAlong(tensor, indices, options, 'all', (g) => (g.every((x) => x !== 0) ? 1 : 0), 'bool');
+}
+
+/**
+ * p-norm over the indices: (Σ |x|^p)^(1/p), default p = 2.
+ * p = Infinity gives the largest absolute value.
+ */
+export function norm(
+  tensor: Tensor,
+  indices?: string | string[],
+  options: ReduceOptions & { p?: number } = {}
+): Tensor {
+  const p = options.p ?? 2;
+  if (!(p > 0)) {
+    throw new Error(`norm: p must be positive, got ${p}`);
+  }
+  return reduceAlong(tensor, indices, options, 'norm', (g) => {
+    if (p === Infinity) {
+      let top = 0;
+      for (let i = 0; i < g.length; i++) top = Math.max(top, Math.abs(g[i]));
+      return top;
+    }
+    let total = 0;
+    for (let i = 0; i < g.length; i++) total += Math.pow(Math.abs(g[i]), p);
+    return Math.pow(total, 1 / p);
+  });
+}
@@ -0,0 +1,388 @@
+/**
+ * MORE SEMIRINGS: PROVENANCE, TOP-K, EXPECTATION, FUZZY LOGIC
+ *
+ * The semirings of raptl.ts answer "is there a derivation?", "how many?"
+ * and "what is the best score?". The ones here answer further questions
+ * with the same rules and the same contractions (semiringEinsum,
+ * semiringContract, forwardChain):
+ *
+ * - Why-provenance:   which sets of facts derive each answer?
+ * - Polynomial N[X]:  how, and how many times, is each fact used?
+ * - Top-k:            what are the k best derivations and their scores?
+ * - Expectation:      what is the expected value of a quantity over all
+ *                     derivations, and its gradient?
+ * - Gödel, product and Łukasiewicz t-norms: fuzzy conjunction, with max
+ *                     as disjunction
+ * - Bounded counting: how many derivations, up to a cap, so counting
+ *                     terminates on cyclic rules
+ *
+ * Provenance and top-k values name the facts they came from, which plain
+ * numbers cannot, so such tensors are built with annotateFacts rather than
+ * liftTensor:
+ *
+ *   const Parent = annotateFacts(WhyProvenanceSemiring, facts, (fact) => [[fact]], people);
+ *   forwardChain(program, new Map([['Parent', Parent]]), WhyProvenanceSemiring);
+ *
+ * where each fact is labelled like `Parent(alice, bob)`.
+ */
+
+import { Tensor } from './core';
+import { Domain } from './domains';
+import { Semiring, SemiringTensor, createSemiringTensor, lowerTensor } from './raptl';
+
+// ============================================================================
+// ANNOTATING FACTS
+// ============================================================================
+
+/**
+ * Lift a relation tensor into a semiring, giving every non-zero entry the
+ * value annotate(label, value). Labels read `Name(a, b)`, with the symbols
+ * of `domains` (one domain applies to every axis) or with positions if no
+ * domains are given. Zero entries become the semiring's zero.
+ */
+export function annotateFacts<T>(
+  semiring: Semiring<T>,
+  tensor: Tensor,
+  annotate: (label: string, value: number) => T,
+  domains?: Domain | Domain[]
+): SemiringTensor<T> {
+  const axes = domains === undefined ? [] : Array.isArray(domains) ? domains : tensor.shape.map(() => domains);
+  if (domains !== undefined && axes.length !== tensor.shape.length) {
+    throw new Error(`${tensor.name} has ${tensor.shape.length} axes but ${axes.length} domains were given`);
+  }
+
+  const result = createSemiringTensor(semiring, tensor.name, tensor.indices, tensor.shape);
+  const position = new Array(tensor.shape.length).fill(0);
+  for (let flat = 0; flat < tensor.data.length; flat++) {
+    const value = tensor.data[flat];
+    if (value !== 0) {
+      const args = position.map((p, k) => axes[k]?.symbols[p] ?? String(p));
+      result.data[flat] = annotate(`${tensor.name}(${args.join(', ')})`, value);
+    }
+    for (let k = position.length - 1; k >= 0; k--) {
+      if (++position[k] < tensor.shape[k]) break;
+      position[k] = 0;
+    }
+  }
+  return result;
+}
+
+// ============================================================================
+// WHY-PROVENANCE
+// ============================================================================
+
+/**
+ * A set of minimal witnesses, each a set of facts that together derive the
+ * answer. Witnesses are sorted lists of fact labels; the set is sorted too,
+ * so equal values have equal representations.
+ */
+export type WhyProvenance = string[][];
+
+const witnessKey = (witness: string[]): string => witness.join('\u0000');
+
+/** Drop duplicate witnesses and those containing another one, then sort */
+function normalizeWitnesses(witnesses: string[][]): WhyProvenance {
+  const unique = new Map<string, string[]>();
+  for (const witness of witnesses) unique.set(witnessKey(witness), witness);
+
+  const minimal: string[][] = [];
+  for (const witness of [...unique.values()].sort((a, b) => a.length - b.length)) {
+    const facts = new Set(witness);
+    if (!minimal.some((smaller) => smaller.every((fact) => facts.has(fact)))) minimal.push(witness);
+  }
+  return minimal.sort((a, b) => (witnessKey(a) < witnessKey(b) ? -1 : 1));
+}
+
+/** Union of two sorted witnesses */
+function unionWitness(a: string[], b: string[]): string[] {
+  return [...new Set([...a, ...b])].sort();
+}
+
+/**
+ * Why-provenance: (∪, pairwise ∪) over sets of minimal witnesses
+ * "Which combinations of facts derive this answer?"
+ * The zero is no witness, the one the empty witness; a fact is the single
+ * witness [[label]]. Witnesses that contain another are dropped, so a
+ * derivation going round a cycle adds nothing and answers read as the
+ * smallest sets of facts that explain them. Lowers to the number of
+ * witnesses.
+ */
+export const WhyProvenanceSemiring: Semiring<WhyProvenance> = {
+  name: 'WhyProvenance',
+  zero: [],
+  one: [[]],
+  add: (a, b) => (b.length === 0 ? a : a.length === 0 ? b : normalizeWitnesses([...a, ...b])),
+  mul: (a, b) => normalizeWitnesses(a.flatMap((x) => b.map((y) => unionWitness(x, y)))),
+  fromNumber: (n) => (n === 0 ? [] : [[]]),
+  toNumber: (v) => v.length,
+  equals: (a, b) => a.length === b.length && a.every((w, i) => witnessKey(w) === witnessKey(b[i])),
+};
+
+/**
+ * Witnesses as text, e.g. `{Parent(a, b), Parent(b, c)} | {Edge(a, c)}`
+ */
+export function formatWhyProvenance(value: WhyProvenance): string {
+  if (value.length === 0) return '∅';
+  return value.map((witness) => `{${witness.join(', ')}}`).join(' | ');
+}
+
+// ============================================================================
+// PROVENANCE POLYNOMIALS
+// ============================================================================
+
+/**
+ * A term c · x₁ · x₂ ⋯ of a provenance polynomial. Factors are sorted fact
+ * labels, repeated for powers.
+ */
+export interface Monomial {
+  coefficient: number;
+  factors: string[];
+}
+
+/**
+ * A polynomial with natural coefficients over fact labels, as a sorted list
+ * of monomials with non-zero coefficients
+ */
+export type Polynomial = Monomial[];
+
+/** Combine like terms and sort */
+function normalizePolynomial(terms: Monomial[]): Polynomial {
+  const combined = new Map<string, Monomial>();
+  for (const term of terms) {
+    const key = witnessKey(term.factors);
+    const existing = combined.get(key);
+    combined.set(key, { coefficient: (existing?.coefficient ?? 0) + term.coefficient, factors: term.factors });
+  }
+  return [...combined.keys()]
+    .sort()
+    .map((key) => combined.get(key)!)
+    .filter((term) => term.coefficient !== 0);
+}
+
+/**
+ * Provenance polynomials N[X]: (+, ×) over polynomials in the facts
+ * "How is this answer derived?" Each monomial is one derivation and its
+ * factors the facts it uses, with multiplicity. The most general
+ * commutative semiring: evaluating the facts in Boolean, Counting or
+ * Viterbi gives the answer in that semiring. Lowers to the number of
+ * derivations (every fact evaluated to 1).
+ */
+export const PolynomialSemiring: Semiring<Polynomial> = {
+  name: 'Polynomial',
+  zero: [],
+  one: [{ coefficient: 1, factors: [] }],
+  add: (a, b) => (b.length === 0 ? a : a.length === 0 ? b : normalizePolynomial([...a, ...b])),
+  mul: (a, b) =>
+    normalizePolynomial(
+      a.flatMap((x) => b.map((y) => ({ coefficient: x.coefficient * y.coefficient, factors: [...x.factors, ...y.factors].sort() })))
+    ),
+  fromNumber: (n) => (n === 0 ? [] : [{ coefficient: n, factors: [] }]),
+  toNumber: (v) => v.reduce((sum, term) => sum + term.coefficient, 0),
+  equals: (a, b) =>
+    a.length === b.length &&
+    a.every((term, i) => term.coefficient === b[i].coefficient && witnessKey(term.factors) === witnessKey(b[i].factors)),
+};
+
+/**
+ * A polynomial as text, e.g. `2·Edge(a, b)^2 + Edge(a, c)`
+ */
+export function formatPolynomial(value: Polynomial): string {
+  if (value.length === 0) return '0';
+  return value
+    .map(({ coefficient, factors }) => {
+      const powers: string[] = [];
+      for (let i = 0; i < factors.length; ) {
+        let j = i;
+        while (j < factors.length && factors[j] === factors[i]) j++;
+        powers.push(j - i === 1 ? factors[i] : `${factors[i]}^${j - i}`);
+        i = j;
+      }
+      if (powers.length === 0) return String(coefficient);
+      return coefficient === 1 ? powers.join('·') : `${coefficient}·${powers.join('·')}`;
+    })
+    .join(' + ');
+}
+
+// ============================================================================
+// TOP-K DERIVATIONS
+// ============================================================================
+
+/**
+ * One derivation: its log-score and the facts it uses (sorted, with
+ * multiplicity)
+ */
+export interface Derivation {
+  score: number;
+  facts: string[];
+}
+
+/** Best score first; ties broken by the facts, so the order is deterministic */
+function compareDerivations(a: Derivation, b: Derivation): number {
+  if (a.score !== b.score) return b.score - a.score;
+  const ka = witnessKey(a.facts);
+  const kb = witnessKey(b.facts);
+  return ka < kb ? -1 : ka > kb ? 1 : 0;
+}
+
+/**
+ * Top-k Viterbi semiring: the k best derivations, best first
+ * "What are the k highest-scoring ways to derive this answer?"
+ * Scores are log-scores as in ViterbiSemiring: ⊗ adds them and ⊕ keeps the
+ * k best of both lists. With k = 1 the scores are those of ViterbiSemiring.
+ * fromNumber takes the log of a probability, toNumber exponentiates the
+ * best score. Each call returns a new semiring; tensors contracted together
+ * must share the same instance.
+ */
+export function topKSemiring(k: number): Semiring<Derivation[]> {
+  if (!Number.isInteger(k) || k < 1) {
+    throw new Error(`Top-k semiring needs a positive integer k, got ${k}`);
+  }
+  const best = (derivations: Derivation[]): Derivation[] => derivations.sort(compareDerivations).slice(0, k);
+  return {
+    name: `Top${k}`,
+    zero: [],
+    one: [{ score: 0, facts: [] }],
+    add: (a, b) => (b.length === 0 ? a : a.length === 0 ? b : best([...a, ...b])),
+    mul: (a, b) => best(a.flatMap((x) => b.map((y) => ({ score: x.score + y.score, facts: [...x.facts, ...y.facts].sort() })))),
+    fromNumber: (n) => (n === 0 ? [] : [{ score: Math.log(n), facts: [] }]),
+    toNumber: (v) => (v.length === 0 ? 0 : Math.exp(v[0].score)),
+    equals: (a, b) => a.length === b.length && a.every((x, i) => compareDerivations(x, b[i]) === 0),
+  };
+}
+
+// ============================================================================
+// EXPECTATION SEMIRING
+// ============================================================================
+
+/**
+ * A probability p with an accumulated p-weighted quantity r
+ */
+export interface ExpectationValue {
+  p: number;
+  r: number;
+}
+
+/**
+ * Expectation semiring (Eisner 2002): (p₁, r₁) ⊕ (p₂, r₂) = (p₁ + p₂, r₁ + r₂)
+ * and (p₁, r₁) ⊗ (p₂, r₂) = (p₁p₂, p₁r₂ + p₂r₁).
+ * "What is the expected value of an additive quantity over derivations?"
+ * If each fact carries (p, p·v), the sum over derivations gives Z = Σ p(d)
+ * and r = Σ p(d)·v(d), where v(d) adds up v over the facts of d, so
+ * E[v] = r / Z. With v = ∂log p/∂θ, r is the gradient ∂Z/∂θ.
+ * Lifting a number gives (n, 0); lowering gives p.
+ */
+export const ExpectationSemiring: Semiring<ExpectationValue> = {
+  name: 'Expectation',
+  zero: { p: 0, r: 0 },
+  one: { p: 1, r: 0 },
+  add: (a, b) => ({ p: a.p + b.p, r: a.r + b.r }),
+  mul: (a, b) => ({ p: a.p * b.p, r: a.p * b.r + b.p * a.r }),
+  fromNumber: (n) => ({ p: n, r: 0 }),
+  toNumber: (v) => v.p,
+  equals: (a, b) => a.p === b.p && a.r === b.r,
+};
+
+/**
+ * Expectation values (p, p·v) from a tensor of probabilities and a tensor
+ * of per-fact quantities v of the same shape
+ */
+export function expectationFacts(probabilities: Tensor, quantities: Tensor): SemiringTensor<ExpectationValue> {
+  if (probabilities.shape.join(',') !== quantities.shape.join(',')) {
+    throw new Error(`${probabilities.name} [${probabilities.shape.join(', ')}] and ${quantities.name} [${quantities.shape.join(', ')}] differ in shape`);
+  }
+  const values = Array.from(probabilities.data, (p, i) => ({ p, r: p * quantities.data[i] }));
+  return createSemiringTensor(ExpectationSemiring, probabilities.name, probabilities.indices, probabilities.shape, values);
+}
+
+/**
+ * Total probability Z and expectation r / Z of each entry (0 where Z = 0)
+ */
+export function expectedValues(tensor: SemiringTensor<ExpectationValue>): { total: Tensor; expectation: Tensor } {
+  const total = lowerTensor(tensor);
+  const expectation = lowerTensor(tensor);
+  for (let i = 0; i < tensor.data.length; i++) {
+    const { p, r } = tensor.data[i];
+    expectation.data[i] = p === 0 ? 0 : r / p;
+  }
+  return { total, expectation };
+}
+
+// ============================================================================
+// FUZZY LOGIC (T-NORMS)
+// ============================================================================
+
+const clamp01 = (n: number): number => Math.max(0, Math.min(1, n));
+
+/**
+ * Gödel Semiring: (max, min) over truth degrees in [0, 1]
+ * "How true is the strongest chain?" A chain is as true as its weakest
+ * link. Idempotent in both operations.
+ */
+export const GodelSemiring: Semiring<number> = {
+  name: 'Gödel',
+  zero: 0,
+  one: 1,
+  add: (a, b) => Math.max(a, b),
+  mul: (a, b) => Math.min(a, b),
+  fromNumber: clamp01,
+  toNumber: (v) => v,
+  numeric: true,
+};
+
+/**
+ * Product Semiring: (max, ×) over truth degrees in [0, 1]
+ * The product t-norm; the same algebra as ViterbiSemiring, but with
+ * degrees stored as they are rather than as logarithms.
+ */
+export const ProductSemiring: Semiring<number> = {
+  name: 'Product',
+  zero: 0,
+  one: 1,
+  add: (a, b) => Math.max(a, b),
+  mul: (a, b) => a * b,
+  fromNumber: clamp01,
+  toNumber: (v) => v,
+  numeric: true,
+};
+
+/**
+ * Łukasiewicz Semiring: (max, max(0, a + b − 1)) over truth degrees in [0, 1]
+ * Each link loses 1 − degree of truth, so long chains of weak links
+ * become false rather than merely small.
+ */
+export const LukasiewiczSemiring: Semiring<number> = {
+  name: 'Łukasiewicz',
+  zero: 0,
+  one: 1,
+  add: (a, b) => Math.max(a, b),
+  mul: (a, b) => Math.max(0, a + b - 1),
+  fromNumber: clamp01,
+  toNumber: (v) => v,
+  numeric: true,
+};
+
+// ============================================================================
+// BOUNDED COUNTING
+// ============================================================================
+
+/**
+ * Bounded Counting Semiring: (+, ×) saturating at `bound`
+ * "Are there at least n derivations?" Counting that stops at the bound, so
+ * forward chaining terminates on cyclic rules where exact counts grow
+ * forever. With bound 1 it is the Boolean semiring.
+ */
+export function boundedCountingSemiring(bound: number): Semiring<number> {
+  if (!Number.isInteger(bound) || bound < 1) {
+    throw new Error(`Bounded counting needs a positive integer bound, got ${bound}`);
+  }
+  return {
+    name: `Counting≤${bound}`,
+    zero: 0,
+    one: 1,
+    add: (a, b) => Math.min(a + b, bound),
+    mul: (a, b) => Math.min(a * b, bound),
+    fromNumber: (n) => Math.min(Math.max(0, Math.round(n)), bound),
+    toNumber: (v) => v,
+    numeric: true,
+  };
+}
@@ -0,0 +1,594 @@
+/**
+ * SAVING AND LOADING TENSORS
+ *
+ * A versioned binary format for tensors and the structures built from them,
+ * plus NumPy .npy/.npz for exchange with Python. Everything encodes to and
+ * decodes from a Uint8Array, so the same code works in Node (fs.writeFileSync)
+ * and the browser (Blob, fetch).
+ *
+ * Layout of the native format:
+ *
+ *   magic    8 bytes   "TNSRLOGC"
+ *   length   uint32    byte length of the JSON header (little-endian)
+ *   reserved uint32    0
+ *   header   JSON      { format, version, kind, tensors: [...], metadata }
+ *   payload            tensor values, little-endian, each aligned to 8 bytes
+ *
+ * Each header entry gives a tensor's key, name, dtype, shape, indices,
+ * domains (if typed) and the byte range of its values. The kind says what
+ * the metadata describes:
+ *
+ *   'tensors'      a named collection, e.g. trained weights
+ *   'nestor'       a Nestor hypertree: ids, type info, fibers, metadata
+ *   'raptl-facts'  RAPTL facts: truth values, resources, modality
+ *
+ * Metadata is stored as JSON, so values JSON cannot represent (functions,
+ * Infinity, class instances) do not survive a round trip.
+ */
+
+import type { Tensor } from './core';
+import { DType, TensorData, allocate, bytesPerElement, dtypeOf } from './dtype';
+import type { Nestor, FiberBundle } from './nestor';
+import type { RAPTLFact } from './raptl';
+
+/** Version written by this code; newer files are rejected */
+export const FORMAT_VERSION = 1;
+
+const MAGIC = 'TNSRLOGC';
+const PREAMBLE = 16;
+
+/**
+ * What a serialized file holds
+ */
+export type SerializedKind = 'tensors' | 'nestor' | 'raptl-facts';
+
+interface TensorEntry {
+  key: string;
+  name: string;
+  dtype: DType;
+  shape: number[];
+  indices: string[];
+  domains?: (string | null)[];
+  offset: number;
+  byteLength: number;
+}
+
+interface Header {
+  format: 'tensor-logic';
+  version: number;
+  kind: SerializedKind;
+  tensors: TensorEntry[];
+  metadata: unknown;
+}
+
+// ============================================================================
+// BYTE HELPERS
+// ============================================================================
+
+function align8(n: number): number {
+  return Math.ceil(n / 8) * 8;
+}
+
+/** Write values little-endian, whatever the platform's byte order */
+function writeValues(view: DataView, offset: number, data: TensorData, dtype: DType): void {
+  const size = bytesPerElement(dtype);
+  for (let i = 0; i < data.length; i++) {
+    const at = offset + i * size;
+    switch (dtype) {
+      case 'float64': view.setFloat64(at, data[i], true); break;
+      case 'float32': view.setFloat32(at, data[i], true); break;
+      case 'int32': view.setInt32(at, data[i], true); break;
+      default: view.setUint8(at, data[i]);
+    }
+  }
+}
+
+function readValues(view: DataView, offset: number, count: number, dtype: DType, littleEndian = true): TensorData {
+  const data = allocate(dtype, count);
+  const size = bytesPerElement(dtype);
+  for (let i = 0; i < count; i++) {
+    const at = offset + i * size;
+    switch (dtype) {
+      case 'float64': data[i] = view.getFloat64(at, littleEndian); break;
+      case 'float32': data[i] = view.getFloat32(at, littleEndian); break;
+      case 'int32': data[i] = view.getInt32(at, littleEndian); break;
+      default: data[i] = view.getUint8(at);
+    }
+  }
+  return data;
+}
+
+function sizeOf(shape: number[]): number {
+  return shape.reduce((a, b) => a * b, 1);
+}
+
+// ============================================================================
+// NATIVE FORMAT
+// ============================================================================
+
+function encode(kind: SerializedKind, tensors: Map<string, Tensor>, metadata: unknown): Uint8Array {
+  const entries: TensorEntry[] = [];
+  let payloadSize = 0;
+  for (const [key, tensor] of tensors) {
+    const dtype = dtypeOf(tensor);
+    const byteLength = tensor.data.length * bytesPerElement(dtype);
+    const entry: TensorEntry = {
+      key,
+      name: tensor.name,
+      dtype,
+      shape: [...tensor.shape],
+      indices: [...tensor.indices],
+      offset: payloadSize,
+      byteLength,
+    };
+    if (tensor.domains) entry.domains = [...tensor.domains];
+    entries.push(entry);
+    payloadSize = align8(payloadSize + byteLength);
+  }
+
+  const header: Header = { format: 'tensor-logic', version: FORMAT_VERSION, kind, tensors: entries, metadata: metadata ?? null };
+  const json = new TextEncoder().encode(JSON.stringify(header));
+  const headerSize = align8(json.length);
+  const bytes = new Uint8Array(PREAMBLE + headerSize + payloadSize);
+  const view = new DataView(bytes.buffer);
+
+  for (let i = 0; i < MAGIC.length; i++) bytes[i] = MAGIC.charCodeAt(i);
+  view.setUint32(8, headerSize, true);
+  bytes.set(json, PREAMBLE);
+  bytes.fill(0x20, PREAMBLE + json.length, PREAMBLE + headerSize); // pad the JSON with spaces
+
+  const payload = PREAMBLE + headerSize;
+  entries.forEach((entry) => {
+    const tensor = tensors.get(entry.key)!;
+    writeValues(view, payload + entry.offset, tensor.data, entry.dtype);
+  });
+  return bytes;
+}
+
+function decode(bytes: Uint8Array, expected: SerializedKind): { tensors: Map<string, Tensor>; metadata: unknown } {
+  const magic = String.fromCharCode(...bytes.subarray(0, MAGIC.length));
+  if (bytes.length < PREAMBLE || magic !== MAGIC) {
+    throw new Error('Not a tensor-logic file (bad magic bytes)');
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const headerSize = view.getUint32(8, true);
+  if (PREAMBLE + headerSize > bytes.length) {
+    throw new Error('Truncated tensor-logic file: header runs past the end');
+  }
+
+  const header = JSON.parse(new TextDecoder().decode(bytes.subarray(PREAMBLE, PREAMBLE + headerSize))) as Header;
+  if (header.format !== 'tensor-logic' || typeof header.version !== 'number') {
+    throw new Error('Not a tensor-logic file (missing format header)');
+  }
+  if (header.version > FORMAT_VERSION) {
+    throw new Error(`File format version ${header.version} is newer than supported version ${FORMAT_VERSION}`);
+  }
+  if (header.kind !== expected) {
+    throw new Error(`Expected a '${expected}' file but this one holds '${header.kind}'`);
+  }
+
+  const payload = PREAMBLE + headerSize;
+  const tensors = new Map<string, Tensor>();
+  for (const entry of header.tensors) {
+    const count = sizeOf(entry.shape);
+    if (entry.byteLength !== count * bytesPerElement(entry.dtype) || payload + entry.offset + entry.byteLength > bytes.length) {
+      throw new Error(`Tensor ${entry.key}: payload does not match shape [${entry.shape.join(', ')}] of ${entry.dtype}`);
+    }
+    const tensor: Tensor = {
+      name: entry.name,
+      shape: [...entry.shape],
+      indices: [...entry.indices],
+      data: readValues(view, payload + entry.offset, count, entry.dtype),
+      dtype: entry.dtype,
+    };
+    if (entry.domains) tensor.domains = [...entry.domains];
+    tensors.set(entry.key, tensor);
+  }
+  return { tensors, metadata: header.metadata };
+}
+
+/**
+ * Encode a named collection of tensors (e.g. trained weights), with
+ * optional JSON metadata
+ */
+export function serializeTensors(
+  tensors: Map<string, Tensor> | Record<string, Tensor>,
+  metadata?: unknown
+): Uint8Array {
+  const map = tensors instanceof Map ? tensors : new Map(Object.entries(tensors));
+  return encode('tensors', map, metadata);
+}
+
+/**
+ * Decode a collection written by serializeTensors
+ */
+export function deserializeTensors(bytes: Uint8Array): { tensors: Map<string, Tensor>; metadata: unknown } {
+  return decode(bytes, 'tensors');
+}
+
+/**
+ * Encode a single tensor
+ */
+export function serializeTensor(tensor: Tensor): Uint8Array {
+  return encode('tensors', new Map([[tensor.name, tensor]]), null);
+}
+
+/**
+ * Decode a file holding exactly one tensor
+ */
+export function deserializeTensor(bytes: Uint8Array): Tensor {
+  const { tensors } = decode(bytes, 'tensors');
+  if (tensors.size !== 1) {
+    throw new Error(`Expected one tensor but the file holds ${tensors.size}`);
+  }
+  return [...tensors.values()][0];
+}
+
+// ============================================================================
+// NESTORS AND RAPTL FACTS
+// ============================================================================
+
+interface NestorRecord {
+  id: string;
+  tensor: string;
+  typeInfo: Nestor['typeInfo'];
+  metadata?: Record<string, unknown>;
+  fiber?: { baseId: string; fiberDim: number; fiberData: string; connection?: string };
+  children: NestorRecord[];
+}
+
+/**
+ * Encode a Nestor hypertree: every node's tensor, fiber bundle, type
+ * information and metadata
+ */
+export function serializeNestor(nestor: Nestor): Uint8Array {
+  const tensors = new Map<string, Tensor>();
+  const store = (tensor: Tensor): string => {
+    const key = `t${tensors.size}`;
+    tensors.set(key, tensor);
+    return key;
+  };
+
+  const visit = (node: Nestor): NestorRecord => {
+    const record: NestorRecord = {
+      id: node.id,
+      tensor: store(node.tensor),
+      typeInfo: node.typeInfo,
+      children: [],
+    };
+    if (node.metadata !== undefined) record.metadata = node.metadata;
+    if (node.fiber) {
+      record.fiber = { baseId: node.fiber.baseId, fiberDim: node.fiber.fiberDim, fiberData: store(node.fiber.fiberData) };
+      if (node.fiber.connection) record.fiber.connection = store(node.fiber.connection);
+    }
+    record.children = node.children.map(visit);
+    return record;
+  };
+
+  return encode('nestor', tensors, visit(nestor));
+}
+
+/**
+ * Decode a Nestor hypertree written by serializeNestor
+ */
+export function deserializeNestor(bytes: Uint8Array): Nestor {
+  const { tensors, metadata } = decode(bytes, 'nestor');
+  const tensor = (key: string): Tensor => {
+    const t = tensors.get(key);
+    if (!t) {
+      throw new Error(`Nestor file refers to missing tensor ${key}`);
+    }
+    return t;
+  };
+
+  const build = (record: NestorRecord): Nestor => {
+    const node: Nestor = {
+      id: record.id,
+      tensor: tensor(record.tensor),
+      children: record.children.map(build),
+      typeInfo: record.typeInfo,
+    };
+    if (record.metadata !== undefined) node.metadata = record.metadata;
+    if (record.fiber) {
+      const fiber: FiberBundle = {
+        baseId: record.fiber.baseId,
+        fiberDim: record.fiber.fiberDim,
+        fiberData: tensor(record.fiber.fiberData),
+      };
+      if (record.fiber.connection) fiber.connection = tensor(record.fiber.connection);
+      node.fiber = fiber;
+    }
+    return node;
+  };
+
+  return build(metadata as NestorRecord);
+}
+
+/**
+ * Encode RAPTL facts: logic tensors with their truth values, resource
+ * profiles and modalities
+ */
+export function serializeRAPTLFacts(facts: RAPTLFact[]): Uint8Array {
+  const tensors = new Map<string, Tensor>();
+  const records = facts.map((fact, k) => {
+    tensors.set(`f${k}`, fact.logic);
+    return { id: fact.id, logic: `f${k}`, uncertainty: fact.uncertainty, resources: fact.resources, modality: fact.modality };
+  });
+  return encode('raptl-facts', tensors, records);
+}
+
+/**
+ * Decode RAPTL facts written by serializeRAPTLFacts
+ */
+export function deserializeRAPTLFacts(bytes: Uint8Array): RAPTLFact[] {
+  const { tensors, metadata } = decode(bytes, 'raptl-facts');
+  return (metadata as Array<Omit<RAPTLFact, 'logic'> & { logic: string }>).map((record) => {
+    const logic = tensors.get(record.logic);
+    if (!logic) {
+      throw new Error(`RAPTL file refers to missing tensor ${record.logic}`);
+    }
+    return { ...record, logic };
+  });
+}
+
+// ============================================================================
+// NUMPY .NPY
+// ============================================================================
+
+const NPY_MAGIC = '\x93NUMPY';
+
+const NPY_DESCR: Record<DType, string> = {
+  float64: '<f8',
+  float32: '<f4',
+  int32: '<i4',
+  uint8: '|u1',
+  bool: '|b1',
+};
+
+/**
+ * Options for reading NumPy arrays, which carry no index names
+ */
+export interface NpyOptions {
+  /** Tensor name (default 'array') */
+  name?: string;
+  /** Index names (default i0, i1, ...) */
+  indices?: string[];
+}
+
+/**
+ * Encode a tensor as a NumPy .npy file (format 1.0, C order)
+ */
+export function toNpy(tensor: Tensor): Uint8Array {
+  const dtype = dtypeOf(tensor);
+  const shape = tensor.shape.length === 1 ? `(${tensor.shape[0]},)` : `(${tensor.shape.join(', ')})`;
+  let dict = `{'descr': '${NPY_DESCR[dtype]}', 'fortran_order': False, 'shape': ${shape}, }`;
+  // Pad with spaces so that the data starts on a 64-byte boundary
+  const unpadded = NPY_MAGIC.length + 4 + dict.length + 1;
+  dict += ' '.repeat(Math.ceil(unpadded / 64) * 64 - unpadded) + '\n';
+  if (dict.length > 0xffff) {
+    throw new Error(`Shape [${tensor.shape.join(', ')}] is too long for an .npy 1.0 header`);
+  }
+
+  const headerBytes = NPY_MAGIC.length + 4 + dict.length;
+  const bytes = new Uint8Array(headerBytes + tensor.data.length * bytesPerElement(dtype));
+  const view = new DataView(bytes.buffer);
+  for (let i = 0; i < NPY_MAGIC.length; i++) bytes[i] = NPY_MAGIC.charCodeAt(i);
+  bytes[6] = 1;
+  bytes[7] = 0;
+  view.setUint16(8, dict.length, true);
+  for (let i = 0; i < dict.length; i++) bytes[10 + i] = dict.charCodeAt(i);
+  writeValues(view, headerBytes, tensor.data, dtype);
+  return bytes;
+}
+
+/**
+ * Element types NumPy files may use, and the dtype they load as. Integers
+ * wider than int32 load as float64 (exact up to 2^53).
+ */
+const NPY_TYPES: Record<string, { dtype: DType; size: number; read: (v: DataView, at: number, le: boolean) => number }> = {
+  f8: { dtype: 'float64', size: 8, read: (v, at, le) => v.getFloat64(at, le) },
+  f4: { dtype: 'float32', size: 4, read: (v, at, le) => v.getFloat32(at, le) },
+  i8: { dtype: 'float64', size: 8, read: (v, at, le) => safeInteger(v.getBigInt64(at, le)) },
+  u8: { dtype: 'float64', size: 8, read: (v, at, le) => safeInteger(v.getBigUint64(at, le)) },
+  i4: { dtype: 'int32', size: 4, read: (v, at, le) => v.getInt32(at, le) },
+  u4: { dtype: 'float64', size: 4, read: (v, at, le) => v.getUint32(at, le) },
+  i2: { dtype: 'int32', size: 2, read: (v, at, le) => v.getInt16(at, le) },
+  u2: { dtype: 'int32', size: 2, read: (v, at, le) => v.getUint16(at, le) },
+  i1: { dtype: 'int32', size: 1, read: (v, at) => v.getInt8(at) },
+  u1: { dtype: 'uint8', size: 1, read: (v, at) => v.getUint8(at) },
+  b1: { dtype: 'bool', size: 1, read: (v, at) => (v.getUint8(at) !== 0 ? 1 : 0) },
+};
+
+function safeInteger(value: bigint): number {
+  const n = Number(value);
+  if (!Number.isSafeInteger(n)) {
+    throw new Error(`Integer ${value} in .npy file cannot be represented exactly`);
+  }
+  return n;
+}
+
+/**
+ * Decode a NumPy .npy file (format 1.0, 2.0 or 3.0, either byte order,
+ * C or Fortran order)
+ */
+export function fromNpy(bytes: Uint8Array, options: NpyOptions = {}): Tensor {
+  if (String.fromCharCode(...bytes.subarray(0, NPY_MAGIC.length)) !== NPY_MAGIC) {
+    throw new Error('Not an .npy file (bad magic bytes)');
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const major = bytes[6];
+  if (major < 1 || major > 3) {
+    throw new Error(`Unsupported .npy format version ${major}.${bytes[7]}`);
+  }
+  const lengthBytes = major === 1 ? 2 : 4;
+  const headerLength = major === 1 ? view.getUint16(8, true) : view.getUint32(8, true);
+  const start = 8 + lengthBytes;
+  const raw = bytes.subarray(start, start + headerLength);
+  const header = major === 3 ? new TextDecoder().decode(raw) : String.fromCharCode(...raw); // 1.0 and 2.0 are latin-1
+
+  const descr = /'descr'\s*:\s*'([<>|=])([a-z]\d+)'/.exec(header);
+  const fortran = /'fortran_order'\s*:\s*(True|False)/.exec(header);
+  const shapeMatch = /'shape'\s*:\s*\(([^)]*)\)/.exec(header);
+  if (!descr || !fortran || !shapeMatch) {
+    throw new Error(`Cannot parse .npy header: ${header.trim()}`);
+  }
+  const type = NPY_TYPES[descr[2]];
+  if (!type) {
+    throw new Error(`Unsupported .npy element type '${descr[1]}${descr[2]}'`);
+  }
+  const littleEndian = descr[1] !== '>';
+  const shape = shapeMatch[1].split(',').map((s) => s.trim()).filter((s) => s !== '').map(Number);
+  const count = sizeOf(shape);
+  const offset = start + headerLength;
+  if (offset + count * type.size > bytes.length) {
+    throw new Error(`Truncated .npy file: shape (${shape.join(', ')}) needs ${count * type.size} bytes of data`);
+  }
+
+  const data = allocate(type.dtype, count);
+  if (fortran[1] === 'True') {
+    // Column-major on disk: element (i0, i1, ...) is at Σ i_d · Π_{e<d} n_e
+    const position = new Array(shape.length).fill(0);
+    for (let flat = 0; flat < count; flat++) {
+      let source = 0;
+      let stride = 1;
+      for (let d = 0; d < shape.length; d++) {
+        source += position[d] * stride;
+        stride *= shape[d];
+      }
+      data[flat] = type.read(view, offset + source * type.size, littleEndian);
+      for (let d = shape.length - 1; d >= 0; d--) {
+        if (++position[d] < shape[d]) break;
+        position[d] = 0;
+      }
+    }
+  } else {
+    for (let i = 0; i < count; i++) data[i] = type.read(view, offset + i * type.size, littleEndian);
+  }
+
+  const indices = options.indices ?? shape.map((_, d) => `i${d}`);
+  if (indices.length !== shape.length) {
+    throw new Error(`.npy array has rank ${shape.length} but ${indices.length} index names were given`);
+  }
+  return { name: options.name ?? 'array', shape, indices: [...indices], data, dtype: type.dtype };
+}
+
+// ============================================================================
+// NUMPY .NPZ (ZIP OF .NPY FILES)
+// ============================================================================
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Encode tensors as an uncompressed .npz archive (like numpy.savez), one
+ * `<key>.npy` entry per tensor
+ */
+export function toNpz(tensors: Map<string, Tensor> | Record<string, Tensor>): Uint8Array {
+  const map = tensors instanceof Map ? tensors : new Map(Object.entries(tensors));
+  const files = [...map].map(([key, tensor]) => ({
+    name: new TextEncoder().encode(`${key}.npy`),
+    data: toNpy(tensor),
+  }));
+
+  const localSize = files.reduce((sum, f) => sum + 30 + f.name.length + f.data.length, 0);
+  const centralSize = files.reduce((sum, f) => sum + 46 + f.name.length, 0);
+  const bytes = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(bytes.buffer);
+
+  let at = 0;
+  const offsets: number[] = [];
+  const crcs = files.map((f) => crc32(f.data));
+  files.forEach((f, k) => {
+    offsets.push(at);
+    view.setUint32(at, 0x04034b50, true);
+    view.setUint16(at + 4, 20, true); // version needed
+    view.setUint16(at + 8, 0, true); // stored, no compression
+    view.setUint16(at + 12, 0x21, true); // 1980-01-01
+    view.setUint32(at + 14, crcs[k], true);
+    view.setUint32(at + 18, f.data.length, true);
+    view.setUint32(at + 22, f.data.length, true);
+    view.setUint16(at + 26, f.name.length, true);
+    bytes.set(f.name, at + 30);
+    bytes.set(f.data, at + 30 + f.name.length);
+    at += 30 + f.name.length + f.data.length;
+  });
+
+  const central = at;
+  files.forEach((f, k) => {
+    view.setUint32(at, 0x02014b50, true);
+    view.setUint16(at + 4, 20, true); // version made by
+    view.setUint16(at + 6, 20, true); // version needed
+    view.setUint16(at + 14, 0x21, true);
+    view.setUint32(at + 16, crcs[k], true);
+    view.setUint32(at + 20, f.data.length, true);
+    view.setUint32(at + 24, f.data.length, true);
+    view.setUint16(at + 28, f.name.length, true);
+    view.setUint32(at + 42, offsets[k], true);
+    bytes.set(f.name, at + 46);
+    at += 46 + f.name.length;
+  });
+
+  view.setUint32(at, 0x06054b50, true);
+  view.setUint16(at + 8, files.length, true);
+  view.setUint16(at + 10, files.length, true);
+  view.setUint32(at + 12, at - central, true);
+  view.setUint32(at + 16, central, true);
+  return bytes;
+}
+
+/**
+ * Decode an .npz archive into tensors keyed by entry name (without .npy).
+ * Only uncompressed archives (numpy.savez) are supported; index names for
+ * each array may be given by key.
+ */
+export function fromNpz(bytes: Uint8Array, indices: Record<string, string[]> = {}): Map<string, Tensor> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let end = -1;
+  for (let at = bytes.length - 22; at >= Math.max(0, bytes.length - 22 - 0xffff); at--) {
+    if (view.getUint32(at, true) === 0x06054b50) {
+      end = at;
+      break;
+    }
+  }
+  if (end < 0) {
+    throw new Error('Not an .npz file (no ZIP directory found)');
+  }
+
+  const count = view.getUint16(end + 10, true);
+  let at = view.getUint32(end + 16, true);
+  const tensors = new Map<string, Tensor>();
+  for (let k = 0; k < count; k++) {
+    if (view.getUint32(at, true) !== 0x02014b50) {
+      throw new Error('Corrupt .npz file: bad central directory entry');
+    }
+    const method = view.getUint16(at + 10, true);
+    const size = view.getUint32(at + 20, true);
+    const nameLength = view.getUint16(at + 28, true);
+    const extraLength = view.getUint16(at + 30, true);
+    const commentLength = view.getUint16(at + 32, true);
+    const local = view.getUint32(at + 42, true);
+    const name = new TextDecoder().decode(bytes.subarray(at + 46, at + 46 + nameLength));
+    at += 46 + nameLength + extraLength + commentLength;
+
+    if (method !== 0) {
+      throw new Error(`.npz entry ${name} is compressed; only numpy.savez (uncompressed) archives are supported`);
+    }
+    const dataStart = local + 30 + view.getUint16(local + 26, true) + view.getUint16(local + 28, true);
+    const key = name.endsWith('.npy') ? name.slice(0, -4) : name;
+    tensors.set(key, fromNpy(bytes.subarray(dataStart, dataStart + size), { name: key, indices: indices[key] }));
+  }
+  return tensors;
+}
@@ -0,0 +1,326 @@
+/**
+ * SHAPE OPERATIONS
+ *
+ * Rearranging a tensor without changing its values: reordering, merging and
+ * splitting indices, taking sub-ranges, and joining tensors together. Every
+ * operation refers to indices by name, as the rest of tensor logic does:
+ *
+ *   permute(Q, ['head', 'seq', 'd'])                    reorder indices
+ *   reshape(Q, [2, 3, 4], ['seq', 'head', 'd'])         split emb into head × d
+ *   slice(X, { seq: { start: 1 }, emb: 0 })             X[1:, 0]
+ *   gather(Embedding, 'vocab', Tokens)                  Embedding[Tokens[seq], d]
+ *   concat([A, B], 'emb'),  stack([A, B], 'head'),  split(X, 'emb', 2)
+ *
+ * Reshape follows row-major order, so reshaping [seq, emb] to
+ * [seq, head, d] puts emb = head · D + d, the usual layout of attention heads.
+ * Every operation keeps the tensor's dtype.
+ */
+
+import { Tensor, contract } from './core';
+import { TensorData, allocate, dtypeOf, dtypeOfData, promoteTypes } from './dtype';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function stridesOf(shape: number[]): number[] {
+  const strides = new Array(shape.length);
+  let stride = 1;
+  for (let i = shape.length - 1; i >= 0; i--) {
+    strides[i] = stride;
+    stride *= shape[i];
+  }
+  return strides;
+}
+
+function axisOf(tensor: Tensor, index: string, operation: string): number {
+  const axis = tensor.indices.indexOf(index);
+  if (axis < 0) {
+    throw new Error(`${operation}: ${tensor.name} has no index '${index}' (indices: ${tensor.indices.join(', ')})`);
+  }
+  return axis;
+}
+
+/**
+ * Copy the elements at base + Σ position[d] · strides[d] into a new array
+ */
+function copyStrided(data: TensorData, base: number, shape: number[], strides: number[]): TensorData {
+  const size = shape.reduce((a, b) => a * b, 1);
+  const out = allocate(dtypeOfData(data), size);
+  const position = new Array(shape.length).fill(0);
+  let offset = base;
+
+  for (let flat = 0; flat < size; flat++) {
+    out[flat] = data[offset];
+    for (let d = shape.length - 1; d >= 0; d--) {
+      if (++position[d] < shape[d]) {
+        offset += strides[d];
+        break;
+      }
+      position[d] = 0;
+      offset -= (shape[d] - 1) * strides[d];
+    }
+  }
+  return out;
+}
+
+// ============================================================================
+// REORDERING AND RESHAPING
+// ============================================================================
+
+/**
+ * Reorder the indices of a tensor by name
+ */
+export function permute(tensor: Tensor, indices: string[]): Tensor {
+  const sorted = (names: string[]) => [...names].sort().join('\u0000');
+  if (indices.length !== tensor.indices.length || sorted(indices) !== sorted(tensor.indices)) {
+    throw new Error(`permute: [${indices.join(', ')}] is not a reordering of [${tensor.indices.join(', ')}]`);
+  }
+  return { ...contract([tensor], indices), name: tensor.name };
+}
+
+/**
+ * Give a tensor a new shape with the same number of elements, in row-major
+ * order. Every new dimension needs an index name.
+ */
+export function reshape(tensor: Tensor, shape: number[], indices: string[]): Tensor {
+  if (shape.length !== indices.length) {
+    throw new Error(`reshape: ${shape.length} dimensions but ${indices.length} index names`);
+  }
+  if (new Set(indices).size !== indices.length) {
+    throw new Error(`reshape: index names [${indices.join(', ')}] repeat`);
+  }
+  const size = shape.reduce((a, b) => a * b, 1);
+  if (size !== tensor.data.length) {
+    throw new Error(
+      `reshape: cannot reshape ${tensor.name} [${tensor.shape.join(', ')}] (${tensor.data.length} elements) to [${shape.join(', ')}]`
+    );
+  }
+  return { name: tensor.name, shape: [...shape], indices: [...indices], data: tensor.data.slice(), dtype: dtypeOf(tensor) };
+}
+
+/**
+ * Remove size-1 indices: the named one, or all of them
+ */
+export function squeeze(tensor: Tensor, index?: string): Tensor {
+  let keep: number[];
+  if (index !== undefined) {
+    const axis = axisOf(tensor, index, 'squeeze');
+    if (tensor.shape[axis] !== 1) {
+      throw new Error(`squeeze: index '${index}' of ${tensor.name} has size ${tensor.shape[axis]}, not 1`);
+    }
+    keep = tensor.shape.map((_, i) => i).filter((i) => i !== axis);
+  } else {
+    keep = tensor.shape.map((_, i) => i).filter((i) => tensor.shape[i] !== 1);
+  }
+  return {
+    name: tensor.name,
+    shape: keep.map((i) => tensor.shape[i]),
+    indices: keep.map((i) => tensor.indices[i]),
+    data: tensor.data.slice(),
+    dtype: dtypeOf(tensor),
+  };
+}
+
+/**
+ * Insert a new size-1 index at `position` (default: first)
+ */
+export function unsqueeze(tensor: Tensor, index: string, position = 0): Tensor {
+  if (tensor.indices.includes(index)) {
+    throw new Error(`unsqueeze: ${tensor.name} already has an index '${index}'`);
+  }
+  const at = position < 0 ? tensor.shape.length + 1 + position : position;
+  if (at < 0 || at > tensor.shape.length) {
+    throw new Error(`unsqueeze: position ${position} out of range for rank ${tensor.shape.length}`);
+  }
+  const shape = [...tensor.shape];
+  const indices = [...tensor.indices];
+  shape.splice(at, 0, 1);
+  indices.splice(at, 0, index);
+  return { name: tensor.name, shape, indices, data: tensor.data.slice(), dtype: dtypeOf(tensor) };
+}
+
+// ============================================================================
+// SLICING AND GATHERING
+// ============================================================================
+
+/**
+ * A range along one index, with Python slice semantics: negative start and
+ * stop count from the end, and a negative step walks backwards
+ */
+export interface SliceRange {
+  start?: number;
+  stop?: number;
+  step?: number;
+}
+
+/**
+ * Take sub-ranges of a tensor. Each named index is either restricted to a
+ * range (and kept) or fixed at a single position (and removed); indices not
+ * mentioned are kept whole.
+ */
+export function slice(tensor: Tensor, ranges: Record<string, SliceRange | number>): Tensor {
+  const strides = stridesOf(tensor.shape);
+  let base = 0;
+  const shape: number[] = [];
+  const indices: string[] = [];
+  const steps: number[] = [];
+
+  for (const name of Object.keys(ranges)) axisOf(tensor, name, 'slice');
+
+  tensor.indices.forEach((name, axis) => {
+    const size = tensor.shape[axis];
+    const range = ranges[name];
+
+    if (typeof range === 'number') {
+      const at = range < 0 ? size + range : range;
+      if (!Number.isInteger(at) || at < 0 || at >= size) {
+        throw new Error(`slice: position ${range} out of range for index '${name}' of size ${size}`);
+      }
+      base += at * strides[axis];
+      return;
+    }
+
+    const step = range?.step ?? 1;
+    if (step === 0 || !Number.isInteger(step)) {
+      throw new Error(`slice: step for index '${name}' must be a non-zero integer`);
+    }
+    const clamp = (value: number | undefined, fallback: number): number => {
+      if (value === undefined) return fallback;
+      const v = value < 0 ? size + value : value;
+      return step > 0 ? Math.min(Math.max(v, 0), size) : Math.min(Math.max(v, -1), size - 1);
+    };
+    const start = clamp(range?.start, step > 0 ? 0 : size - 1);
+    const stop = clamp(range?.stop, step > 0 ? size : -1);
+    const length = Math.max(0, Math.ceil((stop - start) / step));
+
+    base += length > 0 ? start * strides[axis] : 0;
+    shape.push(length);
+    indices.push(name);
+    steps.push(step * strides[axis]);
+  });
+
+  return { name: tensor.name, shape, indices, data: copyStrided(tensor.data, base, shape, steps), dtype: dtypeOf(tensor) };
+}
+
+/**
+ * Select positions along an index using an integer tensor. The gathered
+ * index is replaced by the indices of `positions`:
+ *
+ *   gather(Embedding[vocab, d], 'vocab', Tokens[seq])  →  [seq, d]
+ */
+export function gather(tensor: Tensor, index: string, positions: Tensor): Tensor {
+  const axis = axisOf(tensor, index, 'gather');
+  const length = tensor.shape[axis];
+  const outer = tensor.shape.slice(0, axis).reduce((a, b) => a * b, 1);
+  const inner = tensor.shape.slice(axis + 1).reduce((a, b) => a * b, 1);
+  const count = positions.data.length;
+
+  for (const p of positions.data) {
+    if (!Number.isInteger(p) || p < 0 || p >= length) {
+      throw new Error(`gather: position ${p} out of range for index '${index}' of size ${length}`);
+    }
+  }
+
+  const data = allocate(dtypeOf(tensor), outer * count * inner);
+  let offset = 0;
+  for (let o = 0; o < outer; o++) {
+    for (let k = 0; k < count; k++) {
+      const start = (o * length + positions.data[k]) * inner;
+      data.set(tensor.data.subarray(start, start + inner), offset);
+      offset += inner;
+    }
+  }
+
+  const shape = [...tensor.shape.slice(0, axis), ...positions.shape, ...tensor.shape.slice(axis + 1)];
+  const indices = [...tensor.indices.slice(0, axis), ...positions.indices, ...tensor.indices.slice(axis + 1)];
+  if (new Set(indices).size !== indices.length) {
+    throw new Error(`gather: result indices [${indices.join(', ')}] would repeat`);
+  }
+  return { name: tensor.name, shape, indices, data, dtype: dtypeOf(tensor) };
+}
+
+// ============================================================================
+// JOINING AND SPLITTING
+// ============================================================================
+
+/**
+ * Join tensors end to end along an existing index. The other indices are
+ * matched by name and must agree in size; the result has the promoted dtype.
+ */
+export function concat(tensors: Tensor[], index: string): Tensor {
+  if (tensors.length === 0) {
+    throw new Error('concat needs at least one tensor');
+  }
+  const first = tensors[0];
+  const axis = axisOf(first, index, 'concat');
+
+  // Bring every operand into the first one's index order
+  const aligned = tensors.map((t) => {
+    axisOf(t, index, 'concat');
+    const same = t.indices.length === first.indices.length && t.indices.every((idx, i) => idx === first.indices[i]);
+    const p = same ? t : permute(t, first.indices);
+    first.shape.forEach((size, i) => {
+      if (i !== axis && p.shape[i] !== size) {
+        throw new Error(`concat: index '${first.indices[i]}' has size ${size} in ${first.name} but ${p.shape[i]} in ${t.name}`);
+      }
+    });
+    return p;
+  });
+
+  const outer = first.shape.slice(0, axis).reduce((a, b) => a * b, 1);
+  const inner = first.shape.slice(axis + 1).reduce((a, b) => a * b, 1);
+  const total = aligned.reduce((sum, t) => sum + t.shape[axis], 0);
+  const dtype = promoteTypes(...aligned.map(dtypeOf));
+  const data = allocate(dtype, outer * total * inner);
+
+  let offset = 0;
+  for (let o = 0; o < outer; o++) {
+    for (const t of aligned) {
+      const block = t.shape[axis] * inner;
+      data.set(t.data.subarray(o * block, (o + 1) * block), offset);
+      offset += block;
+    }
+  }
+
+  const shape = [...first.shape];
+  shape[axis] = total;
+  return { name: first.name, shape, indices: [...first.indices], data, dtype };
+}
+
+/**
+ * Join tensors of the same shape along a new index at `position` (default: first)
+ */
+export function stack(tensors: Tensor[], index: string, position = 0): Tensor {
+  return concat(tensors.map((t) => unsqueeze(t, index, position)), index);
+}
+
+/**
+ * Split a tensor along an index into `sections` equal parts, or into parts
+ * of the given sizes
+ */
+export function split(tensor: Tensor, index: string, sections: number | number[]): Tensor[] {
+  const axis = axisOf(tensor, index, 'split');
+  const length = tensor.shape[axis];
+
+  let sizes: number[];
+  if (typeof sections === 'number') {
+    if (!Number.isInteger(sections) || sections <= 0 || length % sections !== 0) {
+      throw new Error(`split: index '${index}' of size ${length} does not divide into ${sections} equal parts`);
+    }
+    sizes = new Array(sections).fill(length / sections);
+  } else {
+    sizes = sections;
+    if (sizes.reduce((a, b) => a + b, 0) !== length) {
+      throw new Error(`split: sizes [${sizes.join(', ')}] do not add up to ${length}, the size of '${index}'`);
+    }
+  }
+
+  const parts: Tensor[] = [];
+  let start = 0;
+  sizes.forEach((size, k) => {
+    parts.push({ ...slice(tensor, { [index]: { start, stop: start + size } }), name: `${tensor.name}_${k}` });
+    start += size;
+  });
+  return parts;
+}
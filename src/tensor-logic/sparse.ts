@@ -0,0 +1,488 @@
+/**
+ * SPARSE TENSORS
+ *
+ * Relations in real knowledge bases are sparse: a Parent(x, y) relation over
+ * N people has about N facts, not N². A dense Tensor over tens of thousands
+ * of entities does not fit in memory, so relations are stored by their
+ * non-zero entries instead:
+ *
+ * - COO (coordinate) format: one row of coordinates plus a value per entry.
+ *   Any rank; this is a database table with a value column.
+ * - CSR (compressed sparse row) format: for matrices, entries grouped by row
+ *   with a row pointer array, so all of row i is one contiguous slice.
+ *
+ * EINSUM AS A DATABASE JOIN:
+ * On sparse operands, einsum is evaluated exactly as the paper describes a
+ * rule: a join on the shared indices followed by a projection onto the
+ * output indices.
+ *
+ *   Ancestor[x, z] = Ancestor[x, y] Parent[y, z]
+ *
+ * builds a hash table of Parent keyed by y, probes it with every Ancestor
+ * entry, and sums the products that land on the same (x, z). Matrix
+ * products of CSR matrices use the row-wise (Gustavson) join instead.
+ *
+ * For Boolean relations sparseBooleanEinsum keeps only the set of output
+ * coordinates, i.e. threshold(einsum(...)) without counting derivations.
+ */
+
+import { Tensor, createTensor } from './core';
+import { parseEinsum } from './kernels';
+
+/**
+ * A sparse tensor in coordinate (COO) format
+ */
+export interface SparseTensor {
+  name: string;
+  shape: number[];
+  indices: string[];
+  /** Coordinates, entry-major: entry e has coords[e * rank .. e * rank + rank - 1] */
+  coords: Int32Array;
+  /** Value of each entry */
+  values: Float64Array;
+}
+
+/**
+ * A sparse matrix in compressed sparse row (CSR) format
+ */
+export interface CSRMatrix {
+  name: string;
+  shape: [number, number];
+  indices: [string, string];
+  /** Row i occupies entries rowPtr[i] .. rowPtr[i + 1] - 1 */
+  rowPtr: Int32Array;
+  colIdx: Int32Array;
+  values: Float64Array;
+}
+
+// ============================================================================
+// CONSTRUCTION AND CONVERSION
+// ============================================================================
+
+/**
+ * Number of stored entries
+ */
+export function nnz(tensor: SparseTensor | CSRMatrix): number {
+  return tensor.values.length;
+}
+
+/**
+ * Create a sparse tensor from coordinate tuples. Without values every tuple
+ * is a fact with value 1, as in a Boolean relation. Duplicates are summed.
+ */
+export function fromTuples(
+  name: string,
+  indices: string[],
+  shape: number[],
+  tuples: number[][],
+  values?: number[]
+): SparseTensor {
+  const rank = shape.length;
+  if (indices.length !== rank) {
+    throw new Error(`Sparse tensor ${name} has ${indices.length} indices but rank ${rank}`);
+  }
+  if (values && values.length !== tuples.length) {
+    throw new Error(`Sparse tensor ${name} has ${tuples.length} tuples but ${values.length} values`);
+  }
+
+  const coords = new Int32Array(tuples.length * rank);
+  tuples.forEach((tuple, e) => {
+    if (tuple.length !== rank) {
+      throw new Error(`Tuple (${tuple.join(', ')}) of ${name} has arity ${tuple.length}, expected ${rank}`);
+    }
+    tuple.forEach((c, d) => {
+      if (!Number.isInteger(c) || c < 0 || c >= shape[d]) {
+        throw new Error(`Tuple (${tuple.join(', ')}) of ${name} is out of range for shape [${shape.join(', ')}]`);
+      }
+      coords[e * rank + d] = c;
+    });
+  });
+
+  const data = values ? Float64Array.from(values) : new Float64Array(tuples.length).fill(1);
+  return coalesce({ name, shape: [...shape], indices: [...indices], coords, values: data });
+}
+
+/**
+ * Sort entries lexicographically, sum duplicates and drop zeros
+ */
+export function coalesce(tensor: SparseTensor): SparseTensor {
+  const rank = tensor.shape.length;
+  const n = tensor.values.length;
+  const order = Array.from({ length: n }, (_, e) => e);
+  order.sort((a, b) => {
+    for (let d = 0; d < rank; d++) {
+      const diff = tensor.coords[a * rank + d] - tensor.coords[b * rank + d];
+      if (diff !== 0) return diff;
+    }
+    return 0;
+  });
+
+  const coords: number[] = [];
+  const values: number[] = [];
+  let previous = -1;
+  for (const e of order) {
+    const same = previous >= 0 && sameCoords(tensor.coords, previous, e, rank);
+    if (same) {
+      values[values.length - 1] += tensor.values[e];
+    } else {
+      for (let d = 0; d < rank; d++) coords.push(tensor.coords[e * rank + d]);
+      values.push(tensor.values[e]);
+    }
+    previous = e;
+  }
+
+  // Drop entries that summed to zero
+  const keptCoords: number[] = [];
+  const keptValues: number[] = [];
+  values.forEach((v, e) => {
+    if (v === 0) return;
+    for (let d = 0; d < rank; d++) keptCoords.push(coords[e * rank + d]);
+    keptValues.push(v);
+  });
+
+  return {
+    name: tensor.name,
+    shape: [...tensor.shape],
+    indices: [...tensor.indices],
+    coords: Int32Array.from(keptCoords),
+    values: Float64Array.from(keptValues),
+  };
+}
+
+function sameCoords(coords: Int32Array, a: number, b: number, rank: number): boolean {
+  for (let d = 0; d < rank; d++) {
+    if (coords[a * rank + d] !== coords[b * rank + d]) return false;
+  }
+  return true;
+}
+
+/**
+ * Convert a dense tensor to COO, keeping its non-zero entries
+ */
+export function fromDense(tensor: Tensor): SparseTensor {
+  const rank = tensor.shape.length;
+  const coords: number[] = [];
+  const values: number[] = [];
+  const position = new Array(rank).fill(0);
+
+  for (let flat = 0; flat < tensor.data.length; flat++) {
+    if (tensor.data[flat] !== 0) {
+      coords.push(...position);
+      values.push(tensor.data[flat]);
+    }
+    for (let d = rank - 1; d >= 0; d--) {
+      if (++position[d] < tensor.shape[d]) break;
+      position[d] = 0;
+    }
+  }
+
+  return {
+    name: tensor.name,
+    shape: [...tensor.shape],
+    indices: [...tensor.indices],
+    coords: Int32Array.from(coords),
+    values: Float64Array.from(values),
+  };
+}
+
+/**
+ * Materialise a sparse tensor densely
+ */
+export function toDense(tensor: SparseTensor | CSRMatrix): Tensor {
+  const coo = 'rowPtr' in tensor ? fromCSR(tensor) : tensor;
+  const rank = coo.shape.length;
+  const dense = createTensor(coo.name, [...coo.indices], [...coo.shape]);
+
+  for (let e = 0; e < coo.values.length; e++) {
+    let flat = 0;
+    for (let d = 0; d < rank; d++) flat = flat * coo.shape[d] + coo.coords[e * rank + d];
+    dense.data[flat] += coo.values[e];
+  }
+  return dense;
+}
+
+/**
+ * Convert a sparse matrix from COO to CSR
+ */
+export function toCSR(tensor: SparseTensor): CSRMatrix {
+  if (tensor.shape.length !== 2) {
+    throw new Error(`CSR needs a matrix; ${tensor.name} has rank ${tensor.shape.length}`);
+  }
+  const sorted = coalesce(tensor);
+  const [rows] = sorted.shape;
+  const n = sorted.values.length;
+
+  const rowPtr = new Int32Array(rows + 1);
+  const colIdx = new Int32Array(n);
+  for (let e = 0; e < n; e++) {
+    rowPtr[sorted.coords[2 * e] + 1]++;
+    colIdx[e] = sorted.coords[2 * e + 1];
+  }
+  for (let i = 0; i < rows; i++) rowPtr[i + 1] += rowPtr[i];
+
+  return {
+    name: sorted.name,
+    shape: [sorted.shape[0], sorted.shape[1]],
+    indices: [sorted.indices[0], sorted.indices[1]],
+    rowPtr,
+    colIdx,
+    values: sorted.values,
+  };
+}
+
+/**
+ * Convert a CSR matrix back to COO
+ */
+export function fromCSR(matrix: CSRMatrix): SparseTensor {
+  const n = matrix.values.length;
+  const coords = new Int32Array(2 * n);
+  for (let i = 0; i < matrix.shape[0]; i++) {
+    for (let e = matrix.rowPtr[i]; e < matrix.rowPtr[i + 1]; e++) {
+      coords[2 * e] = i;
+      coords[2 * e + 1] = matrix.colIdx[e];
+    }
+  }
+  return {
+    name: matrix.name,
+    shape: [...matrix.shape],
+    indices: [...matrix.indices],
+    coords,
+    values: new Float64Array(matrix.values),
+  };
+}
+
+// ============================================================================
+// JOINS
+// ============================================================================
+
+/**
+ * Working relation during a join: distinct index letters, one column each
+ */
+interface Relation {
+  letters: string;
+  sizes: number[];
+  coords: Int32Array;
+  values: Float64Array;
+}
+
+/**
+ * Accumulates entries by coordinates. Keys are flat positions while they fit
+ * in a double exactly, and strings beyond that.
+ */
+class EntryTable {
+  private positions = new Map<number | string, number>();
+  private coords: number[] = [];
+  private values: number[] = [];
+  private numeric: boolean;
+
+  constructor(private sizes: number[], private boolean: boolean) {
+    this.numeric = sizes.reduce((a, b) => a * b, 1) <= Number.MAX_SAFE_INTEGER;
+  }
+
+  add(coords: ArrayLike<number>, value: number): void {
+    let key: number | string;
+    if (this.numeric) {
+      key = 0;
+      for (let d = 0; d < this.sizes.length; d++) key = key * this.sizes[d] + coords[d];
+    } else {
+      key = Array.prototype.join.call(coords, ',');
+    }
+
+    const existing = this.positions.get(key);
+    if (existing !== undefined) {
+      if (!this.boolean) this.values[existing] += value;
+      return;
+    }
+    this.positions.set(key, this.values.length);
+    for (let d = 0; d < this.sizes.length; d++) this.coords.push(coords[d]);
+    this.values.push(this.boolean ? 1 : value);
+  }
+
+  toRelation(letters: string): Relation {
+    return {
+      letters,
+      sizes: this.sizes,
+      coords: Int32Array.from(this.coords),
+      values: Float64Array.from(this.values),
+    };
+  }
+}
+
+/**
+ * View an operand as a relation over distinct letters, reading the diagonal
+ * for repeated indices (e.g. 'ii') and summing out letters in `drop`
+ */
+function toRelation(tensor: SparseTensor, letters: string, keep: (letter: string) => boolean, boolean: boolean): Relation {
+  const rank = letters.length;
+  const distinct = [...new Set(letters)].filter(keep);
+  const first = distinct.map((l) => letters.indexOf(l));
+  const sizes = first.map((d) => tensor.shape[d]);
+
+  const table = new EntryTable(sizes, boolean);
+  const row = new Array(distinct.length);
+  entries: for (let e = 0; e < tensor.values.length; e++) {
+    for (let d = 0; d < rank; d++) {
+      const firstPos = letters.indexOf(letters[d]);
+      if (tensor.coords[e * rank + d] !== tensor.coords[e * rank + firstPos]) continue entries;
+    }
+    first.forEach((d, k) => { row[k] = tensor.coords[e * rank + d]; });
+    table.add(row, tensor.values[e]);
+  }
+  return table.toRelation(distinct.join(''));
+}
+
+/**
+ * Hash join of two relations on their shared letters, projected onto `keep`
+ */
+function hashJoin(a: Relation, b: Relation, keep: string, boolean: boolean): Relation {
+  const shared = [...a.letters].filter((l) => b.letters.includes(l));
+  const aShared = shared.map((l) => a.letters.indexOf(l));
+  const bShared = shared.map((l) => b.letters.indexOf(l));
+  const ra = a.letters.length;
+  const rb = b.letters.length;
+
+  // Index the right-hand side by its shared coordinates
+  const buckets = new Map<string, number[]>();
+  for (let e = 0; e < b.values.length; e++) {
+    const key = bShared.map((d) => b.coords[e * rb + d]).join(',');
+    const bucket = buckets.get(key);
+    if (bucket) bucket.push(e);
+    else buckets.set(key, [e]);
+  }
+
+  const sources = [...keep].map((l) => {
+    const inA = a.letters.indexOf(l);
+    return inA >= 0 ? { side: 0, d: inA } : { side: 1, d: b.letters.indexOf(l) };
+  });
+  const sizes = sources.map(({ side, d }) => (side === 0 ? a.sizes[d] : b.sizes[d]));
+  const table = new EntryTable(sizes, boolean);
+  const row = new Array(keep.length);
+
+  for (let ea = 0; ea < a.values.length; ea++) {
+    const key = aShared.map((d) => a.coords[ea * ra + d]).join(',');
+    const matches = buckets.get(key);
+    if (!matches) continue;
+    for (const eb of matches) {
+      sources.forEach(({ side, d }, k) => {
+        row[k] = side === 0 ? a.coords[ea * ra + d] : b.coords[eb * rb + d];
+      });
+      table.add(row, a.values[ea] * b.values[eb]);
+    }
+  }
+
+  return table.toRelation(keep);
+}
+
+/**
+ * Row-wise (Gustavson) product of CSR matrices: C[i,k] = Σ_j A[i,j] B[j,k].
+ * With `boolean`, C holds 1 wherever some j joins, as in a logical rule.
+ */
+export function csrMultiply(A: CSRMatrix, B: CSRMatrix, boolean = false): CSRMatrix {
+  if (A.shape[1] !== B.shape[0]) {
+    throw new Error(`Cannot multiply ${A.name} [${A.shape.join(', ')}] by ${B.name} [${B.shape.join(', ')}]`);
+  }
+  const [rows] = A.shape;
+  const cols = B.shape[1];
+  const rowPtr = new Int32Array(rows + 1);
+  const colIdx: number[] = [];
+  const values: number[] = [];
+
+  // Dense accumulator for one row, with a list of the columns touched
+  const accumulator = new Float64Array(cols);
+  const seen = new Int32Array(cols).fill(-1);
+  for (let i = 0; i < rows; i++) {
+    const touched: number[] = [];
+    for (let ea = A.rowPtr[i]; ea < A.rowPtr[i + 1]; ea++) {
+      const j = A.colIdx[ea];
+      const a = A.values[ea];
+      for (let eb = B.rowPtr[j]; eb < B.rowPtr[j + 1]; eb++) {
+        const k = B.colIdx[eb];
+        if (seen[k] !== i) {
+          seen[k] = i;
+          accumulator[k] = 0;
+          touched.push(k);
+        }
+        accumulator[k] += a * B.values[eb];
+      }
+    }
+    touched.sort((x, y) => x - y);
+    for (const k of touched) {
+      if (accumulator[k] === 0) continue;
+      colIdx.push(k);
+      values.push(boolean ? 1 : accumulator[k]);
+    }
+    rowPtr[i + 1] = values.length;
+  }
+
+  return {
+    name: 'result',
+    shape: [rows, cols],
+    indices: [A.indices[0], B.indices[1]],
+    rowPtr,
+    colIdx: Int32Array.from(colIdx),
+    values: Float64Array.from(values),
+  };
+}
+
+function sparseContract(notation: string, operands: SparseTensor[], boolean: boolean): SparseTensor {
+  const { inputs, output } = parseEinsum(notation, operands.map((t) => t.shape));
+
+  const sizes = new Map<string, number>();
+  inputs.forEach((letters, t) => {
+    [...letters].forEach((l, d) => {
+      if (sizes.has(l) && sizes.get(l) !== operands[t].shape[d]) {
+        throw new Error(`Index ${l} has inconsistent sizes`);
+      }
+      sizes.set(l, operands[t].shape[d]);
+    });
+  });
+
+  // Matrix product of two matrices: row-wise join on CSR
+  const [a, b] = inputs;
+  if (inputs.length === 2 && a.length === 2 && b.length === 2 && a[1] === b[0] &&
+      output === a[0] + b[1] && new Set(a + b).size === 3) {
+    return { ...fromCSR(csrMultiply(toCSR(operands[0]), toCSR(operands[1]), boolean)), indices: [...output] };
+  }
+
+  // Letters still needed after operand t: by the output or a later operand
+  const neededAfter = (t: number): Set<string> => new Set([...output, ...inputs.slice(t + 1).join('')]);
+
+  // Sum out letters private to one operand before joining anything
+  const relations = inputs.map((letters, t) => {
+    const elsewhere = new Set([...output, ...inputs.filter((_, u) => u !== t).join('')]);
+    return toRelation(operands[t], letters, (l) => elsewhere.has(l), boolean);
+  });
+
+  let current = relations[0];
+  for (let t = 1; t < relations.length; t++) {
+    const needed = neededAfter(t);
+    const keep = [...new Set(current.letters + relations[t].letters)].filter((l) => needed.has(l)).join('');
+    current = hashJoin(current, relations[t], keep, boolean);
+  }
+
+  // Project and reorder onto the output letters
+  const result = hashJoin(current, { letters: '', sizes: [], coords: new Int32Array(0), values: new Float64Array([1]) }, output, boolean);
+  return coalesce({
+    name: 'result',
+    shape: [...output].map((l) => sizes.get(l)!),
+    indices: [...output],
+    coords: result.coords,
+    values: result.values,
+  });
+}
+
+/**
+ * Einstein summation over sparse operands, evaluated as joins on the shared
+ * indices followed by projection. Same notation and semantics as einsum.
+ */
+export function sparseEinsum(notation: string, ...operands: SparseTensor[]): SparseTensor {
+  return sparseContract(notation, operands, false);
+}
+
+/**
+ * Boolean rule application over sparse relations: threshold(einsum(...)).
+ * Each output fact is recorded once, however many derivations it has.
+ */
+export function sparseBooleanEinsum(notation: string, ...operands: SparseTensor[]): SparseTensor {
+  return sparseContract(notation, operands, true);
+}
@@ -0,0 +1,373 @@
+/**
+ * TRAINING TENSOR LOGIC PROGRAMS
+ *
+ * Learning fits the parameter tensors of a program to data by gradient
+ * descent on a loss:
+ *
+ *   Mean squared error:  Loss = (1/N) Σ_n (Y[n] - Target[n])²
+ *   Cross-entropy:       Loss = -(1/N) Σ_n Σ_t Target[n, t] log(Y[n, t])
+ *
+ * The loss is built on a Tape (autodiff.ts), so its gradient with respect to
+ * every parameter comes from one backward pass. An optimizer then turns the
+ * gradients into updates:
+ * - SGD:       W ← W - η ∇W
+ * - Momentum:  V ← μV + ∇W,  W ← W - ηV
+ * - Adam:      per-parameter step sizes from running gradient moments
+ *
+ * fit() runs the loop: it marks which tensors are parameters, optionally
+ * splits the data into mini-batches along a named index (the "example"
+ * index n above), and applies a learning-rate schedule per epoch.
+ */
+
+import { Tensor, clone } from './core';
+import { Tape, Variable } from './autodiff';
+import { Random, defaultRandom } from './random';
+
+// ============================================================================
+// LOSS FUNCTIONS
+// ============================================================================
+
+/** Number of examples: the size of the first index (1 for a scalar) */
+function exampleCount(t: Tensor): number {
+  return t.shape.length === 0 ? 1 : t.shape[0];
+}
+
+/**
+ * A target must match the prediction index by index: losses pair elements by
+ * position (or broadcast by name), so a transposed or renamed target would be
+ * silently misaligned
+ */
+function checkTarget(loss: string, prediction: Tensor, target: Tensor): void {
+  if (prediction.data.length !== target.data.length) {
+    throw new Error(
+      `${loss}: prediction [${prediction.shape.join(', ')}] and target [${target.shape.join(', ')}] differ in size`
+    );
+  }
+  if (prediction.indices.join(',') !== target.indices.join(',')) {
+    throw new Error(
+      `${loss}: prediction indices [${prediction.indices.join(', ')}] and target indices [${target.indices.join(', ')}] differ`
+    );
+  }
+}
+
+/**
+ * Mean squared error over every element: (1/N) Σ (Y - Target)²
+ */
+export function mseLoss(tape: Tape, prediction: Variable, target: Variable): Variable {
+  checkTarget('mseLoss', prediction.value, target.value);
+  const diff = tape.add(prediction, tape.scale(target, -1));
+  const squared = tape.multiply(diff, diff);
+  const letters = 'abcdefghijklmnopqrstuvwxyz'.slice(0, squared.value.shape.length);
+  return tape.scale(tape.einsum(`${letters}->`, squared), 1 / prediction.value.data.length);
+}
+
+/**
+ * Cross-entropy of predicted probabilities against target probabilities
+ * (usually one-hot), averaged over the examples along the first index:
+ * -(1/N) Σ_n Σ_t Target[n, t] log(Y[n, t])
+ */
+export function crossEntropyLoss(tape: Tape, prediction: Variable, target: Variable): Variable {
+  checkTarget('crossEntropyLoss', prediction.value, target.value);
+  const letters = 'abcdefghijklmnopqrstuvwxyz'.slice(0, prediction.value.shape.length);
+  const total = tape.einsum(`${letters},${letters}->`, target, tape.log(prediction));
+  return tape.scale(total, -1 / exampleCount(prediction.value));
+}
+
+// ============================================================================
+// OPTIMIZERS
+// ============================================================================
+
+/**
+ * Updates parameters in place from their gradients
+ */
+export interface Optimizer {
+  name: string;
+  /** Base learning rate; schedules scale it per epoch */
+  learningRate: number;
+  step(parameters: Map<string, Tensor>, gradients: Map<string, Tensor>, learningRate: number): void;
+}
+
+/**
+ * Plain stochastic gradient descent: W ← W - η ∇W
+ */
+export function createSGD(learningRate = 0.1): Optimizer {
+  return {
+    name: 'SGD',
+    learningRate,
+    step(parameters, gradients, lr) {
+      parameters.forEach((param, name) => {
+        const grad = gradients.get(name)!;
+        for (let i = 0; i < param.data.length; i++) {
+          param.data[i] -= lr * grad.data[i];
+        }
+      });
+    },
+  };
+}
+
+/**
+ * SGD with momentum: V ← μV + ∇W, W ← W - ηV
+ */
+export function createMomentum(learningRate = 0.1, momentum = 0.9): Optimizer {
+  const velocity = new Map<string, Float64Array>();
+
+  return {
+    name: 'Momentum',
+    learningRate,
+    step(parameters, gradients, lr) {
+      parameters.forEach((param, name) => {
+        const grad = gradients.get(name)!;
+        let v = velocity.get(name);
+        if (!v) {
+          v = new Float64Array(param.data.length);
+          velocity.set(name, v);
+        }
+        for (let i = 0; i < param.data.length; i++) {
+          v[i] = momentum * v[i] + grad.data[i];
+          param.data[i] -= lr * v[i];
+        }
+      });
+    },
+  };
+}
+
+/**
+ * Adam (Kingma & Ba, 2015): bias-corrected running averages of the gradient
+ * and its square give each parameter its own step size.
+ */
+export function createAdam(
+  learningRate = 0.01,
+  beta1 = 0.9,
+  beta2 = 0.999,
+  epsilon = 1e-8
+): Optimizer {
+  const m = new Map<string, Float64Array>();
+  const v = new Map<string, Float64Array>();
+  let t = 0;
+
+  return {
+    name: 'Adam',
+    learningRate,
+    step(parameters, gradients, lr) {
+      t++;
+      const correction1 = 1 - Math.pow(beta1, t);
+      const correction2 = 1 - Math.pow(beta2, t);
+
+      parameters.forEach((param, name) => {
+        const grad = gradients.get(name)!;
+        if (!m.has(name)) {
+          m.set(name, new Float64Array(param.data.length));
+          v.set(name, new Float64Array(param.data.length));
+        }
+        const mean = m.get(name)!;
+        const variance = v.get(name)!;
+        for (let i = 0; i < param.data.length; i++) {
+          const g = grad.data[i];
+          mean[i] = beta1 * mean[i] + (1 - beta1) * g;
+          variance[i] = beta2 * variance[i] + (1 - beta2) * g * g;
+          param.data[i] -= (lr * (mean[i] / correction1)) / (Math.sqrt(variance[i] / correction2) + epsilon);
+        }
+      });
+    },
+  };
+}
+
+// ============================================================================
+// LEARNING-RATE SCHEDULES
+// ============================================================================
+
+/**
+ * Learning rate for an epoch (counted from 0), given the optimizer's base rate
+ */
+export type LearningRateSchedule = (epoch: number, baseRate: number) => number;
+
+/** The base rate throughout */
+export const constantSchedule: LearningRateSchedule = (_epoch, baseRate) => baseRate;
+
+/** Multiply the rate by `factor` every `every` epochs */
+export function stepDecay(every: number, factor = 0.5): LearningRateSchedule {
+  return (epoch, baseRate) => baseRate * Math.pow(factor, Math.floor(epoch / every));
+}
+
+/** η_e = η₀ · decayᵉ */
+export function exponentialDecay(decay: number): LearningRateSchedule {
+  return (epoch, baseRate) => baseRate * Math.pow(decay, epoch);
+}
+
+/** Cosine annealing from the base rate down to `minRate` over `epochs` epochs */
+export function cosineAnnealing(epochs: number, minRate = 0): LearningRateSchedule {
+  return (epoch, baseRate) =>
+    minRate + ((baseRate - minRate) * (1 + Math.cos((Math.PI * Math.min(epoch, epochs)) / epochs))) / 2;
+}
+
+// ============================================================================
+// FIT
+// ============================================================================
+
+/**
+ * Builds the loss on a tape from one variable per tensor, keyed by name
+ */
+export type LossBuilder = (tape: Tape, tensors: Record<string, Variable>) => Variable;
+
+/**
+ * Options for fit
+ */
+export interface FitOptions {
+  /** Names of the tensors to learn; every other tensor is held constant */
+  parameters: string[];
+  /** Optimizer (defaults to SGD with learning rate 0.1) */
+  optimizer?: Optimizer;
+  /** Number of passes over the data */
+  epochs?: number;
+  /**
+   * Split the data into mini-batches along a named index. Every non-parameter
+   * tensor with that index is sliced; the others are passed whole.
+   */
+  batch?: { index: string; size: number; shuffle?: boolean };
+  /** Learning-rate schedule (defaults to constant) */
+  schedule?: LearningRateSchedule;
+  /** Called after every epoch with the mean batch loss */
+  onEpoch?: (epoch: number, loss: number) => void;
+  /** Generator for shuffling batches (defaults to defaultRandom()) */
+  rng?: Random;
+}
+
+/**
+ * Result of training
+ */
+export interface FitResult {
+  /** Every tensor, with parameters at their trained values */
+  tensors: Map<string, Tensor>;
+  /** Mean loss per epoch */
+  losses: number[];
+}
+
+/**
+ * Take the entries at `positions` along axis `axis`
+ */
+function selectAlong(tensor: Tensor, axis: number, positions: number[]): Tensor {
+  const inner = tensor.shape.slice(axis + 1).reduce((a, b) => a * b, 1);
+  const outer = tensor.shape.slice(0, axis).reduce((a, b) => a * b, 1);
+  const length = tensor.shape[axis];
+  const data = new Float64Array(outer * positions.length * inner);
+
+  let offset = 0;
+  for (let o = 0; o < outer; o++) {
+    for (const p of positions) {
+      const start = (o * length + p) * inner;
+      data.set(tensor.data.subarray(start, start + inner), offset);
+      offset += inner;
+    }
+  }
+
+  const shape = [...tensor.shape];
+  shape[axis] = positions.length;
+  return { name: tensor.name, shape, indices: [...tensor.indices], data };
+}
+
+/**
+ * Train the parameter tensors to minimise a loss.
+ *
+ * @param tensors - Parameters and data, by name; the input map is not modified
+ * @param loss - Builds the loss from variables for every tensor
+ * @param options - Which tensors are parameters, optimizer, batching, schedule
+ */
+export function fit(
+  tensors: Map<string, Tensor>,
+  loss: LossBuilder,
+  options: FitOptions
+): FitResult {
+  const optimizer = options.optimizer ?? createSGD();
+  const epochs = options.epochs ?? 100;
+  const schedule = options.schedule ?? constantSchedule;
+  const rng = options.rng ?? defaultRandom();
+
+  for (const name of options.parameters) {
+    if (!tensors.has(name)) {
+      throw new Error(`fit: unknown parameter '${name}'`);
+    }
+  }
+  if (!Number.isInteger(epochs) || epochs < 0) {
+    throw new Error(`fit: epochs must be a non-negative integer, got ${epochs}`);
+  }
+  if (options.batch && (!Number.isInteger(options.batch.size) || options.batch.size < 1)) {
+    throw new Error(`fit: batch size must be a positive integer, got ${options.batch.size}`);
+  }
+
+  const parameters = new Map<string, Tensor>();
+  options.parameters.forEach((name) => parameters.set(name, clone(tensors.get(name)!)));
+
+  // Data tensors that carry the batch index, and where
+  const batchAxes = new Map<string, number>();
+  let examples = 1;
+  if (options.batch) {
+    const { index } = options.batch;
+    tensors.forEach((t, name) => {
+      const axis = t.indices.indexOf(index);
+      if (axis < 0 || parameters.has(name)) return;
+      if (batchAxes.size > 0 && t.shape[axis] !== examples) {
+        throw new Error(`fit: tensors disagree on the size of batch index '${index}' (${examples} vs ${t.shape[axis]} in ${name})`);
+      }
+      examples = t.shape[axis];
+      batchAxes.set(name, axis);
+    });
+    if (batchAxes.size === 0) {
+      throw new Error(`fit: no data tensor has the batch index '${options.batch.index}'`);
+    }
+    if (examples === 0) {
+      throw new Error(`fit: batch index '${options.batch.index}' has size 0, so there is nothing to train on`);
+    }
+  }
+
+  const losses: number[] = [];
+  for (let epoch = 0; epoch < epochs; epoch++) {
+    const lr = schedule(epoch, optimizer.learningRate);
+
+    const order = Array.from({ length: examples }, (_, i) => i);
+    if (options.batch?.shuffle) {
+      for (let i = order.length - 1; i > 0; i--) {
+        const j = rng.int(i + 1);
+        [order[i], order[j]] = [order[j], order[i]];
+      }
+    }
+    const batchSize = options.batch ? options.batch.size : examples;
+
+    let total = 0;
+    let batches = 0;
+    for (let start = 0; start < examples; start += batchSize) {
+      const positions = order.slice(start, start + batchSize);
+      const tape = new Tape();
+      const variables: Record<string, Variable> = {};
+      const paramVariables = new Map<string, Variable>();
+
+      tensors.forEach((t, name) => {
+        const param = parameters.get(name);
+        if (param) {
+          const v = tape.variable(param);
+          paramVariables.set(name, v);
+          variables[name] = v;
+        } else {
+          const axis = batchAxes.get(name);
+          variables[name] = tape.constant(axis === undefined ? t : selectAlong(t, axis, positions));
+        }
+      });
+
+      const value = loss(tape, variables);
+      tape.backward(value);
+
+      const gradients = new Map<string, Tensor>();
+      paramVariables.forEach((v, name) => gradients.set(name, tape.gradient(v)));
+      optimizer.step(parameters, gradients, lr);
+
+      total += value.value.data[0];
+      batches++;
+    }
+
+    losses.push(total / batches);
+    options.onEpoch?.(epoch, total / batches);
+  }
+
+  const trained = new Map<string, Tensor>();
+  tensors.forEach((t, name) => trained.set(name, parameters.get(name) ?? t));
+  return { tensors: trained, losses };
+}
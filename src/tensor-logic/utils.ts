@@ -14,6 +14,8 @@ import { Tensor, createTensor } from './core';
  * Example: Add bias vector to each batch element
  *   result[b, h] = tensor[b, h] + bias[h]
  * 
+ * For operands with named indices, add in core.ts broadcasts over any rank.
+ * 
  * @param tensor - The tensor to add to (shape [..., dim])
  * @param bias - The 1D tensor to broadcast (shape [dim])
  * @param dimIndex - Which dimension index to broadcast along (default: last)
@@ -112,6 +114,8 @@ export function broadcastMultiply(
  * Example: Extract layer L from embeddings
  *   result[n, d] = tensor[n, l=L, d]
  * 
+ * slice in shape.ts takes ranges and strides along any number of indices.
+ * 
  * @param tensor - The tensor to slice
  * @param dimIndex - Which dimension to slice
  * @param sliceIndex - Which slice to extract